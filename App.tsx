@@ -1,24 +1,29 @@
-import React, { Suspense, useState, useEffect } from 'react';
-import { Routes, Route, useNavigate, useParams } from 'react-router-dom';
-import { ReviewList } from './components/ReviewList';
+import React, { Suspense, useState, useEffect, useMemo } from 'react';
+import { Routes, Route, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ReviewList, ReviewFocus } from './components/ReviewList';
 import { DashboardHome } from './components/DashboardHome';
 import { TypeDashboard } from './components/TypeDashboard';
-import { RawReviewData } from './types';
+import { ComparisonMode, RawReviewData, TimeFilter } from './types';
+import { TIME_FILTER_OPTIONS } from './constants';
 import { fetchDataset } from './services/api';
 import { HomePage } from './pages/HomePage';
 import { useComparisonData } from './hooks/useComparisonData';
+import { LanguageSwitch } from './components/LanguageSwitch';
+import { PeriodDiffCard } from './components/PeriodDiffCard';
+import { useI18n } from './i18n';
 
-const DiningPage = React.lazy(() => import('./pages/DiningPage').then(module => ({ default: module.DiningPage })));
-const RetailPage = React.lazy(() => import('./pages/RetailPage').then(module => ({ default: module.RetailPage })));
-const SupermarketPage = React.lazy(() => import('./pages/SupermarketPage').then(module => ({ default: module.SupermarketPage })));
+const ConceptPage = React.lazy(() => import('./pages/ConceptPage').then(module => ({ default: module.ConceptPage })));
+const VenueAdminPage = React.lazy(() => import('./pages/VenueAdminPage').then(module => ({ default: module.VenueAdminPage })));
+const AlertsPage = React.lazy(() => import('./pages/AlertsPage').then(module => ({ default: module.AlertsPage })));
 
 const App: React.FC = () => {
   const { loading, error, apiReady } = useComparisonData();
+  const { t } = useI18n();
 
   if (loading) {
     return (
       <div className="min-h-screen bg-[#f8fafc] flex items-center justify-center p-4 safe-area-padding">
-        <div className="text-slate-500 font-medium text-sm sm:text-base">Loading data...</div>
+        <div className="text-slate-500 font-medium text-sm sm:text-base">{t('app.loadingData')}</div>
       </div>
     );
   }
@@ -26,50 +31,53 @@ const App: React.FC = () => {
   return (
     <div className="min-h-screen bg-[#f8fafc] p-2 sm:p-3 md:p-4 lg:p-5 pb-8 safe-area-padding">
       <div className="max-w-[1440px] mx-auto space-y-3 sm:space-y-4">
+        <div className="flex justify-end">
+          <LanguageSwitch />
+        </div>
         <Routes>
           <Route
             path="/"
             element={<HomePage error={error} apiReady={apiReady} />}
           />
           <Route
-            path="/dining"
+            path="/admin/venues"
             element={
               <Suspense fallback={
                 <div className="min-h-screen bg-[#f8fafc] flex items-center justify-center p-4 safe-area-padding">
-                  <div className="text-slate-500 font-medium text-sm sm:text-base">Loading...</div>
+                  <div className="text-slate-500 font-medium text-sm sm:text-base">{t('app.loading')}</div>
                 </div>
               }>
-                <DiningPage />
+                <VenueAdminPage />
               </Suspense>
             }
           />
           <Route
-            path="/retail"
+            path="/alerts"
             element={
               <Suspense fallback={
                 <div className="min-h-screen bg-[#f8fafc] flex items-center justify-center p-4 safe-area-padding">
-                  <div className="text-slate-500 font-medium text-sm sm:text-base">Loading...</div>
+                  <div className="text-slate-500 font-medium text-sm sm:text-base">{t('app.loading')}</div>
                 </div>
               }>
-                <RetailPage />
+                <AlertsPage />
               </Suspense>
             }
           />
+          <Route path="/dashboard" element={<DashboardHome />} />
+          <Route path="/dashboard/:type" element={<TypeDashboard />} />
+          <Route path="/reviews/:resortId" element={<ReviewsPage />} />
           <Route
-            path="/supermarket"
+            path="/:conceptSlug"
             element={
               <Suspense fallback={
                 <div className="min-h-screen bg-[#f8fafc] flex items-center justify-center p-4 safe-area-padding">
-                  <div className="text-slate-500 font-medium text-sm sm:text-base">Loading...</div>
+                  <div className="text-slate-500 font-medium text-sm sm:text-base">{t('app.loading')}</div>
                 </div>
               }>
-                <SupermarketPage />
+                <ConceptPage />
               </Suspense>
             }
           />
-          <Route path="/dashboard" element={<DashboardHome />} />
-          <Route path="/dashboard/:type" element={<TypeDashboard />} />
-          <Route path="/reviews/:resortId" element={<ReviewsPage />} />
         </Routes>
       </div>
     </div>
@@ -80,9 +88,20 @@ const App: React.FC = () => {
 function ReviewsPage() {
   const { resortId } = useParams<{ resortId: string }>();
   const navigate = useNavigate();
+  const { t } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Set by evidence links in the comparison table: ?point=…&ids=r1,r2&q=quote&q=quote
+  // (the dashboard's top topics link with ?term=…, see ReviewList)
+  const focus = useMemo<ReviewFocus | null>(() => {
+    const ids = searchParams.get('ids');
+    if (!ids) return null;
+    return { label: searchParams.get('point') || '', reviewIds: ids.split(','), quotes: searchParams.getAll('q') };
+  }, [searchParams]);
   const [reviewData, setReviewData] = useState<RawReviewData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [diffMode, setDiffMode] = useState<ComparisonMode>('month');
+  const [diffTimeFilter, setDiffTimeFilter] = useState<TimeFilter>('1');
 
   useEffect(() => {
     if (!resortId) return;
@@ -96,7 +115,7 @@ function ReviewsPage() {
         }
       } catch (e) {
         if (!cancelled) {
-          setError(e instanceof Error ? e.message : 'Failed to load reviews');
+          setError(e instanceof Error ? e.message : t('reviewsPage.loadFailed'));
         }
       } finally {
         if (!cancelled) setLoading(false);
@@ -108,25 +127,63 @@ function ReviewsPage() {
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
-        <div className="text-slate-500 font-medium text-sm">Loading reviews...</div>
+        <div className="text-slate-500 font-medium text-sm">{t('reviewsPage.loading')}</div>
       </div>
     );
   }
   if (error || !reviewData) {
     return (
       <div className="flex flex-col items-center justify-center gap-3 py-12">
-        <p className="text-rose-600 font-medium text-sm">{error || 'Resort not found'}</p>
+        <p className="text-rose-600 font-medium text-sm">{error || t('reviewsPage.notFound')}</p>
         <button
           type="button"
           onClick={() => navigate('/')}
           className="text-emerald-600 hover:text-emerald-700 font-semibold text-sm"
         >
-          Back to dashboard
+          {t('reviewsPage.back')}
         </button>
       </div>
     );
   }
-  return <ReviewList reviewData={reviewData} onBack={() => navigate('/')} />;
+  return (
+    <>
+      <PeriodDiffCard
+        venueId={reviewData.id}
+        mode={diffMode}
+        timeFilter={diffTimeFilter}
+        toolbar={
+          <>
+            <select
+              value={diffMode}
+              onChange={(e) => setDiffMode(e.target.value as ComparisonMode)}
+              className="bg-gray-50 border-2 border-gray-300 rounded-md px-2 py-1 text-xs font-semibold text-gray-700 outline-none"
+            >
+              <option value="month">{t('dashboard.modeMonth')}</option>
+              <option value="week">{t('dashboard.modeWeek')}</option>
+            </select>
+            {diffMode === 'month' && (
+              <select
+                value={diffTimeFilter}
+                onChange={(e) => setDiffTimeFilter(e.target.value as TimeFilter)}
+                className="bg-gray-50 border-2 border-gray-300 rounded-md px-2 py-1 text-xs font-semibold text-gray-700 outline-none"
+              >
+                {TIME_FILTER_OPTIONS.filter((o) => o.value !== 'all').map(({ value, labelKey }) => (
+                  <option key={value} value={value}>{t(labelKey)}</option>
+                ))}
+              </select>
+            )}
+          </>
+        }
+      />
+      <ReviewList
+        reviewData={reviewData}
+        onBack={() => navigate('/')}
+        focus={focus}
+        onClearFocus={() => setSearchParams({})}
+        initialTerm={searchParams.get('term')}
+      />
+    </>
+  );
 }
 
 export default App;
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Activity } from 'lucide-react';
+import { Anomaly } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+
+interface AnomalyBadgeProps {
+  anomalies?: Anomaly[];
+  className?: string;
+}
+
+/** Recent anomalies of a venue (see server/anomalies.js): count, colored by the worst one; details on hover. */
+export const AnomalyBadge: React.FC<AnomalyBadgeProps> = ({ anomalies, className = '' }) => {
+  const { t } = useI18n();
+  if (!anomalies?.length) return null;
+  const critical = anomalies.some((a) => a.severity === 'critical');
+  const describe = (a: Anomaly) =>
+    t(`anomaly.${a.kind}` as MessageKey, {
+      value: a.value,
+      baseline: a.baseline,
+      date: a.startDate === a.endDate ? a.date : `${a.startDate} – ${a.endDate}`,
+    });
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-[10px] font-semibold border px-1.5 py-0.5 rounded ml-1.5 align-middle ${
+        critical ? 'text-rose-700 bg-rose-50 border-rose-200' : 'text-amber-700 bg-amber-50 border-amber-200'
+      } ${className}`}
+      title={anomalies.map(describe).join('\n')}
+    >
+      <Activity size={10} />
+      {t('anomaly.badge', { count: anomalies.length })}
+    </span>
+  );
+};
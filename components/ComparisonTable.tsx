@@ -1,26 +1,41 @@
 import React, { useState, useMemo } from 'react';
 import { Link } from 'react-router-dom';
-import { ComparisonRow, CategoryAnalysis, TimeFilter, RawReviewData } from '../types';
-import { TIME_FILTER_OPTIONS } from '../constants';
+import { AnalysisCoverage, AnalysisFailure, Anomaly, AnalysisJob, AnalysisJobItem, AnalysisLanguage, ComparisonRow, CategoryAnalysis, CategoryDefinition, TimeFilter, RawReviewData, ReviewFlag } from '../types';
+import { ANALYSIS_LANGUAGES, TIME_FILTER_OPTIONS } from '../constants';
 import { getReviewCount, getAverageRatingFromRaw } from '../utils/reviewStats';
-import { PlusCircle, MinusCircle, RefreshCw, Calendar, Info, List } from 'lucide-react';
+import { getCategory, getEvidenceLink, getKeyTakeaway } from '../utils/comparisonRow';
+import { MessageKey, useI18n } from '../i18n';
+import { AnomalyBadge } from './AnomalyBadge';
+import { PlusCircle, MinusCircle, RefreshCw, Calendar, Info, List, Database, Clock, CheckCircle2, XCircle, AlertTriangle, Languages } from 'lucide-react';
 
 interface Props {
   data: ComparisonRow[];
   title: string;
-  variant?: 'restaurant' | 'retail' | 'supermarket';
+  /** Analysis categories (columns) from the concept definition. */
+  categories: CategoryDefinition[];
   rawDatasets: RawReviewData[];
-  onAnalyze: (filter: TimeFilter) => void;
+  /**
+   * `force` bypasses the server's analysis cache; `language` is the output language of the analysis;
+   * `excludeFlagged` leaves out the reviews in `reviewFlags`.
+   */
+  onAnalyze: (filter: TimeFilter, force: boolean, language: AnalysisLanguage, excludeFlagged: boolean) => void;
   isAnalyzing: boolean;
-  onAnalyzeItem?: (rowId: string, filter: TimeFilter) => void;
+  /** Latest server-side analysis job of this table's group, for per-row progress. */
+  job?: AnalysisJob | null;
+  /** Last analysis failure per row id, shown instead of a silent blank row. */
+  failures?: Record<string, AnalysisFailure>;
+  /** Recent anomalies per row id (rating drops, review spikes), shown as a badge. */
+  anomalies?: Record<string, Anomaly[]>;
+  /** Suspicious reviews per row id (see /api/review-flags), which can be left out of ratings and analysis. */
+  reviewFlags?: Record<string, ReviewFlag[]>;
+  onAnalyzeItem?: (rowId: string, filter: TimeFilter, force: boolean, language: AnalysisLanguage, excludeFlagged: boolean) => void;
   analyzingItemId?: string | null;
 }
 
-const emptyLabel = 'Không có dữ liệu để phân tích';
-
 const MAX_POINTS_VISIBLE = 3;
 
-const CategoryPoints: React.FC<{ category: CategoryAnalysis; compact?: boolean }> = ({ category, compact }) => {
+const CategoryPoints: React.FC<{ rowId: string; category: CategoryAnalysis; compact?: boolean }> = ({ rowId, category, compact }) => {
+  const { t } = useI18n();
   const points = category?.points ?? [];
   const hasContent = points.length > 0;
 
@@ -28,7 +43,7 @@ const CategoryPoints: React.FC<{ category: CategoryAnalysis; compact?: boolean }
     return (
       <div className="flex items-center gap-1.5 text-gray-400">
         <Info size={compact ? 12 : 14} className="opacity-40 shrink-0" />
-        <span className={`font-medium italic opacity-60 ${compact ? 'text-[11px]' : 'text-xs'}`}>{emptyLabel}</span>
+        <span className={`font-medium italic opacity-60 ${compact ? 'text-[11px]' : 'text-xs'}`}>{t('table.noData')}</span>
       </div>
     );
   }
@@ -37,7 +52,9 @@ const CategoryPoints: React.FC<{ category: CategoryAnalysis; compact?: boolean }
 
   return (
     <div className="flex flex-col gap-1 sm:gap-1.5">
-      {visiblePoints.map((point, idx) => (
+      {visiblePoints.map((point, idx) => {
+        const evidenceLink = getEvidenceLink(rowId, point);
+        return (
         <div key={idx} className="flex items-start gap-2 sm:gap-2.5">
           <span className="mt-0.5 shrink-0">
             {point.type === 'positive' ? (
@@ -47,61 +64,153 @@ const CategoryPoints: React.FC<{ category: CategoryAnalysis; compact?: boolean }
             )}
           </span>
           <span className={`leading-relaxed font-medium ${compact ? 'text-xs' : 'text-[13px]'} ${point.type === 'positive' ? 'text-[#065f46]' : 'text-[#991b1b]'}`}>
-            {point.text}
+            {evidenceLink ? (
+              <Link to={evidenceLink} className="hover:underline decoration-dotted underline-offset-2" title={t('table.evidenceLink')}>
+                {point.text}
+              </Link>
+            ) : (
+              point.text
+            )}
+            {point.mentions ? (
+              <span className="ml-1 text-[10px] font-semibold text-gray-400 tabular-nums">({point.mentions})</span>
+            ) : null}
           </span>
         </div>
-      ))}
+        );
+      })}
     </div>
   );
 };
 
-const CategoryCell: React.FC<{ category: CategoryAnalysis }> = ({ category }) => {
+/** Shown when the last analysis was answered from the server's analysis cache (same reviews, model and prompt). */
+const CacheBadge: React.FC<{ row: ComparisonRow }> = ({ row }) => {
+  const { t } = useI18n();
+  if (!row.fromCache) return null;
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-[10px] font-semibold text-sky-700 bg-sky-50 border border-sky-100 px-1.5 py-0.5 rounded ml-1.5 align-middle"
+      title={t('table.cachedHint')}
+    >
+      <Database size={10} />
+      {t('table.cached')}
+    </span>
+  );
+};
+
+/** Per-row job status while the group job runs. Failures are shown by FailureBadge. */
+const JobStatusBadge: React.FC<{ item?: AnalysisJobItem; jobRunning: boolean }> = ({ item, jobRunning }) => {
+  const { t } = useI18n();
+  if (!item || item.status === 'failed') return null;
+  if (!jobRunning) return null;
+  const styles = {
+    queued: { icon: <Clock size={10} />, label: t('table.jobQueued'), className: 'text-gray-600 bg-gray-50 border-gray-200' },
+    running: { icon: <RefreshCw size={10} className="animate-spin" />, label: t('table.jobRunning'), className: 'text-amber-700 bg-amber-50 border-amber-100' },
+    done: { icon: <CheckCircle2 size={10} />, label: t('table.jobDone'), className: 'text-emerald-700 bg-emerald-50 border-emerald-100' },
+  }[item.status];
+  return (
+    <span className={`inline-flex items-center gap-1 text-[10px] font-semibold border px-1.5 py-0.5 rounded ml-1.5 align-middle ${styles.className}`}>
+      {styles.icon}
+      {styles.label}
+    </span>
+  );
+};
+
+/** The stored result needed repairs or still has problems (English summary, missing category, …); details on hover. */
+const ValidationBadge: React.FC<{ row: ComparisonRow }> = ({ row }) => {
+  const warnings = row.validationWarnings ?? [];
+  if (warnings.length === 0) return null;
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-[10px] font-semibold text-amber-700 bg-amber-50 border border-amber-100 px-1.5 py-0.5 rounded ml-1.5 align-middle"
+      title={warnings.join('\n')}
+    >
+      <AlertTriangle size={10} />
+      {warnings.length}
+    </span>
+  );
+};
+
+/** Why the last analysis of a row failed (quota, timeout, source down, …); the full message is on hover. */
+const FailureBadge: React.FC<{ failure?: AnalysisFailure }> = ({ failure }) => {
+  const { t } = useI18n();
+  if (!failure) return null;
+  return (
+    <span
+      className="flex items-center gap-1 text-[11px] font-semibold text-rose-700 bg-rose-50 border border-rose-100 px-1.5 py-0.5 rounded mt-1 w-fit"
+      title={failure.message}
+    >
+      <XCircle size={11} className="shrink-0" />
+      {t(`analysisError.${failure.kind}` as MessageKey)}
+    </span>
+  );
+};
+
+/** Shown when the last analysis only covered part of the dataset (very large venues are capped). */
+const CoverageNote: React.FC<{ coverage?: AnalysisCoverage }> = ({ coverage }) => {
+  const { t } = useI18n();
+  if (!coverage || coverage.reviewsAnalyzed >= coverage.reviewsTotal) return null;
+  return (
+    <span
+      className="block text-[10px] font-medium text-amber-600"
+      title={t('table.coverageHint', { analyzed: coverage.reviewsAnalyzed, total: coverage.reviewsTotal, chunks: coverage.chunks })}
+    >
+      {t('table.coverage', { analyzed: coverage.reviewsAnalyzed, total: coverage.reviewsTotal })}
+    </span>
+  );
+};
+
+const CategoryCell: React.FC<{ rowId: string; category: CategoryAnalysis }> = ({ rowId, category }) => {
   const hasContent = (category?.points?.length ?? 0) > 0;
   return (
     <td className={`p-2 sm:p-3 align-top border-r border-gray-200 ${!hasContent ? 'bg-gray-50/30' : ''}`}>
-      <CategoryPoints category={category} />
+      <CategoryPoints rowId={rowId} category={category} />
     </td>
   );
 };
 
-export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'restaurant', rawDatasets, onAnalyze, isAnalyzing, onAnalyzeItem, analyzingItemId }) => {
+export const ComparisonTable: React.FC<Props> = ({ data, title, categories, rawDatasets, onAnalyze, isAnalyzing, job, failures, anomalies, reviewFlags, onAnalyzeItem, analyzingItemId }) => {
+  const { language, t } = useI18n();
   const [localFilter, setLocalFilter] = useState<TimeFilter>('1');
+  const [forceReanalyze, setForceReanalyze] = useState(false);
+  const [excludeFlagged, setExcludeFlagged] = useState(false);
+  // Defaults to the UI language; VI + EN stores the summaries in both
+  const [outputLanguage, setOutputLanguage] = useState<AnalysisLanguage>(language);
 
   // Memoize review counts and ratings for each row to avoid recalculating on every render
   const rowStats = useMemo(() => {
     const stats = new Map<string, { totalReviews: number; displayRating: number }>();
     data.forEach((row) => {
+      const excluded = excludeFlagged ? new Set<string>((reviewFlags?.[row.id] ?? []).map((flag) => flag.reviewId)) : undefined;
       stats.set(row.id, {
-        totalReviews: getReviewCount(row.id, rawDatasets, localFilter),
-        displayRating: getAverageRatingFromRaw(row.id, rawDatasets, localFilter),
+        totalReviews: getReviewCount(row.id, rawDatasets, localFilter, excluded),
+        displayRating: getAverageRatingFromRaw(row.id, rawDatasets, localFilter, excluded),
       });
     });
     return stats;
-  }, [data, rawDatasets, localFilter]);
+  }, [data, rawDatasets, localFilter, excludeFlagged, reviewFlags]);
+  const flaggedCount = useMemo(
+    () => data.reduce((sum, row) => sum + (reviewFlags?.[row.id]?.length ?? 0), 0),
+    [data, reviewFlags]
+  );
 
-  let headers = {
-    location: "Location",
-    totalReviews: "Total review",
-    service: "Service",
-    food: "Food",
-    value: "Value",
-    atmosphere: "Atmosphere",
-    rating: "Overall Rating"
+  const jobItems = useMemo(() => new Map((job?.items ?? []).map((item) => [item.venueId, item])), [job]);
+  const jobRunning = job?.status === 'running';
+  const jobFinishedCount = job ? job.items.filter((i) => i.status === 'done' || i.status === 'failed').length : 0;
+  // With a job, only rows still waiting or running are dimmed
+  const isRowBusy = (rowId: string) => {
+    if (analyzingItemId === rowId) return true;
+    const item = jobItems.get(rowId);
+    return item ? jobRunning && (item.status === 'queued' || item.status === 'running') : isAnalyzing;
   };
 
-  if (variant === 'retail') {
-    headers = {
-      ...headers,
-      food: "Products",
-      atmosphere: "Store Space"
-    };
-  } else if (variant === 'supermarket') {
-    headers = {
-      ...headers,
-      food: "Products / Services",
-      atmosphere: "Space & Facilities"
-    };
-  }
+  const headers = {
+    location: t('table.location'),
+    totalReviews: t('table.totalReviews'),
+    rating: t('table.overallRating'),
+  };
+
+  // Location, review count and rating columns take 30%; categories share the rest
+  const categoryWidth = `${(70 / Math.max(categories.length, 1)).toFixed(1)}%`;
 
   return (
     <div className="w-full bg-white rounded-lg shadow-sm border-2 border-gray-300 overflow-hidden mb-6 sm:mb-10">
@@ -116,13 +225,55 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
               onChange={(e) => setLocalFilter(e.target.value as TimeFilter)}
               className="bg-transparent text-sm sm:text-xs font-bold text-gray-700 outline-none pr-6 appearance-none cursor-pointer w-full touch-manipulation"
             >
-              {TIME_FILTER_OPTIONS.map(({ value, label }) => (
-                <option key={value} value={value}>{label}</option>
+              {TIME_FILTER_OPTIONS.map(({ value, labelKey }) => (
+                <option key={value} value={value}>{t(labelKey)}</option>
+              ))}
+            </select>
+          </div>
+          <div
+            className="relative flex items-center bg-gray-50 border-2 border-gray-300 rounded-md px-3 py-2.5 sm:py-1.5 focus-within:ring-2 focus-within:ring-emerald-500 focus-within:border-emerald-500 transition-all min-h-[44px] sm:min-h-0"
+            title={t('outputLanguage.label')}
+          >
+            <Languages size={16} className="text-gray-400 mr-2 shrink-0" />
+            <select
+              value={outputLanguage}
+              onChange={(e) => setOutputLanguage(e.target.value as AnalysisLanguage)}
+              aria-label={t('outputLanguage.label')}
+              className="bg-transparent text-sm sm:text-xs font-bold text-gray-700 outline-none pr-6 appearance-none cursor-pointer w-full touch-manipulation"
+            >
+              {ANALYSIS_LANGUAGES.map((value) => (
+                <option key={value} value={value}>{t(`outputLanguage.${value}`)}</option>
               ))}
             </select>
           </div>
+          <label
+            className="flex items-center gap-2 text-xs font-semibold text-gray-600 cursor-pointer select-none min-h-[44px] sm:min-h-0 touch-manipulation"
+            title={t('table.forceReanalyzeHint')}
+          >
+            <input
+              type="checkbox"
+              checked={forceReanalyze}
+              onChange={(e) => setForceReanalyze(e.target.checked)}
+              className="accent-emerald-600"
+            />
+            {t('table.forceReanalyze')}
+          </label>
+          {flaggedCount > 0 && (
+            <label
+              className="flex items-center gap-2 text-xs font-semibold text-gray-600 cursor-pointer select-none min-h-[44px] sm:min-h-0 touch-manipulation"
+              title={t('integrity.excludeHint')}
+            >
+              <input
+                type="checkbox"
+                checked={excludeFlagged}
+                onChange={(e) => setExcludeFlagged(e.target.checked)}
+                className="accent-emerald-600"
+              />
+              {t('integrity.exclude', { count: flaggedCount })}
+            </label>
+          )}
           <button
-            onClick={() => onAnalyze(localFilter)}
+            onClick={() => onAnalyze(localFilter, forceReanalyze, outputLanguage, excludeFlagged)}
             disabled={isAnalyzing || !!analyzingItemId}
             className={`flex items-center justify-center gap-2 px-4 py-3 sm:py-2.5 min-h-[44px] sm:min-h-0 rounded-md text-sm font-bold transition-all whitespace-nowrap touch-manipulation active:scale-[0.98]
               ${isAnalyzing || analyzingItemId
@@ -131,7 +282,9 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
               }`}
           >
             <RefreshCw size={16} className={isAnalyzing ? 'animate-spin shrink-0' : 'shrink-0'} />
-            {isAnalyzing ? 'Analyzing...' : 'Analyze Table'}
+            {isAnalyzing
+              ? (jobRunning ? t('table.analyzingProgress', { done: jobFinishedCount, total: job!.items.length }) : t('table.analyzing'))
+              : t('table.analyzeTable')}
           </button>
         </div>
       </div>
@@ -141,18 +294,29 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
         {data.map((row) => {
           const stats = rowStats.get(row.id) ?? { totalReviews: 0, displayRating: 0 };
           const { totalReviews, displayRating } = stats;
+          const keyTakeaway = getKeyTakeaway(row, language);
           return (
           <div key={row.id} className="p-3 relative">
-            {(isAnalyzing || analyzingItemId === row.id) && <div className="absolute inset-0 bg-white/60 backdrop-blur-[2px] animate-pulse pointer-events-none z-[1] rounded-b-lg" />}
+            {isRowBusy(row.id) && <div className="absolute inset-0 bg-white/60 backdrop-blur-[2px] animate-pulse pointer-events-none z-[1] rounded-b-lg" />}
             <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
               <div>
-                <h3 className="font-bold text-[15px] text-gray-900 pr-2">{row.location}</h3>
-                {row.keyTakeaway?.trim() && (
-                  <p className="text-xs text-gray-600 mt-0.5 font-medium">{row.keyTakeaway.trim()}</p>
+                <h3 className="font-bold text-[15px] text-gray-900 pr-2">
+                  {row.location}
+                  <CacheBadge row={row} />
+                  <ValidationBadge row={row} />
+                  <JobStatusBadge item={jobItems.get(row.id)} jobRunning={jobRunning} />
+                  <AnomalyBadge anomalies={anomalies?.[row.id]} />
+                </h3>
+                <FailureBadge failure={failures?.[row.id]} />
+                {keyTakeaway && (
+                  <p className="text-xs text-gray-600 mt-0.5 font-medium">{keyTakeaway}</p>
                 )}
               </div>
               <div className="flex items-center gap-2 shrink-0">
-                <span className="text-xs text-gray-600 tabular-nums">{totalReviews} review</span>
+                <span className="text-xs text-gray-600 tabular-nums text-right">
+                  {t('table.reviewCount', { count: totalReviews })}
+                  <CoverageNote coverage={row.coverage} />
+                </span>
                 <span className="text-emerald-600 font-black text-lg tabular-nums">{displayRating.toFixed(1)}</span>
               </div>
             </div>
@@ -162,12 +326,12 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
                 className="flex items-center gap-1.5 text-xs font-semibold text-emerald-600 bg-emerald-50 hover:bg-emerald-100 px-3 py-2 rounded-md w-full sm:w-auto justify-center min-h-[44px] touch-manipulation"
               >
                 <List size={14} />
-                View Reviews
+                {t('table.viewReviews')}
               </Link>
               {onAnalyzeItem && (
                 <button
                   type="button"
-                  onClick={() => onAnalyzeItem(row.id, localFilter)}
+                  onClick={() => onAnalyzeItem(row.id, localFilter, forceReanalyze, outputLanguage, excludeFlagged)}
                   disabled={isAnalyzing || !!analyzingItemId}
                   className={`flex items-center gap-1.5 text-xs font-semibold min-h-[44px] px-3 py-2 rounded-md touch-manipulation transition-all
                     ${isAnalyzing || analyzingItemId
@@ -176,27 +340,17 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
                     }`}
                 >
                   <RefreshCw size={14} className={analyzingItemId === row.id ? 'animate-spin shrink-0' : 'shrink-0'} />
-                  {analyzingItemId === row.id ? 'Analyzing...' : 'Analyze'}
+                  {analyzingItemId === row.id ? t('table.analyzing') : t('table.analyze')}
                 </button>
               )}
             </div>
             <div className="grid grid-cols-1 gap-3 text-sm">
-              <div>
-                <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-1">{headers.service}</p>
-                <CategoryPoints category={row.service} compact />
-              </div>
-              <div>
-                <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-1">{headers.food}</p>
-                <CategoryPoints category={row.food} compact />
-              </div>
-              <div>
-                <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-1">{headers.value}</p>
-                <CategoryPoints category={row.value} compact />
-              </div>
-              <div>
-                <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-1">{headers.atmosphere}</p>
-                <CategoryPoints category={row.atmosphere} compact />
-              </div>
+              {categories.map((category) => (
+                <div key={category.key}>
+                  <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-1">{category.label}</p>
+                  <CategoryPoints rowId={row.id} category={getCategory(row, category.key)} compact />
+                </div>
+              ))}
             </div>
           </div>
         );
@@ -205,15 +359,20 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
 
       {/* Desktop: table */}
       <div className="hidden md:block overflow-x-auto overflow-y-visible" style={{ WebkitOverflowScrolling: 'touch' }}>
-        <table className="w-full min-w-[900px] lg:min-w-[1100px] border-collapse">
+        <table className="w-full border-collapse" style={{ minWidth: `${500 + categories.length * 150}px` }}>
           <thead>
             <tr className="bg-white border-b border-gray-200">
               <th className="p-2 sm:p-3 lg:p-4 text-left text-[11px] lg:text-[12px] font-bold text-gray-500 uppercase tracking-wider w-[16%]">{headers.location}</th>
               <th className="p-2 sm:p-3 lg:p-4 text-right text-[11px] lg:text-[12px] font-bold text-gray-500 uppercase tracking-wider w-[8%]">{headers.totalReviews}</th>
-              <th className="p-2 sm:p-3 lg:p-4 text-left text-[11px] lg:text-[12px] font-bold text-gray-500 uppercase tracking-wider w-[19%]">{headers.service}</th>
-              <th className="p-2 sm:p-3 lg:p-4 text-left text-[11px] lg:text-[12px] font-bold text-gray-500 uppercase tracking-wider w-[19%]">{headers.food}</th>
-              <th className="p-2 sm:p-3 lg:p-4 text-left text-[11px] lg:text-[12px] font-bold text-gray-500 uppercase tracking-wider w-[16%]">{headers.value}</th>
-              <th className="p-2 sm:p-3 lg:p-4 text-left text-[11px] lg:text-[12px] font-bold text-gray-500 uppercase tracking-wider w-[16%]">{headers.atmosphere}</th>
+              {categories.map((category) => (
+                <th
+                  key={category.key}
+                  className="p-2 sm:p-3 lg:p-4 text-left text-[11px] lg:text-[12px] font-bold text-gray-500 uppercase tracking-wider"
+                  style={{ width: categoryWidth }}
+                >
+                  {category.label}
+                </th>
+              ))}
               <th className="p-2 sm:p-3 lg:p-4 text-center text-[11px] lg:text-[12px] font-bold text-gray-500 uppercase tracking-wider w-[6%]">{headers.rating}</th>
             </tr>
           </thead>
@@ -221,15 +380,21 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
             {data.map((row) => {
               const stats = rowStats.get(row.id) ?? { totalReviews: 0, displayRating: 0 };
               const { totalReviews, displayRating } = stats;
+              const keyTakeaway = getKeyTakeaway(row, language);
               return (
               <tr key={row.id} className="border-b border-gray-200 hover:bg-[#fbfcfb] transition-colors group">
                 <td className="p-3 lg:p-4 align-top font-bold text-[14px] lg:text-[15px] text-[#111827] relative">
-                  {(isAnalyzing || analyzingItemId === row.id) && <div className="absolute inset-0 bg-white/40 backdrop-blur-[1px] animate-pulse pointer-events-none" />}
+                  {isRowBusy(row.id) && <div className="absolute inset-0 bg-white/40 backdrop-blur-[1px] animate-pulse pointer-events-none" />}
                   <div className="flex flex-col gap-2">
                     <div>
                       <span className="group-hover:text-emerald-700 transition-colors">{row.location}</span>
-                      {row.keyTakeaway?.trim() && (
-                        <p className="text-[11px] text-gray-600 mt-0.5 font-medium">{row.keyTakeaway.trim()}</p>
+                      <CacheBadge row={row} />
+                      <ValidationBadge row={row} />
+                      <JobStatusBadge item={jobItems.get(row.id)} jobRunning={jobRunning} />
+                      <AnomalyBadge anomalies={anomalies?.[row.id]} />
+                      <FailureBadge failure={failures?.[row.id]} />
+                      {keyTakeaway && (
+                        <p className="text-[11px] text-gray-600 mt-0.5 font-medium">{keyTakeaway}</p>
                       )}
                     </div>
                     <div className="flex flex-wrap items-center gap-2">
@@ -238,12 +403,12 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
                         className="text-[11px] font-semibold text-emerald-600 hover:text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-2 py-1.5 rounded-md w-fit transition-colors flex items-center gap-1 min-h-[36px] touch-manipulation"
                       >
                         <List size={12} />
-                        View Reviews
+                        {t('table.viewReviews')}
                       </Link>
                       {onAnalyzeItem && (
                         <button
                           type="button"
-                          onClick={() => onAnalyzeItem(row.id, localFilter)}
+                          onClick={() => onAnalyzeItem(row.id, localFilter, forceReanalyze, outputLanguage, excludeFlagged)}
                           disabled={isAnalyzing || !!analyzingItemId}
                           className={`text-[11px] font-semibold px-2 py-1.5 rounded-md w-fit transition-colors flex items-center gap-1 min-h-[36px] touch-manipulation
                             ${isAnalyzing || analyzingItemId
@@ -252,7 +417,7 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
                             }`}
                         >
                           <RefreshCw size={12} className={analyzingItemId === row.id ? 'animate-spin shrink-0' : 'shrink-0'} />
-                          {analyzingItemId === row.id ? 'Analyzing...' : 'Analyze'}
+                          {analyzingItemId === row.id ? t('table.analyzing') : t('table.analyze')}
                         </button>
                       )}
                     </div>
@@ -260,11 +425,11 @@ export const ComparisonTable: React.FC<Props> = ({ data, title, variant = 'resta
                 </td>
                 <td className="p-3 lg:p-4 align-top text-right tabular-nums text-gray-700 font-medium">
                   {totalReviews}
+                  <CoverageNote coverage={row.coverage} />
                 </td>
-                <CategoryCell category={row.service} />
-                <CategoryCell category={row.food} />
-                <CategoryCell category={row.value} />
-                <CategoryCell category={row.atmosphere} />
+                {categories.map((category) => (
+                  <CategoryCell key={category.key} rowId={row.id} category={getCategory(row, category.key)} />
+                ))}
                 <td className="p-3 lg:p-4 align-top text-center">
                   <span className="text-[#10b981] font-black text-lg lg:text-xl tabular-nums">{displayRating.toFixed(1)}</span>
                 </td>
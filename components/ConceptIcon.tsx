@@ -0,0 +1,33 @@
+import React from 'react';
+import {
+  UtensilsCrossed,
+  ShoppingBag,
+  Store,
+  Hotel,
+  Sparkles,
+  Coffee,
+  Dumbbell,
+  Film,
+  Building2,
+  LayoutGrid,
+  LucideProps,
+} from 'lucide-react';
+
+/** Icons a concept may name in its `icon` field. Unknown names fall back to LayoutGrid. */
+const CONCEPT_ICONS: Record<string, React.ComponentType<LucideProps>> = {
+  UtensilsCrossed,
+  ShoppingBag,
+  Store,
+  Hotel,
+  Sparkles,
+  Coffee,
+  Dumbbell,
+  Film,
+  Building2,
+  LayoutGrid,
+};
+
+export const ConceptIcon: React.FC<{ name: string } & LucideProps> = ({ name, ...props }) => {
+  const Icon = CONCEPT_ICONS[name] ?? LayoutGrid;
+  return <Icon {...props} />;
+};
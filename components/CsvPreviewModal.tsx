@@ -2,6 +2,7 @@
 import React, { useMemo } from 'react';
 import { X, FileText, Check, AlertCircle } from 'lucide-react';
 import { parseReviews } from '../utils/csvParser';
+import { useI18n } from '../i18n';
 
 interface Props {
   isOpen: boolean;
@@ -13,6 +14,7 @@ interface Props {
 }
 
 export const CsvPreviewModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, fileName, csvContent, targetItemName }) => {
+  const { t } = useI18n();
   if (!isOpen) return null;
 
   const previewRows = useMemo(() => {
@@ -33,14 +35,14 @@ export const CsvPreviewModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, f
               <FileText size={20} />
             </div>
             <div className="min-w-0">
-              <h3 className="text-base sm:text-lg font-bold text-gray-900">Import CSV Preview</h3>
+              <h3 className="text-base sm:text-lg font-bold text-gray-900">{t('csvPreview.title')}</h3>
               <p className="text-xs sm:text-sm text-gray-500 truncate">
                 {targetItemName ? (
-                  <>Gộp thêm review mới vào <span className="font-semibold text-gray-700">{targetItemName}</span> • {fileName}</>
+                  <>{t('csvPreview.mergeInto')} <span className="font-semibold text-gray-700">{targetItemName}</span> • {fileName}</>
                 ) : (
-                  <>Thêm venue mới • {fileName}</>
+                  <>{t('csvPreview.newVenue')} • {fileName}</>
                 )}
-                {' • '}~{totalRows > 0 ? totalRows : 0} records
+                {' • '}{t('csvPreview.records', { count: totalRows > 0 ? totalRows : 0 })}
               </p>
             </div>
           </div>
@@ -59,10 +61,10 @@ export const CsvPreviewModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, f
               <table className="w-full min-w-[320px] text-xs sm:text-sm text-left">
                 <thead className="bg-gray-50 text-gray-600 font-semibold border-b border-gray-200">
                   <tr>
-                    <th className="px-3 sm:px-4 py-2.5 sm:py-3">Author</th>
-                    <th className="px-3 sm:px-4 py-2.5 sm:py-3 whitespace-nowrap">Rating</th>
-                    <th className="px-3 sm:px-4 py-2.5 sm:py-3 whitespace-nowrap">Date</th>
-                    <th className="px-3 sm:px-4 py-2.5 sm:py-3 min-w-[120px] sm:min-w-[180px]">Content</th>
+                    <th className="px-3 sm:px-4 py-2.5 sm:py-3">{t('csvPreview.author')}</th>
+                    <th className="px-3 sm:px-4 py-2.5 sm:py-3 whitespace-nowrap">{t('csvPreview.rating')}</th>
+                    <th className="px-3 sm:px-4 py-2.5 sm:py-3 whitespace-nowrap">{t('csvPreview.date')}</th>
+                    <th className="px-3 sm:px-4 py-2.5 sm:py-3 min-w-[120px] sm:min-w-[180px]">{t('csvPreview.content')}</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-100">
@@ -73,7 +75,7 @@ export const CsvPreviewModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, f
                         <td className="px-3 sm:px-4 py-2.5 sm:py-3 text-emerald-600 font-bold whitespace-nowrap">{row.rating} ★</td>
                         <td className="px-3 sm:px-4 py-2.5 sm:py-3 text-gray-500 whitespace-nowrap">{row.date}</td>
                         <td className="px-3 sm:px-4 py-2.5 sm:py-3 text-gray-600 line-clamp-2 sm:truncate max-w-[140px] sm:max-w-[300px]" title={row.content || undefined}>
-                          {row.content || <span className="italic text-gray-300">No content</span>}
+                          {row.content || <span className="italic text-gray-300">{t('csvPreview.noContent')}</span>}
                         </td>
                       </tr>
                     ))
@@ -82,7 +84,7 @@ export const CsvPreviewModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, f
                       <td colSpan={4} className="px-4 py-8 text-center text-gray-400">
                         <div className="flex flex-col items-center gap-2">
                           <AlertCircle size={24} />
-                          <span className="text-sm">No valid data found or empty CSV.</span>
+                          <span className="text-sm">{t('csvPreview.empty')}</span>
                         </div>
                       </td>
                     </tr>
@@ -92,13 +94,16 @@ export const CsvPreviewModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, f
             </div>
             {totalRows > 5 && (
               <div className="px-3 sm:px-4 py-2 bg-gray-50 border-t border-gray-200 text-xs text-center text-gray-500 italic">
-                ...and {totalRows - 5} more rows
+                {t('csvPreview.moreRows', { count: totalRows - 5 })}
               </div>
             )}
           </div>
           <div className="mt-4 p-3 bg-blue-50 text-blue-700 text-xs sm:text-sm rounded-md border-2 border-blue-200 flex items-start gap-2">
             <AlertCircle size={16} className="mt-0.5 shrink-0" />
-            <p>{targetItemName ? 'Dữ liệu cũ được giữ nguyên. Chỉ thêm các review mới (trùng lặp sẽ bỏ qua). ' : ''}Hỗ trợ: <strong>author/commented_at/content/rating</strong> hoặc <strong>Reviewer/Time/Comment/Rating</strong>.</p>
+            <p>
+              {targetItemName ? t('csvPreview.mergeNote') : ''}
+              {t('csvPreview.supported')} <strong>author/commented_at/content/rating</strong> {t('csvPreview.or')} <strong>Reviewer/Time/Comment/Rating</strong>.
+            </p>
           </div>
         </div>
 
@@ -108,7 +113,7 @@ export const CsvPreviewModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, f
             onClick={onClose}
             className="w-full sm:w-auto px-4 py-3 sm:py-2 min-h-[44px] text-sm font-semibold text-gray-600 hover:bg-gray-100 rounded-md transition-colors touch-manipulation"
           >
-            Cancel
+            {t('csvPreview.cancel')}
           </button>
           <button
             onClick={onConfirm}
@@ -116,7 +121,7 @@ export const CsvPreviewModal: React.FC<Props> = ({ isOpen, onClose, onConfirm, f
             className="w-full sm:w-auto flex items-center justify-center gap-2 px-5 py-3 sm:py-2 min-h-[44px] text-sm font-bold text-white bg-emerald-600 hover:bg-emerald-700 rounded-md shadow-sm transition-all active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
           >
             <Check size={16} />
-            Confirm Import
+            {t('csvPreview.confirm')}
           </button>
         </div>
       </div>
@@ -1,15 +1,18 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { BrainCircuit, UtensilsCrossed, ShoppingBag, Store } from 'lucide-react';
-
-const DASHBOARD_TYPES = [
-  { slug: 'dining', label: 'Dining & Venues', description: 'Restaurants and venue analysis', icon: UtensilsCrossed },
-  { slug: 'retail', label: 'Retail Stores', description: 'Retail stores performance', icon: ShoppingBag },
-  { slug: 'supermarket', label: 'Hypermarkets & Entertainment', description: 'Hypermarkets and entertainment', icon: Store },
-] as const;
+import { Activity, BrainCircuit } from 'lucide-react';
+import { ConceptIcon } from './ConceptIcon';
+import { UsageView } from './UsageView';
+import { useConcepts } from '../hooks/useConcepts';
+import { useAnomalies } from '../hooks/useAnomalies';
+import { useI18n } from '../i18n';
 
 export const DashboardHome: React.FC = () => {
   const navigate = useNavigate();
+  const { t } = useI18n();
+  const { concepts } = useConcepts();
+  const { venues } = useAnomalies();
+  const flaggedVenues = (slug: string) => venues.filter((v) => v.concept === slug && v.anomalies.length > 0).length;
 
   return (
     <div className="space-y-3 sm:space-y-4">
@@ -19,8 +22,8 @@ export const DashboardHome: React.FC = () => {
             <BrainCircuit className="text-white w-6 h-6 sm:w-7 sm:h-7" />
           </div>
           <div className="min-w-0">
-            <h1 className="text-xl sm:text-2xl font-black text-slate-900 tracking-tight">Dashboard</h1>
-            <p className="text-slate-500 text-xs sm:text-sm font-medium mt-0.5">Chọn loại hình để xem tổng quan</p>
+            <h1 className="text-xl sm:text-2xl font-black text-slate-900 tracking-tight">{t('nav.dashboard')}</h1>
+            <p className="text-slate-500 text-xs sm:text-sm font-medium mt-0.5">{t('dashboard.subtitle')}</p>
           </div>
         </div>
         <button
@@ -28,12 +31,14 @@ export const DashboardHome: React.FC = () => {
           onClick={() => navigate('/')}
           className="text-sm font-semibold text-slate-600 hover:text-slate-900 hover:bg-slate-100 px-3 py-2 rounded-md border-2 border-gray-200 transition-colors self-center sm:self-auto"
         >
-          Về trang chủ
+          {t('dashboard.backHome')}
         </button>
       </header>
 
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
-        {DASHBOARD_TYPES.map(({ slug, label, description, icon: Icon }) => (
+        {concepts.map(({ slug, label, description, icon }) => {
+          const flagged = flaggedVenues(slug);
+          return (
           <Link
             key={slug}
             to={`/dashboard/${slug}`}
@@ -41,16 +46,25 @@ export const DashboardHome: React.FC = () => {
           >
             <div className="flex items-start gap-3">
               <div className="p-2 bg-emerald-50 text-emerald-600 rounded-md shrink-0 group-hover:bg-emerald-100 transition-colors">
-                <Icon size={20} />
+                <ConceptIcon name={icon} size={20} />
               </div>
               <div className="min-w-0 flex-1">
                 <h2 className="font-bold text-gray-900 text-base sm:text-lg group-hover:text-emerald-700 transition-colors">{label}</h2>
                 <p className="text-xs sm:text-sm text-gray-500 mt-0.5">{description}</p>
+                {flagged > 0 && (
+                  <span className="inline-flex items-center gap-1 text-[10px] font-semibold text-amber-700 bg-amber-50 border border-amber-200 px-1.5 py-0.5 rounded mt-1.5">
+                    <Activity size={10} />
+                    {t('anomaly.venues', { count: flagged })}
+                  </span>
+                )}
               </div>
             </div>
           </Link>
-        ))}
+          );
+        })}
       </div>
+
+      <UsageView concepts={concepts} />
     </div>
   );
 };
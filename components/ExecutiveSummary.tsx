@@ -0,0 +1,148 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, RefreshCw, Sparkles, Trophy, TrendingDown, ListChecks } from 'lucide-react';
+import { AnalysisRequestError, fetchGroupNarrative, generateGroupNarrative } from '../services/api';
+import { CategoryDefinition, GroupNarrative } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+
+interface ExecutiveSummaryProps {
+  concept: string;
+  categories: CategoryDefinition[];
+}
+
+/** Competitive narrative of a concept group, in the UI language; generated on demand. */
+export const ExecutiveSummary: React.FC<ExecutiveSummaryProps> = ({ concept, categories }) => {
+  const { language, t } = useI18n();
+  const [narrative, setNarrative] = useState<GroupNarrative | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchGroupNarrative(concept, language)
+      .then((stored) => {
+        if (!cancelled) setNarrative(stored);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [concept, language]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      // An existing narrative is regenerated on purpose; the first one may still come from the server cache
+      setNarrative(await generateGroupNarrative(concept, language, narrative !== null));
+    } catch (e) {
+      if (e instanceof AnalysisRequestError && e.kind !== 'unknown') {
+        setError(`${t(`analysisError.${e.kind}` as MessageKey)}: ${e.message}`);
+      } else {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const categoryLabel = (key: string) => categories.find((c) => c.key === key)?.label ?? key;
+
+  return (
+    <div className="bg-white rounded-lg border-2 border-gray-300 overflow-hidden">
+      <div className="flex items-center justify-between gap-2 p-3 border-b border-gray-200">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+          <Sparkles size={14} className="text-emerald-600" /> {t('narrative.title')}
+        </h3>
+        <button
+          type="button"
+          onClick={handleGenerate}
+          disabled={generating || loading}
+          className="inline-flex items-center gap-1.5 text-xs font-semibold text-emerald-600 hover:text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-2.5 py-1.5 rounded-md disabled:opacity-50"
+        >
+          {generating ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+          {generating ? t('narrative.generating') : narrative ? t('narrative.regenerate') : t('narrative.generate')}
+        </button>
+      </div>
+
+      <div className="p-3 space-y-3">
+        {error && <p className="text-rose-600 text-xs font-medium">{error}</p>}
+        {loading ? (
+          <p className="text-slate-500 text-sm">{t('narrative.loading')}</p>
+        ) : !narrative ? (
+          <p className="text-gray-500 text-sm">{t('narrative.empty')}</p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-800 leading-relaxed">{narrative.summary}</p>
+
+            <div className="flex flex-wrap gap-1.5">
+              {narrative.ranking.map((entry) => (
+                <span
+                  key={entry.venueId}
+                  className={`text-[11px] font-semibold px-2 py-0.5 rounded-md border ${entry.competitor ? 'border-slate-200 bg-slate-50 text-slate-600' : 'border-emerald-200 bg-emerald-50 text-emerald-700'}`}
+                  title={entry.competitor ? t('narrative.competitor') : undefined}
+                >
+                  #{entry.rank} {entry.name} · {entry.overallRating > 0 ? entry.overallRating.toFixed(1) : '—'}
+                </span>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-3">
+              <section>
+                <h4 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-1.5 flex items-center gap-1">
+                  <Trophy size={12} className="text-amber-600" /> {t('narrative.leaders')}
+                </h4>
+                <ul className="space-y-1.5 text-xs">
+                  {narrative.leaders.map((leader) => (
+                    <li key={leader.category}>
+                      <span className="font-semibold text-gray-900">{categoryLabel(leader.category)}:</span>{' '}
+                      <span className="text-emerald-700 font-semibold">{leader.name}</span>
+                      <span className="text-gray-600"> — {leader.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+              <section>
+                <h4 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-1.5 flex items-center gap-1">
+                  <TrendingDown size={12} className="text-rose-600" /> {t('narrative.gaps')}
+                </h4>
+                {narrative.gaps.length > 0 ? (
+                  <ul className="space-y-1.5 text-xs">
+                    {narrative.gaps.map((gap) => (
+                      <li key={`${gap.venueId}-${gap.category}`}>
+                        <span className="font-semibold text-gray-900">{gap.name}</span>
+                        <span className="text-gray-500"> · {categoryLabel(gap.category)}</span>
+                        <p className="text-gray-600">{gap.text}</p>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-xs text-gray-500">{t('narrative.noGaps')}</p>
+                )}
+              </section>
+              <section>
+                <h4 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-1.5 flex items-center gap-1">
+                  <ListChecks size={12} className="text-blue-600" /> {t('narrative.actions')}
+                </h4>
+                <ol className="space-y-1.5 text-xs list-decimal list-inside text-gray-800">
+                  {narrative.actions.map((action, i) => (
+                    <li key={i}>{action}</li>
+                  ))}
+                </ol>
+              </section>
+            </div>
+
+            <p className="text-[11px] text-gray-400">
+              {t('narrative.meta', { date: new Date(narrative.generatedAt).toLocaleString(language), model: narrative.model, count: narrative.venueCount })}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { OUTPUT_LANGUAGES } from '../constants';
+import { useI18n } from '../i18n';
+
+/** UI language toggle; the choice is remembered in the browser. */
+export const LanguageSwitch: React.FC = () => {
+  const { language, setLanguage, t } = useI18n();
+  return (
+    <div className="flex items-center gap-1.5" title={t('language.label')}>
+      <Languages size={14} className="text-slate-400" />
+      <div className="inline-flex rounded-md border-2 border-gray-300 p-0.5 bg-white" role="group" aria-label={t('language.label')}>
+        {OUTPUT_LANGUAGES.map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setLanguage(value)}
+            aria-pressed={language === value}
+            className={`px-2 py-0.5 text-[11px] font-bold rounded transition-colors ${language === value ? 'bg-emerald-600 text-white' : 'text-gray-600 hover:text-gray-900'}`}
+          >
+            {value.toUpperCase()}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
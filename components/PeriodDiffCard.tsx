@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { GitCompare, Loader2, RefreshCw } from 'lucide-react';
+import { AnalysisRequestError, fetchPeriodDiff } from '../services/api';
+import { ComparisonMode, PeriodDiff, PeriodDiffPoint, TimeFilter } from '../types';
+import { getEvidenceLink } from '../utils/comparisonRow';
+import { MessageKey, useI18n } from '../i18n';
+
+interface PeriodDiffCardProps {
+  venueId: string;
+  mode: ComparisonMode;
+  timeFilter: TimeFilter;
+  /** Extra controls in the card header (e.g. a venue select). */
+  toolbar?: React.ReactNode;
+}
+
+const SECTIONS = [
+  { key: 'new', labelKey: 'periodDiff.new', marker: '+', className: 'text-rose-700 bg-rose-50 border-rose-200' },
+  { key: 'persisting', labelKey: 'periodDiff.persisting', marker: '=', className: 'text-amber-700 bg-amber-50 border-amber-200' },
+  { key: 'resolved', labelKey: 'periodDiff.resolved', marker: '−', className: 'text-emerald-700 bg-emerald-50 border-emerald-200 line-through decoration-emerald-400' },
+] as const;
+
+/** Diff-style card of how a venue's complaints moved between two periods; both periods are analyzed on demand. */
+export const PeriodDiffCard: React.FC<PeriodDiffCardProps> = ({ venueId, mode, timeFilter, toolbar }) => {
+  const { language, t } = useI18n();
+  const [diff, setDiff] = useState<PeriodDiff | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A diff belongs to one venue, mode, period and language
+  useEffect(() => {
+    setDiff(null);
+    setError(null);
+  }, [venueId, mode, timeFilter, language]);
+
+  const canCompare = mode === 'week' || timeFilter !== 'all';
+  const previousLabel = mode === 'week' ? t('dashboard.lastWeek') : t('dashboard.previousPeriod');
+  const currentLabel = mode === 'week' ? t('dashboard.thisWeek') : t('dashboard.currentPeriod');
+
+  const handleCompare = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      setDiff(await fetchPeriodDiff(venueId, mode, timeFilter, language, diff !== null));
+    } catch (e) {
+      if (e instanceof AnalysisRequestError && e.kind !== 'unknown') {
+        setError(`${t(`analysisError.${e.kind}` as MessageKey)}: ${e.message}`);
+      } else {
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const mentionsText = (point: PeriodDiffPoint) => {
+    if (point.previousMentions && point.mentions) {
+      return t('periodDiff.mentionsChange', { previous: point.previousMentions, current: point.mentions });
+    }
+    return point.mentions ? t('periodDiff.mentions', { count: point.mentions }) : '';
+  };
+
+  const categories = diff?.categories.filter((c) => c.new.length + c.resolved.length + c.persisting.length > 0) ?? [];
+
+  return (
+    <div className="bg-white rounded-lg border-2 border-gray-300 overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2 p-3 border-b border-gray-200">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+          <GitCompare size={14} className="text-emerald-600" /> {t('periodDiff.title')}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2">
+          {toolbar}
+          <button
+            type="button"
+            onClick={handleCompare}
+            disabled={running || !canCompare}
+            className="inline-flex items-center gap-1.5 text-xs font-semibold text-emerald-600 hover:text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-2.5 py-1.5 rounded-md disabled:opacity-50"
+          >
+            {running ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+            {running ? t('periodDiff.comparing') : diff ? t('periodDiff.recompare') : t('periodDiff.compare')}
+          </button>
+        </div>
+      </div>
+
+      <div className="p-3 space-y-3">
+        {error && <p className="text-rose-600 text-xs font-medium">{error}</p>}
+        {!canCompare ? (
+          <p className="text-gray-500 text-sm">{t('periodDiff.needPeriod')}</p>
+        ) : !diff ? (
+          <p className="text-gray-500 text-sm">{t('periodDiff.hint')}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+              <span>{t('periodDiff.period', { label: previousLabel, count: diff.previous.reviewCount, rating: diff.previous.overallRating.toFixed(1) })}</span>
+              <span>{t('periodDiff.period', { label: currentLabel, count: diff.current.reviewCount, rating: diff.current.overallRating.toFixed(1) })}</span>
+            </div>
+            {categories.length === 0 ? (
+              <p className="text-gray-500 text-sm">{t('periodDiff.noChanges')}</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                {categories.map((category) => (
+                  <section key={category.key} className="border border-gray-200 rounded-md p-2">
+                    <h4 className="text-[11px] font-bold text-gray-700 uppercase tracking-wider mb-1.5">{category.label}</h4>
+                    <div className="space-y-1.5">
+                      {SECTIONS.map(({ key, labelKey, marker, className }) =>
+                        category[key].length === 0 ? null : (
+                          <div key={key}>
+                            <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{t(labelKey)}</p>
+                            <ul className="font-mono text-[12px] space-y-0.5">
+                              {category[key].map((point, i) => {
+                                // Evidence of resolved complaints comes from the previous period, which the review list shows too
+                                const link = getEvidenceLink(diff.venueId, point);
+                                return (
+                                  <li key={i} className={`flex gap-1.5 border rounded px-1.5 py-0.5 ${className}`}>
+                                    <span className="font-bold shrink-0">{marker}</span>
+                                    <span className="flex-1 font-sans">
+                                      {link ? <Link to={link} className="hover:underline decoration-dotted underline-offset-2">{point.text}</Link> : point.text}
+                                    </span>
+                                    <span className="shrink-0 tabular-nums opacity-70">{mentionsText(point)}</span>
+                                  </li>
+                                );
+                              })}
+                            </ul>
+                          </div>
+                        )
+                      )}
+                    </div>
+                  </section>
+                ))}
+              </div>
+            )}
+            <p className="text-[11px] text-gray-400">
+              {t('periodDiff.meta', { date: new Date(diff.generatedAt).toLocaleString(language), model: diff.model })}
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { LineChart as LineChartIcon } from 'lucide-react';
+import { ComparisonMode, ComparisonRow, RawReviewData } from '../types';
+import { buildRatingTrend, TrendPoint } from '../utils/ratingTrend';
+import { useI18n } from '../i18n';
+
+interface RatingTrendChartProps {
+  /** Venues of the concept; all of them make up the concept average. */
+  rows: ComparisonRow[];
+  rawDatasets: RawReviewData[];
+}
+
+/** Line colors of the overlaid venues, in selection order. */
+const VENUE_COLORS = ['#059669', '#0ea5e9', '#f59e0b', '#8b5cf6', '#ef4444', '#14b8a6', '#ec4899', '#64748b'];
+/** Venues shown when the chart opens. */
+const DEFAULT_SELECTED = 3;
+const BASELINE_COLOR = '#94a3b8';
+
+/** Weekly or monthly average rating and review volume over the full history, per venue, against the concept average. */
+export const RatingTrendChart: React.FC<RatingTrendChartProps> = ({ rows, rawDatasets }) => {
+  const { language, t } = useI18n();
+  const [granularity, setGranularity] = useState<ComparisonMode>('month');
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const rowIds = rows.map((r) => r.id).join('|');
+  useEffect(() => {
+    setSelected(rows.slice(0, DEFAULT_SELECTED).map((r) => r.id));
+  }, [rowIds]);
+
+  const points = useMemo(
+    () =>
+      buildRatingTrend(
+        rows.map((r) => ({ id: r.id, csvContent: rawDatasets.find((d) => d.id === r.id)?.csvContent ?? '' })),
+        granularity
+      ),
+    [rows, rawDatasets, granularity]
+  );
+
+  const toggleVenue = (id: string) =>
+    setSelected((current) => (current.includes(id) ? current.filter((v) => v !== id) : [...current, id]));
+  const colorOf = (id: string) => VENUE_COLORS[selected.indexOf(id) % VENUE_COLORS.length];
+  const nameOf = (id: string) => rows.find((r) => r.id === id)?.location ?? id;
+
+  const formatPeriod = (period: string) => {
+    const [y, m, d] = period.split('-').map(Number);
+    const date = new Date(y, m - 1, d);
+    return granularity === 'month'
+      ? date.toLocaleDateString(language, { month: 'short', year: 'numeric' })
+      : date.toLocaleDateString(language, { day: 'numeric', month: 'short', year: '2-digit' });
+  };
+
+  const renderChart = (metric: 'rating' | 'reviews') => (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={points} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+        <XAxis dataKey="period" tickFormatter={formatPeriod} tick={{ fontSize: 10 }} minTickGap={16} />
+        <YAxis
+          tick={{ fontSize: 10 }}
+          width={32}
+          domain={metric === 'rating' ? [1, 5] : [0, 'auto']}
+          allowDecimals={metric === 'rating'}
+        />
+        <Tooltip
+          labelFormatter={(period) => formatPeriod(String(period))}
+          formatter={(value) => (typeof value === 'number' ? (metric === 'rating' ? value.toFixed(2) : Number(value.toFixed(1))) : value)}
+          contentStyle={{ fontSize: 11 }}
+        />
+        <Line
+          dataKey={(p: TrendPoint) => (metric === 'rating' ? p.conceptRating : p.conceptReviews)}
+          name={t('dashboard.trendConceptAverage')}
+          stroke={BASELINE_COLOR}
+          strokeDasharray="5 4"
+          strokeWidth={2}
+          dot={false}
+          connectNulls
+          isAnimationActive={false}
+        />
+        {selected.map((id) => (
+          <Line
+            key={id}
+            dataKey={(p: TrendPoint) => (metric === 'rating' ? p.ratings[id] ?? null : p.reviews[id])}
+            name={nameOf(id)}
+            stroke={colorOf(id)}
+            strokeWidth={2}
+            dot={points.length <= 24 ? { r: 2 } : false}
+            connectNulls
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+
+  return (
+    <div className="bg-white rounded-lg border-2 border-gray-300 overflow-hidden">
+      <div className="flex flex-wrap items-center justify-between gap-2 p-3 border-b border-gray-200">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+          <LineChartIcon size={14} className="text-emerald-600" /> {t('dashboard.trendTitle')}
+        </h3>
+        <div className="inline-flex rounded-md border-2 border-gray-300 p-0.5 bg-gray-50" role="group">
+          {(['week', 'month'] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setGranularity(value)}
+              className={`px-3 py-1 text-xs font-bold rounded transition-colors ${granularity === value ? 'bg-white text-emerald-700 shadow border border-gray-200' : 'text-gray-600 hover:text-gray-900'}`}
+            >
+              {value === 'week' ? t('dashboard.trendWeekly') : t('dashboard.trendMonthly')}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1.5 px-3 pt-3">
+        {rows.map((row) => {
+          const active = selected.includes(row.id);
+          return (
+            <button
+              key={row.id}
+              type="button"
+              onClick={() => toggleVenue(row.id)}
+              aria-pressed={active}
+              className={`inline-flex items-center gap-1.5 text-[11px] font-semibold px-2 py-1 rounded-md border-2 transition-colors ${
+                active ? 'border-gray-300 text-gray-800 bg-white' : 'border-gray-100 text-gray-400 bg-gray-50 hover:text-gray-600'
+              }`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: active ? colorOf(row.id) : '#e5e7eb' }} />
+              {row.location}
+            </button>
+          );
+        })}
+        <span className="inline-flex items-center gap-1.5 text-[11px] font-semibold text-gray-500 px-2 py-1">
+          <span className="w-4 border-t-2 border-dashed" style={{ borderColor: BASELINE_COLOR }} />
+          {t('dashboard.trendConceptAverage')}
+        </span>
+      </div>
+      {points.length === 0 ? (
+        <div className="flex items-center justify-center h-[120px] text-gray-400 text-sm">{t('dashboard.noData')}</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-4 p-3">
+          <div>
+            <p className="text-[11px] font-semibold text-gray-500 mb-1">{t('dashboard.trendRating')}</p>
+            <div className="h-[240px] min-w-0">{renderChart('rating')}</div>
+          </div>
+          <div>
+            <p className="text-[11px] font-semibold text-gray-500 mb-1">{t('dashboard.trendReviews')}</p>
+            <div className="h-[240px] min-w-0">{renderChart('reviews')}</div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
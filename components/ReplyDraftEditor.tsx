@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, Loader2, RefreshCw, Reply, Save, X } from 'lucide-react';
+import { AnalysisRequestError, generateReplyDraft, saveReplyDraft } from '../services/api';
+import { ReplyDraft } from '../types';
+import { MessageKey, useI18n } from '../i18n';
+
+interface ReplyDraftEditorProps {
+  venueId: string;
+  reviewId: string;
+  /** Saved draft of this review, if any. */
+  draft?: ReplyDraft;
+  onChange: (draft: ReplyDraft) => void;
+}
+
+/** "Draft reply" action of one review: drafts an owner reply, then lets it be edited, saved and copied. */
+export const ReplyDraftEditor: React.FC<ReplyDraftEditorProps> = ({ venueId, reviewId, draft, onChange }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState(draft?.text ?? '');
+  const [busy, setBusy] = useState<'generating' | 'saving' | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(draft?.text ?? '');
+  }, [draft?.text]);
+
+  const showError = (e: unknown) => {
+    if (e instanceof AnalysisRequestError && e.kind !== 'unknown') {
+      setError(`${t(`analysisError.${e.kind}` as MessageKey)}: ${e.message}`);
+    } else {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const generate = async (force: boolean) => {
+    setBusy('generating');
+    setError(null);
+    try {
+      onChange(await generateReplyDraft(venueId, reviewId, force));
+    } catch (e) {
+      showError(e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleOpen = () => {
+    setOpen(true);
+    if (!draft) generate(false);
+  };
+
+  const handleSave = async () => {
+    setBusy('saving');
+    setError(null);
+    try {
+      onChange(await saveReplyDraft(venueId, reviewId, text));
+    } catch (e) {
+      showError(e);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      showError(e);
+    }
+  };
+
+  const buttonClass =
+    'inline-flex items-center gap-1.5 text-xs font-semibold px-2.5 py-1.5 rounded-md disabled:opacity-50 touch-manipulation';
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={handleOpen}
+        className={`${buttonClass} text-emerald-600 hover:text-emerald-700 bg-emerald-50 hover:bg-emerald-100`}
+      >
+        <Reply size={12} />
+        {draft ? t('reply.open') : t('reply.draft')}
+      </button>
+    );
+  }
+
+  const unsaved = draft !== undefined && text.trim() !== draft.text;
+
+  return (
+    <div className="w-full mt-1 border-2 border-emerald-100 bg-emerald-50/40 rounded-md p-2.5 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+          <Reply size={12} className="text-emerald-600" /> {t('reply.title')}
+          {draft?.edited && <span className="normal-case font-medium text-gray-400">· {t('reply.edited')}</span>}
+        </p>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="p-1 text-gray-400 hover:text-gray-700 rounded"
+          aria-label={t('reply.close')}
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {busy === 'generating' && !draft ? (
+        <p className="text-xs text-gray-500 flex items-center gap-1.5">
+          <Loader2 size={12} className="animate-spin" /> {t('reply.generating')}
+        </p>
+      ) : (
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={5}
+          disabled={!draft || busy !== null}
+          className="w-full text-xs sm:text-sm text-gray-700 bg-white border-2 border-gray-200 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500 disabled:opacity-60"
+        />
+      )}
+
+      {error && <p className="text-rose-600 text-xs font-medium">{error}</p>}
+
+      {draft && (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={busy !== null || !unsaved || !text.trim()}
+            className={`${buttonClass} text-white bg-emerald-600 hover:bg-emerald-700`}
+          >
+            {busy === 'saving' ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+            {unsaved ? t('reply.save') : t('reply.saved')}
+          </button>
+          <button
+            type="button"
+            onClick={handleCopy}
+            disabled={!text.trim()}
+            className={`${buttonClass} text-gray-700 bg-white border border-gray-200 hover:bg-gray-50`}
+          >
+            {copied ? <Check size={12} className="text-emerald-600" /> : <Copy size={12} />}
+            {copied ? t('reply.copied') : t('reply.copy')}
+          </button>
+          <button
+            type="button"
+            onClick={() => generate(true)}
+            disabled={busy !== null}
+            className={`${buttonClass} text-gray-700 bg-white border border-gray-200 hover:bg-gray-50`}
+          >
+            {busy === 'generating' ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+            {t('reply.regenerate')}
+          </button>
+          <span className="text-[10px] text-gray-400 ml-auto">{draft.model}</span>
+        </div>
+      )}
+    </div>
+  );
+};
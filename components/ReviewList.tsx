@@ -1,21 +1,87 @@
 
-import React, { useMemo, useState } from 'react';
-import { RawReviewData, TimeFilter } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import { RawReviewData, ReplyDraft, Review, TimeFilter } from '../types';
 import { LAST_WEEK_FILTER_VALUE, TIME_FILTER_OPTIONS } from '../constants';
 import { parseReviews } from '../utils/csvParser';
 import { parseDate } from '../utils/csvFilter';
-import { ArrowLeft, Star, Calendar, MessageSquare } from 'lucide-react';
+import { getReviewId } from '../utils/reviewId';
+import { findFolded } from '../utils/textNormalize';
+import { extractTopics, reviewHasTerm } from '../utils/textAnalytics';
+import { fetchReplyDrafts } from '../services/api';
+import { useReviewFlags } from '../hooks/useReviewFlags';
+import { useI18n } from '../i18n';
+import { ArrowLeft, Star, Calendar, MessageSquare, Quote, Hash, X } from 'lucide-react';
+import { ReplyDraftEditor } from './ReplyDraftEditor';
+import { SuspiciousReviewBadge } from './SuspiciousReviewBadge';
+import { TopTopics } from './TopTopics';
+
+/** Restricts the list to the reviews cited for one SentimentPoint (opened from the comparison table). */
+export interface ReviewFocus {
+  /** Point text shown in the banner. */
+  label: string;
+  reviewIds: string[];
+  /** Passages to highlight. */
+  quotes: string[];
+}
 
 interface Props {
   reviewData: RawReviewData;
   onBack: () => void;
+  focus?: ReviewFocus | null;
+  onClearFocus?: () => void;
+  /** Topic term (see utils/textAnalytics.ts) to filter by when the list opens, e.g. from the dashboard's top topics. */
+  initialTerm?: string | null;
 }
 
-export const ReviewList: React.FC<Props> = ({ reviewData, onBack }) => {
+/** Review text with every quoted passage highlighted (matching ignores case and diacritics). */
+const HighlightedContent: React.FC<{ content: string; quotes: string[] }> = ({ content, quotes }) => {
+  const ranges = quotes
+    .map((q) => findFolded(content, q))
+    .filter((r): r is { start: number; end: number } => r !== null)
+    .sort((a, b) => a.start - b.start);
+  if (ranges.length === 0) return <>{content}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((range, i) => {
+    if (range.start < cursor) return;
+    parts.push(content.slice(cursor, range.start));
+    parts.push(
+      <mark key={i} className="bg-amber-100 text-gray-900 rounded px-0.5">
+        {content.slice(range.start, range.end)}
+      </mark>
+    );
+    cursor = range.end;
+  });
+  parts.push(content.slice(cursor));
+  return <>{parts}</>;
+};
+
+export const ReviewList: React.FC<Props> = ({ reviewData, onBack, focus, onClearFocus, initialTerm }) => {
+  const { t } = useI18n();
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('all');
+  const [term, setTerm] = useState<string | null>(initialTerm ?? null);
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, ReplyDraft>>({});
+  const { list: reviewFlags } = useReviewFlags({ venueId: reviewData.id });
+  const flagsById = useMemo(() => new Map(reviewFlags.map((flag) => [flag.reviewId, flag])), [reviewFlags]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReplyDrafts({});
+    // Without saved drafts every review simply offers a new one
+    fetchReplyDrafts(reviewData.id)
+      .catch(() => [] as ReplyDraft[])
+      .then((drafts) => {
+        if (!cancelled) setReplyDrafts(Object.fromEntries(drafts.map((d) => [d.reviewId, d])));
+      });
+    return () => { cancelled = true; };
+  }, [reviewData.id]);
+
+  const handleDraftChange = (draft: ReplyDraft) =>
+    setReplyDrafts((prev) => ({ ...prev, [draft.reviewId]: draft }));
 
   // Parse, Filter, Sort (newest first)
-  const reviews = useMemo(() => {
+  const periodReviews = useMemo(() => {
     const allReviews = parseReviews(reviewData.csvContent);
     const now = new Date();
     let filtered = allReviews;
@@ -29,8 +95,23 @@ export const ReviewList: React.FC<Props> = ({ reviewData, onBack }) => {
         return parsed >= cutoff && parsed <= now;
       });
     }
+    if (focus) {
+      const ids = new Set(focus.reviewIds);
+      filtered = filtered.filter((r: Review) => ids.has(getReviewId(r)));
+    }
     return [...filtered].sort((a, b) => parseDate(b.date, now).getTime() - parseDate(a.date, now).getTime());
-  }, [reviewData.csvContent, timeFilter]);
+  }, [reviewData.csvContent, timeFilter, focus]);
+
+  // Topics come from the whole period, so picking a term does not change the panel
+  const topics = useMemo(() => extractTopics(periodReviews), [periodReviews]);
+  const reviews = useMemo(
+    () => (term ? periodReviews.filter((r) => reviewHasTerm(r, term)) : periodReviews),
+    [periodReviews, term]
+  );
+  const termLabel = term
+    ? [...topics.positive, ...topics.negative].find((topic) => topic.term === term)?.label ?? term
+    : null;
+  const highlights = [...(focus?.quotes ?? []), ...(termLabel ? [termLabel] : [])];
 
   const ratingCounts = useMemo(() => {
     const counts = { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 };
@@ -60,7 +141,7 @@ export const ReviewList: React.FC<Props> = ({ reviewData, onBack }) => {
           <div className="min-w-0 flex-1">
             <h2 className="text-base sm:text-xl font-bold text-gray-900 truncate sm:whitespace-normal">{reviewData.name}</h2>
             <div className="text-xs sm:text-sm text-gray-500 flex flex-wrap items-center gap-x-2 gap-y-0.5 mt-0.5">
-              <span className="font-medium text-gray-700">{reviews.length} reviews</span>
+              <span className="font-medium text-gray-700">{t('reviews.count', { count: reviews.length })}</span>
               <span>•</span>
               <span className="flex items-center gap-1 text-emerald-600 font-bold bg-emerald-50 px-2 py-0.5 rounded-full text-xs">
                 {averageRating} <Star size={10} fill="currentColor" />
@@ -76,18 +157,58 @@ export const ReviewList: React.FC<Props> = ({ reviewData, onBack }) => {
               onChange={(e) => setTimeFilter(e.target.value as TimeFilter)}
               className="bg-transparent text-sm font-semibold text-gray-700 outline-none pr-8 appearance-none cursor-pointer w-full touch-manipulation"
             >
-              {TIME_FILTER_OPTIONS.map(({ value, label }) => (
-                <option key={value} value={value}>{label}</option>
+              {TIME_FILTER_OPTIONS.map(({ value, labelKey }) => (
+                <option key={value} value={value}>{t(labelKey)}</option>
               ))}
             </select>
           </div>
         </div>
       </div>
 
+      {focus && (
+        <div className="px-3 sm:px-4 py-2.5 bg-amber-50 border-b border-amber-200 flex items-center justify-between gap-3">
+          <p className="text-xs sm:text-sm text-amber-800 flex items-center gap-2 min-w-0">
+            <Quote size={14} className="shrink-0" />
+            <span className="truncate">
+              {t('reviews.focus')} <strong>{focus.label}</strong>
+            </span>
+          </p>
+          {onClearFocus && (
+            <button
+              type="button"
+              onClick={onClearFocus}
+              className="flex items-center gap-1 text-xs font-semibold text-amber-800 hover:text-amber-900 shrink-0 min-h-[36px] touch-manipulation"
+            >
+              <X size={14} />
+              {t('reviews.showAll')}
+            </button>
+          )}
+        </div>
+      )}
+
+      {termLabel && (
+        <div className="px-3 sm:px-4 py-2.5 bg-emerald-50 border-b border-emerald-200 flex items-center justify-between gap-3">
+          <p className="text-xs sm:text-sm text-emerald-800 flex items-center gap-2 min-w-0">
+            <Hash size={14} className="shrink-0" />
+            <span className="truncate">
+              {t('topics.filter')} <strong>{termLabel}</strong>
+            </span>
+          </p>
+          <button
+            type="button"
+            onClick={() => setTerm(null)}
+            className="flex items-center gap-1 text-xs font-semibold text-emerald-800 hover:text-emerald-900 shrink-0 min-h-[36px] touch-manipulation"
+          >
+            <X size={14} />
+            {t('topics.clear')}
+          </button>
+        </div>
+      )}
+
       <div className="flex flex-col md:flex-row h-full grow min-h-0">
         {/* Sidebar: full width on mobile, fixed width on desktop */}
         <div className="w-full md:w-72 p-3 sm:p-4 bg-gray-50 border-b md:border-b-0 md:border-r border-gray-200 shrink-0">
-          <h3 className="font-bold text-gray-800 mb-4 sm:mb-6 text-xs sm:text-sm uppercase tracking-wide">Rating Distribution</h3>
+          <h3 className="font-bold text-gray-800 mb-4 sm:mb-6 text-xs sm:text-sm uppercase tracking-wide">{t('reviews.ratingDistribution')}</h3>
           <div className="space-y-2.5 sm:space-y-3">
             {[5, 4, 3, 2, 1].map(star => {
               const count = ratingCounts[star as keyof typeof ratingCounts] || 0;
@@ -111,16 +232,21 @@ export const ReviewList: React.FC<Props> = ({ reviewData, onBack }) => {
           </div>
           <div className="mt-6 sm:mt-8 p-3 sm:p-4 bg-blue-50 border-2 border-blue-200 rounded-md">
             <p className="text-xs text-blue-700 leading-relaxed">
-              Showing <strong>{reviews.length}</strong> reviews for the selected period.
+              {t('reviews.showing', { count: reviews.length })}
             </p>
           </div>
+          <div className="mt-6 sm:mt-8">
+            <TopTopics topics={topics} activeTerm={term} onSelectTerm={(topic) => setTerm(topic?.term ?? null)} compact />
+          </div>
         </div>
 
         {/* Review list: scrollable */}
         <div className="flex-1 overflow-y-auto p-3 sm:p-4 bg-white max-h-[calc(100vh-16rem)] sm:max-h-[calc(100vh-200px)] min-h-0">
           <div className="grid grid-cols-1 gap-3 sm:gap-4">
-            {reviews.map((review, idx) => (
-              <div key={idx} className="p-3 sm:p-4 rounded-lg border-2 border-gray-200 hover:border-emerald-200 hover:shadow-md transition-all bg-white">
+            {reviews.map((review) => {
+              const reviewId = getReviewId(review);
+              return (
+              <div key={reviewId} className="p-3 sm:p-4 rounded-lg border-2 border-gray-200 hover:border-emerald-200 hover:shadow-md transition-all bg-white">
                 <div className="flex justify-between items-start gap-2 mb-2 sm:mb-3">
                   <div className="flex items-center gap-2 sm:gap-3 min-w-0">
                     <div className="w-8 h-8 sm:w-9 sm:h-9 rounded-full bg-gradient-to-br from-gray-100 to-gray-300 flex items-center justify-center text-gray-600 text-[10px] sm:text-xs font-bold uppercase shadow-sm shrink-0">
@@ -138,26 +264,34 @@ export const ReviewList: React.FC<Props> = ({ reviewData, onBack }) => {
                 </div>
                 {review.content ? (
                   <p className="text-gray-600 text-xs sm:text-sm leading-relaxed whitespace-pre-line pl-0 sm:pl-10 mt-1 sm:mt-0">
-                    {review.content}
+                    {highlights.length > 0 ? <HighlightedContent content={review.content} quotes={highlights} /> : review.content}
                   </p>
                 ) : (
-                  <p className="text-gray-400 text-xs italic pl-0 sm:pl-10 mt-1 sm:mt-0 opacity-60">No comment content.</p>
+                  <p className="text-gray-400 text-xs italic pl-0 sm:pl-10 mt-1 sm:mt-0 opacity-60">{t('reviews.noContent')}</p>
                 )}
-                <div className="mt-3 sm:mt-4 pl-0 sm:pl-10 flex items-center gap-2">
+                <div className="mt-3 sm:mt-4 pl-0 sm:pl-10 flex flex-wrap items-center gap-2">
                   <span className="text-[10px] text-gray-400 uppercase tracking-wider font-semibold bg-gray-50 px-2 py-1 rounded-md border-2 border-gray-200">
                     {review.source}
                   </span>
+                  <SuspiciousReviewBadge flag={flagsById.get(reviewId)} />
+                  <ReplyDraftEditor
+                    venueId={reviewData.id}
+                    reviewId={reviewId}
+                    draft={replyDrafts[reviewId]}
+                    onChange={handleDraftChange}
+                  />
                 </div>
               </div>
-            ))}
+              );
+            })}
 
             {reviews.length === 0 && (
               <div className="flex flex-col items-center justify-center py-16 sm:py-24 text-gray-400 px-4">
                 <div className="w-14 h-14 sm:w-16 sm:h-16 bg-gray-50 rounded-full flex items-center justify-center mb-3 sm:mb-4">
                   <MessageSquare size={22} className="sm:w-6 sm:h-6 opacity-30" />
                 </div>
-                <p className="text-base sm:text-lg font-medium text-gray-500 text-center">No reviews found</p>
-                <p className="text-xs sm:text-sm text-center mt-1">Try adjusting the time filter to see more results.</p>
+                <p className="text-base sm:text-lg font-medium text-gray-500 text-center">{t('reviews.empty')}</p>
+                <p className="text-xs sm:text-sm text-center mt-1">{t('reviews.emptyHint')}</p>
               </div>
             )}
           </div>
@@ -0,0 +1,29 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { ReviewFlag } from '../types';
+import { getVenueById } from '../services/venueRegistry';
+import { MessageKey, useI18n } from '../i18n';
+
+interface SuspiciousReviewBadgeProps {
+  flag?: ReviewFlag;
+}
+
+/** Marks a review flagged by utils/reviewIntegrity.ts; the signals behind the flag on hover. */
+export const SuspiciousReviewBadge: React.FC<SuspiciousReviewBadgeProps> = ({ flag }) => {
+  const { t } = useI18n();
+  if (!flag) return null;
+  const describe = (signal: ReviewFlag['signals'][number]) => {
+    const text = t(`integrity.signal.${signal}` as MessageKey);
+    if (signal !== 'duplicate-text' || !flag.relatedVenueIds?.length) return text;
+    return `${text} (${flag.relatedVenueIds.map((id) => getVenueById(id)?.name ?? id).join(', ')})`;
+  };
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-[10px] font-semibold border px-1.5 py-1 rounded-md text-rose-700 bg-rose-50 border-rose-200"
+      title={flag.signals.map(describe).join('\n')}
+    >
+      <ShieldAlert size={10} />
+      {t('integrity.badge')}
+    </span>
+  );
+};
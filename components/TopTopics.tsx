@@ -0,0 +1,74 @@
+import React from 'react';
+import { Hash, ThumbsDown, ThumbsUp } from 'lucide-react';
+import { ReviewTopics, TopicTerm } from '../types';
+import { useI18n } from '../i18n';
+
+interface TopTopicsProps {
+  topics: ReviewTopics;
+  /** `term` of the selected TopicTerm. */
+  activeTerm?: string | null;
+  /** Called with the clicked term, or null when the selected one is clicked again. */
+  onSelectTerm: (term: TopicTerm | null) => void;
+  compact?: boolean;
+  /** Shown below the terms, e.g. where the selected term occurs. */
+  children?: React.ReactNode;
+}
+
+/** Keywords typical of positive and of negative reviews (see utils/textAnalytics.ts); a click filters by the term. */
+export const TopTopics: React.FC<TopTopicsProps> = ({ topics, activeTerm, onSelectTerm, compact, children }) => {
+  const { t } = useI18n();
+
+  const renderTerms = (terms: TopicTerm[], tone: 'positive' | 'negative') => {
+    if (terms.length === 0) return <p className="text-gray-400 text-xs">{t('topics.none')}</p>;
+    return (
+      <div className="flex flex-wrap gap-1.5">
+        {terms.map((term) => {
+          const active = term.term === activeTerm;
+          const colors =
+            tone === 'positive'
+              ? active
+                ? 'bg-emerald-600 text-white border-emerald-600'
+                : 'bg-emerald-50 text-emerald-800 border-emerald-200 hover:border-emerald-400'
+              : active
+                ? 'bg-rose-600 text-white border-rose-600'
+                : 'bg-rose-50 text-rose-800 border-rose-200 hover:border-rose-400';
+          return (
+            <button
+              key={term.term}
+              type="button"
+              onClick={() => onSelectTerm(active ? null : term)}
+              title={t('topics.reviewCount', { count: term.reviewCount })}
+              className={`inline-flex items-center gap-1 text-xs font-semibold px-2 py-1 rounded-full border transition-colors touch-manipulation ${colors}`}
+            >
+              {term.label}
+              <span className={`tabular-nums text-[10px] ${active ? 'text-white/80' : 'opacity-60'}`}>{term.reviewCount}</span>
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className={compact ? 'space-y-3' : 'bg-white rounded-lg border-2 border-gray-300 p-3 space-y-3'}>
+      <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+        <Hash size={14} className="text-emerald-600" /> {t('topics.title')}
+      </h3>
+      <div className={compact ? 'space-y-3' : 'grid grid-cols-1 md:grid-cols-2 gap-3'}>
+        <div>
+          <p className="text-[11px] font-semibold text-emerald-700 flex items-center gap-1 mb-1.5">
+            <ThumbsUp size={12} /> {t('topics.positive', { count: topics.positiveReviews })}
+          </p>
+          {renderTerms(topics.positive, 'positive')}
+        </div>
+        <div>
+          <p className="text-[11px] font-semibold text-rose-700 flex items-center gap-1 mb-1.5">
+            <ThumbsDown size={12} /> {t('topics.negative', { count: topics.negativeReviews })}
+          </p>
+          {renderTerms(topics.negative, 'negative')}
+        </div>
+      </div>
+      {children}
+    </div>
+  );
+};
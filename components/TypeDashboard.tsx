@@ -1,6 +1,16 @@
 import React, { useMemo, useState, useEffect } from 'react';
 import { Link, useNavigate, useParams } from 'react-router-dom';
-import { fetchComparison } from '../services/api';
+import { fetchComparison, fetchDatasets } from '../services/api';
+import { loadVenues, getVenuesByConcept } from '../services/venueRegistry';
+import { loadConcepts, getConceptBySlug } from '../services/conceptRegistry';
+import { createEmptyComparisonRow, getCategory, getSummary } from '../utils/comparisonRow';
+import { useI18n } from '../i18n';
+import { ExecutiveSummary } from './ExecutiveSummary';
+import { PeriodDiffCard } from './PeriodDiffCard';
+import { RatingTrendChart } from './RatingTrendChart';
+import { TopTopics } from './TopTopics';
+import { AnomalyBadge } from './AnomalyBadge';
+import { useAnomalies } from '../hooks/useAnomalies';
 import {
   BarChart,
   Bar,
@@ -10,10 +20,11 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from 'recharts';
-import { ComparisonRow, RawReviewData, TimeFilter, CategoryAnalysis } from '../types';
+import { ComparisonRow, RawReviewData, Review, TimeFilter, CategoryAnalysis, OutputLanguage, ComparisonMode, TopicTerm } from '../types';
 import { TIME_FILTER_OPTIONS } from '../constants';
 import { filterCsvByTime, filterCsvByTimeRange, filterCsvByDaysRange } from '../utils/csvFilter';
 import { parseReviews } from '../utils/csvParser';
+import { extractTopics, reviewHasTerm } from '../utils/textAnalytics';
 import { ArrowLeft, Calendar, List, Star, TrendingUp, TrendingDown, MapPin, MessageSquare, BarChart3 } from 'lucide-react';
 
 function getReviewCount(
@@ -29,6 +40,14 @@ function getReviewCount(
   return reviews.length;
 }
 
+/** Reviews of a dataset in the period. */
+function getPeriodReviews(datasetId: string, rawDatasets: RawReviewData[], timeFilter: TimeFilter): Review[] {
+  const ds = rawDatasets.find((d) => d.id === datasetId);
+  if (!ds?.csvContent) return [];
+  const months = timeFilter === 'all' ? 'all' : parseFloat(timeFilter);
+  return parseReviews(filterCsvByTime(ds.csvContent, months));
+}
+
 /** Review count for a time range: [startMonthsAgo, endMonthsAgo). E.g. (2,1) = previous month. */
 function getReviewCountForPeriod(
   datasetId: string,
@@ -82,35 +101,19 @@ function getEffectiveRating(
   return row.overallRating > 0 ? row.overallRating : getAverageRatingFromRaw(row.id, rawDatasets, timeFilter);
 }
 
-function getCategoryDisplayText(category: CategoryAnalysis): string {
-  if (category?.summary?.trim()) return category.summary.trim();
+function getCategoryDisplayText(category: CategoryAnalysis, language: OutputLanguage): string {
+  const summary = getSummary(category, language);
+  if (summary) return summary;
   const points = category?.points ?? [];
   if (points.length > 0) return points[0].text;
   return '—';
 }
 
-const TYPE_META = {
-  dining: {
-    title: 'Dining & Venues',
-    headers: { service: 'Service', food: 'Food', value: 'Value', atmosphere: 'Atmosphere' },
-  },
-  retail: {
-    title: 'Retail Stores Performance',
-    headers: { service: 'Service', food: 'Products', value: 'Value', atmosphere: 'Store Space' },
-  },
-  supermarket: {
-    title: 'Hypermarkets & Entertainment',
-    headers: { service: 'Service', food: 'Products / Services', value: 'Value', atmosphere: 'Space & Facilities' },
-  },
-} as const;
-
-type DashboardType = keyof typeof TYPE_META;
-
-function filterDataByType(data: ComparisonRow[], type: string): ComparisonRow[] {
-  if (type === 'dining') return data.filter((r) => r.concept === 'dining');
-  if (type === 'retail') return data.filter((r) => r.concept === 'retail');
-  if (type === 'supermarket') return data.filter((r) => r.concept === 'supermarket');
-  return [];
+/** Rows of active venues in one concept; venues never analyzed yet get an empty row. */
+function getConceptRows(data: ComparisonRow[], concept: string): ComparisonRow[] {
+  return getVenuesByConcept(concept).map(
+    (venue) => data.find((r) => r.id === venue.id) ?? createEmptyComparisonRow(venue.id, venue.name, venue.concept)
+  );
 }
 
 /** Current period (months) and previous period (start, end) for comparison. */
@@ -120,11 +123,10 @@ function getPeriodBounds(timeFilter: TimeFilter): { current: number; prevStart:
   return { current: n, prevStart: n * 2, prevEnd: n };
 }
 
-export type ComparisonMode = 'month' | 'week';
-
 export const TypeDashboard: React.FC = () => {
   const { type } = useParams<{ type: string }>();
   const navigate = useNavigate();
+  const { language, t } = useI18n();
   const [data, setData] = useState<ComparisonRow[]>([]);
   const [rawDatasets, setRawDatasets] = useState<RawReviewData[]>([]);
   const [loading, setLoading] = useState(true);
@@ -132,6 +134,9 @@ export const TypeDashboard: React.FC = () => {
   const [timeFilter, setTimeFilter] = useState<TimeFilter>('1');
   const [showDetailTable, setShowDetailTable] = useState(false);
   const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('month');
+  const [diffVenueId, setDiffVenueId] = useState<string | null>(null);
+  const [topicTerm, setTopicTerm] = useState<TopicTerm | null>(null);
+  const { anomalies } = useAnomalies(type);
 
   useEffect(() => {
     let cancelled = false;
@@ -139,15 +144,21 @@ export const TypeDashboard: React.FC = () => {
       setLoading(true);
       setLoadError(null);
       try {
-        // Only fetch comparison data initially (fast, from JSON file)
-        // Datasets will be fetched lazily when needed (on analyze)
-        const comparison = await fetchComparison();
+        // Datasets are served from the local review store, so loading them with the rows is cheap
+        const [comparison, datasets] = await Promise.all([
+          fetchComparison(),
+          fetchDatasets().catch(() => [] as RawReviewData[]),
+          loadVenues(),
+          loadConcepts(),
+        ]);
         if (!cancelled) {
+          // Rows are picked per concept from active venues (see getConceptRows), so archived venues drop out
           setData(comparison);
+          setRawDatasets(datasets);
         }
       } catch (e) {
         if (!cancelled) {
-          setLoadError(e instanceof Error ? e.message : 'Không tải được dữ liệu. Kiểm tra server (npm run server).');
+          setLoadError(e instanceof Error ? e.message : t('dashboard.loadFailed'));
         }
       } finally {
         if (!cancelled) setLoading(false);
@@ -156,13 +167,14 @@ export const TypeDashboard: React.FC = () => {
     return () => { cancelled = true; };
   }, []);
 
-  const meta = type && type in TYPE_META ? TYPE_META[type as DashboardType] : null;
+  const meta = type ? getConceptBySlug(type) ?? null : null;
   const rows = useMemo(
-    () => (type ? filterDataByType(data, type) : []),
+    () => (type ? getConceptRows(data, type) : []),
     [data, type]
   );
 
   const periodBounds = getPeriodBounds(timeFilter);
+  const diffRow = rows.find((r) => r.id === diffVenueId) ?? rows[0];
 
   const kpis = useMemo(() => {
     const totalReviews = rows.reduce((sum, r) => sum + getReviewCount(r.id, rawDatasets, timeFilter), 0);
@@ -210,6 +222,20 @@ export const TypeDashboard: React.FC = () => {
     [rows, rawDatasets, timeFilter]
   );
 
+  const venueReviews = useMemo(
+    () => rows.map((row) => ({ row, reviews: getPeriodReviews(row.id, rawDatasets, timeFilter) })),
+    [rows, rawDatasets, timeFilter]
+  );
+  const topics = useMemo(() => extractTopics(venueReviews.flatMap((v) => v.reviews)), [venueReviews]);
+  // Venues whose reviews in the period mention the selected term, most mentions first
+  const topicMatches = useMemo(() => {
+    if (!topicTerm) return [];
+    return venueReviews
+      .map(({ row, reviews }) => ({ row, count: reviews.filter((r) => reviewHasTerm(r, topicTerm.term)).length }))
+      .filter((m) => m.count > 0)
+      .sort((a, b) => b.count - a.count);
+  }, [venueReviews, topicTerm]);
+
   const comparisonData = useMemo(() => {
     if (comparisonMode === 'week') {
       return rows.map((r) => ({
@@ -231,7 +257,7 @@ export const TypeDashboard: React.FC = () => {
   if (loading) {
     return (
       <div className="flex flex-col items-center justify-center py-16">
-        <p className="text-slate-500 font-medium text-sm">Đang tải dữ liệu từ API...</p>
+        <p className="text-slate-500 font-medium text-sm">{t('dashboard.loading')}</p>
       </div>
     );
   }
@@ -245,7 +271,7 @@ export const TypeDashboard: React.FC = () => {
           onClick={() => navigate('/dashboard')}
           className="text-emerald-600 hover:text-emerald-700 font-semibold text-sm"
         >
-          Về Dashboard
+          {t('dashboard.back')}
         </button>
       </div>
     );
@@ -254,20 +280,23 @@ export const TypeDashboard: React.FC = () => {
   if (!type || !meta) {
     return (
       <div className="flex flex-col items-center justify-center py-12">
-        <p className="text-rose-600 font-medium text-sm">Dashboard type not found.</p>
+        <p className="text-rose-600 font-medium text-sm">{t('dashboard.typeNotFound')}</p>
         <button
           type="button"
           onClick={() => navigate('/dashboard')}
           className="mt-3 text-emerald-600 hover:text-emerald-700 font-semibold text-sm"
         >
-          Back to Dashboard
+          {t('dashboard.back')}
         </button>
       </div>
     );
   }
 
-  const { title, headers } = meta;
-  const periodLabel = timeFilter === 'all' ? 'Toàn thời gian' : TIME_FILTER_OPTIONS.find((o) => o.value === timeFilter)?.label ?? timeFilter;
+  const { title, categories } = meta;
+  const periodOption = TIME_FILTER_OPTIONS.find((o) => o.value === timeFilter);
+  const periodLabel = timeFilter === 'all' ? t('dashboard.allTime') : periodOption ? t(periodOption.labelKey) : timeFilter;
+  const previousLabel = comparisonMode === 'week' ? t('dashboard.lastWeek') : t('dashboard.previousPeriod');
+  const currentLabel = comparisonMode === 'week' ? t('dashboard.thisWeek') : t('dashboard.currentPeriod');
 
   return (
     <div className="space-y-3 sm:space-y-4">
@@ -281,7 +310,7 @@ export const TypeDashboard: React.FC = () => {
           </button>
           <div className="min-w-0">
             <h1 className="text-xl sm:text-2xl font-black text-slate-900 tracking-tight">{title}</h1>
-            <p className="text-slate-500 text-xs sm:text-sm font-medium mt-0.5">Trực quan hóa & so sánh cùng kì · Kì: {periodLabel}</p>
+            <p className="text-slate-500 text-xs sm:text-sm font-medium mt-0.5">{t('dashboard.subheading', { period: periodLabel })}</p>
           </div>
         </div>
         <div className="flex flex-wrap items-center gap-2">
@@ -291,14 +320,14 @@ export const TypeDashboard: React.FC = () => {
               onClick={() => setComparisonMode('month')}
               className={`px-3 py-1.5 text-xs font-bold rounded transition-colors ${comparisonMode === 'month' ? 'bg-white text-emerald-700 shadow border border-gray-200' : 'text-gray-600 hover:text-gray-900'}`}
             >
-              Cùng kì tháng
+              {t('dashboard.modeMonth')}
             </button>
             <button
               type="button"
               onClick={() => setComparisonMode('week')}
               className={`px-3 py-1.5 text-xs font-bold rounded transition-colors ${comparisonMode === 'week' ? 'bg-white text-emerald-700 shadow border border-gray-200' : 'text-gray-600 hover:text-gray-900'}`}
             >
-              Cùng kì tuần
+              {t('dashboard.modeWeek')}
             </button>
           </div>
           <div className="relative flex items-center bg-gray-50 border-2 border-gray-300 rounded-md px-3 py-2 min-h-[44px] sm:min-h-0 focus-within:ring-2 focus-within:ring-emerald-500 focus-within:border-emerald-500 transition-all">
@@ -308,8 +337,8 @@ export const TypeDashboard: React.FC = () => {
               onChange={(e) => setTimeFilter(e.target.value as TimeFilter)}
               className="bg-transparent text-sm font-bold text-gray-700 outline-none pr-6 appearance-none cursor-pointer w-full"
             >
-              {TIME_FILTER_OPTIONS.map(({ value, label }) => (
-                <option key={value} value={value}>{label}</option>
+              {TIME_FILTER_OPTIONS.map(({ value, labelKey }) => (
+                <option key={value} value={value}>{t(labelKey)}</option>
               ))}
             </select>
           </div>
@@ -323,7 +352,7 @@ export const TypeDashboard: React.FC = () => {
             <MapPin size={18} className="text-slate-600" />
           </div>
           <div>
-            <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">Địa điểm</p>
+            <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">{t('dashboard.kpiVenues')}</p>
             <p className="text-lg font-black text-slate-900 tabular-nums">{rows.length}</p>
           </div>
         </div>
@@ -332,7 +361,7 @@ export const TypeDashboard: React.FC = () => {
             <MessageSquare size={18} className="text-emerald-600" />
           </div>
           <div>
-            <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">Tổng review (kì)</p>
+            <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">{t('dashboard.kpiReviews')}</p>
             <p className="text-lg font-black text-slate-900 tabular-nums">{kpis.totalReviews}</p>
           </div>
         </div>
@@ -341,7 +370,7 @@ export const TypeDashboard: React.FC = () => {
             <Star size={18} className="text-amber-600 fill-amber-600" />
           </div>
           <div>
-            <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">Rating TB</p>
+            <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">{t('dashboard.kpiRating')}</p>
             <p className="text-lg font-black text-slate-900 tabular-nums">{kpis.avgRating !== null ? kpis.avgRating.toFixed(1) : '—'}</p>
           </div>
         </div>
@@ -350,7 +379,7 @@ export const TypeDashboard: React.FC = () => {
             <BarChart3 size={18} className="text-blue-600" />
           </div>
           <div>
-            <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">{comparisonMode === 'week' ? 'So với tuần trước' : 'So với kì trước'}</p>
+            <p className="text-[11px] font-bold text-gray-500 uppercase tracking-wider">{comparisonMode === 'week' ? t('dashboard.kpiVsLastWeek') : t('dashboard.kpiVsLastPeriod')}</p>
             {kpis.periodChange !== null ? (
               <p className={`text-lg font-black tabular-nums flex items-center gap-1 ${kpis.periodChange >= 0 ? 'text-emerald-600' : 'text-rose-600'}`}>
                 {kpis.periodChange >= 0 ? <TrendingUp size={16} /> : <TrendingDown size={16} />}
@@ -363,10 +392,12 @@ export const TypeDashboard: React.FC = () => {
         </div>
       </div>
 
+      <ExecutiveSummary concept={type} categories={categories} />
+
       {/* Charts row */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-4">
         <div className="bg-white rounded-lg border-2 border-gray-300 p-3 overflow-hidden">
-          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3">Rating theo địa điểm</h3>
+          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3">{t('dashboard.chartRating')}</h3>
           <div className="h-[240px] min-w-0">
             {chartRatingData.length > 0 ? (
               <ResponsiveContainer width="100%" height="100%">
@@ -374,17 +405,17 @@ export const TypeDashboard: React.FC = () => {
                   <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
                   <XAxis type="number" domain={[0, 5]} tickCount={6} tick={{ fontSize: 10 }} />
                   <YAxis type="category" dataKey="name" width={120} tick={{ fontSize: 10 }} />
-                  <Tooltip content={<TooltipContent fullNameKey="fullName" valueLabel="Rating" />} />
+                  <Tooltip content={<TooltipContent fullNameKey="fullName" valueLabel={t('dashboard.colRating')} />} />
                   <Bar dataKey="rating" fill="#059669" radius={[0, 4, 4, 0]} maxBarSize={24} />
                 </BarChart>
               </ResponsiveContainer>
             ) : (
-              <div className="flex items-center justify-center h-full text-gray-400 text-sm">Chưa có dữ liệu</div>
+              <div className="flex items-center justify-center h-full text-gray-400 text-sm">{t('dashboard.noData')}</div>
             )}
           </div>
         </div>
         <div className="bg-white rounded-lg border-2 border-gray-300 p-3 overflow-hidden">
-          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3">Số review theo địa điểm (kì)</h3>
+          <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-3">{t('dashboard.chartReviews')}</h3>
           <div className="h-[240px] min-w-0">
             {chartReviewData.length > 0 ? (
               <ResponsiveContainer width="100%" height="100%">
@@ -392,22 +423,50 @@ export const TypeDashboard: React.FC = () => {
                   <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
                   <XAxis type="number" tick={{ fontSize: 10 }} />
                   <YAxis type="category" dataKey="name" width={120} tick={{ fontSize: 10 }} />
-                  <Tooltip content={<TooltipContent fullNameKey="fullName" valueLabel="Reviews" valueKey="reviews" />} />
+                  <Tooltip content={<TooltipContent fullNameKey="fullName" valueLabel={t('dashboard.colTotalReviews')} valueKey="reviews" />} />
                   <Bar dataKey="reviews" fill="#0ea5e9" radius={[0, 4, 4, 0]} maxBarSize={24} />
                 </BarChart>
               </ResponsiveContainer>
             ) : (
-              <div className="flex items-center justify-center h-full text-gray-400 text-sm">Chưa có dữ liệu</div>
+              <div className="flex items-center justify-center h-full text-gray-400 text-sm">{t('dashboard.noData')}</div>
             )}
           </div>
         </div>
       </div>
 
+      {rows.length > 0 && <RatingTrendChart rows={rows} rawDatasets={rawDatasets} />}
+
+      <TopTopics topics={topics} activeTerm={topicTerm?.term} onSelectTerm={setTopicTerm}>
+        {topicTerm && (
+          <div className="border-t border-gray-200 pt-2">
+            <p className="text-xs text-gray-600 mb-1.5">
+              {t('topics.venuesWith')} <strong>{topicTerm.label}</strong>
+            </p>
+            {topicMatches.length === 0 ? (
+              <p className="text-gray-400 text-xs">{t('dashboard.noData')}</p>
+            ) : (
+              <div className="flex flex-wrap gap-1.5">
+                {topicMatches.map(({ row, count }) => (
+                  <Link
+                    key={row.id}
+                    to={`/reviews/${row.id}?term=${encodeURIComponent(topicTerm.term)}`}
+                    className="inline-flex items-center gap-1 text-[11px] font-semibold text-emerald-600 hover:text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-2 py-1.5 rounded-md"
+                  >
+                    <List size={12} /> {row.location}
+                    <span className="tabular-nums text-gray-500">{t('dashboard.reviewCount', { count })}</span>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </TopTopics>
+
       {/* So sánh cùng kì (tháng hoặc tuần) */}
       {comparisonData.length > 0 && (
         <div className="bg-white rounded-lg border-2 border-gray-300 overflow-hidden">
           <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider p-3 border-b border-gray-200">
-            So sánh cùng kì: {comparisonMode === 'week' ? 'Tuần trước vs Tuần này' : 'Kì trước vs Kì này'} (số review)
+            {t('dashboard.compareTitle', { previous: previousLabel, current: currentLabel })}
           </h3>
           <div className="p-3 overflow-x-auto">
             <div className="h-[280px] min-w-[320px]">
@@ -424,13 +483,11 @@ export const TypeDashboard: React.FC = () => {
                     content={({ active, payload }) => {
                       if (!active || !payload?.length) return null;
                       const d = payload[0].payload;
-                      const prevLabel = comparisonMode === 'week' ? 'Tuần trước' : 'Kì trước';
-                      const currLabel = comparisonMode === 'week' ? 'Tuần này' : 'Kì này';
                       return (
                         <div className="bg-white border-2 border-gray-200 rounded-md shadow-lg p-2 text-xs">
                           <p className="font-bold text-gray-900 border-b border-gray-100 pb-1 mb-1">{d.fullName}</p>
-                          <p>{prevLabel}: <strong>{d.kìTrước}</strong> review</p>
-                          <p>{currLabel}: <strong>{d.kìNày}</strong> review</p>
+                          <p>{t('dashboard.reviewValue', { label: previousLabel, count: d.kìTrước })}</p>
+                          <p>{t('dashboard.reviewValue', { label: currentLabel, count: d.kìNày })}</p>
                           {d.kìTrước > 0 && (
                             <p className={d.kìNày >= d.kìTrước ? 'text-emerald-600' : 'text-rose-600'}>
                               {d.kìNày >= d.kìTrước ? '+' : ''}{(((d.kìNày - d.kìTrước) / d.kìTrước) * 100).toFixed(0)}%
@@ -440,19 +497,39 @@ export const TypeDashboard: React.FC = () => {
                       );
                     }}
                   />
-                  <Bar dataKey="kìTrước" name={comparisonMode === 'week' ? 'Tuần trước' : 'Kì trước'} fill="#94a3b8" radius={[2, 2, 0, 0]} />
-                  <Bar dataKey="kìNày" name={comparisonMode === 'week' ? 'Tuần này' : 'Kì này'} fill="#059669" radius={[2, 2, 0, 0]} />
+                  <Bar dataKey="kìTrước" name={previousLabel} fill="#94a3b8" radius={[2, 2, 0, 0]} />
+                  <Bar dataKey="kìNày" name={currentLabel} fill="#059669" radius={[2, 2, 0, 0]} />
                 </BarChart>
               </ResponsiveContainer>
             </div>
           </div>
           <div className="flex flex-wrap gap-4 px-3 pb-3 text-xs text-gray-600">
-            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-slate-400" /> {comparisonMode === 'week' ? 'Tuần trước' : 'Kì trước'}</span>
-            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-emerald-500" /> {comparisonMode === 'week' ? 'Tuần này' : 'Kì này'}</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-slate-400" /> {previousLabel}</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded-sm bg-emerald-500" /> {currentLabel}</span>
           </div>
         </div>
       )}
 
+      {diffRow && (
+        <PeriodDiffCard
+          venueId={diffRow.id}
+          mode={comparisonMode}
+          timeFilter={timeFilter}
+          toolbar={
+            <select
+              value={diffRow.id}
+              onChange={(e) => setDiffVenueId(e.target.value)}
+              aria-label={t('periodDiff.venue')}
+              className="bg-gray-50 border-2 border-gray-300 rounded-md px-2 py-1 text-xs font-semibold text-gray-700 outline-none max-w-[220px]"
+            >
+              {rows.map((r) => (
+                <option key={r.id} value={r.id}>{r.location}</option>
+              ))}
+            </select>
+          }
+        />
+      )}
+
       {/* Bảng chi tiết (toggle) */}
       <div className="bg-white rounded-lg border-2 border-gray-300 overflow-hidden">
         <button
@@ -460,8 +537,8 @@ export const TypeDashboard: React.FC = () => {
           onClick={() => setShowDetailTable((v) => !v)}
           className="w-full p-3 flex items-center justify-between text-left border-b border-gray-200 hover:bg-gray-50 transition-colors"
         >
-          <span className="text-sm font-bold text-gray-700">Bảng chi tiết từng địa điểm</span>
-          <span className="text-xs text-gray-500">{showDetailTable ? 'Thu gọn' : 'Mở rộng'}</span>
+          <span className="text-sm font-bold text-gray-700">{t('dashboard.detailTable')}</span>
+          <span className="text-xs text-gray-500">{showDetailTable ? t('dashboard.collapse') : t('dashboard.expand')}</span>
         </button>
         {showDetailTable && (
           <>
@@ -469,13 +546,12 @@ export const TypeDashboard: React.FC = () => {
               <table className="w-full min-w-[800px] border-collapse">
                 <thead>
                   <tr className="bg-gray-50 border-b border-gray-200">
-                    <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider">Location</th>
-                    <th className="p-2 sm:p-3 text-right text-[11px] font-bold text-gray-500 uppercase tracking-wider">Total reviews</th>
-                    <th className="p-2 sm:p-3 text-center text-[11px] font-bold text-gray-500 uppercase tracking-wider">Rating</th>
-                    <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider">{headers.service}</th>
-                    <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider">{headers.food}</th>
-                    <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider">{headers.value}</th>
-                    <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider">{headers.atmosphere}</th>
+                    <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider">{t('dashboard.colLocation')}</th>
+                    <th className="p-2 sm:p-3 text-right text-[11px] font-bold text-gray-500 uppercase tracking-wider">{t('dashboard.colTotalReviews')}</th>
+                    <th className="p-2 sm:p-3 text-center text-[11px] font-bold text-gray-500 uppercase tracking-wider">{t('dashboard.colRating')}</th>
+                    {categories.map((category) => (
+                      <th key={category.key} className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider">{category.label}</th>
+                    ))}
                     <th className="p-2 sm:p-3 w-24"></th>
                   </tr>
                 </thead>
@@ -484,19 +560,21 @@ export const TypeDashboard: React.FC = () => {
                     const totalReviews = getReviewCount(row.id, rawDatasets, timeFilter);
                     return (
                       <tr key={row.id} className="border-b border-gray-200 hover:bg-gray-50/50">
-                        <td className="p-2 sm:p-3 font-bold text-[14px] text-gray-900">{row.location}</td>
+                        <td className="p-2 sm:p-3 font-bold text-[14px] text-gray-900">
+                          {row.location}
+                          <AnomalyBadge anomalies={anomalies[row.id]} />
+                        </td>
                         <td className="p-2 sm:p-3 text-right tabular-nums text-gray-700">{totalReviews}</td>
                         <td className="p-2 sm:p-3 text-center">
                           <span className="text-emerald-600 font-black tabular-nums">{getEffectiveRating(row, rawDatasets, timeFilter).toFixed(1)}</span>
                           <Star size={12} className="inline-block ml-0.5 text-emerald-500 fill-current" />
                         </td>
-                        <td className="p-2 sm:p-3 max-w-[180px]"><CategorySummaryText text={getCategoryDisplayText(row.service)} /></td>
-                        <td className="p-2 sm:p-3 max-w-[180px]"><CategorySummaryText text={getCategoryDisplayText(row.food)} /></td>
-                        <td className="p-2 sm:p-3 max-w-[180px]"><CategorySummaryText text={getCategoryDisplayText(row.value)} /></td>
-                        <td className="p-2 sm:p-3 max-w-[180px]"><CategorySummaryText text={getCategoryDisplayText(row.atmosphere)} /></td>
+                        {categories.map((category) => (
+                          <td key={category.key} className="p-2 sm:p-3 max-w-[180px]"><CategorySummaryText text={getCategoryDisplayText(getCategory(row, category.key), language)} /></td>
+                        ))}
                         <td className="p-2 sm:p-3">
                           <Link to={`/reviews/${row.id}`} className="inline-flex items-center gap-1 text-[11px] font-semibold text-emerald-600 hover:text-emerald-700 bg-emerald-50 hover:bg-emerald-100 px-2 py-1.5 rounded-md">
-                            <List size={12} /> Chi tiết
+                            <List size={12} /> {t('dashboard.details')}
                           </Link>
                         </td>
                       </tr>
@@ -511,18 +589,20 @@ export const TypeDashboard: React.FC = () => {
                 return (
                   <div key={row.id} className="p-3">
                     <div className="flex items-center justify-between gap-2 mb-2">
-                      <h3 className="font-bold text-gray-900 text-sm flex-1 truncate">{row.location}</h3>
+                      <h3 className="font-bold text-gray-900 text-sm flex-1 truncate">
+                        {row.location}
+                        <AnomalyBadge anomalies={anomalies[row.id]} />
+                      </h3>
                       <span className="text-emerald-600 font-black tabular-nums">{getEffectiveRating(row, rawDatasets, timeFilter).toFixed(1)}</span>
                     </div>
-                    <p className="text-xs text-gray-600 mb-2">{totalReviews} reviews</p>
+                    <p className="text-xs text-gray-600 mb-2">{t('dashboard.reviewCount', { count: totalReviews })}</p>
                     <div className="space-y-1 text-xs mb-2">
-                      <div><span className="text-gray-500 font-semibold">{headers.service}:</span> <CategorySummaryText text={getCategoryDisplayText(row.service)} /></div>
-                      <div><span className="text-gray-500 font-semibold">{headers.food}:</span> <CategorySummaryText text={getCategoryDisplayText(row.food)} /></div>
-                      <div><span className="text-gray-500 font-semibold">{headers.value}:</span> <CategorySummaryText text={getCategoryDisplayText(row.value)} /></div>
-                      <div><span className="text-gray-500 font-semibold">{headers.atmosphere}:</span> <CategorySummaryText text={getCategoryDisplayText(row.atmosphere)} /></div>
+                      {categories.map((category) => (
+                        <div key={category.key}><span className="text-gray-500 font-semibold">{category.label}:</span> <CategorySummaryText text={getCategoryDisplayText(getCategory(row, category.key), language)} /></div>
+                      ))}
                     </div>
                     <Link to={`/reviews/${row.id}`} className="inline-flex items-center gap-1.5 text-xs font-semibold text-emerald-600 bg-emerald-50 hover:bg-emerald-100 px-3 py-2 rounded-md w-full justify-center">
-                      <List size={14} /> Xem reviews
+                      <List size={14} /> {t('dashboard.viewReviews')}
                     </Link>
                   </div>
                 );
@@ -534,7 +614,7 @@ export const TypeDashboard: React.FC = () => {
 
       {rows.length === 0 && (
         <div className="bg-white rounded-lg border-2 border-gray-300 p-8 text-center text-gray-500 text-sm">
-          Chưa có dữ liệu cho loại hình này.
+          {t('dashboard.empty')}
         </div>
       )}
     </div>
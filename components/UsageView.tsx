@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Coins, Loader2 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { fetchUsage } from '../services/api';
+import { Concept, UsageGroup, UsageReport } from '../types';
+import { useI18n } from '../i18n';
+
+interface UsageViewProps {
+  concepts: Concept[];
+}
+
+/** Rows per breakdown table; the rest of the month's usage is in the totals. */
+const MAX_ROWS = 5;
+
+const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+
+/** Model usage of the current month: cost, tokens, latency, budget, and where the spend went. */
+export const UsageView: React.FC<UsageViewProps> = ({ concepts }) => {
+  const { language, t } = useI18n();
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUsage()
+      .then(setReport)
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, []);
+
+  const formatCount = (value: number) => value.toLocaleString(language);
+  const formatCost = (value: number | null) => (value === null ? t('usage.costUnknown') : formatUsd(value));
+  const avgLatency = (group: { runs: number; latencyMs: number }) =>
+    group.runs > 0 ? `${(group.latencyMs / group.runs / 1000).toFixed(1)}s` : '—';
+
+  const renderTable = (title: string, groups: UsageGroup[], labelOf: (group: UsageGroup) => string) => (
+    <div className="min-w-0">
+      <h4 className="text-[11px] font-bold text-gray-500 uppercase tracking-wider mb-1">{title}</h4>
+      {groups.length === 0 ? (
+        <p className="text-gray-400 text-xs">{t('dashboard.noData')}</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-gray-400 text-left">
+              <th className="font-semibold py-0.5"></th>
+              <th className="font-semibold py-0.5 text-right">{t('usage.runs')}</th>
+              <th className="font-semibold py-0.5 text-right">{t('usage.tokens')}</th>
+              <th className="font-semibold py-0.5 text-right">{t('usage.cost')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.slice(0, MAX_ROWS).map((group) => (
+              <tr key={group.key} className="border-t border-gray-100">
+                <td className="py-0.5 pr-2 truncate max-w-[160px] text-gray-700" title={labelOf(group)}>{labelOf(group)}</td>
+                <td className="py-0.5 text-right tabular-nums">{group.runs}</td>
+                <td className="py-0.5 text-right tabular-nums">{formatCount(group.inputTokens + group.outputTokens)}</td>
+                <td className="py-0.5 text-right tabular-nums font-semibold">{formatCost(group.costUsd)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  const budget = report?.budget;
+  const budgetShare = budget?.monthlyUsd ? Math.min(1, budget.spentUsd / budget.monthlyUsd) : 0;
+
+  return (
+    <div className="bg-white rounded-lg border-2 border-gray-300 p-3 space-y-3">
+      <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+        <Coins size={14} className="text-emerald-600" /> {t('usage.title', { month: report?.month ?? '' })}
+      </h3>
+      {error ? (
+        <p className="text-rose-600 text-xs font-medium">{error}</p>
+      ) : !report ? (
+        <Loader2 size={16} className="animate-spin text-gray-400" />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {[
+              { label: t('usage.cost'), value: formatCost(report.totals.costUsd) },
+              { label: t('usage.runs'), value: formatCount(report.totals.runs) },
+              {
+                label: t('usage.tokensInOut'),
+                value: `${formatCount(report.totals.inputTokens)} / ${formatCount(report.totals.outputTokens)}`,
+              },
+              { label: t('usage.avgLatency'), value: avgLatency(report.totals) },
+            ].map(({ label, value }) => (
+              <div key={label} className="border border-gray-200 rounded-md px-2 py-1.5">
+                <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">{label}</p>
+                <p className="text-sm font-black text-gray-900 tabular-nums">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          {report.totals.unpricedRuns > 0 && (
+            <p className="text-xs text-amber-700">{t('usage.unpriced', { count: report.totals.unpricedRuns })}</p>
+          )}
+
+          {budget?.monthlyUsd ? (
+            <div>
+              <div className="flex justify-between text-xs text-gray-600 mb-1">
+                <span>{t('usage.budget', { spent: formatUsd(budget.spentUsd), budget: formatUsd(budget.monthlyUsd) })}</span>
+                {budget.exceeded && <span className="font-semibold text-rose-600">{t('usage.budgetExceeded')}</span>}
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${budget.exceeded ? 'bg-rose-500' : budgetShare > 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                  style={{ width: `${budgetShare * 100}%` }}
+                />
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400">{t('usage.noBudget')}</p>
+          )}
+
+          {report.byDay.length > 0 && (
+            <div className="h-[140px] min-w-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={report.byDay} margin={{ top: 0, right: 8, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="key" tickFormatter={(day: string) => day.slice(8)} tick={{ fontSize: 10 }} />
+                  <YAxis width={48} tick={{ fontSize: 10 }} tickFormatter={(value: number) => `$${value}`} />
+                  <Tooltip formatter={(value: number | null) => [formatCost(value ?? null), t('usage.cost')]} />
+                  <Bar dataKey="costUsd" fill="#059669" radius={[4, 4, 0, 0]} maxBarSize={24} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {renderTable(t('usage.byVenue'), report.byVenue, (group) => group.name || group.key)}
+            {renderTable(
+              t('usage.byConcept'),
+              report.byConcept,
+              (group) => concepts.find((c) => c.slug === group.key)?.label ?? group.key
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+/**
+ * Alert rules seeded into data/alert-rules.json on first start (see server/alertStore.js); after
+ * that they are managed through /api/alerts/rules. Rule shapes are alertRuleSchema in schemas.ts:
+ * - 'low-ratings': more than `moreThan` reviews of `maxRating`★ or less within `windowHours`, per venue
+ * - 'concept-rating': the average rating of a concept's venues below `below`
+ * - 'keyword': a review within `windowHours` mentions `keyword` (with or without diacritics)
+ * Rules without venueId cover the concept's (or every) own venue; competitors only when named by venueId.
+ * A rule fires at most once per `cooldownHours` per venue (concept for 'concept-rating'); 'keyword'
+ * rules fire once per matching review instead.
+ */
+export const ALERT_RULES = [
+  {
+    id: 'low-ratings-menas-airport',
+    name: 'More than 3 reviews of 2★ or less in 24h at Mena Gourmet Market - Saigon Airport',
+    type: 'low-ratings',
+    venueId: '1',
+    maxRating: 2,
+    moreThan: 3,
+    windowHours: 24,
+    cooldownHours: 24,
+    enabled: true,
+  },
+  {
+    id: 'dining-rating-below-4',
+    name: 'Dining average rating below 4.0',
+    type: 'concept-rating',
+    concept: 'dining',
+    below: 4,
+    cooldownHours: 24,
+    enabled: true,
+  },
+  {
+    id: 'keyword-food-poisoning',
+    name: 'New review mentions "ngộ độc"',
+    type: 'keyword',
+    keyword: 'ngộ độc',
+    windowHours: 72,
+    enabled: true,
+  },
+];
+
+const splitList = (value) =>
+  String(value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Where fired alerts go unless a rule names its own webhooks or recipients:
+ * ALERT_WEBHOOK_URLS (comma-separated) get a JSON POST per alert; when ALERT_EMAIL_TO is set an
+ * .eml file per alert is written to ALERT_OUTBOX_DIR (default data/alerts/outbox) for a mailer to pick up.
+ * @param {string} defaultOutboxDir
+ */
+export function getAlertDelivery(defaultOutboxDir) {
+  return {
+    webhookUrls: splitList(process.env.ALERT_WEBHOOK_URLS),
+    emailTo: splitList(process.env.ALERT_EMAIL_TO),
+    emailFrom: process.env.ALERT_EMAIL_FROM || 'Sentix Alerts <alerts@sentix.local>',
+    outboxDir: process.env.ALERT_OUTBOX_DIR || defaultOutboxDir,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Analysis categories used by any concept that does not declare its own.
+ * key: field in ComparisonRow.categories; label: column header; guidance: what the model
+ * should file under this category (goes into the prompt).
+ */
+export const DEFAULT_CATEGORIES = [
+  { key: 'service', label: 'Service', guidance: 'staff attitude, speed, security, parking staff' },
+  { key: 'food', label: 'Food', guidance: 'taste, variety, freshness, quality, specific dishes' },
+  { key: 'value', label: 'Value', guidance: 'price vs quality, promotions, hidden costs such as parking' },
+  { key: 'atmosphere', label: 'Atmosphere', guidance: 'vibe, cleanliness, decor, noise, facilities (AC, Wifi, seats)' },
+];
+
+/**
+ * Initial concepts (venue groups). Seeds data/concepts.json on first server start;
+ * after that concepts are managed through /api/concepts. Each concept gets its own
+ * page (/:slug) and dashboard (/dashboard/:slug) without code changes.
+ *
+ * icon: name of a lucide icon registered in components/ConceptIcon.tsx
+ * categories: analysis categories (see DEFAULT_CATEGORIES); drive the prompt, the response
+ *   schema and the table columns
+ */
+export const CONCEPTS = [
+  {
+    slug: 'dining',
+    label: 'Dining & Venues',
+    title: 'Dining & Venues Analysis',
+    description: 'Restaurants and venue analysis',
+    icon: 'UtensilsCrossed',
+    categories: DEFAULT_CATEGORIES,
+  },
+  {
+    slug: 'retail',
+    label: 'Retail Stores',
+    title: 'Retail Stores Performance',
+    description: 'Retail stores performance',
+    icon: 'ShoppingBag',
+    categories: [
+      DEFAULT_CATEGORIES[0],
+      { key: 'food', label: 'Products', guidance: 'product range, quality, authenticity, availability of items' },
+      DEFAULT_CATEGORIES[2],
+      { key: 'atmosphere', label: 'Store Space', guidance: 'store layout, cleanliness, display, lighting, fitting rooms' },
+    ],
+  },
+  {
+    slug: 'supermarket',
+    label: 'Hypermarkets & Entertainment',
+    title: 'Hypermarkets & Entertainment',
+    description: 'Hypermarkets and entertainment',
+    icon: 'Store',
+    categories: [
+      DEFAULT_CATEGORIES[0],
+      { key: 'checkout', label: 'Checkout & Queues', guidance: 'cashier speed, queue length, open counters, self-checkout, payment methods' },
+      { key: 'freshness', label: 'Freshness', guidance: 'fresh produce, meat and seafood, bakery, expiry dates, cold chain' },
+      { key: 'food', label: 'Products / Services', guidance: 'product variety, imported goods, stock availability, food court and services' },
+      DEFAULT_CATEGORIES[2],
+      { key: 'atmosphere', label: 'Space & Facilities', guidance: 'cleanliness, layout, parking, restrooms, kids area, air conditioning' },
+    ],
+  },
+];
@@ -0,0 +1,41 @@
+/**
+ * Estimated model prices in USD per 1M tokens, used for the usage report and the monthly budget
+ * (see server/usage.js). ANALYSIS_PRICE_INPUT_PER_1M / ANALYSIS_PRICE_OUTPUT_PER_1M override the
+ * table for every model, and are the way to price a model not listed here (e.g. a local model
+ * behind the OpenAI-compatible provider: set both to 0). Usage of an unpriced model is reported
+ * with an unknown cost, never as free.
+ */
+export const MODEL_PRICES = {
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+};
+
+/** Models already warned about, so the log gets one line per model rather than one per call. */
+const warnedModels = new Set();
+
+const fromEnv = (value) => (value !== undefined && value !== '' ? Number(value) || 0 : undefined);
+
+/**
+ * Price of a model per 1M input and output tokens, or null when it is not listed (a versioned name
+ * such as gemini-2.0-flash-001 falls back to its base model) and the environment does not price it.
+ */
+export function getModelPrice(model) {
+  const listed = MODEL_PRICES[model] ?? MODEL_PRICES[String(model).replace(/-\d{3}$/, '')];
+  const input = fromEnv(process.env.ANALYSIS_PRICE_INPUT_PER_1M) ?? listed?.input;
+  const output = fromEnv(process.env.ANALYSIS_PRICE_OUTPUT_PER_1M) ?? listed?.output;
+  if (input === undefined || output === undefined) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(
+        `[Usage] No price for model "${model}" in config/pricing.js; its cost is reported as unknown. Set ANALYSIS_PRICE_INPUT_PER_1M and ANALYSIS_PRICE_OUTPUT_PER_1M to price it.`
+      );
+    }
+    return null;
+  }
+  return { input, output };
+}
@@ -0,0 +1,35 @@
+/**
+ * Brand tone guide for owner replies drafted by /api/reply-draft (see server/replyDrafts.js).
+ * guidelines: rules every reply follows (go into the prompt as-is)
+ * concepts: extra rules for the venues of one concept, keyed by concept slug
+ * signature: closing line per language; {venue} is replaced by the venue name
+ */
+export const REPLY_TONE = {
+  guidelines: [
+    'Warm, polite and professional; address the reviewer by name when it is known.',
+    'Thank the reviewer for taking the time to write.',
+    'For complaints: apologize sincerely without making excuses, acknowledge the specific issue and say what will be done about it.',
+    'For praise: mention what they liked and invite them back.',
+    'Never argue with the reviewer, blame staff by name, offer compensation or share private details.',
+    'Keep it short: 2 to 4 sentences before the signature.',
+  ],
+  concepts: {
+    dining: ['Invite unhappy guests to contact the restaurant manager so the team can make it right.'],
+    retail: ['Invite unhappy customers to contact the store so staff can help with the product or order.'],
+    supermarket: ['Mention that the feedback has been passed on to the store manager.'],
+  },
+  signature: {
+    vi: 'Trân trọng,\n{venue}',
+    en: 'Kind regards,\n{venue}',
+  },
+};
+
+/** Rules for a reply of one concept: the general guidelines plus the concept's own. */
+export function getReplyGuidelines(concept) {
+  return [...REPLY_TONE.guidelines, ...(REPLY_TONE.concepts[concept] ?? [])];
+}
+
+/** Closing line of a reply in `language`, with the venue name filled in. */
+export function getReplySignature(language, venueName) {
+  return (REPLY_TONE.signature[language] ?? REPLY_TONE.signature.en).replace('{venue}', venueName);
+}
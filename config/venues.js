@@ -1,4 +1,15 @@
-/** All venues organized by concept. Single source of truth for venue configuration. */
+/**
+ * Review source used when a venue has no `source`. See server/connectors/ for the other types:
+ *   { type: 'local-dir', path: 'data/imports/aeon-tan-phu' }
+ *   { type: 'json-http', url: 'https://…/{id}', itemsPath: 'data', fields: { author: 'user.name', date: 'created_at', content: 'text', rating: 'stars' } }
+ */
+export const DEFAULT_SOURCE = { type: 'phulong-api' };
+
+/**
+ * Initial venues, organized by concept. Seeds data/venues.json on first server start;
+ * after that venues are managed through /api/venues (admin screen: /admin/venues).
+ * `competitor: true` marks other chains' venues; the rest are ours (see server/groupNarrative.js).
+ */
 export const VENUES = [
   // Supermarkets
   { id: '1', name: 'Mena Gourmet Market - Menas Mall Saigon Airport', concept: 'supermarket' },
@@ -8,18 +19,18 @@ export const VENUES = [
   { id: '16', name: 'MenaWorld - Menas Mall', concept: 'supermarket' },
   { id: '21', name: 'Mena Gourmet market - 547 HTP', concept: 'supermarket' },
   { id: '23', name: 'Mena Gourmet Market -313 Nguyễn Thị Thập', concept: 'supermarket' },
-  { id: '24', name: 'Siêu thị Emart - Phan Văn Trị', concept: 'supermarket' },
+  { id: '24', name: 'Siêu thị Emart - Phan Văn Trị', concept: 'supermarket', competitor: true },
   { id: '25', name: 'Annam Gourmet Riverpark Premier', concept: 'supermarket' },
   { id: '26', name: 'Annam Gourmet - Saigon Centre - Takashimaya', concept: 'supermarket' },
   { id: '27', name: 'Annam Gourmet - Saigon Pearl', concept: 'supermarket' },
-  { id: '28', name: 'Siêu thị Finelife Urban Hill', concept: 'supermarket' },
-  { id: '29', name: 'Siêu thị Finelife Riviera Point', concept: 'supermarket' },
-  { id: '31', name: 'LOTTE Mart Gò Vấp', concept: 'supermarket' },
-  { id: '32', name: 'LOTTE Mart Quận 7', concept: 'supermarket' },
-  { id: '33', name: 'AEON MALL TÂN PHÚ', concept: 'supermarket' },
-  { id: '34', name: 'AEON MALL Bình Tân', concept: 'supermarket' },
-  { id: '35', name: 'GO! Nguyễn Thị Thập', concept: 'supermarket' },
-  { id: '36', name: 'GO! Gò Vấp', concept: 'supermarket' },
+  { id: '28', name: 'Siêu thị Finelife Urban Hill', concept: 'supermarket', competitor: true },
+  { id: '29', name: 'Siêu thị Finelife Riviera Point', concept: 'supermarket', competitor: true },
+  { id: '31', name: 'LOTTE Mart Gò Vấp', concept: 'supermarket', competitor: true },
+  { id: '32', name: 'LOTTE Mart Quận 7', concept: 'supermarket', competitor: true },
+  { id: '33', name: 'AEON MALL TÂN PHÚ', concept: 'supermarket', competitor: true },
+  { id: '34', name: 'AEON MALL Bình Tân', concept: 'supermarket', competitor: true },
+  { id: '35', name: 'GO! Nguyễn Thị Thập', concept: 'supermarket', competitor: true },
+  { id: '36', name: 'GO! Gò Vấp', concept: 'supermarket', competitor: true },
 
   // Retail Stores
   { id: '15', name: 'Mena Cosmetics & Perfumes', concept: 'retail' },
@@ -35,22 +46,8 @@ export const VENUES = [
 ];
 
 /**
- * Get all venues filtered by concept
- */
-export function getVenuesByConcept(concept) {
-  return VENUES.filter(v => v.concept === concept);
-}
-
-/**
- * Get a venue by its ID
- */
-export function getVenueById(id) {
-  return VENUES.find(v => v.id === id);
-}
-
-/**
- * Get all venue IDs for a specific concept
+ * Get the review source config for a venue (falls back to DEFAULT_SOURCE)
  */
-export function getVenueIdsByConcept(concept) {
-  return getVenuesByConcept(concept).map(v => v.id);
+export function getVenueSource(venue) {
+  return venue?.source ?? DEFAULT_SOURCE;
 }
@@ -1,5 +1,7 @@
 
-import { TimeFilter } from './types';
+import { AnalysisLanguage, OutputLanguage, TimeFilter } from './types';
+import { analysisLanguageSchema, outputLanguageSchema } from './schemas';
+import type { MessageKey } from './i18n/messages';
 
 /** Anchor date for parsing relative dates in sample data (e.g. "3 weeks ago"). */
 export const SAMPLE_DATA_ANCHOR_DATE = '2026-01-11T12:00:00Z';
@@ -7,14 +9,20 @@ export const SAMPLE_DATA_ANCHOR_DATE = '2026-01-11T12:00:00Z';
 /** Last Week = last 7 days from today */
 export const LAST_WEEK_FILTER_VALUE = '0.25';
 
-/** Options for time filter dropdown (used in ComparisonTable and ReviewList). */
-export const TIME_FILTER_OPTIONS: { value: TimeFilter; label: string }[] = [
-  { value: 'all', label: 'All Time' },
-  { value: '0.25', label: 'Last Week' },
-  { value: '1', label: 'Last Month' },
-  { value: '3', label: 'Last 3 Months' },
-  { value: '6', label: 'Last 6 Months' },
+/** Options for time filter dropdown (used in ComparisonTable and ReviewList); labels come from i18n/messages.ts. */
+export const TIME_FILTER_OPTIONS: { value: TimeFilter; labelKey: MessageKey }[] = [
+  { value: 'all', labelKey: 'timeFilter.all' },
+  { value: '0.25', labelKey: 'timeFilter.0.25' },
+  { value: '1', labelKey: 'timeFilter.1' },
+  { value: '3', labelKey: 'timeFilter.3' },
+  { value: '6', labelKey: 'timeFilter.6' },
 ];
 
-// Note: SUPERMARKET_IDS and RETAIL_STORE_IDS have been moved to config/venues.js
-// Use getVenueIdsByConcept() from config/venues.js instead
+/** UI languages; also the languages a group narrative can be written in. */
+export const OUTPUT_LANGUAGES: OutputLanguage[] = outputLanguageSchema.options;
+
+/** Output languages offered by ComparisonTable and accepted by /api/analyze and /api/jobs. */
+export const ANALYSIS_LANGUAGES: AnalysisLanguage[] = analysisLanguageSchema.options;
+
+// Note: SUPERMARKET_IDS and RETAIL_STORE_IDS are gone; venues live in the venue store (/api/venues).
+// Use getVenuesByConcept() from services/venueRegistry.ts instead
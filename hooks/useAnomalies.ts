@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { Anomaly, VenueAnomalies } from '../types';
+import { fetchAnomalies } from '../services/api';
+
+/**
+ * Anomalies of the last 30 days of all active venues, or of those of one concept; `anomalies` is
+ * keyed by venue id. Failures leave both empty: badges are an extra and must not break the page.
+ */
+export function useAnomalies(concept?: string) {
+  const [venues, setVenues] = useState<VenueAnomalies[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAnomalies(concept)
+      .then((list) => {
+        if (!cancelled) setVenues(list);
+      })
+      .catch((e) => console.warn('Could not load anomalies', e));
+    return () => { cancelled = true; };
+  }, [concept]);
+
+  const anomalies: Record<string, Anomaly[]> = Object.fromEntries(venues.map((v) => [v.venueId, v.anomalies]));
+  return { venues, anomalies };
+}
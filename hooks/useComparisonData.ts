@@ -1,38 +1,60 @@
-import { useState, useEffect, useRef } from 'react';
-import { ComparisonRow, TimeFilter, RawReviewData } from '../types';
-import { fetchDatasets, fetchComparison, fetchDataset, analyzeWithApi, saveComparisonUpdates } from '../services/api';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { AnalysisFailure, AnalysisJob, AnalysisLanguage, AnalysisJobItem, ComparisonRow, TimeFilter, RawReviewData } from '../types';
+import {
+  fetchDatasets,
+  fetchComparison,
+  fetchDataset,
+  analyzeWithApi,
+  saveComparisonUpdates,
+  createAnalysisJob,
+  fetchAnalysisJobs,
+  subscribeToAnalysisJob,
+  AnalysisRequestError,
+} from '../services/api';
 import { filterCsvByTime } from '../utils/csvFilter';
 import { createEmptyComparisonRow } from '../utils/comparisonRow';
-import { getVenueById } from '../config/venues.js';
+import { loadVenues, getVenueById, isArchivedVenue } from '../services/venueRegistry';
 
 export function useComparisonData() {
   const [data, setData] = useState<ComparisonRow[]>([]);
   const [rawDatasets, setRawDatasets] = useState<RawReviewData[]>([]);
   const [loading, setLoading] = useState(true);
   const [apiReady, setApiReady] = useState(false);
-  const [analyzingGroups, setAnalyzingGroups] = useState<Set<string>>(new Set());
+  /** Latest analysis job per group id (running or last finished). */
+  const [jobs, setJobs] = useState<Record<string, AnalysisJob>>({});
   const [analyzingItemId, setAnalyzingItemId] = useState<string | null>(null);
+  /** Last failure per venue id; cleared when the venue is analyzed successfully. */
+  const [failures, setFailures] = useState<Record<string, AnalysisFailure>>({});
   const [error, setError] = useState<string | null>(null);
-  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const jobStreamsRef = useRef<Map<string, () => void>>(new Map());
+
+  const analyzingGroups = useMemo(
+    () => new Set((Object.values(jobs) as AnalysisJob[]).filter((j) => j.status === 'running').map((j) => j.groupId)),
+    [jobs]
+  );
 
   useEffect(() => {
     let cancelled = false;
     (async () => {
       try {
-        // Only fetch comparison data initially (fast, from JSON file)
-        // Datasets will be fetched lazily when needed (on analyze)
-        const comparison = await fetchComparison();
+        // Comparison rows first (fast, from JSON file); datasets come from the local
+        // review store and are loaded in the background for review counts/ratings
+        const [comparison] = await Promise.all([fetchComparison(), loadVenues()]);
+        fetchDatasets().then(
+          (datasets) => { if (!cancelled) setRawDatasets(datasets); },
+          (e) => console.warn('Could not load datasets', e)
+        );
         if (!cancelled) {
-          // Ensure all rows have concept field from VENUES config
-          const enrichedComparison = comparison.map((row) => {
-            if (!row.concept) {
+          // Concept comes from the venue store (venues can be re-conceptualized); archived venues are hidden
+          const enrichedComparison = comparison
+            .filter((row) => !isArchivedVenue(row.id))
+            .map((row) => {
               const venue = getVenueById(row.id);
-              if (venue?.concept) {
+              if (venue?.concept && venue.concept !== row.concept) {
                 return { ...row, concept: venue.concept };
               }
-            }
-            return row;
-          });
+              return row;
+            });
           setData(enrichedComparison);
           setApiReady(true);
           setError(null);
@@ -48,139 +70,105 @@ export function useComparisonData() {
     
     return () => {
       cancelled = true;
-      // Cleanup retry timeout on unmount
-      if (retryTimeoutRef.current) {
-        clearTimeout(retryTimeoutRef.current);
-        retryTimeoutRef.current = null;
-      }
+      // Close progress streams on unmount; the jobs keep running on the server
+      jobStreamsRef.current.forEach((close) => close());
+      jobStreamsRef.current.clear();
     };
   }, []);
 
-  const handleAnalyzeGroup = async (groupId: string, idsToAnalyze: string[], filter: TimeFilter) => {
-    if (!apiReady) {
-      setError('API not ready. Start the server with: npm run server');
-      return;
-    }
-
-    setAnalyzingGroups(prev => new Set(prev).add(groupId));
-    setError(null);
-
-    const newResults: ComparisonRow[] = [];
-
-    try {
-      // Step 1: Fetch all resort datasets in parallel
-      const fetchResults = await Promise.allSettled(
-        idsToAnalyze.map((id) => fetchDataset(id))
-      );
+  const setFailure = (venueId: string, failure: AnalysisFailure | null) => {
+    setFailures((prev) => {
+      if (!failure && !prev[venueId]) return prev;
+      const next = { ...prev };
+      if (failure) next[venueId] = failure;
+      else delete next[venueId];
+      return next;
+    });
+  };
 
-      const datasets: RawReviewData[] = [];
-      for (let i = 0; i < idsToAnalyze.length; i++) {
-        const id = idsToAnalyze[i];
-        const settled = fetchResults[i];
-        if (settled.status === 'fulfilled') {
-          datasets.push(settled.value);
-        } else {
-          const fallback = rawDatasets.find((ds) => ds.id === id);
-          if (fallback) {
-            datasets.push(fallback);
-          } else {
-            const existingRow = data.find((r) => r.id === id);
-            const venue = getVenueById(id);
-            datasets.push({
-              id,
-              name: existingRow?.location ?? venue?.name ?? id,
-              csvContent: 'author,date,content,rating,source\n',
-              concept: venue?.concept,
-            });
-          }
-        }
-      }
+  /** Put the rows of finished job items into state (the server already saved them) and record failures. */
+  const applyJobRows = (job: AnalysisJob) => {
+    job.items.forEach((item) => {
+      if (item.status === 'failed') setFailure(item.venueId, { kind: item.errorKind ?? 'unknown', message: item.error ?? '' });
+      else if (item.status === 'done') setFailure(item.venueId, null);
+    });
+    const rows = job.items
+      .filter((item): item is AnalysisJobItem & { row: ComparisonRow } => item.status === 'done' && !!item.row)
+      .map((item) => item.row);
+    if (rows.length === 0) return;
+    setData((prev) => {
+      const next = [...prev];
+      rows.forEach((row) => {
+        const idx = next.findIndex((r) => r.id === row.id);
+        if (idx !== -1) next[idx] = row;
+        else next.unshift(row);
+      });
+      return next;
+    });
+  };
 
-      // Optional: update rawDatasets cache with successfully fetched data
-      const fetched = fetchResults
-        .filter((r): r is PromiseFulfilledResult<RawReviewData> => r.status === 'fulfilled')
-        .map((r) => r.value);
-      if (fetched.length > 0) {
-        setRawDatasets((prev) => {
-          const next = [...prev];
-          fetched.forEach((ds) => {
-            const idx = next.findIndex((d) => d.id === ds.id);
-            if (idx >= 0) next[idx] = ds;
-            else next.push(ds);
-          });
-          return next;
+  /** Track a job and, while it runs, follow its progress stream. */
+  const watchJob = (job: AnalysisJob) => {
+    setJobs((prev) => ({ ...prev, [job.groupId]: job }));
+    applyJobRows(job);
+    if (job.status !== 'running' || jobStreamsRef.current.has(job.id)) return;
+    const close = subscribeToAnalysisJob(
+      job.id,
+      (update) => {
+        setJobs((prev) => ({ ...prev, [update.groupId]: update }));
+        applyJobRows(update);
+      },
+      () => {
+        jobStreamsRef.current.delete(job.id);
+        // A job the server no longer knows (e.g. after a restart) must not keep its group spinning
+        setJobs((prev) => {
+          const current = prev[job.groupId];
+          return current?.id === job.id && current.status === 'running'
+            ? { ...prev, [job.groupId]: { ...current, status: 'done' } }
+            : prev;
         });
       }
+    );
+    jobStreamsRef.current.set(job.id, close);
+  };
 
-      // Step 2: Analyze with concurrency limit (2) to balance speed vs Gemini rate limit
-      const ANALYZE_CONCURRENCY = 2;
-      const months = filter === 'all' ? 'all' : parseFloat(filter);
-      const analyzeOne = async (dataset: RawReviewData): Promise<ComparisonRow> => {
-        const filteredCsv = filterCsvByTime(dataset.csvContent, months);
-        const rowCount = filteredCsv.trim().split('\n').length;
-        if (rowCount <= 1) return createEmptyComparisonRow(dataset.id, dataset.name, dataset.concept);
-        try {
-          const result = await analyzeWithApi(dataset.id, dataset.name, filteredCsv, 'table');
-          // Ensure concept is preserved
-          if (dataset.concept && !result.concept) {
-            result.concept = dataset.concept;
-          }
-          return result;
-        } catch (e) {
-          console.error(`Failed to analyze ${dataset.name}`, e);
-          return createEmptyComparisonRow(dataset.id, dataset.name, dataset.concept);
-        }
-      };
-      for (let i = 0; i < datasets.length; i += ANALYZE_CONCURRENCY) {
-        const chunk = datasets.slice(i, i + ANALYZE_CONCURRENCY);
-        const chunkResults = await Promise.all(chunk.map(analyzeOne));
-        newResults.push(...chunkResults);
-      }
-
-      // Step 3: Merge into state
-      if (newResults.length > 0) {
-        const updatedData = [...data];
-        newResults.forEach((newRow) => {
-          const idx = updatedData.findIndex((r) => r.id === newRow.id);
-          if (idx !== -1) {
-            updatedData[idx] = newRow;
-          } else {
-            updatedData.unshift(newRow);
-          }
-        });
-        setData(updatedData);
+  // Reattach to jobs that are still running on the server (e.g. after a page reload)
+  useEffect(() => {
+    if (!apiReady) return;
+    fetchAnalysisJobs(true).then(
+      (running) => running.forEach(watchJob),
+      (e) => console.warn('Could not load running analysis jobs', e)
+    );
+  }, [apiReady]);
 
-        // Step 4: Persist to comparison-data.json (PATCH merge)
-        try {
-          await saveComparisonUpdates(newResults);
-        } catch (err) {
-          setError(err instanceof Error ? err.message : 'Failed to save comparison data');
-          // Clear any existing retry timeout
-          if (retryTimeoutRef.current) {
-            clearTimeout(retryTimeoutRef.current);
-          }
-          // Retry after delay
-          retryTimeoutRef.current = setTimeout(() => {
-            saveComparisonUpdates(newResults).then(
-              () => setError(null),
-              (e) => setError(e instanceof Error ? e.message : 'Save failed after retry')
-            );
-            retryTimeoutRef.current = null;
-          }, 1000);
-        }
-      }
+  const handleAnalyzeGroup = async (
+    groupId: string,
+    idsToAnalyze: string[],
+    filter: TimeFilter,
+    force = false,
+    language: AnalysisLanguage = 'vi',
+    excludeFlagged = false
+  ) => {
+    if (!apiReady) {
+      setError('API not ready. Start the server with: npm run server');
+      return;
+    }
+    setError(null);
+    try {
+      // The server runs the batch with bounded concurrency; closing the tab does not stop it
+      watchJob(await createAnalysisJob(groupId, idsToAnalyze, filter, force, language, excludeFlagged));
     } catch (err) {
-      setError(`An error occurred analyzing ${groupId}.`);
-    } finally {
-      setAnalyzingGroups((prev) => {
-        const next = new Set(prev);
-        next.delete(groupId);
-        return next;
-      });
+      setError(err instanceof Error ? err.message : `An error occurred analyzing ${groupId}.`);
     }
   };
 
-  const handleAnalyzeItem = async (itemId: string, filter: TimeFilter) => {
+  const handleAnalyzeItem = async (
+    itemId: string,
+    filter: TimeFilter,
+    force = false,
+    language: AnalysisLanguage = 'vi',
+    excludeFlagged = false
+  ) => {
     if (!apiReady) {
       setError('API not ready. Start the server with: npm run server');
       return;
@@ -217,7 +205,7 @@ export function useComparisonData() {
         await saveComparisonUpdates([emptyRow]);
         return;
       }
-      const result = await analyzeWithApi(dataset.id, dataset.name, filteredCsv, 'item');
+      const result = await analyzeWithApi(dataset.id, dataset.name, filteredCsv, 'item', filter, force, language, excludeFlagged);
       // Ensure concept is preserved
       if (dataset.concept && !result.concept) {
         result.concept = dataset.concept;
@@ -229,9 +217,15 @@ export function useComparisonData() {
         else next.unshift(result);
         return next;
       });
+      setFailure(itemId, null);
       await saveComparisonUpdates([result]);
       // Server also writes to comparison-data.json on analyze; this syncs client state with file
     } catch (err) {
+      if (err instanceof AnalysisRequestError) {
+        // Shown on the row itself; the previous result stays in place
+        setFailure(itemId, { kind: err.kind, message: err.message });
+        return;
+      }
       setError(err instanceof Error ? err.message : 'Failed to analyze item');
     } finally {
       setAnalyzingItemId(null);
@@ -248,5 +242,7 @@ export function useComparisonData() {
     handleAnalyzeItem,
     analyzingGroups,
     analyzingItemId,
+    jobs,
+    failures,
   };
 }
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+import { Concept } from '../types';
+import { loadConcepts, listConcepts } from '../services/conceptRegistry';
+
+/** Concept definitions from /api/concepts (shared cache across components). */
+export function useConcepts() {
+  const [concepts, setConcepts] = useState<Concept[]>(listConcepts);
+  const [loading, setLoading] = useState(concepts.length === 0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadConcepts().then(
+      (list) => {
+        if (!cancelled) {
+          setConcepts(list);
+          setError(null);
+        }
+      },
+      (e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load concepts');
+      }
+    ).finally(() => {
+      if (!cancelled) setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  return { concepts, loading, error };
+}
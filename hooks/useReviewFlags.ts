@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ReviewFlag } from '../types';
+import { fetchReviewFlags } from '../services/api';
+
+/**
+ * Integrity flags of the stored reviews of one venue or concept (or of all venues); `flags` is keyed
+ * by venue id. Failures leave it empty: a review without a badge is still a review.
+ */
+export function useReviewFlags({ venueId, concept }: { venueId?: string; concept?: string }) {
+  const [list, setList] = useState<ReviewFlag[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchReviewFlags(venueId, concept)
+      .then((result) => {
+        if (!cancelled) setList(result);
+      })
+      .catch((e) => console.warn('Could not load review flags', e));
+    return () => { cancelled = true; };
+  }, [venueId, concept]);
+
+  // Memoized: ComparisonTable recomputes its rating column when this changes
+  const flags = useMemo(() => {
+    const byVenue: Record<string, ReviewFlag[]> = {};
+    list.forEach((flag) => (byVenue[flag.venueId] ??= []).push(flag));
+    return byVenue;
+  }, [list]);
+  return { list, flags };
+}
@@ -0,0 +1,64 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { OutputLanguage } from '../types';
+import { MESSAGES, MessageKey } from './messages';
+
+export type { MessageKey } from './messages';
+
+const STORAGE_KEY = 'sentix.language';
+
+export type TranslateFn = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+interface I18nContextValue {
+  language: OutputLanguage;
+  setLanguage: (language: OutputLanguage) => void;
+  t: TranslateFn;
+}
+
+/** Saved choice first, then the browser language; Vietnamese unless the browser asks for English. */
+function getInitialLanguage(): OutputLanguage {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved === 'vi' || saved === 'en') return saved;
+  } catch {
+    // Storage can be blocked (private mode); fall through to the browser language
+  }
+  return navigator.language?.toLowerCase().startsWith('en') ? 'en' : 'vi';
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<OutputLanguage>(getInitialLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback((next: OutputLanguage) => {
+    setLanguageState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Not persisted; the choice still applies to this session
+    }
+  }, []);
+
+  const t = useCallback<TranslateFn>(
+    (key, params) => {
+      const template = MESSAGES[language][key] ?? MESSAGES.en[key] ?? key;
+      if (!params) return template;
+      return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+    },
+    [language]
+  );
+
+  const value = useMemo(() => ({ language, setLanguage, t }), [language, setLanguage, t]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+/** Current UI language, a setter (persisted in localStorage) and the translate function. */
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useI18n must be used inside <I18nProvider>');
+  return context;
+}
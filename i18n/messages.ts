@@ -0,0 +1,459 @@
+import { OutputLanguage } from '../types';
+
+/**
+ * UI strings per language. `en` defines the keys; `vi` must provide every one of them.
+ * Placeholders are written as {name} and filled by t() (see i18n/index.tsx).
+ */
+const en = {
+  'app.loadingData': 'Loading data...',
+  'app.loading': 'Loading...',
+  'app.tagline': 'Advanced sentiment analysis engine powered by Gemini 3.0',
+  'app.footer': 'Sentix AI processes unstructured CSV data into actionable business intelligence.',
+  'app.modelActive': 'AI Model Active',
+  'nav.home': 'Home',
+  'nav.dashboard': 'Dashboard',
+  'nav.venues': 'Venues',
+  'nav.alerts': 'Alerts',
+  'language.label': 'Language',
+
+  'timeFilter.all': 'All Time',
+  'timeFilter.0.25': 'Last Week',
+  'timeFilter.1': 'Last Month',
+  'timeFilter.3': 'Last 3 Months',
+  'timeFilter.6': 'Last 6 Months',
+
+  'analysisError.quota': 'AI quota exhausted',
+  'analysisError.auth': 'AI configuration / authentication error',
+  'analysisError.timeout': 'AI did not respond (timeout)',
+  'analysisError.invalid-output': 'AI returned invalid data',
+  'analysisError.upstream-source': 'Could not load reviews from the source',
+  'analysisError.budget': 'Monthly AI budget reached',
+  'analysisError.unknown': 'Analysis failed',
+
+  'outputLanguage.label': 'Output language of the analysis',
+  'outputLanguage.vi': 'VI',
+  'outputLanguage.en': 'EN',
+  'outputLanguage.both': 'VI + EN',
+
+  'concept.notFound': 'Concept not found: {slug}',
+
+  'reviewsPage.loading': 'Loading reviews...',
+  'reviewsPage.loadFailed': 'Failed to load reviews',
+  'reviewsPage.notFound': 'Resort not found',
+  'reviewsPage.back': 'Back to dashboard',
+
+  'table.noData': 'No data to analyze',
+  'table.location': 'Location',
+  'table.totalReviews': 'Total review',
+  'table.overallRating': 'Overall Rating',
+  'table.forceReanalyze': 'Force re-analyze',
+  'table.forceReanalyzeHint': 'Ignore saved results and analyze again',
+  'table.analyzeTable': 'Analyze Table',
+  'table.analyze': 'Analyze',
+  'table.analyzing': 'Analyzing...',
+  'table.analyzingProgress': 'Analyzing {done}/{total}...',
+  'table.viewReviews': 'View Reviews',
+  'table.reviewCount': '{count} review',
+  'table.evidenceLink': 'Show the related reviews',
+  'table.cached': 'cached',
+  'table.cachedHint': 'Reviews unchanged: result served from the cache',
+  'table.jobQueued': 'queued',
+  'table.jobRunning': 'analyzing',
+  'table.jobDone': 'done',
+  'table.coverage': '{analyzed}/{total} analyzed',
+  'table.coverageHint': 'Analyzed the newest {analyzed}/{total} reviews ({chunks} parts)',
+
+  'reviews.count': '{count} reviews',
+  'reviews.focus': 'Reviews related to:',
+  'reviews.showAll': 'Show all reviews',
+  'reviews.ratingDistribution': 'Rating Distribution',
+  'reviews.showing': 'Showing {count} reviews for the selected period.',
+  'reviews.noContent': 'No comment content.',
+  'reviews.empty': 'No reviews found',
+  'reviews.emptyHint': 'Try adjusting the time filter to see more results.',
+  'reply.draft': 'Draft reply',
+  'reply.open': 'Reply draft',
+  'reply.title': 'Owner reply',
+  'reply.edited': 'edited',
+  'reply.close': 'Close',
+  'reply.generating': 'Drafting a reply...',
+  'reply.save': 'Save draft',
+  'reply.saved': 'Saved',
+  'reply.copy': 'Copy',
+  'reply.copied': 'Copied',
+  'reply.regenerate': 'New draft',
+  'topics.title': 'Top topics',
+  'topics.positive': 'Positive reviews ({count})',
+  'topics.negative': 'Negative reviews ({count})',
+  'topics.none': 'Not enough reviews yet.',
+  'topics.reviewCount': 'Mentioned in {count} reviews',
+  'topics.filter': 'Reviews mentioning:',
+  'topics.clear': 'Clear',
+  'topics.venuesWith': 'Venues whose reviews mention',
+  'anomaly.badge': '{count} anomalies',
+  'anomaly.rating-drop': 'Rating drop: 7-day average {value}★ vs. usual {baseline}★ ({date})',
+  'anomaly.volume-spike': 'Review spike: {value} reviews vs. usual {baseline}/day ({date})',
+  'anomaly.one-star-burst': 'Burst of 1★ reviews: {value} vs. usual {baseline}/day ({date})',
+  'anomaly.venues': '{count} venues with anomalies',
+  'alerts.title': 'Alerts',
+  'alerts.subtitle': 'Rules on new reviews and ratings, and the alerts they fired',
+  'alerts.rules': 'Rules',
+  'alerts.rulesHint': 'Rules are added and edited through /api/alerts/rules (see README).',
+  'alerts.history': 'Alert history',
+  'alerts.empty': 'No alerts have fired yet.',
+  'alerts.checkNow': 'Check now',
+  'alerts.checked': '{count} new alerts',
+  'alerts.enabled': 'On',
+  'alerts.disabled': 'Off',
+  'alerts.cooldown': 'at most every {hours}h',
+  'alerts.scope.all': 'All own venues',
+  'alerts.scope.concept': 'Own venues of {concept}',
+  'alerts.rule.low-ratings': 'More than {moreThan} reviews of {maxRating}★ or less in {hours}h',
+  'alerts.rule.concept-rating': 'Average rating of {concept} below {below}★',
+  'alerts.rule.keyword': 'A review from the last {hours}h mentions "{keyword}"',
+  'alerts.summary.low-ratings': '{count} low-rated reviews in {hours}h (more than {threshold})',
+  'alerts.summary.concept-rating': 'Average rating {value}★ (below {threshold}★)',
+  'alerts.summary.keyword': '{count} new reviews mention "{keyword}"',
+  'alerts.trigger.sync': 'after sync',
+  'alerts.trigger.analyze': 'after analysis',
+  'alerts.trigger.manual': 'manual check',
+  'alerts.moreReviews': '+{count} more',
+  'alerts.delivery.webhook': 'Webhook',
+  'alerts.delivery.email': 'Email (.eml)',
+  'alerts.delivery.none': 'Not delivered: no webhook or recipient configured',
+  'integrity.badge': 'Suspicious',
+  'integrity.exclude': 'Exclude suspicious reviews ({count})',
+  'integrity.excludeHint': 'Leave reviews that look like spam or fakes out of the rating and the analysis',
+  'integrity.signal.duplicate-text': 'Same text as another review',
+  'integrity.signal.new-author-burst': 'Part of a burst of reviews from new authors',
+  'integrity.signal.sentiment-mismatch': 'Rating does not match the text',
+  'integrity.signal.competitor-pattern': 'Author gives every competitor 1★ and us 5★',
+
+  'csvPreview.title': 'Import CSV Preview',
+  'csvPreview.mergeInto': 'Merge new reviews into',
+  'csvPreview.newVenue': 'New venue',
+  'csvPreview.records': '~{count} records',
+  'csvPreview.author': 'Author',
+  'csvPreview.rating': 'Rating',
+  'csvPreview.date': 'Date',
+  'csvPreview.content': 'Content',
+  'csvPreview.noContent': 'No content',
+  'csvPreview.empty': 'No valid data found or empty CSV.',
+  'csvPreview.moreRows': '...and {count} more rows',
+  'csvPreview.mergeNote': 'Existing data is kept. Only new reviews are added (duplicates are skipped). ',
+  'csvPreview.supported': 'Supported:',
+  'csvPreview.or': 'or',
+  'csvPreview.cancel': 'Cancel',
+  'csvPreview.confirm': 'Confirm Import',
+
+  'dashboard.subtitle': 'Pick a concept to see its overview',
+  'dashboard.backHome': 'Back to home',
+  'dashboard.loading': 'Loading data from the API...',
+  'dashboard.loadFailed': 'Could not load data. Check the server (npm run server).',
+  'dashboard.back': 'Back to Dashboard',
+  'dashboard.typeNotFound': 'Dashboard type not found.',
+  'dashboard.allTime': 'All time',
+  'dashboard.subheading': 'Visualization & period comparison · Period: {period}',
+  'dashboard.modeMonth': 'Same period (month)',
+  'dashboard.modeWeek': 'Same period (week)',
+  'dashboard.kpiVenues': 'Venues',
+  'dashboard.kpiReviews': 'Total reviews (period)',
+  'dashboard.kpiRating': 'Avg rating',
+  'dashboard.kpiVsLastWeek': 'Vs last week',
+  'dashboard.kpiVsLastPeriod': 'Vs previous period',
+  'dashboard.chartRating': 'Rating by venue',
+  'dashboard.chartReviews': 'Reviews by venue (period)',
+  'dashboard.noData': 'No data yet',
+  'dashboard.compareTitle': 'Period comparison: {previous} vs {current} (reviews)',
+  'dashboard.lastWeek': 'Last week',
+  'dashboard.thisWeek': 'This week',
+  'dashboard.previousPeriod': 'Previous period',
+  'dashboard.currentPeriod': 'This period',
+  'dashboard.reviewValue': '{label}: {count} review',
+  'dashboard.detailTable': 'Details per venue',
+  'dashboard.collapse': 'Collapse',
+  'dashboard.expand': 'Expand',
+  'dashboard.colLocation': 'Location',
+  'dashboard.colTotalReviews': 'Total reviews',
+  'dashboard.colRating': 'Rating',
+  'dashboard.details': 'Details',
+  'dashboard.viewReviews': 'View reviews',
+  'dashboard.reviewCount': '{count} reviews',
+  'dashboard.empty': 'No data for this concept yet.',
+  'dashboard.trendTitle': 'Rating and review trend (all time)',
+  'dashboard.trendWeekly': 'Weekly',
+  'dashboard.trendMonthly': 'Monthly',
+  'dashboard.trendRating': 'Average rating',
+  'dashboard.trendReviews': 'Reviews',
+  'dashboard.trendConceptAverage': 'Concept average',
+  'narrative.title': 'Executive summary',
+  'narrative.generate': 'Generate summary',
+  'narrative.regenerate': 'Regenerate',
+  'narrative.generating': 'Writing summary…',
+  'narrative.loading': 'Loading summary…',
+  'narrative.empty': 'No summary yet. Analyze at least two venues of this concept, then generate one.',
+  'narrative.leaders': 'Category leaders',
+  'narrative.gaps': 'Where we trail competitors',
+  'narrative.noGaps': 'None of our venues trails a competitor.',
+  'narrative.actions': 'Recommended actions',
+  'narrative.ranking': 'Ranking',
+  'narrative.competitor': 'Competitor',
+  'narrative.meta': 'Generated {date} · {model} · {count} venues',
+  'periodDiff.title': 'What changed',
+  'periodDiff.compare': 'Compare periods',
+  'periodDiff.recompare': 'Re-analyze',
+  'periodDiff.comparing': 'Analyzing both periods…',
+  'periodDiff.hint': 'Analyzes the reviews of both periods and lists new, resolved and persisting complaints per category.',
+  'periodDiff.needPeriod': 'Pick a time period (not "All Time") to compare months.',
+  'periodDiff.venue': 'Venue',
+  'periodDiff.new': 'New complaints',
+  'periodDiff.resolved': 'Resolved',
+  'periodDiff.persisting': 'Persisting',
+  'periodDiff.noChanges': 'No complaints in either period.',
+  'periodDiff.period': '{label}: {count} reviews · {rating}★',
+  'periodDiff.mentions': '{count}×',
+  'periodDiff.mentionsChange': '{previous}× → {current}×',
+  'periodDiff.meta': 'Generated {date} · {model}',
+  'usage.title': 'AI usage · {month}',
+  'usage.cost': 'Est. cost',
+  'usage.costUnknown': 'Unknown',
+  'usage.unpriced': '{count} run(s) used a model without a price, so the cost is unknown (set ANALYSIS_PRICE_INPUT_PER_1M / ANALYSIS_PRICE_OUTPUT_PER_1M)',
+  'usage.runs': 'Runs',
+  'usage.tokens': 'Tokens',
+  'usage.tokensInOut': 'Tokens in / out',
+  'usage.avgLatency': 'Avg. latency',
+  'usage.budget': '{spent} of {budget} monthly budget',
+  'usage.budgetExceeded': 'Budget reached: new analyses are blocked',
+  'usage.noBudget': 'No monthly budget set (ANALYSIS_MONTHLY_BUDGET_USD)',
+  'usage.byVenue': 'By venue',
+  'usage.byConcept': 'By concept',
+};
+
+export type MessageKey = keyof typeof en;
+
+const vi: Record<MessageKey, string> = {
+  'app.loadingData': 'Đang tải dữ liệu...',
+  'app.loading': 'Đang tải...',
+  'app.tagline': 'Công cụ phân tích cảm xúc nâng cao, chạy trên Gemini 3.0',
+  'app.footer': 'Sentix AI biến dữ liệu CSV phi cấu trúc thành thông tin kinh doanh có thể hành động.',
+  'app.modelActive': 'AI đang hoạt động',
+  'nav.home': 'Trang chủ',
+  'nav.dashboard': 'Dashboard',
+  'nav.venues': 'Địa điểm',
+  'nav.alerts': 'Cảnh báo',
+  'language.label': 'Ngôn ngữ',
+
+  'timeFilter.all': 'Toàn thời gian',
+  'timeFilter.0.25': 'Tuần qua',
+  'timeFilter.1': 'Tháng qua',
+  'timeFilter.3': '3 tháng qua',
+  'timeFilter.6': '6 tháng qua',
+
+  'analysisError.quota': 'Hết hạn mức AI (quota)',
+  'analysisError.auth': 'Lỗi cấu hình / xác thực AI',
+  'analysisError.timeout': 'AI không phản hồi (timeout)',
+  'analysisError.invalid-output': 'AI trả về dữ liệu không hợp lệ',
+  'analysisError.upstream-source': 'Không tải được đánh giá từ nguồn',
+  'analysisError.budget': 'Đã hết ngân sách AI của tháng',
+  'analysisError.unknown': 'Phân tích thất bại',
+
+  'outputLanguage.label': 'Ngôn ngữ của kết quả phân tích',
+  'outputLanguage.vi': 'VI',
+  'outputLanguage.en': 'EN',
+  'outputLanguage.both': 'VI + EN',
+
+  'concept.notFound': 'Không tìm thấy loại hình: {slug}',
+
+  'reviewsPage.loading': 'Đang tải đánh giá...',
+  'reviewsPage.loadFailed': 'Không tải được đánh giá',
+  'reviewsPage.notFound': 'Không tìm thấy địa điểm',
+  'reviewsPage.back': 'Về dashboard',
+
+  'table.noData': 'Không có dữ liệu để phân tích',
+  'table.location': 'Địa điểm',
+  'table.totalReviews': 'Tổng review',
+  'table.overallRating': 'Điểm chung',
+  'table.forceReanalyze': 'Buộc phân tích lại',
+  'table.forceReanalyzeHint': 'Bỏ qua kết quả đã lưu và phân tích lại',
+  'table.analyzeTable': 'Phân tích bảng',
+  'table.analyze': 'Phân tích',
+  'table.analyzing': 'Đang phân tích...',
+  'table.analyzingProgress': 'Đang phân tích {done}/{total}...',
+  'table.viewReviews': 'Xem đánh giá',
+  'table.reviewCount': '{count} review',
+  'table.evidenceLink': 'Xem các đánh giá liên quan',
+  'table.cached': 'đã lưu',
+  'table.cachedHint': 'Dữ liệu đánh giá không đổi: kết quả được lấy từ bộ nhớ đệm',
+  'table.jobQueued': 'chờ',
+  'table.jobRunning': 'đang chạy',
+  'table.jobDone': 'xong',
+  'table.coverage': 'đã phân tích {analyzed}/{total}',
+  'table.coverageHint': 'Phân tích {analyzed}/{total} đánh giá mới nhất ({chunks} phần)',
+
+  'reviews.count': '{count} đánh giá',
+  'reviews.focus': 'Đánh giá liên quan đến:',
+  'reviews.showAll': 'Xem tất cả đánh giá',
+  'reviews.ratingDistribution': 'Phân bố điểm',
+  'reviews.showing': 'Đang hiển thị {count} đánh giá trong kì đã chọn.',
+  'reviews.noContent': 'Không có nội dung nhận xét.',
+  'reviews.empty': 'Không có đánh giá nào',
+  'reviews.emptyHint': 'Thử đổi bộ lọc thời gian để xem thêm kết quả.',
+  'reply.draft': 'Soạn phản hồi',
+  'reply.open': 'Bản nháp phản hồi',
+  'reply.title': 'Phản hồi của chủ cửa hàng',
+  'reply.edited': 'đã sửa',
+  'reply.close': 'Đóng',
+  'reply.generating': 'Đang soạn phản hồi...',
+  'reply.save': 'Lưu bản nháp',
+  'reply.saved': 'Đã lưu',
+  'reply.copy': 'Sao chép',
+  'reply.copied': 'Đã sao chép',
+  'reply.regenerate': 'Soạn lại',
+  'topics.title': 'Chủ đề nổi bật',
+  'topics.positive': 'Đánh giá tích cực ({count})',
+  'topics.negative': 'Đánh giá tiêu cực ({count})',
+  'topics.none': 'Chưa đủ đánh giá.',
+  'topics.reviewCount': 'Được nhắc đến trong {count} đánh giá',
+  'topics.filter': 'Đánh giá nhắc đến:',
+  'topics.clear': 'Bỏ lọc',
+  'topics.venuesWith': 'Địa điểm có đánh giá nhắc đến',
+  'anomaly.badge': '{count} bất thường',
+  'anomaly.rating-drop': 'Điểm giảm: trung bình 7 ngày {value}★ so với thường lệ {baseline}★ ({date})',
+  'anomaly.volume-spike': 'Đánh giá tăng đột biến: {value} đánh giá so với thường lệ {baseline}/ngày ({date})',
+  'anomaly.one-star-burst': 'Dồn dập đánh giá 1★: {value} so với thường lệ {baseline}/ngày ({date})',
+  'anomaly.venues': '{count} địa điểm có bất thường',
+  'alerts.title': 'Cảnh báo',
+  'alerts.subtitle': 'Quy tắc theo dõi đánh giá mới và điểm số, cùng các cảnh báo đã kích hoạt',
+  'alerts.rules': 'Quy tắc',
+  'alerts.rulesHint': 'Thêm và sửa quy tắc qua /api/alerts/rules (xem README).',
+  'alerts.history': 'Lịch sử cảnh báo',
+  'alerts.empty': 'Chưa có cảnh báo nào.',
+  'alerts.checkNow': 'Kiểm tra ngay',
+  'alerts.checked': '{count} cảnh báo mới',
+  'alerts.enabled': 'Bật',
+  'alerts.disabled': 'Tắt',
+  'alerts.cooldown': 'tối đa mỗi {hours} giờ',
+  'alerts.scope.all': 'Tất cả địa điểm của mình',
+  'alerts.scope.concept': 'Địa điểm của mình thuộc {concept}',
+  'alerts.rule.low-ratings': 'Hơn {moreThan} đánh giá từ {maxRating}★ trở xuống trong {hours} giờ',
+  'alerts.rule.concept-rating': 'Điểm trung bình của {concept} dưới {below}★',
+  'alerts.rule.keyword': 'Đánh giá trong {hours} giờ qua nhắc đến "{keyword}"',
+  'alerts.summary.low-ratings': '{count} đánh giá thấp trong {hours} giờ (ngưỡng: hơn {threshold})',
+  'alerts.summary.concept-rating': 'Điểm trung bình {value}★ (dưới {threshold}★)',
+  'alerts.summary.keyword': '{count} đánh giá mới nhắc đến "{keyword}"',
+  'alerts.trigger.sync': 'sau khi đồng bộ',
+  'alerts.trigger.analyze': 'sau khi phân tích',
+  'alerts.trigger.manual': 'kiểm tra thủ công',
+  'alerts.moreReviews': '+{count} đánh giá khác',
+  'alerts.delivery.webhook': 'Webhook',
+  'alerts.delivery.email': 'Email (.eml)',
+  'alerts.delivery.none': 'Chưa gửi: chưa cấu hình webhook hoặc người nhận',
+  'integrity.badge': 'Đáng ngờ',
+  'integrity.exclude': 'Loại đánh giá đáng ngờ ({count})',
+  'integrity.excludeHint': 'Không tính các đánh giá có dấu hiệu spam hoặc giả mạo vào điểm số và phân tích',
+  'integrity.signal.duplicate-text': 'Trùng nội dung với một đánh giá khác',
+  'integrity.signal.new-author-burst': 'Nằm trong đợt đánh giá dồn dập từ tài khoản mới',
+  'integrity.signal.sentiment-mismatch': 'Số sao không khớp với nội dung',
+  'integrity.signal.competitor-pattern': 'Tác giả cho mọi đối thủ 1★ và cho mình 5★',
+
+  'csvPreview.title': 'Xem trước CSV nhập vào',
+  'csvPreview.mergeInto': 'Gộp thêm review mới vào',
+  'csvPreview.newVenue': 'Thêm venue mới',
+  'csvPreview.records': '~{count} dòng',
+  'csvPreview.author': 'Tác giả',
+  'csvPreview.rating': 'Điểm',
+  'csvPreview.date': 'Ngày',
+  'csvPreview.content': 'Nội dung',
+  'csvPreview.noContent': 'Không có nội dung',
+  'csvPreview.empty': 'Không có dữ liệu hợp lệ hoặc CSV rỗng.',
+  'csvPreview.moreRows': '...và {count} dòng nữa',
+  'csvPreview.mergeNote': 'Dữ liệu cũ được giữ nguyên. Chỉ thêm các review mới (trùng lặp sẽ bỏ qua). ',
+  'csvPreview.supported': 'Hỗ trợ:',
+  'csvPreview.or': 'hoặc',
+  'csvPreview.cancel': 'Hủy',
+  'csvPreview.confirm': 'Xác nhận nhập',
+
+  'dashboard.subtitle': 'Chọn loại hình để xem tổng quan',
+  'dashboard.backHome': 'Về trang chủ',
+  'dashboard.loading': 'Đang tải dữ liệu từ API...',
+  'dashboard.loadFailed': 'Không tải được dữ liệu. Kiểm tra server (npm run server).',
+  'dashboard.back': 'Về Dashboard',
+  'dashboard.typeNotFound': 'Không tìm thấy loại dashboard.',
+  'dashboard.allTime': 'Toàn thời gian',
+  'dashboard.subheading': 'Trực quan hóa & so sánh cùng kì · Kì: {period}',
+  'dashboard.modeMonth': 'Cùng kì tháng',
+  'dashboard.modeWeek': 'Cùng kì tuần',
+  'dashboard.kpiVenues': 'Địa điểm',
+  'dashboard.kpiReviews': 'Tổng review (kì)',
+  'dashboard.kpiRating': 'Rating TB',
+  'dashboard.kpiVsLastWeek': 'So với tuần trước',
+  'dashboard.kpiVsLastPeriod': 'So với kì trước',
+  'dashboard.chartRating': 'Rating theo địa điểm',
+  'dashboard.chartReviews': 'Số review theo địa điểm (kì)',
+  'dashboard.noData': 'Chưa có dữ liệu',
+  'dashboard.compareTitle': 'So sánh cùng kì: {previous} vs {current} (số review)',
+  'dashboard.lastWeek': 'Tuần trước',
+  'dashboard.thisWeek': 'Tuần này',
+  'dashboard.previousPeriod': 'Kì trước',
+  'dashboard.currentPeriod': 'Kì này',
+  'dashboard.reviewValue': '{label}: {count} review',
+  'dashboard.detailTable': 'Bảng chi tiết từng địa điểm',
+  'dashboard.collapse': 'Thu gọn',
+  'dashboard.expand': 'Mở rộng',
+  'dashboard.colLocation': 'Địa điểm',
+  'dashboard.colTotalReviews': 'Tổng review',
+  'dashboard.colRating': 'Rating',
+  'dashboard.details': 'Chi tiết',
+  'dashboard.viewReviews': 'Xem reviews',
+  'dashboard.reviewCount': '{count} reviews',
+  'dashboard.empty': 'Chưa có dữ liệu cho loại hình này.',
+  'dashboard.trendTitle': 'Xu hướng rating và số review (toàn thời gian)',
+  'dashboard.trendWeekly': 'Theo tuần',
+  'dashboard.trendMonthly': 'Theo tháng',
+  'dashboard.trendRating': 'Rating trung bình',
+  'dashboard.trendReviews': 'Số review',
+  'dashboard.trendConceptAverage': 'Trung bình loại hình',
+  'narrative.title': 'Tóm tắt điều hành',
+  'narrative.generate': 'Tạo tóm tắt',
+  'narrative.regenerate': 'Tạo lại',
+  'narrative.generating': 'Đang viết tóm tắt…',
+  'narrative.loading': 'Đang tải tóm tắt…',
+  'narrative.empty': 'Chưa có tóm tắt. Hãy phân tích ít nhất hai địa điểm của loại hình này rồi tạo tóm tắt.',
+  'narrative.leaders': 'Dẫn đầu theo hạng mục',
+  'narrative.gaps': 'Điểm ta thua đối thủ',
+  'narrative.noGaps': 'Không địa điểm nào của ta thua đối thủ.',
+  'narrative.actions': 'Hành động đề xuất',
+  'narrative.ranking': 'Xếp hạng',
+  'narrative.competitor': 'Đối thủ',
+  'narrative.meta': 'Tạo lúc {date} · {model} · {count} địa điểm',
+  'periodDiff.title': 'Điều gì đã thay đổi',
+  'periodDiff.compare': 'So sánh hai kì',
+  'periodDiff.recompare': 'Phân tích lại',
+  'periodDiff.comparing': 'Đang phân tích hai kì…',
+  'periodDiff.hint': 'Phân tích review của cả hai kì và liệt kê các phàn nàn mới, đã khắc phục và còn tồn tại theo từng hạng mục.',
+  'periodDiff.needPeriod': 'Chọn một khoảng thời gian (không phải "Toàn thời gian") để so sánh theo tháng.',
+  'periodDiff.venue': 'Địa điểm',
+  'periodDiff.new': 'Phàn nàn mới',
+  'periodDiff.resolved': 'Đã khắc phục',
+  'periodDiff.persisting': 'Còn tồn tại',
+  'periodDiff.noChanges': 'Không có phàn nàn nào trong cả hai kì.',
+  'periodDiff.period': '{label}: {count} review · {rating}★',
+  'periodDiff.mentions': '{count}×',
+  'periodDiff.mentionsChange': '{previous}× → {current}×',
+  'periodDiff.meta': 'Tạo lúc {date} · {model}',
+  'usage.title': 'Sử dụng AI · {month}',
+  'usage.cost': 'Chi phí ước tính',
+  'usage.costUnknown': 'Không rõ',
+  'usage.unpriced': '{count} lượt chạy dùng mô hình chưa có giá nên không rõ chi phí (đặt ANALYSIS_PRICE_INPUT_PER_1M / ANALYSIS_PRICE_OUTPUT_PER_1M)',
+  'usage.runs': 'Lượt chạy',
+  'usage.tokens': 'Token',
+  'usage.tokensInOut': 'Token vào / ra',
+  'usage.avgLatency': 'Thời gian TB',
+  'usage.budget': '{spent} / ngân sách tháng {budget}',
+  'usage.budgetExceeded': 'Đã hết ngân sách: tạm dừng phân tích mới',
+  'usage.noBudget': 'Chưa đặt ngân sách tháng (ANALYSIS_MONTHLY_BUDGET_USD)',
+  'usage.byVenue': 'Theo địa điểm',
+  'usage.byConcept': 'Theo loại hình',
+};
+
+export const MESSAGES: Record<OutputLanguage, Record<MessageKey, string>> = { en, vi };
@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, Bell, CheckCircle2, Mail, RefreshCw, Webhook, XCircle } from 'lucide-react';
+import { Alert, AlertRule, Venue } from '../types';
+import { evaluateAlertRules, fetchAlertRules, fetchAlerts, setAlertRuleEnabled } from '../services/api';
+import { loadVenues } from '../services/venueRegistry';
+import { useConcepts } from '../hooks/useConcepts';
+import { MessageKey, useI18n } from '../i18n';
+
+/** Reviews shown per alert before "+N more". */
+const SHOWN_REVIEWS = 3;
+
+/** Alert rules (switch on/off, check now) and the history of alerts they fired (see server/alerts.js). */
+export const AlertsPage: React.FC = () => {
+  const { t, language } = useI18n();
+  const { concepts } = useConcepts();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [checkResult, setCheckResult] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchAlertRules(), fetchAlerts(), loadVenues().catch(() => [] as Venue[])]).then(
+      ([ruleList, alertList, venueList]) => {
+        if (cancelled) return;
+        setRules(ruleList);
+        setAlerts(alertList);
+        setVenues(venueList);
+      },
+      (e) => { if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load alerts'); }
+    ).finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const venueNames = useMemo(() => new Map(venues.map((v) => [v.id, v.name])), [venues]);
+  const conceptLabel = (slug: string) => concepts.find((c) => c.slug === slug)?.label ?? slug;
+
+  const handleToggle = async (rule: AlertRule) => {
+    setError(null);
+    try {
+      const updated = await setAlertRuleEnabled(rule.id, !rule.enabled);
+      setRules((list) => list.map((r) => (r.id === updated.id ? updated : r)));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update alert rule');
+    }
+  };
+
+  const handleCheck = async () => {
+    setError(null);
+    setChecking(true);
+    try {
+      const fired = await evaluateAlertRules();
+      setCheckResult(fired.length);
+      setAlerts(await fetchAlerts());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to evaluate alert rules');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const describeRule = (rule: AlertRule) => {
+    switch (rule.type) {
+      case 'low-ratings':
+        return t('alerts.rule.low-ratings', { moreThan: rule.moreThan, maxRating: rule.maxRating, hours: rule.windowHours });
+      case 'concept-rating':
+        return t('alerts.rule.concept-rating', { concept: conceptLabel(rule.concept), below: rule.below });
+      case 'keyword':
+        return t('alerts.rule.keyword', { keyword: rule.keyword, hours: rule.windowHours });
+    }
+  };
+
+  const ruleScope = (rule: AlertRule) => {
+    if (rule.type !== 'concept-rating' && rule.venueId) return venueNames.get(rule.venueId) ?? rule.venueId;
+    if (rule.concept) return t('alerts.scope.concept', { concept: conceptLabel(rule.concept) });
+    return t('alerts.scope.all');
+  };
+
+  const describeAlert = (alert: Alert) =>
+    t(`alerts.summary.${alert.type}` as MessageKey, {
+      count: alert.value,
+      value: alert.value.toFixed(2),
+      threshold: alert.threshold,
+      hours: alert.windowHours ?? '',
+      keyword: alert.keyword ?? '',
+    });
+
+  return (
+    <>
+      <header className="flex flex-col lg:flex-row justify-between items-stretch lg:items-center gap-4 sm:gap-6 bg-white p-3 sm:p-4 rounded-lg shadow-sm border-2 border-slate-300">
+        <div className="flex items-center gap-3 sm:gap-4 min-w-0">
+          <div className="bg-emerald-600 p-2.5 sm:p-3 rounded-lg shadow-lg shadow-emerald-200 shrink-0">
+            <Bell className="text-white w-6 h-6 sm:w-7 sm:h-7" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-xl sm:text-2xl font-black text-slate-900 tracking-tight">{t('alerts.title')}</h1>
+            <p className="text-slate-500 text-xs sm:text-sm font-medium mt-0.5">{t('alerts.subtitle')}</p>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3 flex-wrap">
+          <Link
+            to="/"
+            className="text-sm font-semibold text-slate-600 hover:text-emerald-600 px-3 py-2 rounded-md border-2 border-gray-200 hover:border-emerald-300 transition-colors shrink-0"
+          >
+            {t('nav.home')}
+          </Link>
+          <button
+            type="button"
+            onClick={handleCheck}
+            disabled={checking}
+            className="flex items-center justify-center gap-2 px-4 py-2 min-h-[36px] rounded-md text-sm font-bold bg-emerald-600 hover:bg-emerald-700 text-white shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw size={16} className={checking ? 'animate-spin' : ''} /> {t('alerts.checkNow')}
+          </button>
+          {checkResult !== null && !checking && (
+            <span className="text-xs font-semibold text-slate-500">{t('alerts.checked', { count: checkResult })}</span>
+          )}
+          {error && (
+            <div className="flex items-center gap-2 text-rose-600 bg-rose-50 px-3 py-2.5 rounded-md text-xs border-2 border-rose-200 font-semibold w-full sm:max-w-md lg:max-w-sm">
+              <AlertCircle size={14} className="shrink-0" />
+              <span className="break-words">{error}</span>
+            </div>
+          )}
+        </div>
+      </header>
+
+      {loading ? (
+        <div className="text-slate-500 font-medium text-sm p-4">{t('app.loading')}</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-3 sm:gap-4 items-start">
+          {/* Rules */}
+          <section className="bg-white rounded-lg border-2 border-gray-300 p-3 sm:p-4 space-y-3">
+            <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider">{t('alerts.rules')}</h2>
+            <ul className="space-y-2">
+              {rules.map((rule) => (
+                <li key={rule.id} className={`border-2 rounded-md p-2.5 ${rule.enabled ? 'border-gray-200' : 'border-gray-100 opacity-60'}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-gray-800 break-words">{rule.name}</p>
+                      <p className="text-xs text-gray-600 mt-0.5">{describeRule(rule)}</p>
+                      <p className="text-[11px] text-gray-400 mt-0.5">
+                        {ruleScope(rule)}
+                        {rule.type !== 'keyword' && ` · ${t('alerts.cooldown', { hours: rule.cooldownHours })}`}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleToggle(rule)}
+                      className={`shrink-0 text-xs font-bold px-2.5 py-1 rounded-full border-2 transition-colors ${
+                        rule.enabled
+                          ? 'bg-emerald-50 text-emerald-700 border-emerald-300 hover:border-emerald-500'
+                          : 'bg-gray-50 text-gray-500 border-gray-300 hover:border-gray-400'
+                      }`}
+                    >
+                      {rule.enabled ? t('alerts.enabled') : t('alerts.disabled')}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <p className="text-[11px] text-gray-400">{t('alerts.rulesHint')}</p>
+          </section>
+
+          {/* History */}
+          <section className="bg-white rounded-lg border-2 border-gray-300 p-3 sm:p-4 space-y-3">
+            <h2 className="text-xs font-bold text-gray-500 uppercase tracking-wider">{t('alerts.history')}</h2>
+            {alerts.length === 0 ? (
+              <p className="text-gray-400 text-sm">{t('alerts.empty')}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {alerts.map((alert) => (
+                  <li key={alert.id} className="py-2.5 first:pt-0 last:pb-0 space-y-1">
+                    <div className="flex flex-wrap items-baseline gap-x-2 gap-y-0.5">
+                      <span className="text-sm font-semibold text-gray-800">{describeAlert(alert)}</span>
+                      {alert.venueId ? (
+                        <Link to={`/reviews/${alert.venueId}`} className="text-xs font-semibold text-emerald-700 hover:underline">
+                          {alert.venueName ?? alert.venueId}
+                        </Link>
+                      ) : (
+                        alert.concept && <span className="text-xs font-semibold text-gray-600">{conceptLabel(alert.concept)}</span>
+                      )}
+                    </div>
+                    <p className="text-[11px] text-gray-400">
+                      {new Date(alert.firedAt).toLocaleString(language)} · {t(`alerts.trigger.${alert.trigger}` as MessageKey)} · {alert.ruleName}
+                    </p>
+                    {alert.reviews.length > 0 && (
+                      <ul className="space-y-0.5">
+                        {alert.reviews.slice(0, SHOWN_REVIEWS).map((review) => (
+                          <li key={review.id} className="text-xs text-gray-600 truncate">
+                            <span className="font-semibold text-amber-600">{review.rating}★</span> {review.author}: {review.excerpt}
+                          </li>
+                        ))}
+                        {alert.reviews.length > SHOWN_REVIEWS && (
+                          <li className="text-[11px] text-gray-400">{t('alerts.moreReviews', { count: alert.reviews.length - SHOWN_REVIEWS })}</li>
+                        )}
+                      </ul>
+                    )}
+                    <div className="flex flex-wrap gap-1.5">
+                      {alert.deliveries.length === 0 && (
+                        <span className="text-[10px] font-semibold text-gray-400">{t('alerts.delivery.none')}</span>
+                      )}
+                      {alert.deliveries.map((delivery, i) => (
+                        <span
+                          key={i}
+                          title={delivery.error ? `${delivery.target}\n${delivery.error}` : delivery.target}
+                          className={`inline-flex items-center gap-1 text-[10px] font-semibold border px-1.5 py-0.5 rounded ${
+                            delivery.ok ? 'text-emerald-700 bg-emerald-50 border-emerald-200' : 'text-rose-700 bg-rose-50 border-rose-200'
+                          }`}
+                        >
+                          {delivery.channel === 'webhook' ? <Webhook size={10} /> : <Mail size={10} />}
+                          {t(`alerts.delivery.${delivery.channel}` as MessageKey)}
+                          {delivery.ok ? <CheckCircle2 size={10} /> : <XCircle size={10} />}
+                        </span>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      )}
+    </>
+  );
+};
@@ -1,10 +1,20 @@
-import React from 'react';
-import { Link } from 'react-router-dom';
+import React, { useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
 import { ComparisonTable } from '../components/ComparisonTable';
 import { useComparisonData } from '../hooks/useComparisonData';
+import { useConcepts } from '../hooks/useConcepts';
+import { useAnomalies } from '../hooks/useAnomalies';
+import { useReviewFlags } from '../hooks/useReviewFlags';
+import { getVenuesByConcept } from '../services/venueRegistry';
+import { createEmptyComparisonRow } from '../utils/comparisonRow';
+import { useI18n } from '../i18n';
 import { BrainCircuit, AlertCircle, Sparkles } from 'lucide-react';
 
-export const DiningPage: React.FC = () => {
+/** Comparison page for any concept defined in /api/concepts (route: /:conceptSlug). */
+export const ConceptPage: React.FC = () => {
+  const { conceptSlug } = useParams<{ conceptSlug: string }>();
+  const { t } = useI18n();
+  const { concepts, loading: conceptsLoading } = useConcepts();
   const {
     data,
     rawDatasets,
@@ -15,14 +25,28 @@ export const DiningPage: React.FC = () => {
     handleAnalyzeItem,
     analyzingGroups,
     analyzingItemId,
+    jobs,
+    failures,
   } = useComparisonData();
+  const { anomalies } = useAnomalies(conceptSlug);
+  const { flags: reviewFlags } = useReviewFlags({ concept: conceptSlug });
 
-  const restaurants = data.filter(item => item.concept === 'dining');
+  const concept = concepts.find((c) => c.slug === conceptSlug);
+  // One row per active venue of the concept; venues never analyzed yet get an empty row
+  const rows = useMemo(
+    () =>
+      conceptSlug
+        ? getVenuesByConcept(conceptSlug).map(
+            (venue) => data.find((r) => r.id === venue.id) ?? createEmptyComparisonRow(venue.id, venue.name, venue.concept)
+          )
+        : [],
+    [data, conceptSlug]
+  );
 
-  if (loading) {
+  if (loading || conceptsLoading) {
     return (
       <div className="min-h-screen bg-[#f8fafc] flex items-center justify-center p-4 safe-area-padding">
-        <div className="text-slate-500 font-medium text-sm sm:text-base">Loading data...</div>
+        <div className="text-slate-500 font-medium text-sm sm:text-base">{t('app.loadingData')}</div>
       </div>
     );
   }
@@ -40,7 +64,7 @@ export const DiningPage: React.FC = () => {
               <span className="text-[10px] bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full font-bold uppercase tracking-widest">v1.0</span>
             </h1>
             <p className="text-slate-500 text-xs sm:text-sm font-medium mt-0.5 truncate sm:whitespace-normal">
-              Advanced sentiment analysis engine powered by Gemini 3.0
+              {t('app.tagline')}
             </p>
           </div>
         </div>
@@ -49,13 +73,13 @@ export const DiningPage: React.FC = () => {
             to="/"
             className="text-sm font-semibold text-slate-600 hover:text-emerald-600 px-3 py-2 rounded-md border-2 border-gray-200 hover:border-emerald-300 transition-colors shrink-0"
           >
-            Home
+            {t('nav.home')}
           </Link>
           <Link
             to="/dashboard"
             className="text-sm font-semibold text-slate-600 hover:text-emerald-600 px-3 py-2 rounded-md border-2 border-gray-200 hover:border-emerald-300 transition-colors shrink-0"
           >
-            Dashboard
+            {t('nav.dashboard')}
           </Link>
           {error && (
             <div className="flex items-center gap-2 text-rose-600 bg-rose-50 px-3 py-2.5 rounded-md text-xs border-2 border-rose-200 font-semibold w-full sm:max-w-md lg:max-w-sm">
@@ -66,20 +90,32 @@ export const DiningPage: React.FC = () => {
           {apiReady && (
             <div className="flex items-center gap-2 text-emerald-700 bg-emerald-50 px-3 py-2 rounded-md text-xs border-2 border-emerald-200 font-bold shrink-0">
               <Sparkles size={14} className="animate-pulse shrink-0" />
-              AI Model Active
+              {t('app.modelActive')}
             </div>
           )}
         </div>
       </header>
 
-      {restaurants.length > 0 && (
+      {!concept && (
+        <div className="bg-white rounded-lg border-2 border-gray-300 p-8 text-center text-rose-600 font-medium text-sm">
+          {t('concept.notFound', { slug: conceptSlug ?? '' })}
+        </div>
+      )}
+
+      {concept && rows.length > 0 && (
         <ComparisonTable
-          title="Dining & Venues Analysis"
-          data={restaurants}
-          variant="restaurant"
+          title={concept.title}
+          data={rows}
+          categories={concept.categories}
           rawDatasets={rawDatasets}
-          isAnalyzing={analyzingGroups.has('restaurants')}
-          onAnalyze={(filter) => handleAnalyzeGroup('restaurants', restaurants.map(r => r.id), filter)}
+          isAnalyzing={analyzingGroups.has(concept.slug)}
+          job={jobs[concept.slug]}
+          failures={failures}
+          anomalies={anomalies}
+          reviewFlags={reviewFlags}
+          onAnalyze={(filter, force, language, excludeFlagged) =>
+            handleAnalyzeGroup(concept.slug, rows.map(r => r.id), filter, force, language, excludeFlagged)
+          }
           onAnalyzeItem={handleAnalyzeItem}
           analyzingItemId={analyzingItemId}
         />
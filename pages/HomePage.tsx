@@ -1,19 +1,19 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { BrainCircuit, AlertCircle, Sparkles, UtensilsCrossed, ShoppingBag, Store } from 'lucide-react';
+import { BrainCircuit, AlertCircle, Sparkles } from 'lucide-react';
+import { ConceptIcon } from '../components/ConceptIcon';
+import { useConcepts } from '../hooks/useConcepts';
+import { useI18n } from '../i18n';
 
 interface HomePageProps {
   error: string | null;
   apiReady: boolean;
 }
 
-const CONCEPT_TYPES = [
-  { slug: 'dining', label: 'Dining & Venues', description: 'Restaurants and venue analysis', icon: UtensilsCrossed },
-  { slug: 'retail', label: 'Retail Stores', description: 'Retail stores performance', icon: ShoppingBag },
-  { slug: 'supermarket', label: 'Hypermarkets & Entertainment', description: 'Hypermarkets and entertainment', icon: Store },
-] as const;
-
 export const HomePage: React.FC<HomePageProps> = ({ error, apiReady }) => {
+  const { t } = useI18n();
+  const { concepts } = useConcepts();
+
   return (
     <>
       <header className="flex flex-col lg:flex-row justify-between items-stretch lg:items-center gap-4 sm:gap-6 bg-white p-3 sm:p-4 rounded-lg shadow-sm border-2 border-slate-300">
@@ -27,7 +27,7 @@ export const HomePage: React.FC<HomePageProps> = ({ error, apiReady }) => {
               <span className="text-[10px] bg-slate-100 text-slate-500 px-2 py-0.5 rounded-full font-bold uppercase tracking-widest">v1.0</span>
             </h1>
             <p className="text-slate-500 text-xs sm:text-sm font-medium mt-0.5 truncate sm:whitespace-normal">
-              Advanced sentiment analysis engine powered by Gemini 3.0
+              {t('app.tagline')}
             </p>
           </div>
         </div>
@@ -36,7 +36,19 @@ export const HomePage: React.FC<HomePageProps> = ({ error, apiReady }) => {
             to="/dashboard"
             className="text-sm font-semibold text-slate-600 hover:text-emerald-600 px-3 py-2 rounded-md border-2 border-gray-200 hover:border-emerald-300 transition-colors shrink-0"
           >
-            Dashboard
+            {t('nav.dashboard')}
+          </Link>
+          <Link
+            to="/admin/venues"
+            className="text-sm font-semibold text-slate-600 hover:text-emerald-600 px-3 py-2 rounded-md border-2 border-gray-200 hover:border-emerald-300 transition-colors shrink-0"
+          >
+            {t('nav.venues')}
+          </Link>
+          <Link
+            to="/alerts"
+            className="text-sm font-semibold text-slate-600 hover:text-emerald-600 px-3 py-2 rounded-md border-2 border-gray-200 hover:border-emerald-300 transition-colors shrink-0"
+          >
+            {t('nav.alerts')}
           </Link>
           {error && (
             <div className="flex items-center gap-2 text-rose-600 bg-rose-50 px-3 py-2.5 rounded-md text-xs border-2 border-rose-200 font-semibold w-full sm:max-w-md lg:max-w-sm">
@@ -47,14 +59,14 @@ export const HomePage: React.FC<HomePageProps> = ({ error, apiReady }) => {
           {apiReady && (
             <div className="flex items-center gap-2 text-emerald-700 bg-emerald-50 px-3 py-2 rounded-md text-xs border-2 border-emerald-200 font-bold shrink-0">
               <Sparkles size={14} className="animate-pulse shrink-0" />
-              AI Model Active
+              {t('app.modelActive')}
             </div>
           )}
         </div>
       </header>
 
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4">
-        {CONCEPT_TYPES.map(({ slug, label, description, icon: Icon }) => (
+        {concepts.map(({ slug, label, description, icon }) => (
           <Link
             key={slug}
             to={`/${slug}`}
@@ -62,7 +74,7 @@ export const HomePage: React.FC<HomePageProps> = ({ error, apiReady }) => {
           >
             <div className="flex items-start gap-3">
               <div className="p-2 bg-emerald-50 text-emerald-600 rounded-md shrink-0 group-hover:bg-emerald-100 transition-colors">
-                <Icon size={20} />
+                <ConceptIcon name={icon} size={20} />
               </div>
               <div className="min-w-0 flex-1">
                 <h2 className="font-bold text-gray-900 text-base sm:text-lg group-hover:text-emerald-700 transition-colors">{label}</h2>
@@ -74,7 +86,7 @@ export const HomePage: React.FC<HomePageProps> = ({ error, apiReady }) => {
       </div>
 
       <p className="text-center text-slate-400 text-xs font-medium py-4 px-2">
-        Sentix AI processes unstructured CSV data into actionable business intelligence.
+        {t('app.footer')}
       </p>
     </>
   );
@@ -0,0 +1,326 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Venue, VenueInput, VenueSource } from '../types';
+import { createVenue, updateVenue } from '../services/api';
+import { loadVenues } from '../services/venueRegistry';
+import { useConcepts } from '../hooks/useConcepts';
+import { Settings, AlertCircle, Plus, Pencil, Archive, ArchiveRestore, Check, X } from 'lucide-react';
+
+interface VenueDraft {
+  id: string;
+  name: string;
+  concept: string;
+  competitor: boolean;
+  /** Source config as JSON text; empty = default source */
+  sourceJson: string;
+}
+
+const emptyDraft: VenueDraft = { id: '', name: '', concept: '', competitor: false, sourceJson: '' };
+
+function toDraft(venue: Venue): VenueDraft {
+  return {
+    id: venue.id,
+    name: venue.name,
+    concept: venue.concept,
+    competitor: venue.competitor === true,
+    sourceJson: venue.source ? JSON.stringify(venue.source, null, 2) : '',
+  };
+}
+
+/** Parse the source textarea; throws with a readable message on invalid JSON. */
+function parseSource(sourceJson: string): VenueSource | null {
+  if (!sourceJson.trim()) return null;
+  try {
+    return JSON.parse(sourceJson) as VenueSource;
+  } catch {
+    throw new Error('Source must be valid JSON');
+  }
+}
+
+const inputClass =
+  'w-full bg-gray-50 border-2 border-gray-300 rounded-md px-2.5 py-1.5 text-sm text-gray-800 outline-none focus:ring-2 focus:ring-emerald-500 focus:border-emerald-500';
+
+export const VenueAdminPage: React.FC = () => {
+  const { concepts } = useConcepts();
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newVenue, setNewVenue] = useState<VenueDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<VenueDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadVenues(true).then(
+      (list) => { if (!cancelled) setVenues(list); },
+      (e) => { if (!cancelled) setError(e instanceof Error ? e.message : 'Failed to load venues'); }
+    ).finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const visibleVenues = useMemo(
+    () =>
+      venues
+        .filter((v) => showArchived || !v.archived)
+        .sort((a, b) => a.concept.localeCompare(b.concept) || a.name.localeCompare(b.name)),
+    [venues, showArchived]
+  );
+
+  /** Run a mutation, then refresh the shared registry so other pages see the change. */
+  const save = async (mutation: () => Promise<unknown>): Promise<boolean> => {
+    setSaving(true);
+    setError(null);
+    try {
+      await mutation();
+      setVenues(await loadVenues(true));
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save venue');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const ok = await save(() => {
+      const input: VenueInput = { name: newVenue.name, concept: newVenue.concept, competitor: newVenue.competitor };
+      if (newVenue.id.trim()) input.id = newVenue.id.trim();
+      const source = parseSource(newVenue.sourceJson);
+      if (source) input.source = source;
+      return createVenue(input);
+    });
+    if (ok) setNewVenue(emptyDraft);
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId) return;
+    const ok = await save(() =>
+      updateVenue(editingId, {
+        name: editDraft.name,
+        concept: editDraft.concept,
+        competitor: editDraft.competitor,
+        source: parseSource(editDraft.sourceJson),
+      })
+    );
+    if (ok) setEditingId(null);
+  };
+
+  const handleToggleArchived = (venue: Venue) =>
+    save(() => updateVenue(venue.id, { archived: !venue.archived }));
+
+  return (
+    <>
+      <header className="flex flex-col lg:flex-row justify-between items-stretch lg:items-center gap-4 sm:gap-6 bg-white p-3 sm:p-4 rounded-lg shadow-sm border-2 border-slate-300">
+        <div className="flex items-center gap-3 sm:gap-4 min-w-0">
+          <div className="bg-emerald-600 p-2.5 sm:p-3 rounded-lg shadow-lg shadow-emerald-200 shrink-0">
+            <Settings className="text-white w-6 h-6 sm:w-7 sm:h-7" />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-xl sm:text-2xl font-black text-slate-900 tracking-tight">Venues</h1>
+            <p className="text-slate-500 text-xs sm:text-sm font-medium mt-0.5">Add, rename, re-concept and archive venues</p>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3 flex-wrap">
+          <Link
+            to="/"
+            className="text-sm font-semibold text-slate-600 hover:text-emerald-600 px-3 py-2 rounded-md border-2 border-gray-200 hover:border-emerald-300 transition-colors shrink-0"
+          >
+            Home
+          </Link>
+          {error && (
+            <div className="flex items-center gap-2 text-rose-600 bg-rose-50 px-3 py-2.5 rounded-md text-xs border-2 border-rose-200 font-semibold w-full sm:max-w-md lg:max-w-sm">
+              <AlertCircle size={14} className="shrink-0" />
+              <span className="break-words">{error}</span>
+            </div>
+          )}
+        </div>
+      </header>
+
+      {/* Add venue */}
+      <form
+        onSubmit={handleCreate}
+        className="bg-white rounded-lg border-2 border-gray-300 p-3 sm:p-4 grid grid-cols-1 md:grid-cols-[120px_1fr_180px_auto] gap-3 items-start"
+      >
+        <input
+          className={inputClass}
+          placeholder="ID (auto)"
+          value={newVenue.id}
+          onChange={(e) => setNewVenue({ ...newVenue, id: e.target.value })}
+        />
+        <input
+          className={inputClass}
+          placeholder="Venue name"
+          value={newVenue.name}
+          onChange={(e) => setNewVenue({ ...newVenue, name: e.target.value })}
+          required
+        />
+        <select
+          className={inputClass}
+          value={newVenue.concept}
+          onChange={(e) => setNewVenue({ ...newVenue, concept: e.target.value })}
+          required
+        >
+          <option value="">Concept…</option>
+          {concepts.map((c) => <option key={c.slug} value={c.slug}>{c.label}</option>)}
+        </select>
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center justify-center gap-2 px-4 py-2 min-h-[36px] rounded-md text-sm font-bold bg-emerald-600 hover:bg-emerald-700 text-white shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Plus size={16} /> Add venue
+        </button>
+        <label className="md:col-span-4 flex items-center gap-2 text-xs font-semibold text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={newVenue.competitor}
+            onChange={(e) => setNewVenue({ ...newVenue, competitor: e.target.checked })}
+          />
+          Competitor (compared against our venues in the executive summary)
+        </label>
+        <textarea
+          className={`${inputClass} md:col-span-4 font-mono text-xs`}
+          rows={2}
+          placeholder='Source (optional JSON), e.g. { "type": "local-dir", "path": "data/imports/aeon" }'
+          value={newVenue.sourceJson}
+          onChange={(e) => setNewVenue({ ...newVenue, sourceJson: e.target.value })}
+        />
+      </form>
+
+      {/* Venue list */}
+      <div className="bg-white rounded-lg border-2 border-gray-300 overflow-hidden">
+        <div className="p-3 border-b border-gray-200 flex items-center justify-between">
+          <span className="text-sm font-bold text-gray-700">{visibleVenues.length} venues</span>
+          <label className="flex items-center gap-2 text-xs font-semibold text-gray-600 cursor-pointer">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            Show archived
+          </label>
+        </div>
+        {loading ? (
+          <div className="p-8 text-center text-slate-500 text-sm">Loading venues...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[720px] border-collapse">
+              <thead>
+                <tr className="bg-gray-50 border-b border-gray-200">
+                  <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider w-[8%]">ID</th>
+                  <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider">Name</th>
+                  <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider w-[16%]">Concept</th>
+                  <th className="p-2 sm:p-3 text-left text-[11px] font-bold text-gray-500 uppercase tracking-wider w-[14%]">Source</th>
+                  <th className="p-2 sm:p-3 w-[18%]"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleVenues.map((venue) => {
+                  const isEditing = editingId === venue.id;
+                  return (
+                    <tr key={venue.id} className={`border-b border-gray-200 align-top ${venue.archived ? 'bg-gray-50 text-gray-400' : ''}`}>
+                      <td className="p-2 sm:p-3 text-xs tabular-nums">{venue.id}</td>
+                      <td className="p-2 sm:p-3 text-sm font-semibold">
+                        {isEditing ? (
+                          <div className="space-y-2">
+                            <input
+                              className={inputClass}
+                              value={editDraft.name}
+                              onChange={(e) => setEditDraft({ ...editDraft, name: e.target.value })}
+                            />
+                            <label className="flex items-center gap-2 text-xs font-semibold text-gray-600 cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={editDraft.competitor}
+                                onChange={(e) => setEditDraft({ ...editDraft, competitor: e.target.checked })}
+                              />
+                              Competitor
+                            </label>
+                            <textarea
+                              className={`${inputClass} font-mono text-xs`}
+                              rows={3}
+                              placeholder="Source JSON (empty = default)"
+                              value={editDraft.sourceJson}
+                              onChange={(e) => setEditDraft({ ...editDraft, sourceJson: e.target.value })}
+                            />
+                          </div>
+                        ) : (
+                          <>
+                            {venue.name}
+                            {venue.competitor && (
+                              <span className="ml-2 text-[10px] uppercase tracking-wider font-bold bg-slate-100 text-slate-600 px-1.5 py-0.5 rounded">Competitor</span>
+                            )}
+                            {venue.archived && (
+                              <span className="ml-2 text-[10px] uppercase tracking-wider font-bold bg-gray-200 text-gray-500 px-1.5 py-0.5 rounded">Archived</span>
+                            )}
+                          </>
+                        )}
+                      </td>
+                      <td className="p-2 sm:p-3 text-sm">
+                        {isEditing ? (
+                          <select
+                            className={inputClass}
+                            value={editDraft.concept}
+                            onChange={(e) => setEditDraft({ ...editDraft, concept: e.target.value })}
+                          >
+                            {concepts.map((c) => <option key={c.slug} value={c.slug}>{c.label}</option>)}
+                          </select>
+                        ) : (
+                          concepts.find((c) => c.slug === venue.concept)?.label ?? venue.concept
+                        )}
+                      </td>
+                      <td className="p-2 sm:p-3 text-xs font-mono">{venue.source?.type ?? 'default'}</td>
+                      <td className="p-2 sm:p-3">
+                        <div className="flex flex-wrap justify-end gap-2">
+                          {isEditing ? (
+                            <>
+                              <button
+                                type="button"
+                                onClick={handleSaveEdit}
+                                disabled={saving}
+                                className="flex items-center gap-1 text-[11px] font-semibold px-2 py-1.5 rounded-md bg-emerald-600 hover:bg-emerald-700 text-white disabled:opacity-50"
+                              >
+                                <Check size={12} /> Save
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setEditingId(null)}
+                                className="flex items-center gap-1 text-[11px] font-semibold px-2 py-1.5 rounded-md bg-gray-100 hover:bg-gray-200 text-gray-600"
+                              >
+                                <X size={12} /> Cancel
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => { setEditingId(venue.id); setEditDraft(toDraft(venue)); }}
+                                disabled={saving}
+                                className="flex items-center gap-1 text-[11px] font-semibold px-2 py-1.5 rounded-md bg-emerald-50 hover:bg-emerald-100 text-emerald-600"
+                              >
+                                <Pencil size={12} /> Edit
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleToggleArchived(venue)}
+                                disabled={saving}
+                                className="flex items-center gap-1 text-[11px] font-semibold px-2 py-1.5 rounded-md bg-amber-50 hover:bg-amber-100 text-amber-700"
+                              >
+                                {venue.archived ? <ArchiveRestore size={12} /> : <Archive size={12} />}
+                                {venue.archived ? 'Restore' : 'Archive'}
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
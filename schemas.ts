@@ -0,0 +1,800 @@
+import { z } from 'zod';
+
+/**
+ * The contract of the /api/* routes: request bodies, query strings and responses as zod schemas.
+ * types.ts derives the TypeScript types from these, server/validation.js checks every request
+ * against them (400 with the list of issues) and services/api.ts checks every response.
+ */
+
+/** Language of analysis output and of the UI. */
+export const outputLanguageSchema = z.enum(['vi', 'en']);
+
+/** Output language requested from /api/analyze; 'both' stores summaries in Vietnamese and English. */
+export const analysisLanguageSchema = z.enum(['vi', 'en', 'both']);
+
+export const timeFilterSchema = z.enum(['all', '0.25', '1', '3', '6']);
+
+/** Period comparison on the dashboard: `timeFilter` months vs. the months before, or this week vs. last week. */
+export const comparisonModeSchema = z.enum(['month', 'week']);
+
+/** 'table' = batch comparison; 'item' = single location. */
+export const analysisContextSchema = z.enum(['table', 'item']);
+
+/** Why an analysis failed (see server/analysisErrors.js). */
+export const analysisErrorKindSchema = z.enum(['quota', 'auth', 'timeout', 'invalid-output', 'upstream-source', 'budget', 'unknown']);
+
+const slugSchema = z
+  .string({ error: 'must contain only lowercase letters, digits or "-"' })
+  .regex(/^[a-z0-9-]+$/, 'must contain only lowercase letters, digits or "-"');
+
+const requiredText = (field: string) =>
+  z.string({ error: `Missing or invalid ${field}` }).trim().min(1, `Missing or invalid ${field}`);
+
+// ---------------------------------------------------------------------------
+// Analysis rows
+// ---------------------------------------------------------------------------
+
+/** A review that supports a SentimentPoint. */
+export const pointEvidenceSchema = z.object({
+  /** Stable review id, see utils/reviewId.ts. */
+  reviewId: z.string(),
+  /** Short passage copied from the review. */
+  quote: z.string().optional(),
+});
+
+export const sentimentPointSchema = z.object({
+  text: z.string(),
+  type: z.enum(['positive', 'negative']),
+  /** Number of reviews that express this point. */
+  mentions: z.number().optional(),
+  /** A few supporting reviews, so the point can be checked against the source. */
+  evidence: z.array(pointEvidenceSchema).optional(),
+});
+
+export const categoryAnalysisSchema = z.object({
+  points: z.array(sentimentPointSchema),
+  /** Short AI-generated summary (one sentence) in the row's primary language. */
+  summary: z.string().optional(),
+  /** The summary per language; see getSummary() in utils/comparisonRow.ts. */
+  summaries: z.partialRecord(outputLanguageSchema, z.string()).optional(),
+});
+
+/** Tokens, wall-clock latency and estimated cost (USD, see config/pricing.js) of one analysis. */
+export const analysisUsageSchema = z.object({
+  calls: z.number(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  latencyMs: z.number(),
+  /** Null when the model has no price. */
+  costUsd: z.number().nullable(),
+});
+
+export const promptTemplateRefSchema = z.object({
+  id: z.string(),
+  version: z.number().int(),
+});
+
+/** Review coverage of one analysis run; large datasets are split into chunks and merged. */
+export const analysisCoverageSchema = z.object({
+  reviewsAnalyzed: z.number(),
+  reviewsTotal: z.number(),
+  chunks: z.number(),
+});
+
+export const comparisonRowSchema = z.object({
+  id: z.string().min(1),
+  location: z.string(),
+  /** Optional one-sentence overall strength or weakness for this location (max ~20 words). */
+  keyTakeaway: z.string().optional(),
+  /** keyTakeaway per language; see getKeyTakeaway() in utils/comparisonRow.ts. */
+  keyTakeaways: z.partialRecord(outputLanguageSchema, z.string()).optional(),
+  /** Output language the row was analyzed in; points are written in its primary language (Vietnamese for 'both'). */
+  language: analysisLanguageSchema.optional(),
+  /** Concept type: 'supermarket', 'retail', or 'dining' */
+  concept: z.string().optional(),
+  /** Analysis per category key, as declared by the row's concept (see Concept.categories). */
+  categories: z.record(z.string(), categoryAnalysisSchema),
+  overallRating: z.number().min(0).max(5),
+  /** Set by /api/analyze: how many of the dataset's reviews the analysis actually covered. */
+  coverage: analysisCoverageSchema.optional(),
+  /** Problems found in the model output that were repaired or could not be fixed (see server/analysisValidation.js). */
+  validationWarnings: z.array(z.string()).optional(),
+  /** Prompt template (prompts/<id>.v<version>.json) the row was analyzed with; absent for the offline provider. */
+  promptTemplate: promptTemplateRefSchema.optional(),
+  /** Model usage of the analysis that produced the row (see server/usage.js); cached rows keep the original run's. */
+  usage: analysisUsageSchema.optional(),
+  /** Only on /api/analyze responses: the row was served from the analysis cache. Never stored. */
+  fromCache: z.boolean().optional(),
+});
+
+/** Metadata of one stored analysis run (GET /api/comparison/:id/history). */
+export const analysisSnapshotSummarySchema = z.object({
+  id: z.string(),
+  venueId: z.string(),
+  /** ISO timestamp of when the analysis ran. */
+  analyzedAt: z.string(),
+  /** Time filter the analyzed CSV was cut with; null when unknown. */
+  timeFilter: timeFilterSchema.nullable(),
+  /** Number of reviews sent to the model. */
+  reviewCount: z.number(),
+  model: z.string(),
+  context: analysisContextSchema,
+  overallRating: z.number(),
+  keyTakeaway: z.string().optional(),
+  promptTemplate: promptTemplateRefSchema.optional(),
+});
+
+/** Full stored analysis run, including the ComparisonRow it produced. */
+export const analysisSnapshotSchema = analysisSnapshotSummarySchema
+  .omit({ overallRating: true, keyTakeaway: true, promptTemplate: true })
+  .extend({ row: comparisonRowSchema });
+
+// ---------------------------------------------------------------------------
+// Concepts, venues and datasets
+// ---------------------------------------------------------------------------
+
+const MAX_CATEGORIES = 8;
+
+/** One analysis category of a concept. */
+export const categoryDefinitionSchema = z.object({
+  /** Key in ComparisonRow.categories */
+  key: z
+    .string({ error: 'Each category needs a key' })
+    .regex(/^[a-z][a-zA-Z0-9_]*$/, 'Each category needs a key (letters, digits, "_", starting with a lowercase letter)'),
+  /** Column header */
+  label: requiredText('category label'),
+  /** What the model should file under this category (prompt text). */
+  guidance: z.string().trim().optional(),
+});
+
+const categoryListSchema = z
+  .array(categoryDefinitionSchema)
+  .min(1, 'categories must be a non-empty array')
+  .max(MAX_CATEGORIES, `At most ${MAX_CATEGORIES} categories`)
+  .superRefine((categories, ctx) => {
+    const keys = new Set<string>();
+    categories.forEach(({ key }, index) => {
+      if (keys.has(key)) ctx.addIssue({ code: 'custom', message: `Duplicate category key: ${key}`, path: [index, 'key'] });
+      keys.add(key);
+    });
+  });
+
+/** A venue group (dining, retail, …) defined as data via /api/concepts. */
+export const conceptSchema = z.object({
+  slug: z.string(),
+  /** Short name for cards and navigation. */
+  label: z.string(),
+  /** Heading for the concept's table and dashboard. */
+  title: z.string(),
+  description: z.string(),
+  /** lucide icon name, see components/ConceptIcon.tsx */
+  icon: z.string(),
+  /** Analysis categories, in column order. */
+  categories: z.array(categoryDefinitionSchema),
+});
+
+/**
+ * First path segments App.tsx (and the /api proxy) match before `/:conceptSlug`; a concept with one
+ * of these slugs could never be opened.
+ */
+const RESERVED_CONCEPT_SLUGS = ['admin', 'alerts', 'api', 'dashboard', 'reviews'];
+
+/** Body of POST /api/concepts; title defaults to the label, categories to the default set. */
+export const createConceptRequestSchema = z.object({
+  slug: slugSchema.refine(
+    (slug) => !RESERVED_CONCEPT_SLUGS.includes(slug),
+    `is reserved for a page route (${RESERVED_CONCEPT_SLUGS.join(', ')}); pick another slug`
+  ),
+  label: requiredText('label'),
+  title: z.string().trim().optional(),
+  description: z.string().trim().optional(),
+  icon: z.string().trim().optional(),
+  categories: categoryListSchema.optional(),
+});
+
+/** Body of PATCH /api/concepts/:slug; the slug cannot change. */
+export const updateConceptRequestSchema = createConceptRequestSchema.omit({ slug: true }).partial();
+
+export const rawReviewDataSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  csvContent: z.string(),
+  /** Concept type: 'supermarket', 'retail', or 'dining' */
+  concept: z.string().optional(),
+});
+
+/** Field mapping of the JSON connectors: dotted path per Review field (see server/connectors/fieldMapping.js). */
+const fieldMappingSchema = z.strictObject({
+  author: z.string().min(1).optional(),
+  date: z.string().min(1).optional(),
+  content: z.string({ error: 'fields.content is required' }).min(1, 'fields.content is required'),
+  rating: z.string({ error: 'fields.rating is required' }).min(1, 'fields.rating is required'),
+  source: z.string().min(1).optional(),
+});
+
+/** Values used when a mapped field is missing, e.g. { source: 'tripadvisor' }. */
+const fieldDefaultsSchema = z.strictObject({
+  author: z.string().optional(),
+  date: z.string().optional(),
+  content: z.string().optional(),
+  rating: z.union([z.number(), z.string()]).optional(),
+  source: z.string().optional(),
+});
+
+/** Directory of a local-dir source: relative to the project root and inside data/imports/ (no absolute path, no `..`). */
+const importPathSchema = z.string({ error: 'path is required' }).refine((dir) => {
+  const normalized = dir.replace(/\\/g, '/');
+  if (/^([a-zA-Z]:)?\//.test(normalized)) return false;
+  const segments = normalized.split('/').filter((segment) => segment && segment !== '.');
+  return !segments.includes('..') && segments[0] === 'data' && segments[1] === 'imports';
+}, 'path must be a relative path inside data/imports/');
+
+/** Endpoint of a json-http source; `{id}` is replaced by the venue's external id. Only http(s). */
+const sourceUrlSchema = z.string({ error: 'url is required' }).refine((url) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(url.replace('{id}', 'id')).protocol);
+  } catch {
+    return false;
+  }
+}, 'url must be an http(s) URL');
+
+/**
+ * Review source connector config (see server/connectors/); `type` selects the connector. Sources are
+ * editable over the API, so json-http headers may only read SOURCE_HEADER_* env vars and local-dir
+ * paths must stay inside data/imports/.
+ */
+export const venueSourceSchema = z.discriminatedUnion(
+  'type',
+  [
+    z.strictObject({ type: z.literal('phulong-api'), externalId: z.string().min(1).optional() }),
+    z.strictObject({
+      type: z.literal('local-dir'),
+      path: importPathSchema,
+      itemsPath: z.string().optional(),
+      fields: fieldMappingSchema.optional(),
+      defaults: fieldDefaultsSchema.optional(),
+    }),
+    z.strictObject({
+      type: z.literal('json-http'),
+      url: sourceUrlSchema,
+      externalId: z.string().min(1).optional(),
+      itemsPath: z.string().optional(),
+      fields: fieldMappingSchema,
+      defaults: fieldDefaultsSchema.optional(),
+      headersFromEnv: z
+        .record(
+          z.string().regex(/^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/, 'must be a valid header name'),
+          z.string().regex(/^SOURCE_HEADER_[A-Z0-9_]+$/, 'must name an env var starting with SOURCE_HEADER_')
+        )
+        .optional(),
+    }),
+  ],
+  { error: 'source.type must be one of phulong-api, local-dir, json-http' }
+);
+
+/**
+ * A source as stored: only `type` is checked, so a venue saved before the checks above still loads
+ * (its sync fails with the connector's error until the source is fixed in the admin screen).
+ */
+const storedVenueSourceSchema = z.object({ type: z.string().min(1) }).catchall(z.unknown());
+
+export const venueSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  /** Concept type: 'supermarket', 'retail', or 'dining' */
+  concept: z.string(),
+  /** Archived venues keep their history but are hidden from tables and dashboards. */
+  archived: z.boolean().optional(),
+  /** Competitor venue (AEON, LOTTE, GO!...); group narratives compare our venues against these. */
+  competitor: z.boolean().optional(),
+  /** Omitted = default source (Phu Long comments API). */
+  source: storedVenueSourceSchema.optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+/** Editable venue fields for POST/PATCH /api/venues. `source: null` resets to the default source. */
+export const venueInputSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-zA-Z0-9_-]+$/, 'id must contain only letters, digits, "-" or "_"')
+    .optional(),
+  name: requiredText('name').optional(),
+  concept: slugSchema.optional(),
+  archived: z.boolean().optional(),
+  competitor: z.boolean().optional(),
+  source: venueSourceSchema.nullable().optional(),
+});
+
+/** Body of POST /api/venues; id defaults to the next numeric id. */
+export const createVenueRequestSchema = venueInputSchema.required({ name: true, concept: true });
+
+/** Body of PATCH /api/venues/:id; the id cannot change. */
+export const updateVenueRequestSchema = venueInputSchema.omit({ id: true });
+
+/** Query of GET /api/venues. */
+export const listVenuesQuerySchema = z.object({ includeArchived: z.enum(['0', '1']).optional() });
+
+// ---------------------------------------------------------------------------
+// Analysis and jobs
+// ---------------------------------------------------------------------------
+
+/** Body of POST /api/analyze. */
+export const analyzeRequestSchema = z.object({
+  id: requiredText('id'),
+  name: requiredText('name'),
+  csvContent: z.string({ error: 'Missing or invalid csvContent' }).min(1, 'Missing or invalid csvContent'),
+  context: analysisContextSchema.default('item'),
+  timeFilter: timeFilterSchema.optional(),
+  force: z.boolean().optional(),
+  language: analysisLanguageSchema.default('vi'),
+  /** Leave out the venue's reviews flagged by utils/reviewIntegrity.ts (GET /api/review-flags). */
+  excludeFlagged: z.boolean().optional(),
+});
+
+/** Body of PATCH /api/comparison: rows merged by id into the latest comparison data. */
+export const updateComparisonRequestSchema = z.object({
+  updates: z.array(comparisonRowSchema, { error: 'Missing or invalid updates array' }),
+});
+
+export const jobItemStatusSchema = z.enum(['queued', 'running', 'done', 'failed']);
+
+/** One venue of an analysis job (GET /api/jobs/:id). */
+export const analysisJobItemSchema = z.object({
+  venueId: z.string(),
+  name: z.string(),
+  status: jobItemStatusSchema,
+  error: z.string().optional(),
+  errorKind: analysisErrorKindSchema.optional(),
+  fromCache: z.boolean().optional(),
+  /** Analyzed row, once the item is done. */
+  row: comparisonRowSchema.optional(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+});
+
+/** Server-side group analysis (POST /api/jobs); progress streams from /api/jobs/:id/events. */
+export const analysisJobSchema = z.object({
+  id: z.string(),
+  type: z.literal('analyze-group'),
+  groupId: z.string(),
+  timeFilter: timeFilterSchema,
+  force: z.boolean(),
+  language: analysisLanguageSchema,
+  excludeFlagged: z.boolean().optional(),
+  status: z.enum(['running', 'done']),
+  createdAt: z.string(),
+  finishedAt: z.string().optional(),
+  items: z.array(analysisJobItemSchema),
+});
+
+/** Body of POST /api/jobs. */
+export const createJobRequestSchema = z.object({
+  groupId: requiredText('groupId'),
+  venueIds: z
+    .array(z.string().min(1), { error: 'venueIds must be a non-empty array of venue ids' })
+    .min(1, 'venueIds must be a non-empty array of venue ids'),
+  timeFilter: timeFilterSchema.default('1'),
+  force: z.boolean().optional(),
+  language: analysisLanguageSchema.default('vi'),
+  /** As for /api/analyze: leave out flagged reviews. */
+  excludeFlagged: z.boolean().optional(),
+});
+
+/** Query of GET /api/jobs. */
+export const listJobsQuerySchema = z.object({
+  groupId: z.string().optional(),
+  active: z.enum(['true', 'false']).optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Group narratives and period diffs
+// ---------------------------------------------------------------------------
+
+export const narrativeRankingEntrySchema = z.object({
+  rank: z.number(),
+  venueId: z.string(),
+  name: z.string(),
+  overallRating: z.number(),
+  competitor: z.boolean(),
+});
+
+/** Venue leading one category of the group, and why. */
+export const narrativeLeaderSchema = z.object({
+  category: z.string(),
+  venueId: z.string(),
+  name: z.string(),
+  reason: z.string(),
+});
+
+/** Category where one of our venues trails a competitor. */
+export const narrativeGapSchema = z.object({
+  venueId: z.string(),
+  name: z.string(),
+  competitorId: z.string(),
+  competitorName: z.string(),
+  category: z.string(),
+  text: z.string(),
+});
+
+/** Competitive narrative of a concept group (GET/POST /api/narratives/:concept). */
+export const groupNarrativeSchema = z.object({
+  concept: z.string(),
+  language: outputLanguageSchema,
+  generatedAt: z.string(),
+  model: z.string(),
+  venueCount: z.number(),
+  ranking: z.array(narrativeRankingEntrySchema),
+  summary: z.string(),
+  leaders: z.array(narrativeLeaderSchema),
+  gaps: z.array(narrativeGapSchema),
+  actions: z.array(z.string()),
+  inputKey: z.string(),
+  fromCache: z.boolean().optional(),
+});
+
+/** Query of GET /api/narratives/:concept. */
+export const narrativeQuerySchema = z.object({ language: outputLanguageSchema.default('vi') });
+
+/** Body of POST /api/narratives/:concept. */
+export const generateNarrativeRequestSchema = z.object({
+  language: outputLanguageSchema.default('vi'),
+  force: z.boolean().optional(),
+});
+
+/** A complaint in a period diff; `mentions` and `evidence` are from the current period, except for resolved ones. */
+export const periodDiffPointSchema = z.object({
+  text: z.string(),
+  mentions: z.number().optional(),
+  /** Persisting complaints: mentions in the previous period. */
+  previousMentions: z.number().optional(),
+  evidence: z.array(pointEvidenceSchema).optional(),
+});
+
+export const periodDiffCategorySchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  new: z.array(periodDiffPointSchema),
+  resolved: z.array(periodDiffPointSchema),
+  persisting: z.array(periodDiffPointSchema),
+});
+
+const periodSummarySchema = z.object({ reviewCount: z.number(), overallRating: z.number() });
+
+/** How complaints moved between two periods of one venue (POST /api/period-diff). */
+export const periodDiffSchema = z.object({
+  venueId: z.string(),
+  name: z.string(),
+  mode: comparisonModeSchema,
+  timeFilter: timeFilterSchema.optional(),
+  language: outputLanguageSchema,
+  generatedAt: z.string(),
+  model: z.string(),
+  previous: periodSummarySchema,
+  current: periodSummarySchema,
+  categories: z.array(periodDiffCategorySchema),
+});
+
+/** Body of POST /api/period-diff; mode 'month' needs a period in months. */
+export const periodDiffRequestSchema = z
+  .object({
+    venueId: requiredText('venueId'),
+    mode: comparisonModeSchema,
+    timeFilter: timeFilterSchema.optional(),
+    language: outputLanguageSchema.default('vi'),
+    force: z.boolean().optional(),
+  })
+  .refine((body) => body.mode === 'week' || (body.timeFilter !== undefined && body.timeFilter !== 'all'), {
+    message: 'timeFilter must be a period in months for mode month',
+    path: ['timeFilter'],
+  });
+
+// ---------------------------------------------------------------------------
+// Reply drafts
+// ---------------------------------------------------------------------------
+
+/** Owner reply to one review (see server/replyDrafts.js). */
+export const replyDraftSchema = z.object({
+  venueId: z.string(),
+  /** See utils/reviewId.ts. */
+  reviewId: z.string(),
+  text: z.string(),
+  /** Language of the review, which the reply is written in. */
+  language: outputLanguageSchema,
+  model: z.string(),
+  promptVersion: z.string(),
+  generatedAt: z.string(),
+  updatedAt: z.string(),
+  /** True once the text was changed by hand. */
+  edited: z.boolean(),
+});
+
+/** Body of POST /api/reply-draft. */
+export const replyDraftRequestSchema = z.object({
+  venueId: requiredText('venueId'),
+  reviewId: requiredText('reviewId'),
+  force: z.boolean().optional(),
+});
+
+/** Body of PUT /api/reply-drafts/:venueId/:reviewId. */
+export const saveReplyDraftRequestSchema = z.object({
+  text: requiredText('text').max(2000, 'text must be at most 2000 characters'),
+});
+
+// ---------------------------------------------------------------------------
+// Anomalies
+// ---------------------------------------------------------------------------
+
+export const anomalyKindSchema = z.enum(['rating-drop', 'volume-spike', 'one-star-burst']);
+
+/** An unusual day (or run of days) in a venue's review series (see server/anomalies.js). */
+export const anomalySchema = z.object({
+  kind: anomalyKindSchema,
+  /** Most extreme day of the run (YYYY-MM-DD). */
+  date: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  /** Reviews or 1★ reviews that day, or the 7-day average rating for 'rating-drop'. */
+  value: z.number(),
+  /** The same measure over the baseline days. */
+  baseline: z.number(),
+  zScore: z.number(),
+  severity: z.enum(['warning', 'critical']),
+});
+
+/** Anomalies of one venue (GET /api/anomalies), newest first. */
+export const venueAnomaliesSchema = z.object({
+  venueId: z.string(),
+  name: z.string(),
+  concept: z.string(),
+  anomalies: z.array(anomalySchema),
+});
+
+/** Query of GET /api/anomalies. */
+export const anomaliesQuerySchema = z.object({
+  concept: z.string().optional(),
+  venueId: z.string().optional(),
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// ---------------------------------------------------------------------------
+// Review integrity
+// ---------------------------------------------------------------------------
+
+export const integritySignalSchema = z.enum(['duplicate-text', 'new-author-burst', 'sentiment-mismatch', 'competitor-pattern']);
+
+/** A review that looks like spam or a fake (see utils/reviewIntegrity.ts). */
+export const reviewFlagSchema = z.object({
+  venueId: z.string(),
+  reviewId: z.string(),
+  signals: z.array(integritySignalSchema),
+  /** 'duplicate-text': other venues where the same text was posted. */
+  relatedVenueIds: z.array(z.string()).optional(),
+});
+
+/** Query of GET /api/review-flags. */
+export const reviewFlagsQuerySchema = z.object({
+  venueId: z.string().optional(),
+  concept: z.string().optional(),
+});
+
+// ---------------------------------------------------------------------------
+// Alerts
+// ---------------------------------------------------------------------------
+
+export const alertRuleTypeSchema = z.enum(['low-ratings', 'concept-rating', 'keyword']);
+
+const alertRuleFields = {
+  id: slugSchema,
+  name: requiredText('name'),
+  enabled: z.boolean().default(true),
+  /** Hours before the rule fires again for the same venue (or concept); not used by 'keyword' rules. */
+  cooldownHours: z.number().min(0).max(720).default(24),
+  /** Webhooks of this rule; omitted = ALERT_WEBHOOK_URLS. */
+  webhookUrls: z.array(z.url()).optional(),
+  /** Recipients of this rule's .eml files; omitted = ALERT_EMAIL_TO. */
+  emailTo: z.array(z.email()).optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+};
+
+const maxRatingSchema = z.number().int().min(1).max(5);
+const windowHoursSchema = z.number().positive().max(720);
+
+/** More than `moreThan` reviews of `maxRating`★ or less within `windowHours`, counted per venue. */
+const lowRatingsRuleSchema = z.object({
+  ...alertRuleFields,
+  type: z.literal('low-ratings'),
+  venueId: z.string().optional(),
+  concept: slugSchema.optional(),
+  maxRating: maxRatingSchema.default(2),
+  moreThan: z.number().int().min(0),
+  windowHours: windowHoursSchema.default(24),
+});
+
+/** Average rating of a concept's own venues (latest analysis, else stored reviews) below `below`. */
+const conceptRatingRuleSchema = z.object({
+  ...alertRuleFields,
+  type: z.literal('concept-rating'),
+  concept: slugSchema,
+  below: z.number().min(0).max(5),
+});
+
+/** A review from the last `windowHours` mentions `keyword`, with or without diacritics. */
+const keywordRuleSchema = z.object({
+  ...alertRuleFields,
+  type: z.literal('keyword'),
+  venueId: z.string().optional(),
+  concept: slugSchema.optional(),
+  keyword: requiredText('keyword'),
+  windowHours: windowHoursSchema.default(72),
+});
+
+/** An alert rule (data/alert-rules.json, seeded from config/alerts.js). */
+export const alertRuleSchema = z.discriminatedUnion('type', [lowRatingsRuleSchema, conceptRatingRuleSchema, keywordRuleSchema]);
+
+/** Body of POST /api/alerts/rules; the id defaults to a slug of the name. */
+export const createAlertRuleRequestSchema = z.discriminatedUnion('type', [
+  lowRatingsRuleSchema.extend({ id: slugSchema.optional() }).omit({ createdAt: true, updatedAt: true }),
+  conceptRatingRuleSchema.extend({ id: slugSchema.optional() }).omit({ createdAt: true, updatedAt: true }),
+  keywordRuleSchema.extend({ id: slugSchema.optional() }).omit({ createdAt: true, updatedAt: true }),
+]);
+
+/**
+ * Body of PATCH /api/alerts/rules/:id; id and type cannot change. `null` clears an optional field
+ * (venueId, concept scope, webhookUrls, emailTo). The merged rule must still be a valid rule.
+ */
+export const updateAlertRuleRequestSchema = z.object({
+  name: requiredText('name').optional(),
+  enabled: z.boolean().optional(),
+  cooldownHours: z.number().min(0).max(720).optional(),
+  webhookUrls: z.array(z.url()).nullable().optional(),
+  emailTo: z.array(z.email()).nullable().optional(),
+  venueId: z.string().nullable().optional(),
+  concept: slugSchema.nullable().optional(),
+  maxRating: maxRatingSchema.optional(),
+  moreThan: z.number().int().min(0).optional(),
+  windowHours: windowHoursSchema.optional(),
+  below: z.number().min(0).max(5).optional(),
+  keyword: requiredText('keyword').optional(),
+});
+
+export const alertTriggerSchema = z.enum(['sync', 'analyze', 'manual']);
+
+/** Outcome of sending one alert to one webhook or outbox. */
+export const alertDeliverySchema = z.object({
+  channel: z.enum(['webhook', 'email']),
+  /** Webhook URL, or the path of the written .eml file. */
+  target: z.string(),
+  ok: z.boolean(),
+  error: z.string().optional(),
+});
+
+/** A review that made an alert fire. */
+export const alertReviewSchema = z.object({
+  id: z.string(),
+  author: z.string(),
+  rating: z.number(),
+  date: z.string(),
+  /** Start of the review text. */
+  excerpt: z.string(),
+});
+
+/** A fired alert (GET /api/alerts), kept in data/alerts/history.json. */
+export const alertSchema = z.object({
+  id: z.string(),
+  ruleId: z.string(),
+  ruleName: z.string(),
+  type: alertRuleTypeSchema,
+  trigger: alertTriggerSchema,
+  firedAt: z.string(),
+  venueId: z.string().optional(),
+  venueName: z.string().optional(),
+  concept: z.string().optional(),
+  /** Low reviews in the window, the concept average, or the number of matching reviews. */
+  value: z.number(),
+  /** The rule's `moreThan` or `below`; 0 for 'keyword' rules. */
+  threshold: z.number(),
+  keyword: z.string().optional(),
+  windowHours: z.number().optional(),
+  /** Plain-text summary, as sent to webhooks and written into the .eml. */
+  message: z.string(),
+  /** Reviews behind the alert, newest first ('low-ratings': the 10 newest). */
+  reviews: z.array(alertReviewSchema),
+  deliveries: z.array(alertDeliverySchema),
+});
+
+/** Query of GET /api/alerts. */
+export const alertsQuerySchema = z.object({
+  ruleId: z.string().optional(),
+  venueId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+// ---------------------------------------------------------------------------
+// Usage and admin
+// ---------------------------------------------------------------------------
+
+/** Usage summed over a group of runs; `latencyMs` is the sum, divide by `runs` for the average. */
+export const usageTotalsSchema = z.object({
+  runs: z.number(),
+  calls: z.number(),
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+  latencyMs: z.number(),
+  /** Null (unknown) when any of the runs used a model without a price. */
+  costUsd: z.number().nullable(),
+  /** Runs whose cost is unknown. */
+  unpricedRuns: z.number(),
+});
+
+export const usageGroupSchema = usageTotalsSchema.extend({
+  /** Day (YYYY-MM-DD), venue id, concept slug or kind of run. */
+  key: z.string(),
+  /** Venue groups: the venue's name. */
+  name: z.string().optional(),
+});
+
+export const usageBudgetSchema = z.object({
+  /** ANALYSIS_MONTHLY_BUDGET_USD; null when unlimited. */
+  monthlyUsd: z.number().nullable(),
+  spentUsd: z.number(),
+  remainingUsd: z.number().nullable(),
+  exceeded: z.boolean(),
+});
+
+/** Model usage of one month (GET /api/usage). */
+export const usageReportSchema = z.object({
+  month: z.string(),
+  totals: usageTotalsSchema,
+  byDay: z.array(usageGroupSchema),
+  byVenue: z.array(usageGroupSchema),
+  byConcept: z.array(usageGroupSchema),
+  byKind: z.array(usageGroupSchema),
+  /** Only for the current month. */
+  budget: usageBudgetSchema.nullable(),
+});
+
+/** Query of GET /api/usage. */
+export const usageQuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'month must be YYYY-MM')
+    .optional(),
+});
+
+/**
+ * Body of POST /api/admin/prompt-compare. `candidate` is `{ id, version }` of a file in prompts/ or a
+ * whole template object, which server/promptTemplates.js validates in full.
+ */
+export const promptCompareRequestSchema = z.object({
+  venueId: requiredText('venueId'),
+  candidate: z.union([z.looseObject({ analysis: z.array(z.string()) }), promptTemplateRefSchema], {
+    error: 'candidate must be { id, version } or a template object',
+  }),
+  context: analysisContextSchema.default('item'),
+  timeFilter: timeFilterSchema.default('all'),
+  language: analysisLanguageSchema.default('vi'),
+});
+
+// ---------------------------------------------------------------------------
+// Errors
+// ---------------------------------------------------------------------------
+
+/** One problem of an invalid request; `path` is dotted (e.g. "updates.0.overallRating"). */
+export const validationIssueSchema = z.object({
+  path: z.string(),
+  message: z.string(),
+});
+
+/**
+ * Body of every failed /api/* call. Invalid requests (400) list their `issues`; analysis failures
+ * carry `kind` and `retryable`; POST /api/jobs answers 409 with the running job's `jobId`.
+ */
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  issues: z.array(validationIssueSchema).optional(),
+  kind: analysisErrorKindSchema.optional(),
+  retryable: z.boolean().optional(),
+  jobId: z.string().optional(),
+});
@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { readJson, writeJson } from './jsonFile.js';
+import { ALERT_RULES } from '../config/alerts.js';
+import { alertRuleSchema } from '../schemas.ts';
+import { normalizeForMatch } from '../utils/textNormalize.ts';
+
+/**
+ * Persisted alert rules (data/alert-rules.json), seeded once from config/alerts.js and then
+ * managed through /api/alerts/rules, and the history of fired alerts (data/alerts/history.json,
+ * newest first). Rules are switched off with `enabled: false` rather than deleted, so the
+ * history keeps pointing at them.
+ */
+
+/** Fired alerts kept in the history. */
+const MAX_HISTORY = 500;
+
+let rulesPath = null;
+let historyPath = null;
+
+/** Point the store at its files; seeds the rules from config/alerts.js when there are none yet. */
+export function initAlertStore(rulesFile, alertsDir) {
+  rulesPath = rulesFile;
+  historyPath = path.join(alertsDir, 'history.json');
+  if (fs.existsSync(rulesFile)) return;
+  const now = new Date().toISOString();
+  writeJson(rulesFile, ALERT_RULES.map((rule) => ({ ...alertRuleSchema.parse(rule), createdAt: now, updatedAt: now })));
+  console.log(`[Alerts] Seeded ${ALERT_RULES.length} alert rules into ${rulesFile}`);
+}
+
+/** All rules, enabled or not. */
+export function listAlertRules() {
+  return readJson(rulesPath, []);
+}
+
+export function getAlertRule(id) {
+  return listAlertRules().find((rule) => rule.id === id);
+}
+
+/** Id for a rule without one: its name as a slug, numbered when taken. */
+function nextRuleId(rules, name) {
+  const base = normalizeForMatch(name).replace(/ /g, '-').slice(0, 60) || 'rule';
+  let id = base;
+  for (let n = 2; rules.some((rule) => rule.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
+
+/** Create a rule (body validated by createAlertRuleRequestSchema in schemas.ts). Returns null when the id is taken. */
+export function createAlertRule(input) {
+  const rules = listAlertRules();
+  const id = input.id ?? nextRuleId(rules, input.name);
+  if (rules.some((rule) => rule.id === id)) return null;
+  const now = new Date().toISOString();
+  const rule = { ...input, id, createdAt: now, updatedAt: now };
+  rules.push(rule);
+  return writeJson(rulesPath, rules) ? rule : null;
+}
+
+/**
+ * Apply a partial update (updateAlertRuleRequestSchema; null clears a field). Returns undefined when
+ * the rule does not exist, `{ error }` (a ZodError) when the result is not a valid rule of its type,
+ * else `{ rule }` (null when it could not be saved).
+ */
+export function updateAlertRule(id, patch) {
+  const rules = listAlertRules();
+  const idx = rules.findIndex((rule) => rule.id === id);
+  if (idx < 0) return undefined;
+  const merged = { ...rules[idx] };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete merged[key];
+    else if (value !== undefined) merged[key] = value;
+  }
+  const result = alertRuleSchema.safeParse(merged);
+  if (!result.success) return { error: result.error };
+  rules[idx] = { ...result.data, updatedAt: new Date().toISOString() };
+  return { rule: writeJson(rulesPath, rules) ? rules[idx] : null };
+}
+
+/** Fired alerts, newest first, optionally of one rule or venue. */
+export function listAlerts({ ruleId, venueId, limit } = {}) {
+  const alerts = fs.existsSync(historyPath) ? readJson(historyPath, []) : [];
+  const matching = alerts.filter((alert) => (!ruleId || alert.ruleId === ruleId) && (!venueId || alert.venueId === venueId));
+  return limit ? matching.slice(0, limit) : matching;
+}
+
+/** Add fired alerts to the front of the history, dropping the oldest beyond MAX_HISTORY. */
+export function recordAlerts(alerts) {
+  if (alerts.length === 0) return true;
+  return writeJson(historyPath, [...alerts, ...listAlerts()].slice(0, MAX_HISTORY));
+}
@@ -0,0 +1,273 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { listAlertRules, listAlerts, recordAlerts } from './alertStore.js';
+import { getAlertDelivery } from '../config/alerts.js';
+import { parseReviews } from '../utils/csvParser.ts';
+import { parseDate } from '../utils/csvFilter.ts';
+import { getReviewId } from '../utils/reviewId.ts';
+import { normalizeForMatch } from '../utils/textNormalize.ts';
+
+/**
+ * Alert rule evaluation and delivery. After reviews are synced or analyzed the enabled rules
+ * (see config/alerts.js) are checked against the stored reviews and the latest analysis rows;
+ * every alert that fires is sent to the rule's webhooks (JSON POST), written as an .eml file into
+ * the outbox when there are recipients, and added to the history with the delivery results.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+/** Reviews listed on a 'low-ratings' alert. */
+const MAX_LISTED_REVIEWS = 10;
+const EXCERPT_CHARS = 200;
+
+let context = null;
+/** Evaluations run one at a time, so two of them never fire the same alert. */
+let evaluation = Promise.resolve();
+
+/**
+ * @param {{ outboxDir: string, loadVenues: () => Object[], loadCsv: (venueId: string) => string|null, loadRows: () => Object[] }} options
+ * outboxDir is the default for ALERT_OUTBOX_DIR; loadCsv returns null for a venue that was never synced.
+ */
+export function initAlerts(options) {
+  context = options;
+}
+
+const round = (value) => Math.round(value * 100) / 100;
+
+/** Venues a rule covers: the named venue, else the own (non-competitor) venues of its concept or of every concept. */
+function getRuleVenues(rule, venues) {
+  if (rule.venueId) return venues.filter((venue) => venue.id === rule.venueId);
+  return venues.filter((venue) => !venue.competitor && (!rule.concept || venue.concept === rule.concept));
+}
+
+/** Whether the rule already fired for this venue (or concept) within its cooldown. */
+function inCooldown(rule, previous, key, now) {
+  return previous.some(
+    (alert) => (alert.venueId ?? alert.concept) === key && now.getTime() - Date.parse(alert.firedAt) < rule.cooldownHours * HOUR_MS
+  );
+}
+
+const toAlertReview = ({ review, date }) => ({
+  id: getReviewId(review),
+  author: review.author,
+  rating: review.rating,
+  date: date.toISOString(),
+  excerpt: review.content.length > EXCERPT_CHARS ? `${review.content.slice(0, EXCERPT_CHARS)}…` : review.content,
+});
+
+function checkLowRatings(rule, { venues, previous, now, reviewsOf }) {
+  const alerts = [];
+  for (const venue of getRuleVenues(rule, venues)) {
+    const low = reviewsOf(venue, rule.windowHours).filter(({ review }) => review.rating > 0 && review.rating <= rule.maxRating);
+    if (low.length <= rule.moreThan || inCooldown(rule, previous, venue.id, now)) continue;
+    alerts.push({
+      venueId: venue.id,
+      venueName: venue.name,
+      concept: venue.concept,
+      value: low.length,
+      threshold: rule.moreThan,
+      windowHours: rule.windowHours,
+      message: `${venue.name}: ${low.length} reviews of ${rule.maxRating}★ or less in the last ${rule.windowHours}h (alert above ${rule.moreThan}).`,
+      reviews: low.slice(0, MAX_LISTED_REVIEWS).map(toAlertReview),
+    });
+  }
+  return alerts;
+}
+
+/** A venue's rating as the dashboard shows it: the latest analysis, else the average of its stored reviews. */
+function getVenueRating(venue, rows, reviewsOf) {
+  const row = rows.find((r) => r && r.id === venue.id);
+  if (row?.overallRating > 0) return row.overallRating;
+  const rated = reviewsOf(venue).filter(({ review }) => review.rating > 0);
+  return rated.length > 0 ? rated.reduce((sum, { review }) => sum + review.rating, 0) / rated.length : null;
+}
+
+function checkConceptRating(rule, { venues, rows, previous, now, reviewsOf }) {
+  const ratings = getRuleVenues(rule, venues)
+    .map((venue) => getVenueRating(venue, rows, reviewsOf))
+    .filter((rating) => rating !== null);
+  if (ratings.length === 0) return [];
+  const average = round(ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length);
+  if (average >= rule.below || inCooldown(rule, previous, rule.concept, now)) return [];
+  return [
+    {
+      concept: rule.concept,
+      value: average,
+      threshold: rule.below,
+      message: `Average rating of the ${rule.concept} venues is ${average.toFixed(2)} across ${ratings.length} venue(s) (alert below ${rule.below}).`,
+      reviews: [],
+    },
+  ];
+}
+
+function checkKeyword(rule, { venues, previous, reviewsOf }) {
+  const needle = ` ${normalizeForMatch(rule.keyword)} `;
+  const alerted = new Set(previous.flatMap((alert) => alert.reviews.map((review) => review.id)));
+  const alerts = [];
+  for (const venue of getRuleVenues(rule, venues)) {
+    const matches = reviewsOf(venue, rule.windowHours)
+      .filter(({ review }) => ` ${normalizeForMatch(review.content)} `.includes(needle))
+      .map(toAlertReview)
+      .filter((review) => !alerted.has(review.id));
+    if (matches.length === 0) continue;
+    alerts.push({
+      venueId: venue.id,
+      venueName: venue.name,
+      concept: venue.concept,
+      value: matches.length,
+      threshold: 0,
+      keyword: rule.keyword,
+      windowHours: rule.windowHours,
+      message: `${venue.name}: ${matches.length} new review(s) mention "${rule.keyword}".`,
+      reviews: matches,
+    });
+  }
+  return alerts;
+}
+
+const CHECKS = {
+  'low-ratings': checkLowRatings,
+  'concept-rating': checkConceptRating,
+  keyword: checkKeyword,
+};
+
+/** Plain-text body of an alert: the message, where and when, and the reviews behind it. */
+function formatAlertText(alert) {
+  const lines = [alert.message, '', `Rule: ${alert.ruleName} (${alert.ruleId})`];
+  if (alert.venueId) lines.push(`Venue: ${alert.venueName} (${alert.venueId})`);
+  if (alert.concept) lines.push(`Concept: ${alert.concept}`);
+  lines.push(`Fired: ${alert.firedAt} after ${alert.trigger}`);
+  if (alert.reviews.length > 0) {
+    lines.push('', 'Reviews:');
+    for (const review of alert.reviews) {
+      lines.push(`- ${review.rating}★ ${review.date.slice(0, 10)} ${review.author}: ${review.excerpt.replace(/\s+/g, ' ')}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+async function postWebhook(url, alert) {
+  try {
+    // `text` for chat webhooks (Slack, Google Chat); `alert` for everything else
+    const resp = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: formatAlertText(alert), alert }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    return { channel: 'webhook', target: url, ok: true };
+  } catch (err) {
+    console.warn(`[Alerts] Webhook ${url} failed: ${err.message}`);
+    return { channel: 'webhook', target: url, ok: false, error: err.message };
+  }
+}
+
+/** RFC 2047 encoded-words for a header with non-ASCII text, each under the 75-character limit. */
+function encodeHeader(value) {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  const words = [];
+  let chunk = '';
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`).join('\r\n ');
+}
+
+function writeEml(alert, to, from, outboxDir) {
+  const file = path.join(outboxDir, `${alert.firedAt.replace(/[:.]/g, '-')}-${alert.id.slice(0, 8)}.eml`);
+  try {
+    const body = Buffer.from(formatAlertText(alert)).toString('base64').replace(/.{76}/g, '$&\r\n');
+    const eml = [
+      `From: ${from}`,
+      `To: ${to.join(', ')}`,
+      `Subject: ${encodeHeader(`[Sentix] ${alert.ruleName}`)}`,
+      `Date: ${new Date(alert.firedAt).toUTCString()}`,
+      `Message-ID: <${alert.id}@sentix.local>`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      body,
+      '',
+    ].join('\r\n');
+    fs.mkdirSync(outboxDir, { recursive: true });
+    fs.writeFileSync(file, eml, 'utf-8');
+    return { channel: 'email', target: file, ok: true };
+  } catch (err) {
+    console.warn(`[Alerts] Could not write ${file}: ${err.message}`);
+    return { channel: 'email', target: file, ok: false, error: err.message };
+  }
+}
+
+/** Send an alert to the rule's webhooks and recipients (else those of ALERT_WEBHOOK_URLS / ALERT_EMAIL_TO). */
+async function deliverAlert(alert, rule, delivery) {
+  const webhookUrls = rule.webhookUrls ?? delivery.webhookUrls;
+  const emailTo = rule.emailTo ?? delivery.emailTo;
+  const deliveries = await Promise.all(webhookUrls.map((url) => postWebhook(url, alert)));
+  if (emailTo.length > 0) deliveries.push(writeEml(alert, emailTo, delivery.emailFrom, delivery.outboxDir));
+  return deliveries;
+}
+
+async function runRules(trigger) {
+  const rules = listAlertRules().filter((rule) => rule.enabled);
+  if (rules.length === 0) return [];
+  const now = new Date();
+  const venues = context.loadVenues();
+  const rows = context.loadRows();
+  const history = listAlerts();
+
+  // Each venue's stored reviews are parsed once per evaluation, newest first
+  const parsed = new Map();
+  const reviewsOf = (venue, windowHours) => {
+    if (!parsed.has(venue.id)) {
+      const csvContent = context.loadCsv(venue.id);
+      const reviews = csvContent ? parseReviews(csvContent).map((review) => ({ review, date: parseDate(review.date, now) })) : [];
+      parsed.set(venue.id, reviews.sort((a, b) => b.date.getTime() - a.date.getTime()));
+    }
+    const reviews = parsed.get(venue.id);
+    if (windowHours === undefined) return reviews;
+    const since = now.getTime() - windowHours * HOUR_MS;
+    return reviews.filter(({ date }) => date.getTime() >= since);
+  };
+
+  const fired = [];
+  const delivery = getAlertDelivery(context.outboxDir);
+  for (const rule of rules) {
+    const previous = history.filter((alert) => alert.ruleId === rule.id);
+    for (const result of CHECKS[rule.type](rule, { venues, rows, previous, now, reviewsOf })) {
+      const alert = {
+        id: crypto.randomUUID(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        type: rule.type,
+        trigger,
+        firedAt: now.toISOString(),
+        ...result,
+      };
+      fired.push({ ...alert, deliveries: await deliverAlert(alert, rule, delivery) });
+    }
+  }
+  if (fired.length > 0) {
+    recordAlerts(fired);
+    console.log(`[Alerts] ${fired.length} alert(s) fired after ${trigger}`);
+  }
+  return fired;
+}
+
+/**
+ * Check every enabled rule and deliver the alerts that fire; returns them. Evaluations are queued,
+ * so one started while another runs sees its alerts (and their cooldowns).
+ * @param {'sync'|'analyze'|'manual'} trigger - What caused the evaluation (stored on the alerts)
+ */
+export function evaluateAlerts(trigger) {
+  const run = evaluation.then(() => runRules(trigger));
+  evaluation = run.catch(() => {});
+  return run;
+}
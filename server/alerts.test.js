@@ -0,0 +1,133 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { initAlerts, evaluateAlerts } from './alerts.js';
+import { initAlertStore, listAlerts } from './alertStore.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const VENUES = [
+  { id: 'a', name: 'Venue A', concept: 'dining' },
+  { id: 'b', name: 'Venue B', concept: 'dining' },
+  { id: 'c', name: 'Rival C', concept: 'dining', competitor: true },
+];
+
+let dir;
+let csvByVenue;
+let rows;
+
+/** Reviews as CSV; `hoursAgo` is counted back from now. */
+const csvOf = (reviews) =>
+  [
+    'author,date,content,rating,source',
+    ...reviews.map(({ hoursAgo, rating, content = 'Okay' }, i) => `Author ${i},${new Date(Date.now() - hoursAgo * HOUR_MS).toISOString()},${content},${rating},google`),
+  ].join('\n');
+
+const lowRatings = { id: 'low', name: 'Low ratings', type: 'low-ratings', maxRating: 2, moreThan: 3, windowHours: 24, cooldownHours: 24, enabled: true };
+const conceptRating = { id: 'avg', name: 'Dining below 4', type: 'concept-rating', concept: 'dining', below: 4, cooldownHours: 24, enabled: true };
+const keyword = { id: 'kw', name: 'Food poisoning', type: 'keyword', keyword: 'ngộ độc', windowHours: 72, enabled: true };
+
+function useRules(...rules) {
+  fs.writeFileSync(path.join(dir, 'alert-rules.json'), JSON.stringify(rules));
+  initAlertStore(path.join(dir, 'alert-rules.json'), path.join(dir, 'alerts'));
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alerts-test-'));
+  csvByVenue = {};
+  rows = [];
+  vi.stubEnv('ALERT_WEBHOOK_URLS', '');
+  vi.stubEnv('ALERT_EMAIL_TO', '');
+  initAlerts({ outboxDir: path.join(dir, 'outbox'), loadVenues: () => VENUES, loadCsv: (id) => csvByVenue[id] ?? null, loadRows: () => rows });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('low-ratings rules', () => {
+  it('fire when a venue gets more low ratings than allowed within the window', async () => {
+    useRules(lowRatings);
+    csvByVenue.a = csvOf([...[1, 2, 3, 4].map((h) => ({ hoursAgo: h, rating: 1 })), { hoursAgo: 5, rating: 5 }]);
+    csvByVenue.b = csvOf([1, 2, 3].map((h) => ({ hoursAgo: h, rating: 2 })));
+    const fired = await evaluateAlerts('manual');
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ ruleId: 'low', venueId: 'a', value: 4, threshold: 3, trigger: 'manual' });
+    expect(fired[0].reviews).toHaveLength(4);
+  });
+
+  it('leave out reviews outside the window and unrated reviews', async () => {
+    useRules(lowRatings);
+    csvByVenue.a = csvOf([{ hoursAgo: 1, rating: 1 }, { hoursAgo: 2, rating: 0 }, { hoursAgo: 30, rating: 1 }, { hoursAgo: 40, rating: 1 }]);
+    expect(await evaluateAlerts('sync')).toEqual([]);
+  });
+
+  it('do not fire again for the same venue within the cooldown', async () => {
+    useRules(lowRatings);
+    csvByVenue.a = csvOf([1, 2, 3, 4].map((h) => ({ hoursAgo: h, rating: 1 })));
+    expect(await evaluateAlerts('sync')).toHaveLength(1);
+    expect(await evaluateAlerts('sync')).toEqual([]);
+    expect(listAlerts()).toHaveLength(1);
+  });
+
+  it('cover competitors only when named by venueId', async () => {
+    csvByVenue.c = csvOf([1, 2, 3, 4].map((h) => ({ hoursAgo: h, rating: 1 })));
+    useRules(lowRatings);
+    expect(await evaluateAlerts('sync')).toEqual([]);
+    useRules({ ...lowRatings, id: 'low-c', venueId: 'c' });
+    expect((await evaluateAlerts('sync')).map((alert) => alert.venueId)).toEqual(['c']);
+  });
+});
+
+describe('concept-rating rules', () => {
+  it('fire when the average of the own venues drops below the threshold', async () => {
+    useRules(conceptRating);
+    rows = [{ id: 'a', overallRating: 3.5 }, { id: 'b', overallRating: 4 }, { id: 'c', overallRating: 1 }];
+    const fired = await evaluateAlerts('analyze');
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ concept: 'dining', value: 3.75, threshold: 4 });
+  });
+
+  it('fall back to the average of stored reviews for a venue without an analysis', async () => {
+    useRules(conceptRating);
+    rows = [{ id: 'a', overallRating: 4.5 }];
+    csvByVenue.b = csvOf([{ hoursAgo: 100, rating: 5 }, { hoursAgo: 200, rating: 4 }]);
+    expect(await evaluateAlerts('analyze')).toEqual([]);
+    csvByVenue.b = csvOf([{ hoursAgo: 100, rating: 2 }, { hoursAgo: 200, rating: 3 }]);
+    expect(await evaluateAlerts('analyze')).toMatchObject([{ value: 3.5 }]);
+  });
+});
+
+describe('keyword rules', () => {
+  it('match with or without diacritics and fire once per matching review', async () => {
+    useRules(keyword);
+    csvByVenue.a = csvOf([{ hoursAgo: 1, rating: 1, content: 'Bi ngo doc sau bua trua' }, { hoursAgo: 2, rating: 5, content: 'Ngon' }]);
+    const first = await evaluateAlerts('sync');
+    expect(first).toHaveLength(1);
+    expect(first[0]).toMatchObject({ venueId: 'a', keyword: 'ngộ độc', value: 1 });
+
+    expect(await evaluateAlerts('sync')).toEqual([]);
+
+    csvByVenue.a = csvOf([
+      { hoursAgo: 1, rating: 1, content: 'Bi ngo doc sau bua trua' },
+      { hoursAgo: 0.5, rating: 1, content: 'Con tôi bị ngộ độc thực phẩm' },
+    ]);
+    const second = await evaluateAlerts('sync');
+    expect(second).toHaveLength(1);
+    expect(second[0].reviews.map((review) => review.excerpt)).toEqual(['Con tôi bị ngộ độc thực phẩm']);
+  });
+
+  it('do not match the keyword inside another word', async () => {
+    useRules({ ...keyword, keyword: 'bad' });
+    csvByVenue.a = csvOf([{ hoursAgo: 1, rating: 3, content: 'Badminton court next door' }]);
+    expect(await evaluateAlerts('sync')).toEqual([]);
+  });
+});
+
+it('skips disabled rules', async () => {
+  useRules({ ...lowRatings, enabled: false });
+  csvByVenue.a = csvOf([1, 2, 3, 4].map((h) => ({ hoursAgo: h, rating: 1 })));
+  expect(await evaluateAlerts('sync')).toEqual([]);
+});
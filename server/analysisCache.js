@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { readJson, writeJson } from './jsonFile.js';
+import { parseReviews } from '../utils/csvParser.ts';
+import { getReviewId } from '../utils/reviewId.ts';
+
+/**
+ * Content-addressed analysis cache: one JSON file per key under data/analysis-cache/.
+ * The key covers everything that shapes the result (review set, context, categories, output
+ * language, provider, model, prompt version and template), so a hit can be served without calling the provider again.
+ */
+
+/**
+ * Cache key of one analysis request. Reviews are reduced to their stable ids and sorted, so the
+ * same review set hashes the same regardless of row order, whitespace or re-synced dates.
+ * @param {{ csvContent: string, context: 'table'|'item', categories: Array<{ key: string, label: string, guidance?: string }>, language?: 'vi'|'en'|'both', provider: string, model: string, promptVersion: string, promptTemplate?: { id: string, version: number } }} input
+ */
+export function computeAnalysisKey({ csvContent, context, categories, language = 'vi', provider, model, promptVersion, promptTemplate }) {
+  const reviewIds = parseReviews(csvContent).map(getReviewId).sort();
+  const payload = JSON.stringify({
+    reviews: reviewIds,
+    context,
+    categories: categories.map((c) => [c.key, c.label, c.guidance || '']),
+    language,
+    provider,
+    model,
+    promptVersion,
+    promptTemplate: promptTemplate ? `${promptTemplate.id}@${promptTemplate.version}` : null,
+  });
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+function cachePath(cacheDir, key) {
+  return path.join(cacheDir, `${key.replace(/[^a-f0-9]/g, '')}.json`);
+}
+
+/**
+ * Cached entry for a key, or null.
+ * @returns {{ key: string, cachedAt: string, row: Object }|null}
+ */
+export function getCachedAnalysis(cacheDir, key) {
+  const file = cachePath(cacheDir, key);
+  if (!fs.existsSync(file)) return null;
+  const entry = readJson(file, null);
+  return entry && entry.row ? entry : null;
+}
+
+/** Store an analyzed row under its key. */
+export function putCachedAnalysis(cacheDir, key, row) {
+  return writeJson(cachePath(cacheDir, key), { key, cachedAt: new Date().toISOString(), row });
+}
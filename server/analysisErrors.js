@@ -0,0 +1,56 @@
+/**
+ * Error taxonomy for analyses. Every failure that leaves /api/analyze or a job item is an
+ * AnalysisError with one of these kinds, so the UI can tell "quota exhausted" from "no reviews".
+ */
+
+/** kind → HTTP status of /api/analyze and whether a retry can help. */
+export const ANALYSIS_ERROR_KINDS = {
+  quota: { status: 429, retryable: true },
+  auth: { status: 503, retryable: false },
+  timeout: { status: 504, retryable: true },
+  'invalid-output': { status: 502, retryable: true },
+  'upstream-source': { status: 502, retryable: false },
+  budget: { status: 402, retryable: false },
+  unknown: { status: 500, retryable: false },
+};
+
+export class AnalysisError extends Error {
+  /**
+   * @param {keyof ANALYSIS_ERROR_KINDS} kind
+   * @param {string} message
+   * @param {{ cause?: unknown }} [options]
+   */
+  constructor(kind, message, options = {}) {
+    super(message, options.cause ? { cause: options.cause } : undefined);
+    this.name = 'AnalysisError';
+    this.kind = ANALYSIS_ERROR_KINDS[kind] ? kind : 'unknown';
+    this.status = ANALYSIS_ERROR_KINDS[this.kind].status;
+    this.retryable = ANALYSIS_ERROR_KINDS[this.kind].retryable;
+  }
+}
+
+/** Detect the kind of a provider error from its status code, gRPC status name or message. */
+function detectKind(err) {
+  const status = Number(err?.status ?? err?.code ?? err?.response?.status);
+  const text = `${err?.name || ''} ${err?.message || ''}`.toLowerCase();
+
+  if (err instanceof SyntaxError) return 'invalid-output';
+  if (status === 429 || /resource_exhausted|quota|rate limit|too many requests/.test(text)) return 'quota';
+  if (status === 401 || status === 403 || /unauthenticated|permission_denied|credential|api key/.test(text)) return 'auth';
+  if (status === 408 || status === 503 || status === 504 || /timeout|timed out|deadline_exceeded|unavailable|abort|econnreset|etimedout/.test(text)) {
+    return 'timeout';
+  }
+  return 'unknown';
+}
+
+/** Wrap any error as an AnalysisError (AnalysisErrors pass through unchanged). */
+export function classifyError(err) {
+  if (err instanceof AnalysisError) return err;
+  return new AnalysisError(detectKind(err), err?.message || 'Analysis failed', { cause: err });
+}
+
+/** JSON body for a failed analysis: `{ error, kind, retryable }`. */
+export function toErrorResponse(err) {
+  const classified = classifyError(err);
+  return { error: classified.message, kind: classified.kind, retryable: classified.retryable };
+}
@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { readJson, writeJson } from './jsonFile.js';
+
+/**
+ * Analysis history: every analysis is kept as an immutable snapshot, one JSON file per venue
+ * under data/history/ (oldest first). comparison-data.json only holds the latest row per venue.
+ */
+
+const VALID_TIME_FILTERS = ['all', '0.25', '1', '3', '6'];
+
+function historyPath(historyDir, venueId) {
+  // Venue ids are short numeric strings; guard anyway so an id can never escape the directory
+  const safeId = String(venueId).replace(/[^a-zA-Z0-9_-]/g, '_');
+  return path.join(historyDir, `${safeId}.json`);
+}
+
+function toSummary(snapshot) {
+  const { row, ...meta } = snapshot;
+  return {
+    ...meta,
+    overallRating: row?.overallRating ?? 0,
+    keyTakeaway: row?.keyTakeaway,
+    promptTemplate: row?.promptTemplate,
+  };
+}
+
+/**
+ * Append one snapshot for an analyzed row.
+ * @param {string} historyDir - data/history directory
+ * @param {Object} row - ComparisonRow returned by the analyzer
+ * @param {{ timeFilter?: string, reviewCount: number, model: string, context: 'table'|'item' }} meta
+ * @returns {Object|null} The stored snapshot, or null when it could not be written
+ */
+export function recordAnalysisSnapshot(historyDir, row, meta) {
+  if (!row || typeof row.id !== 'string') return null;
+  const snapshot = {
+    id: crypto.randomUUID(),
+    venueId: row.id,
+    analyzedAt: new Date().toISOString(),
+    timeFilter: VALID_TIME_FILTERS.includes(meta.timeFilter) ? meta.timeFilter : null,
+    reviewCount: meta.reviewCount,
+    model: meta.model,
+    context: meta.context,
+    row,
+  };
+  const filePath = historyPath(historyDir, row.id);
+  const snapshots = fs.existsSync(filePath) ? readJson(filePath, []) : [];
+  snapshots.push(snapshot);
+  return writeJson(filePath, snapshots) ? snapshot : null;
+}
+
+/** Snapshot summaries (no row body) for one venue, newest first. */
+export function listAnalysisHistory(historyDir, venueId) {
+  const filePath = historyPath(historyDir, venueId);
+  if (!fs.existsSync(filePath)) return [];
+  return readJson(filePath, []).map(toSummary).reverse();
+}
+
+/** Full snapshot (including the ComparisonRow) or undefined. */
+export function getAnalysisSnapshot(historyDir, venueId, snapshotId) {
+  const filePath = historyPath(historyDir, venueId);
+  if (!fs.existsSync(filePath)) return undefined;
+  return readJson(filePath, []).find((s) => s && s.id === snapshotId);
+}
@@ -0,0 +1,106 @@
+import { foldDiacritics, normalizeForMatch } from '../utils/textNormalize.ts';
+
+/** Points whose word sets overlap at least this much (Jaccard) are treated as the same point. */
+const SIMILARITY_THRESHOLD = 0.75;
+/** Evidence kept per point; the review list shows them all, the table only needs a handful. */
+const MAX_EVIDENCE = 5;
+
+function wordSet(text) {
+  return new Set(normalizeForMatch(text).split(' ').filter(Boolean));
+}
+
+function similarity(a, b) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/** Word overlap (Jaccard, ignoring case, accents and punctuation) of two point texts; 1 = same words. */
+export function textSimilarity(a, b) {
+  return similarity(wordSet(a), wordSet(b));
+}
+
+/** Union of two evidence lists, one entry per review id, capped at MAX_EVIDENCE. */
+function mergeEvidence(a = [], b = []) {
+  const byId = new Map();
+  for (const e of [...a, ...b]) {
+    if (!byId.has(e.reviewId)) byId.set(e.reviewId, e);
+  }
+  return [...byId.values()].slice(0, MAX_EVIDENCE);
+}
+
+/**
+ * Drop points that repeat an earlier point of the same type (same words ignoring case,
+ * accents and punctuation, or a near-identical wording). The first occurrence wins and
+ * absorbs the duplicate's evidence and mentions.
+ * @param {Array<{ text: string, type: 'positive'|'negative', mentions?: number, evidence?: Array<{ reviewId: string, quote?: string }> }>} points
+ */
+export function dedupePoints(points) {
+  const kept = [];
+  for (const point of points || []) {
+    const words = wordSet(point.text);
+    const match = kept.find((k) => k.point.type === point.type && similarity(k.words, words) >= SIMILARITY_THRESHOLD);
+    if (!match) {
+      kept.push({ point: { ...point }, words });
+      continue;
+    }
+    if (point.evidence?.length) match.point.evidence = mergeEvidence(match.point.evidence, point.evidence);
+    if (point.mentions) match.point.mentions = (match.point.mentions || 0) + point.mentions;
+  }
+  return kept.map((k) => k.point);
+}
+
+/**
+ * Give the points of a merged (reduce) result the evidence and mentions of the chunk points
+ * they were built from. The reduce call only sees point texts, so evidence is matched back by wording.
+ * @param {Array<Object>} points - Final points
+ * @param {Array<Object>} partialPoints - Points of the same category from every chunk
+ */
+export function attachPartialEvidence(points, partialPoints) {
+  const partials = (partialPoints || []).map((p) => ({ point: p, words: wordSet(p.text) }));
+  return (points || []).map((point) => {
+    const words = wordSet(point.text);
+    const sources = partials.filter((p) => p.point.type === point.type && similarity(p.words, words) >= SIMILARITY_THRESHOLD / 2);
+    if (sources.length === 0) return point;
+    return {
+      ...point,
+      mentions: sources.reduce((sum, s) => sum + (s.point.mentions || s.point.evidence?.length || 0), 0) || point.mentions,
+      evidence: sources.reduce((acc, s) => mergeEvidence(acc, s.point.evidence), []),
+    };
+  });
+}
+
+/**
+ * Keep only evidence that points at a review of the analyzed dataset, drop quotes that do not
+ * occur in that review, and make mentions at least the number of cited reviews.
+ * @param {Object} row - ComparisonRow (categories are replaced)
+ * @param {Map<string, { content: string }>} reviewsById
+ */
+export function sanitizeEvidence(row, reviewsById) {
+  for (const [key, analysis] of Object.entries(row.categories || {})) {
+    const points = (analysis.points || []).map((point) => {
+      const evidence = mergeEvidence(
+        (Array.isArray(point.evidence) ? point.evidence : [])
+          .filter((e) => e && reviewsById.has(e.reviewId))
+          .map((e) => {
+            const quote = typeof e.quote === 'string' ? e.quote.trim() : '';
+            const content = foldDiacritics(reviewsById.get(e.reviewId).content);
+            return quote && content.includes(foldDiacritics(quote)) ? { reviewId: e.reviewId, quote } : { reviewId: e.reviewId };
+          })
+      );
+      const mentions = Math.max(Number(point.mentions) || 0, evidence.length);
+      return { text: point.text, type: point.type, ...(mentions ? { mentions } : {}), ...(evidence.length ? { evidence } : {}) };
+    });
+    row.categories[key] = { ...analysis, points };
+  }
+  return row;
+}
+
+/** Average of the chunk ratings weighted by the number of reviews in each chunk. */
+export function weightedRating(partials) {
+  const total = partials.reduce((sum, p) => sum + p.reviewCount, 0);
+  if (total === 0) return 0;
+  const sum = partials.reduce((acc, p) => acc + (Number(p.analysis.overallRating) || 0) * p.reviewCount, 0);
+  return Math.round((sum / total) * 10) / 10;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { attachPartialEvidence, dedupePoints, sanitizeEvidence, textSimilarity, weightedRating } from './analysisMerge.js';
+
+describe('textSimilarity', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(textSimilarity('Phục vụ nhanh!', 'phuc vu NHANH')).toBe(1);
+    expect(textSimilarity('slow service', 'great coffee')).toBe(0);
+  });
+});
+
+describe('dedupePoints', () => {
+  it('keeps the first of near-identical points of the same type and folds in the rest', () => {
+    const points = dedupePoints([
+      { text: 'Friendly staff', type: 'positive', mentions: 2, evidence: [{ reviewId: 'a' }] },
+      { text: 'friendly staff.', type: 'positive', mentions: 1, evidence: [{ reviewId: 'b' }, { reviewId: 'a' }] },
+      { text: 'Friendly staff', type: 'negative' },
+    ]);
+    expect(points).toEqual([
+      { text: 'Friendly staff', type: 'positive', mentions: 3, evidence: [{ reviewId: 'a' }, { reviewId: 'b' }] },
+      { text: 'Friendly staff', type: 'negative' },
+    ]);
+  });
+});
+
+describe('attachPartialEvidence', () => {
+  it('gives merged points the evidence and mentions of the chunk points they came from', () => {
+    const merged = attachPartialEvidence(
+      [{ text: 'Staff are very friendly', type: 'positive' }, { text: 'Parking is hard', type: 'negative', mentions: 1 }],
+      [
+        { text: 'Friendly staff', type: 'positive', mentions: 2, evidence: [{ reviewId: 'a' }, { reviewId: 'b' }] },
+        { text: 'Very friendly staff', type: 'positive', mentions: 1, evidence: [{ reviewId: 'c' }] },
+        { text: 'Friendly staff', type: 'negative', mentions: 5, evidence: [{ reviewId: 'x' }] },
+      ]
+    );
+    expect(merged[0]).toEqual({
+      text: 'Staff are very friendly',
+      type: 'positive',
+      mentions: 3,
+      evidence: [{ reviewId: 'a' }, { reviewId: 'b' }, { reviewId: 'c' }],
+    });
+    expect(merged[1]).toEqual({ text: 'Parking is hard', type: 'negative', mentions: 1 });
+  });
+});
+
+describe('sanitizeEvidence', () => {
+  it('drops evidence for unknown reviews and quotes the review does not contain', () => {
+    const reviewsById = new Map([
+      ['a', { content: 'Nhân viên rất thân thiện' }],
+      ['b', { content: 'Great coffee' }],
+    ]);
+    const row = sanitizeEvidence(
+      {
+        categories: {
+          service: {
+            summary: 's',
+            points: [
+              {
+                text: 'Friendly',
+                type: 'positive',
+                evidence: [
+                  { reviewId: 'a', quote: 'nhan vien rat than thien' },
+                  { reviewId: 'b', quote: 'made up quote' },
+                  { reviewId: 'zzz', quote: 'Great coffee' },
+                ],
+              },
+            ],
+          },
+        },
+      },
+      reviewsById
+    );
+    expect(row.categories.service.points).toEqual([
+      {
+        text: 'Friendly',
+        type: 'positive',
+        mentions: 2,
+        evidence: [{ reviewId: 'a', quote: 'nhan vien rat than thien' }, { reviewId: 'b' }],
+      },
+    ]);
+  });
+});
+
+describe('weightedRating', () => {
+  it('weights chunk ratings by their review counts', () => {
+    expect(
+      weightedRating([
+        { reviewCount: 30, analysis: { overallRating: 4 } },
+        { reviewCount: 10, analysis: { overallRating: 2 } },
+      ])
+    ).toBe(3.5);
+    expect(weightedRating([{ reviewCount: 0, analysis: { overallRating: 5 } }])).toBe(0);
+  });
+});
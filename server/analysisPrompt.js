@@ -0,0 +1,196 @@
+import { Type } from '@google/genai';
+import { renderPrompt } from './promptTemplates.js';
+
+/**
+ * Prompt values and response schema shared by every LLM provider. The prompt wording comes from the
+ * versioned templates in prompts/ (see promptTemplates.js). The schema uses the Gemini Type names;
+ * toJsonSchema converts it for OpenAI-compatible endpoints.
+ */
+
+/**
+ * Bump whenever the schema or the values filled into templates change, so cached analyses are not
+ * reused (see analysisCache.js). Wording changes go into a new template version instead.
+ */
+export const PROMPT_VERSION = 'analysis-v6';
+
+/** Language names used in prompt and schema text. */
+const LANGUAGE_NAMES = { vi: 'Vietnamese', en: 'English' };
+
+/**
+ * Language of points, `summary` and `keyTakeaway`. With 'both' these stay Vietnamese and the
+ * English versions come in `summaryEn` / `keyTakeawayEn` (see toComparisonRow).
+ * @param {'vi'|'en'|'both'} language
+ */
+export function primaryLanguage(language) {
+  return language === 'en' ? 'en' : 'vi';
+}
+
+function buildPointSchema(languageName) {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING, description: `Concisely summarized point in ${languageName}. Max 12 words.` },
+      type: { type: Type.STRING, enum: ['positive', 'negative'] },
+      mentions: { type: Type.NUMBER, description: 'Number of reviews that express this point.' },
+      evidence: {
+        type: Type.ARRAY,
+        description: 'Up to 3 reviews that support this point.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            reviewId: { type: Type.STRING, description: 'Value of the id column of the review.' },
+            quote: { type: Type.STRING, description: 'Exact passage copied from that review. Max 15 words.' },
+          },
+          required: ['reviewId', 'quote'],
+        },
+      },
+    },
+    required: ['text', 'type', 'mentions', 'evidence'],
+  };
+}
+
+function buildCategorySchema(language) {
+  const languageName = LANGUAGE_NAMES[primaryLanguage(language)];
+  const properties = {
+    points: { type: Type.ARRAY, items: buildPointSchema(languageName) },
+    summary: {
+      type: Type.STRING,
+      description: `One sentence key takeaway in ${languageName}. Max 12–15 words. Required.`,
+    },
+  };
+  if (language === 'both') {
+    properties.summaryEn = { type: Type.STRING, description: 'The same summary in English. Required.' };
+  }
+  return { type: Type.OBJECT, properties, required: Object.keys(properties) };
+}
+
+/**
+ * Response schema with one property per declared category, so the schema follows the concept.
+ * @param {Array<{ key: string, label: string, guidance?: string }>} categories
+ * @param {'vi'|'en'|'both'} [language]
+ */
+export function buildResponseSchema(categories, language = 'vi') {
+  const categorySchema = buildCategorySchema(language);
+  const categoryProperties = Object.fromEntries(categories.map((c) => [c.key, categorySchema]));
+  return {
+    type: Type.OBJECT,
+    properties: {
+      ...categoryProperties,
+      overallRating: { type: Type.NUMBER, description: 'Average rating from 1.0 to 5.0' },
+      keyTakeaway: {
+        type: Type.STRING,
+        description: `Optional: one sentence overall strength or weakness for this location, in ${LANGUAGE_NAMES[primaryLanguage(language)]}. Max 20 words. Leave empty if no dominant theme.`,
+      },
+      ...(language === 'both'
+        ? { keyTakeawayEn: { type: Type.STRING, description: 'The same keyTakeaway in English; empty when keyTakeaway is empty.' } }
+        : {}),
+    },
+    required: [...categories.map((c) => c.key), 'overallRating'],
+  };
+}
+
+/** Prompt line asking for the English copies when both languages are requested. */
+function bilingualInstruction(language) {
+  return language === 'both'
+    ? '\nAlso give summaryEn (the same summary in English) for every category, and keyTakeawayEn when keyTakeaway is given.'
+    : '';
+}
+
+/** Placeholder values shared by the analysis and merge prompts. */
+function promptValues(restaurantName, categories, language) {
+  return {
+    name: restaurantName,
+    languageName: LANGUAGE_NAMES[primaryLanguage(language)],
+    categories: categories
+      .map((c, i) => `${i + 1}) ${c.key} = ${c.label}${c.guidance ? ` (${c.guidance})` : ''}.`)
+      .join(' '),
+    categoryList: categories.map((c) => `${c.key} = ${c.label}`).join('; '),
+    bilingual: bilingualInstruction(language),
+  };
+}
+
+/** Same schema in standard JSON Schema spelling (lowercase types). */
+export function toJsonSchema(schema) {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, value]) => [
+      key,
+      key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value),
+    ])
+  );
+}
+
+/**
+ * Analysis prompt for one venue (or one chunk of its reviews).
+ * @param {Object} template - Prompt template (see promptTemplates.js), already picked for the concept and context
+ * @param {string} restaurantName - Location name
+ * @param {string} csvData - CSV content with an id column, already sized to fit (see utils/reviewChunks.ts)
+ * @param {Array<{ key: string, label: string, guidance?: string }>} categories
+ * @param {'vi'|'en'|'both'} [language] - Output language; 'both' adds English copies of summaries and keyTakeaway
+ */
+export function buildAnalysisPrompt(template, restaurantName, csvData, categories, language = 'vi') {
+  return renderPrompt(template, 'analysis', { ...promptValues(restaurantName, categories, language), csv: csvData });
+}
+
+/**
+ * Reduce prompt: merge the partial analyses of several review chunks into one result.
+ * @param {Object} template - Same template as the chunk prompts
+ * @param {string} restaurantName - Location name
+ * @param {Array<{ reviewCount: number, analysis: Object }>} partials - One entry per analyzed chunk
+ * @param {Array<{ key: string, label: string, guidance?: string }>} categories
+ * @param {'vi'|'en'|'both'} [language]
+ */
+export function buildMergePrompt(template, restaurantName, partials, categories, language = 'vi') {
+  // Evidence is re-attached afterwards (see analysisMerge.js), so it is left out of the prompt
+  const withoutEvidence = (analysis) =>
+    JSON.stringify(analysis, (key, value) => (key === 'evidence' ? undefined : value));
+  const parts = partials
+    .map((p, i) => `Part ${i + 1} (${p.reviewCount} reviews):\n${withoutEvidence(p.analysis)}`)
+    .join('\n\n');
+  return renderPrompt(template, 'merge', {
+    ...promptValues(restaurantName, categories, language),
+    partCount: partials.length,
+    parts,
+  });
+}
+
+/** Texts keyed by language, without the empty ones; undefined when there is none. */
+function byLanguage(primaryText, englishText, language) {
+  const texts = { [primaryLanguage(language)]: primaryText };
+  if (language === 'both') texts.en = englishText;
+  const present = Object.entries(texts).filter(([, text]) => typeof text === 'string' && text.trim());
+  return present.length > 0 ? Object.fromEntries(present) : undefined;
+}
+
+/**
+ * Shape the model's JSON into a ComparisonRow. `summary` and `keyTakeaway` keep the primary
+ * language; `summaries` / `keyTakeaways` hold every language that was produced.
+ * @param {'vi'|'en'|'both'} [language]
+ */
+export function toComparisonRow(id, restaurantName, analysis, categories, language = 'vi') {
+  const keyTakeaways = byLanguage(analysis.keyTakeaway, analysis.keyTakeawayEn, language);
+  return {
+    id,
+    location: restaurantName,
+    keyTakeaway: analysis.keyTakeaway,
+    ...(keyTakeaways ? { keyTakeaways } : {}),
+    language,
+    categories: Object.fromEntries(
+      categories.map((c) => {
+        const { summaryEn, ...category } = analysis[c.key] ?? { points: [] };
+        const summaries = byLanguage(category.summary, summaryEn, language);
+        return [c.key, summaries ? { ...category, summaries } : category];
+      })
+    ),
+    overallRating: analysis.overallRating,
+  };
+}
+
+/** Re-prompt after a result failed validation: the original prompt plus what was wrong. */
+export function buildRepairPrompt(prompt, errors) {
+  return `${prompt}
+
+Your previous answer was rejected because: ${errors.join('; ')}.
+Answer again with the complete JSON, fixing these problems.`;
+}
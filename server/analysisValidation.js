@@ -0,0 +1,116 @@
+import { dedupePoints } from './analysisMerge.js';
+
+/**
+ * Checks a model result against the ComparisonRow contract before it is stored, and repairs what
+ * can be repaired. Problems the model should fix itself (missing categories or summaries, wrong
+ * summary language, no rating) are `errors` and trigger one re-prompt; problems fixed here
+ * (clamped rating, duplicate/extra/over-long points) are `warnings`. Whatever remains after the
+ * re-prompt is stored on the row as `validationWarnings`.
+ */
+
+/** Words per point; the prompt asks for 12, a little slack avoids cutting reasonable points. */
+const MAX_POINT_WORDS = 16;
+const MAX_TAKEAWAY_WORDS = 25;
+
+const VIETNAMESE_CHARS = /[ăâđêôơưáàảãạấầẩẫậắằẳẵặéèẻẽẹếềểễệíìỉĩịóòỏõọốồổỗộớờởỡợúùủũụứừửữựýỳỷỹỵ]/i;
+const COMMON_VIETNAMESE_WORDS = /\b(khong|va|cua|nhung|rat|duoc|nhieu|khach|chua|can)\b/i;
+
+/** Vietnamese text normally carries diacritics; unaccented text is accepted when it uses common Vietnamese words. */
+function looksVietnamese(text) {
+  return VIETNAMESE_CHARS.test(text) || COMMON_VIETNAMESE_WORDS.test(text);
+}
+
+/** Trimmed summary text; a missing summary or one in the wrong language is recorded in `errors`. */
+function checkSummary(value, language, label, errors) {
+  const summary = typeof value === 'string' ? value.trim() : '';
+  if (!summary) errors.push(`${label} is missing`);
+  else if (language === 'vi' && !looksVietnamese(summary)) errors.push(`${label} is not in Vietnamese`);
+  else if (language === 'en' && VIETNAMESE_CHARS.test(summary)) errors.push(`${label} is not in English`);
+  return summary;
+}
+
+function truncateWords(text, maxWords) {
+  const words = text.trim().split(/\s+/);
+  return words.length > maxWords ? `${words.slice(0, maxWords).join(' ')}…` : text.trim();
+}
+
+/**
+ * @param {unknown} analysis - Parsed model JSON (one property per category key, overallRating, keyTakeaway)
+ * @param {{ categories: Array<{ key: string, label: string }>, context: 'table'|'item', language?: 'vi'|'en'|'both', requireRating?: boolean }} options
+ * @returns {{ analysis: Object, errors: string[], warnings: string[] }} Repaired copy plus the problems found
+ */
+export function validateAnalysis(analysis, { categories, context, language = 'vi', requireRating = true }) {
+  const errors = [];
+  const warnings = [];
+  const source = analysis && typeof analysis === 'object' && !Array.isArray(analysis) ? analysis : {};
+  if (source !== analysis) errors.push('response is not a JSON object');
+  const maxPoints = context === 'table' ? 3 : 4;
+  const repaired = {};
+
+  let rating = Number(source.overallRating);
+  if (!Number.isFinite(rating)) {
+    if (requireRating) errors.push('overallRating is missing or not a number');
+    rating = 0;
+  } else if (rating < 1 || rating > 5) {
+    const clamped = Math.min(5, Math.max(1, rating));
+    warnings.push(`overallRating ${rating} clamped to ${clamped}`);
+    rating = clamped;
+  }
+  repaired.overallRating = Math.round(rating * 10) / 10;
+
+  for (const category of categories) {
+    const value = source[category.key];
+    if (!value || typeof value !== 'object') {
+      errors.push(`category "${category.key}" is missing`);
+      repaired[category.key] = { points: [] };
+      continue;
+    }
+
+    const rawPoints = Array.isArray(value.points) ? value.points : [];
+    if (!Array.isArray(value.points)) errors.push(`${category.key}: points is not an array`);
+    const wellFormed = rawPoints.filter(
+      (p) => p && typeof p.text === 'string' && p.text.trim() && (p.type === 'positive' || p.type === 'negative')
+    );
+    if (wellFormed.length < rawPoints.length) {
+      warnings.push(`${category.key}: ${rawPoints.length - wellFormed.length} malformed point(s) dropped`);
+    }
+
+    let trimmedCount = 0;
+    const shortened = wellFormed.map((p) => {
+      const text = truncateWords(p.text, MAX_POINT_WORDS);
+      if (text !== p.text.trim()) trimmedCount++;
+      return { ...p, text };
+    });
+    if (trimmedCount > 0) warnings.push(`${category.key}: ${trimmedCount} over-long point(s) shortened`);
+
+    const unique = dedupePoints(shortened);
+    if (unique.length < shortened.length) {
+      warnings.push(`${category.key}: ${shortened.length - unique.length} duplicate point(s) merged`);
+    }
+    if (unique.length > maxPoints) {
+      warnings.push(`${category.key}: ${unique.length - maxPoints} point(s) over the limit of ${maxPoints} removed`);
+    }
+
+    // With 'both', `summary` is Vietnamese and `summaryEn` carries the English copy
+    const summary = checkSummary(value.summary, language === 'en' ? 'en' : 'vi', `${category.key}: summary`, errors);
+    const summaryEn =
+      language === 'both' ? checkSummary(value.summaryEn, 'en', `${category.key}: summaryEn`, errors) : '';
+
+    repaired[category.key] = {
+      ...value,
+      points: unique.slice(0, maxPoints),
+      ...(summary ? { summary } : {}),
+      ...(summaryEn ? { summaryEn } : {}),
+    };
+  }
+
+  for (const field of language === 'both' ? ['keyTakeaway', 'keyTakeawayEn'] : ['keyTakeaway']) {
+    if (typeof source[field] === 'string' && source[field].trim()) {
+      const takeaway = truncateWords(source[field], MAX_TAKEAWAY_WORDS);
+      if (takeaway !== source[field].trim()) warnings.push(`${field} shortened`);
+      repaired[field] = takeaway;
+    }
+  }
+
+  return { analysis: repaired, errors, warnings };
+}
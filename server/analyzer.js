@@ -0,0 +1,206 @@
+import { getProvider } from './providers/index.js';
+import {
+  PROMPT_VERSION,
+  buildAnalysisPrompt,
+  buildMergePrompt,
+  buildRepairPrompt,
+  buildResponseSchema,
+  toComparisonRow,
+} from './analysisPrompt.js';
+import { attachPartialEvidence, sanitizeEvidence, weightedRating } from './analysisMerge.js';
+import { validateAnalysis } from './analysisValidation.js';
+import { toTemplateRef } from './promptTemplates.js';
+import { parseReviews } from '../utils/csvParser.ts';
+import { parseDate } from '../utils/csvFilter.ts';
+import { chunkReviews } from '../utils/reviewChunks.ts';
+import { serializeReviewsWithIds } from '../utils/csvMerge.ts';
+import { getReviewId } from '../utils/reviewId.ts';
+import { AnalysisError, classifyError } from './analysisErrors.js';
+import { createTokenBucket } from './rateLimiter.js';
+import { addUsage, assertWithinBudget } from './usage.js';
+
+/** Max CSV characters per prompt (ANALYSIS_CHUNK_CHARS). */
+const CHUNK_CHARS = Number(process.env.ANALYSIS_CHUNK_CHARS) || 22000;
+/** Optional cap on chunks analyzed per venue (ANALYSIS_MAX_CHUNKS); the newest reviews are kept when a dataset is larger. */
+const MAX_CHUNKS = Number(process.env.ANALYSIS_MAX_CHUNKS) || Infinity;
+/** Partial results merged per reduce call (ANALYSIS_MERGE_BATCH); more are merged in rounds. */
+const MERGE_BATCH = Math.max(2, Number(process.env.ANALYSIS_MERGE_BATCH) || 8);
+/** Per-call timeout of a model request (ANALYSIS_TIMEOUT_MS). */
+const TIMEOUT_MS = Number(process.env.ANALYSIS_TIMEOUT_MS) || 120000;
+/** Retries of a transient failure (quota, timeout, invalid output) before giving up (ANALYSIS_MAX_RETRIES). */
+const MAX_RETRIES = Number(process.env.ANALYSIS_MAX_RETRIES ?? 3);
+
+/** One bucket for every model call in the process: chunks, merges, jobs and single analyses alike. */
+const rateLimiter = createTokenBucket({
+  capacity: Number(process.env.ANALYSIS_RATE_BURST) || 5,
+  refillPerMinute: Number(process.env.ANALYSIS_RATE_PER_MINUTE) || 30,
+});
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * One model call as parsed JSON: waits for a rate-limit token, aborts after TIMEOUT_MS, and
+ * retries transient failures with exponential backoff and jitter. Throws an AnalysisError.
+ * Also used for group narratives (see groupNarrative.js) and period diffs (see periodDiff.js), so they share the same rate limit.
+ * The first call of a meter is refused once the monthly budget is used up; later calls of the same
+ * run go through, so an analysis that has started is not cut off halfway.
+ * @param {Object} [meter] - Usage meter (see usage.js) the call's tokens are added to
+ */
+export async function generateAnalysisJson(provider, request, meter) {
+  if (!meter?.calls) assertWithinBudget();
+  for (let attempt = 0; ; attempt++) {
+    await rateLimiter.acquire();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), TIMEOUT_MS);
+    try {
+      const { text, usage } = await provider.generateJson({ ...request, signal: controller.signal });
+      addUsage(meter, usage);
+      try {
+        return JSON.parse(text);
+      } catch (err) {
+        throw new AnalysisError('invalid-output', 'Model returned a response that is not valid JSON', { cause: err });
+      }
+    } catch (err) {
+      const classified = controller.signal.aborted
+        ? new AnalysisError('timeout', `Model did not answer within ${Math.round(TIMEOUT_MS / 1000)}s`, { cause: err })
+        : classifyError(err);
+      if (!classified.retryable || attempt >= MAX_RETRIES) throw classified;
+      const delay = Math.round(Math.min(30000, 2000 * 2 ** attempt) * (0.75 + Math.random() * 0.5));
+      console.warn(`[API] ${classified.kind}: ${classified.message}; retry ${attempt + 1}/${MAX_RETRIES} in ${delay}ms`);
+      await sleep(delay);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * A model call whose result passed validation (see analysisValidation.js). A result with errors is
+ * re-prompted once with the list of problems; the better of the two answers is kept, and its
+ * remaining problems come back as warnings.
+ * @returns {Promise<{ analysis: Object, warnings: string[] }>}
+ */
+async function generateValidatedAnalysis(provider, request, validationOptions, meter) {
+  let result = validateAnalysis(await generateAnalysisJson(provider, request, meter), validationOptions);
+  if (result.errors.length > 0) {
+    console.warn(`[API] Model output failed validation, re-prompting: ${result.errors.join('; ')}`);
+    const retried = validateAnalysis(
+      await generateAnalysisJson(provider, { ...request, prompt: buildRepairPrompt(request.prompt, result.errors) }, meter),
+      validationOptions
+    );
+    if (retried.errors.length <= result.errors.length) result = retried;
+  }
+  return { analysis: result.analysis, warnings: [...result.errors, ...result.warnings] };
+}
+
+/** Model name recorded on analysis snapshots. */
+export function getModelName() {
+  return getProvider().getModelName();
+}
+
+/** Provider, model and prompt version the next analysis will use (part of the analysis cache key). */
+export function getAnalysisVersion() {
+  const provider = getProvider();
+  return { provider: provider.name, model: provider.getModelName(), promptVersion: PROMPT_VERSION };
+}
+
+/**
+ * Analyze reviews with the configured provider.
+ * Datasets larger than one prompt are split into review-aligned chunks (newest first); each chunk
+ * is analyzed and the partial results are merged by reduce calls, in batches of MERGE_BATCH that are
+ * merged again until one result is left, so every review is covered. The returned row's
+ * `coverage` tells how many reviews were actually analyzed (fewer only with ANALYSIS_MAX_CHUNKS set), and `validationWarnings` lists what
+ * validation had to repair or could not fix. Failures are thrown as AnalysisError.
+ * @param {string} id - Location id
+ * @param {string} restaurantName - Location name
+ * @param {string} csvData - CSV content
+ * @param {'table'|'item'} context - 'table' = batch comparison; 'item' = single location
+ * @param {Array<{ key: string, label: string, guidance?: string }>} categories - Concept categories
+ * @param {'vi'|'en'|'both'} [language] - Output language; 'both' stores summaries in Vietnamese and English
+ * @param {Object} promptTemplate - Prompt template for the venue's concept and this context (see promptTemplates.js);
+ *   stamped on the row as `promptTemplate: { id, version }`. Providers that analyze without a prompt ignore it, but
+ *   the row is stamped all the same so every analysis records the template it was run for.
+ * @param {Object} [meter] - Usage meter (see usage.js) every model call of the analysis is added to
+ */
+export async function analyzeReviews(id, restaurantName, csvData, context = 'item', categories, language = 'vi', promptTemplate, meter) {
+  const provider = getProvider();
+  const reviews = parseReviews(csvData).map((review) => ({ ...review, id: getReviewId(review) }));
+  const reviewsById = new Map(reviews.map((r) => [r.id, r]));
+
+  if (provider.analyze) {
+    const row = await provider.analyze({ id, name: restaurantName, csvContent: csvData, context, categories, language });
+    return {
+      ...sanitizeEvidence(row, reviewsById),
+      promptTemplate: toTemplateRef(promptTemplate),
+      coverage: { reviewsAnalyzed: reviews.length, reviewsTotal: reviews.length, chunks: 1 },
+    };
+  }
+
+  const newestFirst = reviews
+    .map((review, index) => ({ review, index, time: parseDate(review.date).getTime() }))
+    .sort((a, b) => b.time - a.time || a.index - b.index)
+    .map((entry) => entry.review);
+  const chunks = chunkReviews(newestFirst, CHUNK_CHARS, serializeReviewsWithIds).slice(0, MAX_CHUNKS);
+  const reviewsAnalyzed = chunks.reduce((sum, c) => sum + c.reviewCount, 0);
+  const coverage = { reviewsAnalyzed, reviewsTotal: reviews.length, chunks: chunks.length };
+  if (reviewsAnalyzed < reviews.length) {
+    console.warn(`[API] ${restaurantName}: analyzing the newest ${reviewsAnalyzed} of ${reviews.length} reviews (ANALYSIS_MAX_CHUNKS=${MAX_CHUNKS})`);
+  }
+
+  const schema = buildResponseSchema(categories, language);
+  const validationOptions = { categories, context, language };
+  const partials = [];
+  let warnings = [];
+  // Sequential on purpose: one venue should not burst the provider's quota
+  for (const chunk of chunks.length ? chunks : [{ csv: csvData, reviewCount: 0 }]) {
+    const result = await generateValidatedAnalysis(
+      provider,
+      { prompt: buildAnalysisPrompt(promptTemplate, restaurantName, chunk.csv, categories, language), schema },
+      validationOptions,
+      meter
+    );
+    partials.push({ reviewCount: chunk.reviewCount, analysis: result.analysis });
+    warnings = result.warnings;
+  }
+
+  // Only the final merged result is stored, so only its warnings are kept
+  let level = partials;
+  while (level.length > 1) {
+    const next = [];
+    for (let i = 0; i < level.length; i += MERGE_BATCH) {
+      const batch = level.slice(i, i + MERGE_BATCH);
+      if (batch.length === 1) {
+        next.push(batch[0]);
+        continue;
+      }
+      const merged = await generateValidatedAnalysis(
+        provider,
+        { prompt: buildMergePrompt(promptTemplate, restaurantName, batch, categories, language), schema },
+        { ...validationOptions, requireRating: false },
+        meter
+      );
+      warnings = merged.warnings;
+      next.push({
+        reviewCount: batch.reduce((sum, p) => sum + p.reviewCount, 0),
+        analysis: { ...merged.analysis, overallRating: weightedRating(batch) },
+      });
+    }
+    level = next;
+  }
+
+  const row = toComparisonRow(id, restaurantName, level[0].analysis, categories, language);
+  if (partials.length > 1) {
+    for (const key of Object.keys(row.categories)) {
+      const partialPoints = partials.flatMap((p) => p.analysis[key]?.points ?? []);
+      row.categories[key] = { ...row.categories[key], points: attachPartialEvidence(row.categories[key].points, partialPoints) };
+    }
+    // Ratings are averaged from the chunks rather than trusted to the reduce calls
+    row.overallRating = weightedRating(partials);
+  }
+  return {
+    ...sanitizeEvidence(row, reviewsById),
+    promptTemplate: toTemplateRef(promptTemplate),
+    coverage,
+    ...(warnings.length > 0 ? { validationWarnings: warnings } : {}),
+  };
+}
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const prompts = [];
+
+vi.mock('./providers/index.js', () => ({
+  getProvider: () => ({
+    name: 'fake',
+    getModelName: () => 'gemini-1.5-flash',
+    async generateJson({ prompt }) {
+      prompts.push(prompt);
+      const rating = prompt.startsWith('ANALYZE') ? (prompt.includes('Low') ? 2 : 5) : 3;
+      return {
+        text: JSON.stringify({
+          overallRating: rating,
+          keyTakeaway: 'Good food overall.',
+          food: { summary: 'The food is good.', points: [{ text: 'Tasty dishes', type: 'positive' }] },
+        }),
+        usage: { inputTokens: 10, outputTokens: 5 },
+      };
+    },
+  }),
+}));
+
+const TEMPLATE = { id: 'test', version: 1, analysis: ['ANALYZE {{csv}}'], merge: ['MERGE {{partCount}}'] };
+const CATEGORIES = [{ key: 'food', label: 'Food' }];
+
+const csvOf = (count, author = (i) => `Author ${i}`) =>
+  [
+    'author,date,content,rating,source',
+    ...Array.from({ length: count }, (_, i) => `${author(i)},2024-01-${String((i % 28) + 1).padStart(2, '0')},The food here was really tasty number ${i},5,google`),
+  ].join('\n');
+
+/** analyzer.js reads its limits when it is loaded, so each test loads it with its own env (and no rate limit). */
+async function loadAnalyzer(env) {
+  vi.resetModules();
+  for (const [key, value] of Object.entries({ ANALYSIS_RATE_BURST: '1000', ANALYSIS_RATE_PER_MINUTE: '60000', ...env })) {
+    vi.stubEnv(key, value);
+  }
+  return import('./analyzer.js');
+}
+
+beforeEach(() => {
+  prompts.length = 0;
+  vi.unstubAllEnvs();
+});
+
+describe('analyzeReviews', () => {
+  it('analyzes a small dataset in one call without merging', async () => {
+    const { analyzeReviews } = await loadAnalyzer({ ANALYSIS_CHUNK_CHARS: '100000' });
+    const row = await analyzeReviews('v1', 'Venue', csvOf(5), 'item', CATEGORIES, 'en', TEMPLATE);
+    expect(prompts.filter((p) => p.startsWith('MERGE'))).toHaveLength(0);
+    expect(row.coverage).toEqual({ reviewsAnalyzed: 5, reviewsTotal: 5, chunks: 1 });
+    expect(row.promptTemplate).toEqual({ id: 'test', version: 1 });
+  });
+
+  it('merges chunk results in rounds so every review is covered', async () => {
+    const { analyzeReviews } = await loadAnalyzer({ ANALYSIS_CHUNK_CHARS: '250', ANALYSIS_MERGE_BATCH: '3' });
+    const row = await analyzeReviews('v1', 'Venue', csvOf(20), 'item', CATEGORIES, 'en', TEMPLATE);
+    const chunks = prompts.filter((p) => p.startsWith('ANALYZE')).length;
+    const merges = prompts.filter((p) => p.startsWith('MERGE'));
+    expect(chunks).toBeGreaterThan(3);
+    expect(row.coverage).toEqual({ reviewsAnalyzed: 20, reviewsTotal: 20, chunks });
+    // Rounds of batches of up to 3 parts, each round merging the results of the previous one
+    const expected = [];
+    for (let parts = chunks; parts > 1; parts = Math.ceil(parts / 3)) {
+      for (let left = parts; left > 0; left -= 3) if (left > 1) expected.push(`MERGE ${Math.min(3, left)}`);
+    }
+    expect(merges).toEqual(expected);
+  });
+
+  it('averages the rating over all chunks, weighted by reviews', async () => {
+    const { analyzeReviews } = await loadAnalyzer({ ANALYSIS_CHUNK_CHARS: '250', ANALYSIS_MERGE_BATCH: '2' });
+    const row = await analyzeReviews('v1', 'Venue', csvOf(12, (i) => (i < 6 ? `Low ${i}` : `High ${i}`)), 'item', CATEGORIES, 'en', TEMPLATE);
+    expect(row.overallRating).toBeGreaterThan(2);
+    expect(row.overallRating).toBeLessThan(5);
+  });
+
+  it('only drops reviews when ANALYSIS_MAX_CHUNKS is set', async () => {
+    const { analyzeReviews } = await loadAnalyzer({ ANALYSIS_CHUNK_CHARS: '250', ANALYSIS_MAX_CHUNKS: '2' });
+    const row = await analyzeReviews('v1', 'Venue', csvOf(20), 'item', CATEGORIES, 'en', TEMPLATE);
+    expect(row.coverage.chunks).toBe(2);
+    expect(row.coverage.reviewsAnalyzed).toBeLessThan(20);
+    expect(row.coverage.reviewsTotal).toBe(20);
+  });
+});
@@ -0,0 +1,136 @@
+import { parseReviews } from '../utils/csvParser.ts';
+import { tryParseDate } from '../utils/csvFilter.ts';
+
+/**
+ * Anomalies in a venue's daily review series, without a model. Reviews are bucketed per day
+ * (day 0 = the last 24 hours, like the dashboard's day ranges) and each day is compared with a
+ * rolling baseline of the days before it:
+ * - 'volume-spike': far more reviews than usual in one day
+ * - 'one-star-burst': far more 1★ reviews than usual in one day
+ * - 'rating-drop': the average rating of the last RECENT_DAYS days far below that of the baseline
+ * "Far" is a z-score of at least ANOMALY_Z_THRESHOLD (default 3). Consecutive flagged days of one
+ * kind are reported once, at their most extreme day.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Days averaged for 'rating-drop'. */
+const RECENT_DAYS = 7;
+/** Fewest reviews (or 1★ reviews) a day or window needs before it can be flagged. */
+const MIN_REVIEWS = 3;
+/** Smallest drop in stars that counts as a 'rating-drop', however steady the baseline was. */
+const MIN_RATING_DROP = 0.5;
+/** Lower bound of the rating spread, so a baseline of identical ratings does not turn any dip into an anomaly. */
+const MIN_RATING_STD = 0.5;
+
+/** z-score thresholds and baseline length, from ANOMALY_Z_THRESHOLD and ANOMALY_BASELINE_DAYS. */
+export function getAnomalySettings() {
+  const z = Number(process.env.ANOMALY_Z_THRESHOLD);
+  const baselineDays = Number(process.env.ANOMALY_BASELINE_DAYS);
+  const zThreshold = z > 0 ? z : 3;
+  return {
+    zThreshold,
+    criticalZ: zThreshold * 1.75,
+    baselineDays: Number.isInteger(baselineDays) && baselineDays >= 7 ? baselineDays : 28,
+  };
+}
+
+const round = (value, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function meanAndStd(values) {
+  if (values.length === 0) return { mean: 0, std: 0 };
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance) };
+}
+
+/**
+ * Per day (index = days ago): review count, 1★ count and the ratings given. Reviews whose date does
+ * not parse are left out; counting them as today would fake a spike.
+ */
+function buildDailySeries(reviews, now, length) {
+  const series = Array.from({ length }, () => ({ count: 0, oneStar: 0, ratings: [] }));
+  for (const review of reviews) {
+    const date = tryParseDate(review.date, now);
+    if (!date) continue;
+    const daysAgo = Math.floor((now.getTime() - date.getTime()) / DAY_MS);
+    if (daysAgo < 0 || daysAgo >= length) continue;
+    const day = series[daysAgo];
+    day.count++;
+    if (review.rating === 1) day.oneStar++;
+    if (review.rating > 0) day.ratings.push(review.rating);
+  }
+  return series;
+}
+
+/**
+ * One day's count against the same count over the baseline days. The spread has a floor of
+ * sqrt(mean) (what chance alone gives for counts) and 1, so a quiet venue's first busy day is not
+ * an infinite z-score.
+ */
+function countAnomaly(kind, series, d, field, settings) {
+  const value = series[d][field];
+  if (value < MIN_REVIEWS) return null;
+  const baseline = series.slice(d + 1, d + 1 + settings.baselineDays).map((day) => day[field]);
+  const { mean, std } = meanAndStd(baseline);
+  const zScore = (value - mean) / Math.max(std, Math.sqrt(mean), 1);
+  if (zScore < settings.zThreshold) return null;
+  return { kind, daysAgo: d, value, baseline: round(mean), zScore: round(zScore) };
+}
+
+/** Average rating of the RECENT_DAYS days ending at day `d` against the ratings of the baseline days before them. */
+function ratingDropAnomaly(series, d, settings) {
+  const recent = series.slice(d, d + RECENT_DAYS).flatMap((day) => day.ratings);
+  const before = series.slice(d + RECENT_DAYS, d + RECENT_DAYS + settings.baselineDays).flatMap((day) => day.ratings);
+  if (recent.length < MIN_REVIEWS || before.length < MIN_REVIEWS) return null;
+  const { mean: value } = meanAndStd(recent);
+  const { mean, std } = meanAndStd(before);
+  if (mean - value < MIN_RATING_DROP) return null;
+  const zScore = (value - mean) / (Math.max(std, MIN_RATING_STD) / Math.sqrt(recent.length));
+  if (zScore > -settings.zThreshold) return null;
+  return { kind: 'rating-drop', daysAgo: d, value: round(value), baseline: round(mean), zScore: round(zScore) };
+}
+
+/**
+ * Anomalies of one venue's reviews in the last `days` days, newest first.
+ * @param {string} csvContent - Stored reviews of the venue
+ * @param {{ days?: number, now?: Date }} [options]
+ * @returns {Array<{ kind: 'rating-drop'|'volume-spike'|'one-star-burst', date: string, startDate: string, endDate: string, value: number, baseline: number, zScore: number, severity: 'warning'|'critical' }>}
+ */
+export function detectAnomalies(csvContent, { days = 30, now = new Date() } = {}) {
+  const settings = getAnomalySettings();
+  const series = buildDailySeries(parseReviews(csvContent), now, days + RECENT_DAYS + settings.baselineDays);
+  const dateOf = (daysAgo) => new Date(now.getTime() - daysAgo * DAY_MS).toISOString().slice(0, 10);
+
+  const detectors = [
+    (d) => countAnomaly('volume-spike', series, d, 'count', settings),
+    (d) => countAnomaly('one-star-burst', series, d, 'oneStar', settings),
+    (d) => ratingDropAnomaly(series, d, settings),
+  ];
+  const anomalies = [];
+  for (const detect of detectors) {
+    // Oldest day first, so a run of flagged days is collected in order
+    let run = [];
+    const flush = () => {
+      if (run.length === 0) return;
+      const peak = run.reduce((a, b) => (Math.abs(b.zScore) > Math.abs(a.zScore) ? b : a));
+      anomalies.push({
+        kind: peak.kind,
+        date: dateOf(peak.daysAgo),
+        startDate: dateOf(run[0].daysAgo),
+        endDate: dateOf(run[run.length - 1].daysAgo),
+        value: peak.value,
+        baseline: peak.baseline,
+        zScore: peak.zScore,
+        severity: Math.abs(peak.zScore) >= settings.criticalZ ? 'critical' : 'warning',
+      });
+      run = [];
+    };
+    for (let d = days - 1; d >= 0; d--) {
+      const anomaly = detect(d);
+      if (anomaly) run.push(anomaly);
+      else flush();
+    }
+    flush();
+  }
+  return anomalies.sort((a, b) => b.endDate.localeCompare(a.endDate) || Math.abs(b.zScore) - Math.abs(a.zScore));
+}
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { detectAnomalies, getAnomalySettings } from './anomalies.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-06-30T12:00:00Z');
+
+/** Reviews as CSV; `daysAgo` is counted back from NOW, an hour into the day. */
+const csvOf = (reviews) =>
+  [
+    'author,date,content,rating,source',
+    ...reviews.map(({ daysAgo, rating, date }, i) => {
+      const when = date ?? new Date(NOW.getTime() - daysAgo * DAY_MS - 60 * 60 * 1000).toISOString();
+      return `Author ${i},${when},Review ${i},${rating},google`;
+    }),
+  ].join('\n');
+
+/** One review a day for the past `days` days, alternating 4★ and 5★. */
+const steady = (days = 70) => Array.from({ length: days }, (_, d) => ({ daysAgo: d, rating: d % 2 ? 4 : 5 }));
+
+const times = (count, review) => Array.from({ length: count }, () => ({ ...review }));
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('detectAnomalies', () => {
+  it('finds nothing in a steady series', () => {
+    expect(detectAnomalies(csvOf(steady()), { now: NOW })).toEqual([]);
+  });
+
+  it('flags a day with far more reviews than usual', () => {
+    const anomalies = detectAnomalies(csvOf([...steady(), ...times(9, { daysAgo: 2, rating: 5 })]), { now: NOW });
+    expect(anomalies).toEqual([
+      expect.objectContaining({ kind: 'volume-spike', date: '2024-06-28', value: 10, baseline: 1, severity: 'critical' }),
+    ]);
+  });
+
+  it('flags a burst of 1★ reviews', () => {
+    const anomalies = detectAnomalies(csvOf([...steady(), ...times(5, { daysAgo: 1, rating: 1 })]), { now: NOW });
+    expect(anomalies.map((a) => a.kind)).toContain('one-star-burst');
+    expect(anomalies.find((a) => a.kind === 'one-star-burst')).toMatchObject({ date: '2024-06-29', value: 5, baseline: 0 });
+  });
+
+  it('flags a drop of the recent average rating', () => {
+    const reviews = [...steady().filter((r) => r.daysAgo >= 7), ...Array.from({ length: 7 }, (_, d) => ({ daysAgo: d, rating: 2 }))];
+    const drop = detectAnomalies(csvOf(reviews), { now: NOW }).find((a) => a.kind === 'rating-drop');
+    expect(drop).toMatchObject({ value: 2, baseline: 4.5 });
+    expect(drop.zScore).toBeLessThan(-3);
+  });
+
+  it('reports consecutive flagged days once, at the most extreme day', () => {
+    const reviews = [...steady(), ...times(6, { daysAgo: 4, rating: 5 }), ...times(12, { daysAgo: 3, rating: 5 })];
+    const spikes = detectAnomalies(csvOf(reviews), { now: NOW }).filter((a) => a.kind === 'volume-spike');
+    expect(spikes).toHaveLength(1);
+    expect(spikes[0]).toMatchObject({ date: '2024-06-27', startDate: '2024-06-26', endDate: '2024-06-27', value: 13 });
+  });
+
+  it('leaves out reviews whose date does not parse instead of counting them as today', () => {
+    const reviews = [...steady(), ...times(10, { date: 'not a date', rating: 1 })];
+    expect(detectAnomalies(csvOf(reviews), { now: NOW })).toEqual([]);
+  });
+
+  it('ignores days before the requested window', () => {
+    const reviews = [...steady(), ...times(9, { daysAgo: 20, rating: 5 })];
+    expect(detectAnomalies(csvOf(reviews), { now: NOW, days: 30 })).toHaveLength(1);
+    expect(detectAnomalies(csvOf(reviews), { now: NOW, days: 14 })).toEqual([]);
+  });
+
+  it('uses ANOMALY_Z_THRESHOLD', () => {
+    const reviews = [...steady(), ...times(3, { daysAgo: 2, rating: 5 })];
+    expect(detectAnomalies(csvOf(reviews), { now: NOW })).toHaveLength(1);
+    vi.stubEnv('ANOMALY_Z_THRESHOLD', '5');
+    expect(detectAnomalies(csvOf(reviews), { now: NOW })).toEqual([]);
+  });
+});
+
+describe('getAnomalySettings', () => {
+  it('falls back to the defaults for missing or invalid settings', () => {
+    vi.stubEnv('ANOMALY_Z_THRESHOLD', '-1');
+    vi.stubEnv('ANOMALY_BASELINE_DAYS', '3');
+    expect(getAnomalySettings()).toEqual({ zThreshold: 3, criticalZ: 5.25, baselineDays: 28 });
+  });
+});
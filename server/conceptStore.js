@@ -0,0 +1,85 @@
+import fs from 'fs';
+import { readJson, writeJson } from './jsonFile.js';
+import { CONCEPTS, DEFAULT_CATEGORIES } from '../config/concepts.js';
+
+/**
+ * Persisted concept definitions (data/concepts.json). Seeded once from config/concepts.js,
+ * then managed through /api/concepts.
+ */
+
+let conceptsPath = null;
+
+/** Point the store at its file; seeds it from config/concepts.js when it does not exist yet. */
+export function initConceptStore(filePath) {
+  conceptsPath = filePath;
+  if (!fs.existsSync(filePath)) {
+    writeJson(filePath, CONCEPTS);
+    console.log(`[Concepts] Seeded ${CONCEPTS.length} concepts into ${filePath}`);
+  }
+}
+
+/** Concepts saved before categories were configurable only carry categoryLabels. */
+function normalizeConcept(concept) {
+  if (Array.isArray(concept.categories)) return concept;
+  const { categoryLabels = {}, ...rest } = concept;
+  return {
+    ...rest,
+    categories: DEFAULT_CATEGORIES.map((c) => ({ ...c, label: categoryLabels[c.key] ?? c.label })),
+  };
+}
+
+export function listConcepts() {
+  return readJson(conceptsPath, []).map(normalizeConcept);
+}
+
+export function getConceptBySlug(slug) {
+  return listConcepts().find((c) => c.slug === slug);
+}
+
+const TEXT_FIELDS = ['label', 'title', 'description', 'icon'];
+
+/** Analysis categories of a concept; DEFAULT_CATEGORIES when the concept is unknown. */
+export function getConceptCategories(slug) {
+  return getConceptBySlug(slug)?.categories ?? DEFAULT_CATEGORIES;
+}
+
+function pickFields(input) {
+  const picked = {};
+  for (const field of TEXT_FIELDS) {
+    if (input[field] !== undefined) picked[field] = input[field].trim();
+  }
+  if (input.categories !== undefined) {
+    picked.categories = input.categories.map(({ key, label, guidance }) => ({
+      key,
+      label: label.trim(),
+      ...(guidance ? { guidance: guidance.trim() } : {}),
+    }));
+  }
+  return picked;
+}
+
+/** Create a concept (body validated by createConceptRequestSchema in schemas.ts). Returns null when the slug is taken. */
+export function createConcept(input) {
+  const concepts = listConcepts();
+  if (concepts.some((c) => c.slug === input.slug)) return null;
+  const concept = {
+    slug: input.slug,
+    title: input.label.trim(),
+    description: '',
+    icon: 'LayoutGrid',
+    categories: DEFAULT_CATEGORIES,
+    ...pickFields(input),
+  };
+  concepts.push(concept);
+  return writeJson(conceptsPath, concepts) ? concept : null;
+}
+
+/** Apply a partial update. Returns the updated concept or undefined. */
+export function updateConcept(slug, patch) {
+  const concepts = listConcepts();
+  const idx = concepts.findIndex((c) => c.slug === slug);
+  if (idx < 0) return undefined;
+  const next = { ...concepts[idx], ...pickFields(patch) };
+  concepts[idx] = next;
+  return writeJson(conceptsPath, concepts) ? next : undefined;
+}
@@ -0,0 +1,58 @@
+/**
+ * Declared field mapping shared by the JSON connectors. A mapping names, for each Review field,
+ * the dotted path to read from one upstream item, e.g. { author: 'user.name', rating: 'stars' }.
+ */
+
+export const REVIEW_FIELDS = ['author', 'date', 'content', 'rating', 'source'];
+
+/** Read a dotted path ('a.b.0.c') from an object; undefined when any segment is missing. */
+export function getPath(obj, dottedPath) {
+  if (!dottedPath) return obj;
+  return String(dottedPath)
+    .split('.')
+    .reduce((value, key) => (value == null ? undefined : value[key]), obj);
+}
+
+function toRating(value) {
+  if (typeof value === 'number') return value;
+  const match = String(value ?? '').match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : 0;
+}
+
+/**
+ * Map one upstream item to a Review using a declared mapping.
+ * @param {Object} item - Upstream JSON object
+ * @param {Object} fields - { author, date, content, rating, source? } → dotted paths
+ * @param {Object} [defaults] - Values used when a mapped field is missing, e.g. { source: 'tripadvisor' }
+ */
+export function mapItem(item, fields, defaults = {}) {
+  const read = (field) => {
+    const value = fields[field] ? getPath(item, fields[field]) : undefined;
+    return value ?? defaults[field];
+  };
+  return {
+    author: String(read('author') ?? 'Anonymous'),
+    date: String(read('date') ?? ''),
+    content: String(read('content') ?? ''),
+    rating: toRating(read('rating')),
+    source: String(read('source') ?? 'google'),
+  };
+}
+
+/** Validate a mapping; returns an error message or null. content and rating are mandatory. */
+export function validateMapping(fields) {
+  if (!fields || typeof fields !== 'object') return 'fields mapping is required';
+  const unknown = Object.keys(fields).filter((k) => !REVIEW_FIELDS.includes(k));
+  if (unknown.length > 0) return `Unknown mapped field(s): ${unknown.join(', ')}`;
+  if (!fields.content || !fields.rating) return 'fields.content and fields.rating are required';
+  return null;
+}
+
+/** Items array from a response body at a declared path (whole body when no path is given). */
+export function extractItems(body, itemsPath) {
+  const items = getPath(body, itemsPath);
+  if (!Array.isArray(items)) {
+    throw new Error(`Expected an array at "${itemsPath || '(root)'}"`);
+  }
+  return items;
+}
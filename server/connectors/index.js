@@ -0,0 +1,40 @@
+import { phulongApiConnector } from './phulongApi.js';
+import { jsonHttpConnector } from './jsonHttp.js';
+import { localDirectoryConnector } from './localDirectory.js';
+import { serializeReviews } from '../../utils/csvMerge.ts';
+import { getVenueSource } from '../../config/venues.js';
+
+/**
+ * Review source connectors. Each venue declares its source in the venue store
+ * ({ source: { type, ...options } }); venues without one use DEFAULT_SOURCE (config/venues.js).
+ *
+ * A connector is { type, validate(source) → error message | null, fetchReviews(venue, source) → Promise<Review[]> }.
+ * fetchReviews must throw on failure (never return an empty list for an outage) so the
+ * review store keeps what it has.
+ */
+const CONNECTORS = {
+  [phulongApiConnector.type]: phulongApiConnector,
+  [jsonHttpConnector.type]: jsonHttpConnector,
+  [localDirectoryConnector.type]: localDirectoryConnector,
+};
+
+export const CONNECTOR_TYPES = Object.keys(CONNECTORS);
+
+/** Error message for an invalid source config, or null when it is usable. */
+export function validateSource(source) {
+  const connector = CONNECTORS[source?.type];
+  if (!connector) return `Unknown source type: ${source?.type} (expected one of ${CONNECTOR_TYPES.join(', ')})`;
+  return connector.validate(source);
+}
+
+/**
+ * Fetch a venue's reviews through its configured connector as canonical CSV
+ * (author,date,content,rating,source). Throws on invalid config or upstream failure.
+ */
+export async function fetchVenueCsv(venue) {
+  const source = getVenueSource(venue);
+  const error = validateSource(source);
+  if (error) throw new Error(`Invalid source for venue ${venue.id}: ${error}`);
+  const reviews = await CONNECTORS[source.type].fetchReviews(venue, source);
+  return serializeReviews(reviews);
+}
@@ -0,0 +1,63 @@
+import { extractItems, mapItem, validateMapping } from './fieldMapping.js';
+import { guardedFetch, validateOutboundUrl } from './urlGuard.js';
+
+/**
+ * Generic JSON-over-HTTP connector with a declared field mapping (no guessing).
+ * Source config:
+ *   {
+ *     type: 'json-http',
+ *     url: 'https://example.com/reviews/{id}',   // {id} = externalId ?? venue id
+ *     externalId?: 'aeon-tan-phu',
+ *     itemsPath?: 'data.reviews',                // dotted path to the array; root when omitted
+ *     fields: { author: 'user.name', date: 'createdAt', content: 'text', rating: 'stars', source?: 'platform' },
+ *     defaults?: { source: 'tripadvisor' },
+ *     headersFromEnv?: { Authorization: 'SOURCE_HEADER_COMPETITOR_TOKEN' },  // header → env var holding its value
+ *   }
+ * Sources can be edited through the venue API, so a header may only take its value from an env var
+ * named SOURCE_HEADER_*: other env vars (API keys of the analysis provider, …) are never sent out,
+ * and the url may not point at local or private hosts (see urlGuard.js).
+ */
+
+/** Prefix of the env vars headersFromEnv may read. */
+const SOURCE_HEADER_ENV_PREFIX = 'SOURCE_HEADER_';
+
+/** Error message for a headersFromEnv map that reads anything but SOURCE_HEADER_* env vars, or null. */
+function validateHeadersFromEnv(headersFromEnv) {
+  if (headersFromEnv === undefined) return null;
+  if (!headersFromEnv || typeof headersFromEnv !== 'object') return 'headersFromEnv must be an object';
+  const denied = Object.values(headersFromEnv).filter(
+    (envName) => typeof envName !== 'string' || !envName.startsWith(SOURCE_HEADER_ENV_PREFIX)
+  );
+  if (denied.length > 0) return `headersFromEnv may only use env vars named ${SOURCE_HEADER_ENV_PREFIX}* (got ${denied.join(', ')})`;
+  return null;
+}
+
+function buildHeaders(headersFromEnv = {}) {
+  const headers = { Accept: 'application/json' };
+  for (const [header, envName] of Object.entries(headersFromEnv)) {
+    const value = process.env[envName];
+    if (!value) throw new Error(`Env var ${envName} (header ${header}) is not set`);
+    headers[header] = value;
+  }
+  return headers;
+}
+
+export const jsonHttpConnector = {
+  type: 'json-http',
+
+  validate(source) {
+    if (!source.url || typeof source.url !== 'string') return 'url is required';
+    return validateOutboundUrl(source.url) ?? validateHeadersFromEnv(source.headersFromEnv) ?? validateMapping(source.fields);
+  },
+
+  async fetchReviews(venue, source) {
+    const url = source.url.replace('{id}', encodeURIComponent(source.externalId ?? venue.id));
+    console.log(`[API] Fetching: ${url}`);
+    const resp = await guardedFetch(url, { headers: buildHeaders(source.headersFromEnv) });
+    if (!resp.ok) {
+      throw new Error(`HTTP ${resp.status} from ${url}`);
+    }
+    const body = await resp.json();
+    return extractItems(body, source.itemsPath).map((item) => mapItem(item, source.fields, source.defaults));
+  },
+};
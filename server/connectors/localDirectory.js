@@ -0,0 +1,79 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { extractItems, mapItem, validateMapping } from './fieldMapping.js';
+import { parseReviews } from '../../utils/csvParser.ts';
+
+/**
+ * Connector for exports dropped into a local directory (CSV and/or JSON files).
+ * Source config:
+ *   {
+ *     type: 'local-dir',
+ *     path: 'data/imports/aeon-tan-phu',   // relative to the project root, inside data/imports/
+ *     itemsPath?: 'reviews',               // JSON files only
+ *     fields?: { ... },                    // JSON files only; same mapping as json-http
+ *     defaults?: { source: 'facebook' },
+ *   }
+ * CSV files use the same header detection as the UI (author/commented_at/content/rating or Reviewer/Time/Comment/Rating).
+ * Sources can be edited through the venue API, so the directory must lie inside data/imports/: absolute
+ * paths and paths that leave it (`..`, symlinks) are rejected rather than read.
+ */
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+const importsRoot = path.join(root, 'data', 'imports');
+
+const isInside = (base, target) => target === base || target.startsWith(base + path.sep);
+
+/** Absolute directory of a source path, or null when it is absolute or resolves outside data/imports/. */
+function resolveDir(dir) {
+  if (path.isAbsolute(dir) || path.win32.isAbsolute(dir)) return null;
+  const resolved = path.resolve(root, dir);
+  return isInside(importsRoot, resolved) ? resolved : null;
+}
+
+function readCsvFile(filePath, defaults = {}) {
+  return parseReviews(fs.readFileSync(filePath, 'utf-8')).map((r) =>
+    defaults.source && r.source === 'google' ? { ...r, source: defaults.source } : r
+  );
+}
+
+function readJsonFile(filePath, source) {
+  const body = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return extractItems(body, source.itemsPath).map((item) => mapItem(item, source.fields, source.defaults));
+}
+
+export const localDirectoryConnector = {
+  type: 'local-dir',
+
+  validate(source) {
+    if (!source.path || typeof source.path !== 'string') return 'path is required';
+    if (!resolveDir(source.path)) return 'path must be a relative path inside data/imports/';
+    if (source.fields) return validateMapping(source.fields);
+    return null;
+  },
+
+  async fetchReviews(venue, source) {
+    const dir = resolveDir(source.path);
+    if (!dir) throw new Error(`Path outside data/imports/: ${source.path}`);
+    if (!fs.existsSync(dir)) {
+      throw new Error(`Directory not found: ${dir}`);
+    }
+    // A symlink inside data/imports/ must not lead out of it either
+    if (!isInside(fs.realpathSync(importsRoot), fs.realpathSync(dir))) {
+      throw new Error(`Path outside data/imports/: ${source.path}`);
+    }
+    const files = fs.readdirSync(dir).sort();
+    const reviews = [];
+    for (const file of files) {
+      const filePath = path.join(dir, file);
+      const ext = path.extname(file).toLowerCase();
+      if (ext === '.csv') {
+        reviews.push(...readCsvFile(filePath, source.defaults));
+      } else if (ext === '.json') {
+        if (!source.fields) throw new Error(`${file}: JSON files need a fields mapping`);
+        reviews.push(...readJsonFile(filePath, source));
+      }
+    }
+    return reviews;
+  },
+};
@@ -0,0 +1,64 @@
+/**
+ * Connector for the Phu Long comments API (the original upstream).
+ * Source config: { type: 'phulong-api', externalId? } — externalId defaults to the venue id.
+ */
+
+const DEFAULT_BASE = 'http://phulonghotels.com:8000/api/public/phulong/mena_gourmet_market/comments';
+
+/**
+ * Normalize API comment item to { author, date, content, rating, source }.
+ * Supports common field names: author/reviewer/author_name, date/created_at/commented_at, content/comment/body, rating, source.
+ */
+function normalizeComment(item) {
+  const author = item.author ?? item.reviewer ?? item.author_name ?? item.user_name ?? 'Anonymous';
+  const date = item.date ?? item.created_at ?? item.commented_at ?? item.time ?? '';
+  const content = item.content ?? item.comment ?? item.body ?? item.review ?? '';
+  let rating = item.rating ?? item.star ?? item.score ?? 0;
+  if (typeof rating === 'string') {
+    const n = parseFloat(rating.replace(/\D/g, '')) || 0;
+    rating = n;
+  }
+  const source = item.source ?? item.platform ?? 'google';
+  return { author, date, content, rating, source };
+}
+
+/**
+ * Extract comments array from API response. Handles { data: [] }, { results: [] }, { items: [] }, { comments: [] }, or direct array.
+ * Returns null for any other shape.
+ */
+function extractComments(body) {
+  if (Array.isArray(body)) return body;
+  if (body?.data && Array.isArray(body.data)) return body.data;
+  if (body?.results && Array.isArray(body.results)) return body.results;
+  if (body?.comments && Array.isArray(body.comments)) return body.comments;
+  if (body?.items && Array.isArray(body.items)) return body.items;
+  if (body?.list && Array.isArray(body.list)) return body.list;
+  return null;
+}
+
+export const phulongApiConnector = {
+  type: 'phulong-api',
+
+  validate() {
+    return null;
+  },
+
+  async fetchReviews(venue, source) {
+    const base = process.env.PHULONG_API_BASE || DEFAULT_BASE;
+    const url = `${base}/${encodeURIComponent(source.externalId ?? venue.id)}`;
+    console.log(`[API] Fetching: ${url}`);
+    const resp = await fetch(url);
+    if (!resp.ok) {
+      throw new Error(`HTTP ${resp.status} from ${url}`);
+    }
+    let body;
+    try {
+      body = await resp.json();
+    } catch (err) {
+      throw new Error(`Invalid JSON from ${url}`, { cause: err });
+    }
+    const comments = extractComments(body);
+    if (!comments) throw new Error(`Unexpected response from ${url}: no comments array`);
+    return comments.map(normalizeComment);
+  },
+};
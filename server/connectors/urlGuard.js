@@ -0,0 +1,114 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+/**
+ * Outbound URL guard for sources editable through the venue API (json-http), so a venue cannot
+ * make the server fetch from itself or its network (localhost, cloud metadata at 169.254.169.254,
+ * private ranges). With SOURCE_ALLOWED_HOSTS set (comma-separated; `*.example.com` matches
+ * subdomains), only those hosts may be fetched, and they are trusted even when internal. Without
+ * it, any public host may be fetched; names are resolved before each request so one pointing at a
+ * private address is refused as well, and redirects are followed by hand so every hop is checked.
+ */
+
+const MAX_REDIRECTS = 3;
+
+const allowedHosts = () =>
+  (process.env.SOURCE_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+const matchesHost = (hostname, pattern) =>
+  pattern.startsWith('*.') ? hostname.endsWith(pattern.slice(1)) : hostname === pattern;
+
+function isPrivateIPv4(address) {
+  const [a, b] = address.split('.').map(Number);
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    a >= 224 // multicast and reserved
+  );
+}
+
+function isPrivateIPv6(address) {
+  const lower = address.toLowerCase();
+  // IPv4-mapped (::ffff:127.0.0.1, which URL normalizes to ::ffff:7f00:1)
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = mappedHex.slice(1).map((part) => parseInt(part, 16));
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return (
+    lower === '::' ||
+    lower === '::1' ||
+    /^fe[89ab]/.test(lower) || // link-local fe80::/10
+    /^f[cd]/.test(lower) || // unique local fc00::/7
+    lower.startsWith('ff') // multicast
+  );
+}
+
+/** Whether an IP address is loopback, link-local, private or otherwise not on the public internet. */
+export function isPrivateAddress(address) {
+  const version = net.isIP(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version === 6) return isPrivateIPv6(address);
+  return false;
+}
+
+/** Error message for a hostname that may not be fetched (judged without DNS), or null. */
+function checkHostname(hostname) {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const allowed = allowedHosts();
+  if (allowed.length > 0) {
+    return allowed.some((pattern) => matchesHost(host, pattern)) ? null : `host ${host} is not in SOURCE_ALLOWED_HOSTS`;
+  }
+  if (host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host)) {
+    return `host ${host} is a local or private address`;
+  }
+  return null;
+}
+
+/** Error message for a url that is not http(s) or points at a host that may not be fetched, or null. */
+export function validateOutboundUrl(url) {
+  let parsed;
+  try {
+    parsed = new URL(url.replace('{id}', 'id'));
+  } catch {
+    return `url is not a valid URL: ${url}`;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return `url must be http or https (got ${parsed.protocol})`;
+  }
+  return checkHostname(parsed.hostname);
+}
+
+/** Throw when a url's host may not be fetched, including a name that resolves to a private address. */
+async function assertOutboundUrl(url) {
+  const error = validateOutboundUrl(url);
+  if (error) throw new Error(`Refusing to fetch ${url}: ${error}`);
+  const { hostname } = new URL(url);
+  if (allowedHosts().length > 0 || net.isIP(hostname.replace(/^\[|\]$/g, ''))) return;
+  const addresses = await dns.lookup(hostname, { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) throw new Error(`Refusing to fetch ${url}: ${hostname} resolves to private address ${blocked.address}`);
+}
+
+/** fetch() for a source url: checks the url and every redirect target before requesting it. */
+export async function guardedFetch(url, options = {}) {
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    await assertOutboundUrl(current);
+    const resp = await fetch(current, { ...options, redirect: 'manual' });
+    const location = resp.headers.get('location');
+    if (resp.status < 300 || resp.status >= 400 || !location) return resp;
+    if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects from ${url}`);
+    current = new URL(location, current).toString();
+  }
+}
@@ -0,0 +1,363 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import path from 'path';
+import { Type } from '@google/genai';
+import { readJson, writeJson } from './jsonFile.js';
+import { getProvider } from './providers/index.js';
+import { generateAnalysisJson } from './analyzer.js';
+import { buildRepairPrompt } from './analysisPrompt.js';
+import { AnalysisError } from './analysisErrors.js';
+
+/**
+ * Competitive narrative for a whole concept group: who leads each category, where our venues
+ * trail competitors (venues with `competitor: true`) and three recommended actions. Built from the
+ * stored comparison rows, so it needs no review data. LLM providers write it from a compact
+ * digest of the rows; the offline provider gets the same shape from mention counts.
+ * One narrative per concept and language is kept under data/narratives/.
+ */
+
+/** Bump whenever the narrative prompt or schema changes, so stored narratives are regenerated. */
+export const NARRATIVE_PROMPT_VERSION = 'narrative-v1';
+
+const LANGUAGE_NAMES = { vi: 'Vietnamese', en: 'English' };
+const ACTION_COUNT = 3;
+const MAX_GAPS = 5;
+
+function narrativePath(narrativesDir, concept, language) {
+  const safeSlug = String(concept).replace(/[^a-z0-9-]/g, '_');
+  return path.join(narrativesDir, `${safeSlug}.${language}.json`);
+}
+
+/** Latest narrative of a concept in one language, or null. */
+export function getStoredNarrative(narrativesDir, concept, language) {
+  const file = narrativePath(narrativesDir, concept, language);
+  if (!fs.existsSync(file)) return null;
+  return readJson(file, null);
+}
+
+function storeNarrative(narrativesDir, narrative) {
+  return writeJson(narrativePath(narrativesDir, narrative.concept, narrative.language), narrative);
+}
+
+/** Net sentiment of one category of a row: positive minus negative mentions (a point without mentions counts once). */
+function categoryScore(row, key) {
+  return (row.categories?.[key]?.points ?? []).reduce(
+    (sum, p) => sum + (p.type === 'positive' ? 1 : -1) * (p.mentions || 1),
+    0
+  );
+}
+
+/** What the model sees per venue: rating, summaries and points, without evidence. */
+function toDigest(entries, categories) {
+  return entries.map(({ venue, row }) => ({
+    id: venue.id,
+    name: venue.name,
+    competitor: venue.competitor === true,
+    overallRating: row.overallRating,
+    categories: Object.fromEntries(
+      categories.map((c) => {
+        const category = row.categories?.[c.key] ?? { points: [] };
+        return [
+          c.key,
+          {
+            summary: category.summary,
+            points: category.points.map((p) => ({ text: p.text, type: p.type, mentions: p.mentions })),
+          },
+        ];
+      })
+    ),
+  }));
+}
+
+/** Venues ranked by overall rating; the order is computed here rather than left to the model. */
+function buildRanking(entries) {
+  return [...entries]
+    .sort((a, b) => b.row.overallRating - a.row.overallRating || a.venue.name.localeCompare(b.venue.name))
+    .map(({ venue, row }, i) => ({
+      rank: i + 1,
+      venueId: venue.id,
+      name: venue.name,
+      overallRating: row.overallRating,
+      competitor: venue.competitor === true,
+    }));
+}
+
+/**
+ * Cache key of one narrative request: the digest of every row plus language, provider, model
+ * and prompt version. A stored narrative with the same key is returned as-is.
+ */
+function computeNarrativeKey(digest, language, provider) {
+  const payload = JSON.stringify({
+    digest,
+    language,
+    provider: provider.name,
+    model: provider.getModelName(),
+    promptVersion: NARRATIVE_PROMPT_VERSION,
+  });
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+function buildNarrativeSchema(language) {
+  const languageName = LANGUAGE_NAMES[language];
+  return {
+    type: Type.OBJECT,
+    properties: {
+      summary: {
+        type: Type.STRING,
+        description: `3–4 sentences in ${languageName}: the overall ranking and how our venues compare with competitors.`,
+      },
+      leaders: {
+        type: Type.ARRAY,
+        description: 'One entry per category: the venue that leads it.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            category: { type: Type.STRING, description: 'Category key.' },
+            venueId: { type: Type.STRING },
+            reason: { type: Type.STRING, description: `Why it leads, in ${languageName}. Max 15 words.` },
+          },
+          required: ['category', 'venueId', 'reason'],
+        },
+      },
+      gaps: {
+        type: Type.ARRAY,
+        description: `Up to ${MAX_GAPS} places where one of our venues trails a competitor.`,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            venueId: { type: Type.STRING, description: 'Our venue (competitor: false).' },
+            competitorId: { type: Type.STRING, description: 'The competitor it trails (competitor: true).' },
+            category: { type: Type.STRING, description: 'Category key.' },
+            text: { type: Type.STRING, description: `What the gap is, in ${languageName}. Max 20 words.` },
+          },
+          required: ['venueId', 'competitorId', 'category', 'text'],
+        },
+      },
+      actions: {
+        type: Type.ARRAY,
+        description: `Exactly ${ACTION_COUNT} recommended actions for our venues, in ${languageName}. Max 20 words each.`,
+        items: { type: Type.STRING },
+      },
+    },
+    required: ['summary', 'leaders', 'gaps', 'actions'],
+  };
+}
+
+function buildNarrativePrompt(title, digest, categories, ranking, language) {
+  const categoryList = categories.map((c) => `${c.key} = ${c.label}`).join('; ');
+  const rankingList = ranking.map((r) => `${r.rank}. ${r.name} (${r.overallRating})`).join('; ');
+  return `You are a retail analyst comparing the venues of the group "${title}". Venues marked competitor: true belong to competitors; the others are ours.
+Using the per-venue analyses below (rating, category summaries and points with mention counts), write in ${LANGUAGE_NAMES[language]}:
+- summary: 3–4 sentences on the overall ranking and where our venues stand against competitors.
+- leaders: for each category, the venue that leads it and why.
+- gaps: up to ${MAX_GAPS} places where one of our venues clearly trails a competitor, most important first. Leave empty when we trail nowhere.
+- actions: exactly ${ACTION_COUNT} concrete actions for our venues, most impactful first.
+Refer to venues only by their id. Do not invent facts that are not in the data.
+Categories: ${categoryList}
+Ranking by rating: ${rankingList}
+Output JSON per schema.
+
+Venues:
+${JSON.stringify(digest)}`;
+}
+
+/**
+ * Keep only entries that reference venues and categories of the group, and fill in venue names.
+ * @returns {{ narrative: Object, errors: string[] }}
+ */
+function validateNarrative(output, entries, categories) {
+  const errors = [];
+  const source = output && typeof output === 'object' && !Array.isArray(output) ? output : {};
+  const venuesById = new Map(entries.map(({ venue }) => [venue.id, venue]));
+  const categoryKeys = new Set(categories.map((c) => c.key));
+  const text = (value) => (typeof value === 'string' ? value.trim() : '');
+
+  const summary = text(source.summary);
+  if (!summary) errors.push('summary is missing');
+
+  const leaders = [];
+  for (const leader of Array.isArray(source.leaders) ? source.leaders : []) {
+    const venue = venuesById.get(leader?.venueId);
+    if (!venue || !categoryKeys.has(leader.category) || leaders.some((l) => l.category === leader.category)) continue;
+    leaders.push({ category: leader.category, venueId: venue.id, name: venue.name, reason: text(leader.reason) });
+  }
+
+  const gaps = [];
+  for (const gap of Array.isArray(source.gaps) ? source.gaps : []) {
+    const venue = venuesById.get(gap?.venueId);
+    const competitor = venuesById.get(gap?.competitorId);
+    if (!venue || venue.competitor || !competitor?.competitor || !categoryKeys.has(gap.category) || !text(gap.text)) continue;
+    gaps.push({
+      venueId: venue.id,
+      name: venue.name,
+      competitorId: competitor.id,
+      competitorName: competitor.name,
+      category: gap.category,
+      text: text(gap.text),
+    });
+  }
+
+  const actions = (Array.isArray(source.actions) ? source.actions : []).map(text).filter(Boolean).slice(0, ACTION_COUNT);
+  if (actions.length < ACTION_COUNT) errors.push(`expected ${ACTION_COUNT} actions, got ${actions.length}`);
+
+  return { narrative: { summary, leaders, gaps: gaps.slice(0, MAX_GAPS), actions }, errors };
+}
+
+const RULE_TEXT = {
+  vi: {
+    leaderReason: (pos, neg) => `${pos} lượt khen, ${neg} lượt chê`,
+    gap: (competitor, label, point) => `Thua ${competitor} về ${label.toLowerCase()}${point ? `: ${point}` : ''}`,
+    improve: (label, name, point) => `Cải thiện ${label.toLowerCase()} tại ${name}${point ? ` (${point.toLowerCase()})` : ''}.`,
+    keepStrength: (label, name) => `Duy trì thế mạnh về ${label.toLowerCase()} tại ${name}.`,
+    monitor: 'Theo dõi đánh giá hằng tuần để phát hiện vấn đề sớm.',
+    top: (name, rating) => `${name} dẫn đầu nhóm với ${rating}/5.`,
+    ownBest: (name, rank, total, rating) => `Địa điểm tốt nhất của chúng ta là ${name} (hạng ${rank}/${total}, ${rating}/5).`,
+    biggestGap: (label) => `Khoảng cách lớn nhất so với đối thủ nằm ở ${label.toLowerCase()}.`,
+    noGap: 'Các địa điểm của chúng ta không thua đối thủ ở hạng mục nào.',
+  },
+  en: {
+    leaderReason: (pos, neg) => `${pos} positive vs ${neg} negative mentions`,
+    gap: (competitor, label, point) => `Trails ${competitor} on ${label.toLowerCase()}${point ? `: ${point}` : ''}`,
+    improve: (label, name, point) => `Improve ${label.toLowerCase()} at ${name}${point ? ` (${point.toLowerCase()})` : ''}.`,
+    keepStrength: (label, name) => `Keep the ${label.toLowerCase()} strength at ${name}.`,
+    monitor: 'Review feedback weekly to catch issues early.',
+    top: (name, rating) => `${name} leads the group at ${rating}/5.`,
+    ownBest: (name, rank, total, rating) => `Our best venue is ${name} (rank ${rank}/${total}, ${rating}/5).`,
+    biggestGap: (label) => `The largest gap to competitors is in ${label.toLowerCase()}.`,
+    noGap: 'Our venues do not trail competitors in any category.',
+  },
+};
+
+/** Same narrative shape without a model: leaders and gaps come from net mention counts. */
+function buildRuleBasedNarrative(entries, categories, ranking, language) {
+  const text = RULE_TEXT[language];
+  const mentions = (row, key, type) =>
+    (row.categories?.[key]?.points ?? []).filter((p) => p.type === type).reduce((s, p) => s + (p.mentions || 1), 0);
+  const topNegative = (row, key) =>
+    (row.categories?.[key]?.points ?? [])
+      .filter((p) => p.type === 'negative')
+      .sort((a, b) => (b.mentions || 1) - (a.mentions || 1))[0]?.text;
+
+  const leaders = [];
+  for (const category of categories) {
+    const best = [...entries].sort(
+      (a, b) => categoryScore(b.row, category.key) - categoryScore(a.row, category.key) || b.row.overallRating - a.row.overallRating
+    )[0];
+    if (!best || categoryScore(best.row, category.key) <= 0) continue;
+    leaders.push({
+      category: category.key,
+      venueId: best.venue.id,
+      name: best.venue.name,
+      reason: text.leaderReason(mentions(best.row, category.key, 'positive'), mentions(best.row, category.key, 'negative')),
+    });
+  }
+
+  const own = entries.filter(({ venue }) => !venue.competitor);
+  const competitors = entries.filter(({ venue }) => venue.competitor);
+  const gaps = [];
+  for (const { venue, row } of own) {
+    for (const category of categories) {
+      const best = [...competitors].sort((a, b) => categoryScore(b.row, category.key) - categoryScore(a.row, category.key))[0];
+      if (!best) continue;
+      const size = categoryScore(best.row, category.key) - categoryScore(row, category.key);
+      if (size <= 0) continue;
+      gaps.push({
+        size,
+        label: category.label,
+        point: topNegative(row, category.key),
+        venueId: venue.id,
+        name: venue.name,
+        competitorId: best.venue.id,
+        competitorName: best.venue.name,
+        category: category.key,
+      });
+    }
+  }
+  gaps.sort((a, b) => b.size - a.size || a.name.localeCompare(b.name));
+
+  const actions = [];
+  for (const gap of gaps) {
+    const action = text.improve(gap.label, gap.name, gap.point);
+    if (!actions.includes(action)) actions.push(action);
+    if (actions.length === ACTION_COUNT) break;
+  }
+  for (const leader of leaders) {
+    if (actions.length >= ACTION_COUNT) break;
+    const venue = own.find((e) => e.venue.id === leader.venueId);
+    const label = categories.find((c) => c.key === leader.category)?.label ?? leader.category;
+    if (venue) actions.push(text.keepStrength(label, venue.venue.name));
+  }
+  if (actions.length < ACTION_COUNT) actions.push(text.monitor);
+
+  const rated = ranking.filter((r) => r.overallRating > 0);
+  const ownBest = rated.find((r) => !r.competitor);
+  const summary = [
+    rated[0] ? text.top(rated[0].name, rated[0].overallRating) : '',
+    ownBest ? text.ownBest(ownBest.name, ownBest.rank, ranking.length, ownBest.overallRating) : '',
+    competitors.length > 0 && own.length > 0 ? (gaps[0] ? text.biggestGap(gaps[0].label) : text.noGap) : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+  return {
+    summary,
+    leaders,
+    gaps: gaps.slice(0, MAX_GAPS).map(({ size, label, point, ...gap }) => ({
+      ...gap,
+      text: text.gap(gap.competitorName, label, point),
+    })),
+    actions: actions.slice(0, ACTION_COUNT),
+  };
+}
+
+/**
+ * Generate (or reuse) the narrative of one concept group and store it.
+ * @param {{ narrativesDir: string, concept: { slug: string, title: string, categories: Array<{ key: string, label: string }> }, entries: Array<{ venue: Object, row: Object }>, language: 'vi'|'en', force?: boolean, meter?: Object }} input
+ *   `entries` are the group's analyzed venues with their latest ComparisonRow; `meter` (see usage.js) counts the model calls.
+ * @returns {Promise<Object>} GroupNarrative, with `fromCache: true` when the stored one was reused
+ */
+export async function generateGroupNarrative({ narrativesDir, concept, entries, language, force, meter }) {
+  const provider = getProvider();
+  const { categories } = concept;
+  const digest = toDigest(entries, categories);
+  const inputKey = computeNarrativeKey(digest, language, provider);
+
+  const stored = getStoredNarrative(narrativesDir, concept.slug, language);
+  if (!force && stored?.inputKey === inputKey) return { ...stored, fromCache: true };
+
+  const ranking = buildRanking(entries);
+  let content;
+  if (provider.generateJson) {
+    const request = {
+      prompt: buildNarrativePrompt(concept.title, digest, categories, ranking, language),
+      schema: buildNarrativeSchema(language),
+    };
+    let result = validateNarrative(await generateAnalysisJson(provider, request, meter), entries, categories);
+    if (result.errors.length > 0) {
+      console.warn(`[API] Narrative failed validation, re-prompting: ${result.errors.join('; ')}`);
+      const retried = validateNarrative(
+        await generateAnalysisJson(provider, { ...request, prompt: buildRepairPrompt(request.prompt, result.errors) }, meter),
+        entries,
+        categories
+      );
+      if (retried.errors.length <= result.errors.length) result = retried;
+    }
+    if (!result.narrative.summary) throw new AnalysisError('invalid-output', 'Model returned a narrative without a summary');
+    content = result.narrative;
+  } else {
+    content = buildRuleBasedNarrative(entries, categories, ranking, language);
+  }
+
+  const narrative = {
+    concept: concept.slug,
+    language,
+    generatedAt: new Date().toISOString(),
+    model: provider.getModelName(),
+    venueCount: entries.length,
+    ranking,
+    ...content,
+    inputKey,
+  };
+  storeNarrative(narrativesDir, narrative);
+  return narrative;
+}
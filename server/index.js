@@ -1,136 +1,290 @@
 import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import fs from 'fs';
+import crypto from 'crypto';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { analyzeReviews } from './gemini.js';
-import { VENUES, getVenueById } from '../config/venues.js';
+import { analyzeReviews, getModelName, getAnalysisVersion } from './analyzer.js';
+import { computeAnalysisKey, getCachedAnalysis, putCachedAnalysis } from './analysisCache.js';
+import { AnalysisError, classifyError, toErrorResponse } from './analysisErrors.js';
+import { initJobQueue, createJob, getJob, listJobs, getActiveJobForGroup, subscribeToJob } from './jobQueue.js';
+import { generateGroupNarrative, getStoredNarrative } from './groupNarrative.js';
+import { comparePeriods, splitPeriods } from './periodDiff.js';
+import { generateReplyDraft, getReplyDrafts, saveReplyDraft } from './replyDrafts.js';
+import { detectAnomalies } from './anomalies.js';
+import { initAlertStore, listAlertRules, getAlertRule, createAlertRule, updateAlertRule, listAlerts } from './alertStore.js';
+import { initAlerts, evaluateAlerts } from './alerts.js';
+import {
+  initPromptTemplates,
+  listPromptTemplates,
+  getPromptTemplate,
+  resolvePromptTemplate,
+  validatePromptTemplate,
+  toTemplateRef,
+} from './promptTemplates.js';
+import { getProvider } from './providers/index.js';
+import { initUsageStore, createUsageMeter, summarizeUsage, recordUsage, getUsageReport } from './usage.js';
+import { readJson, writeJson } from './jsonFile.js';
+import { validateRequest, toValidationErrorResponse } from './validation.js';
+import { recordAnalysisSnapshot, listAnalysisHistory, getAnalysisSnapshot } from './analysisHistory.js';
+import { getStoredDataset, readStoredCsv, syncVenue, getSyncState } from './reviewStore.js';
+import { fetchVenueCsv, validateSource } from './connectors/index.js';
+import {
+  initVenueStore,
+  listVenues,
+  getVenueById,
+  getVenuesByConcept,
+  createVenue,
+  updateVenue,
+} from './venueStore.js';
+import {
+  initConceptStore,
+  listConcepts,
+  getConceptBySlug,
+  getConceptCategories,
+  createConcept,
+  updateConcept,
+} from './conceptStore.js';
+import { getVenueSource } from '../config/venues.js';
+import { parseReviews } from '../utils/csvParser.ts';
+import { getReviewId } from '../utils/reviewId.ts';
+import { normalizeComparisonRow, createEmptyComparisonRow } from '../utils/comparisonRow.ts';
+import { filterCsvByTime } from '../utils/csvFilter.ts';
+import { detectSuspiciousReviews, withoutReviews } from '../utils/reviewIntegrity.ts';
+import {
+  alertsQuerySchema,
+  analyzeRequestSchema,
+  anomaliesQuerySchema,
+  createAlertRuleRequestSchema,
+  createConceptRequestSchema,
+  createJobRequestSchema,
+  createVenueRequestSchema,
+  generateNarrativeRequestSchema,
+  listJobsQuerySchema,
+  listVenuesQuerySchema,
+  narrativeQuerySchema,
+  periodDiffRequestSchema,
+  promptCompareRequestSchema,
+  replyDraftRequestSchema,
+  reviewFlagsQuerySchema,
+  saveReplyDraftRequestSchema,
+  updateAlertRuleRequestSchema,
+  updateComparisonRequestSchema,
+  updateConceptRequestSchema,
+  updateVenueRequestSchema,
+  usageQuerySchema,
+} from '../schemas.ts';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const root = path.resolve(__dirname, '..');
 const dataDir = path.join(root, 'data');
 
 const comparisonDataPath = path.join(dataDir, 'comparison-data.json');
+const historyDir = path.join(dataDir, 'history');
+const reviewsDir = path.join(dataDir, 'reviews');
+const analysisCacheDir = path.join(dataDir, 'analysis-cache');
+const narrativesDir = path.join(dataDir, 'narratives');
+const periodDiffsDir = path.join(dataDir, 'period-diffs');
+const replyDraftsDir = path.join(dataDir, 'reply-drafts');
+const alertsDir = path.join(dataDir, 'alerts');
 
-const EXTERNAL_API_BASE = 'http://phulonghotels.com:8000/api/public/phulong/mena_gourmet_market/comments';
+initVenueStore(path.join(dataDir, 'venues.json'));
+initConceptStore(path.join(dataDir, 'concepts.json'));
+initPromptTemplates(path.join(root, 'prompts'));
+initUsageStore(path.join(dataDir, 'usage'));
+initAlertStore(path.join(dataDir, 'alert-rules.json'), alertsDir);
+initAlerts({
+  outboxDir: path.join(alertsDir, 'outbox'),
+  loadVenues: () => listVenues(),
+  loadCsv: (venueId) => readStoredCsv(reviewsDir, venueId),
+  loadRows: () => readJson(comparisonDataPath, []),
+});
 
 /**
- * Normalize API comment item to { author, date, content, rating, source }.
- * Supports common field names: author/reviewer/author_name, date/created_at/commented_at, content/comment/body, rating, source.
+ * Merge one ComparisonRow into comparison-data.json (latest row per venue).
+ * Previous analyses are not lost: /api/analyze also appends a snapshot to data/history/.
  */
-function normalizeComment(item) {
-  const author = item.author ?? item.reviewer ?? item.author_name ?? item.user_name ?? 'Anonymous';
-  const date = item.date ?? item.created_at ?? item.commented_at ?? item.time ?? '';
-  const content = item.content ?? item.comment ?? item.body ?? item.review ?? '';
-  let rating = item.rating ?? item.star ?? item.score ?? 0;
-  if (typeof rating === 'string') {
-    const n = parseFloat(rating.replace(/\D/g, '')) || 0;
-    rating = n;
+function mergeComparisonCache(row) {
+  if (!row || typeof row.id !== 'string') return false;
+  const current = readJson(comparisonDataPath, []);
+  const idx = current.findIndex((r) => r && r.id === row.id);
+  if (idx >= 0) {
+    current[idx] = row;
+  } else {
+    current.push(row);
   }
-  const source = item.source ?? item.platform ?? 'google';
-  return { author, date, content, rating, source };
+  return writeJson(comparisonDataPath, current);
 }
 
-/**
- * Convert array of comment objects to CSV string (header: author,date,content,rating,source).
- */
-function commentsToCsv(comments) {
-  if (!Array.isArray(comments) || comments.length === 0) {
-    return 'author,date,content,rating,source\n';
-  }
-  const header = 'author,date,content,rating,source';
-  const rows = comments.map((c) => {
-    const { author, date, content, rating, source } = normalizeComment(c);
-    const esc = (v) => {
-      if (v == null) return '';
-      const s = String(v).replace(/"/g, '""');
-      return /[,"\n\r]/.test(s) ? `"${s}"` : s;
-    };
-    return [esc(author), esc(date), esc(content), rating, esc(source)].join(',');
-  });
-  return [header, ...rows].join('\n');
+/** Keep the latest comparison row in step with a renamed or re-conceptualized venue. */
+function syncComparisonRowWithVenue(venue) {
+  const current = readJson(comparisonDataPath, []);
+  const row = current.find((r) => r && r.id === venue.id);
+  if (!row || (row.location === venue.name && row.concept === venue.concept)) return;
+  row.location = venue.name;
+  row.concept = venue.concept;
+  writeJson(comparisonDataPath, current);
 }
 
+let reviewFlagsCache = { key: null, flags: [] };
+
 /**
- * Extract comments array from API response. Handles { data: [] }, { results: [] }, { items: [] }, { comments: [] }, or direct array.
+ * Integrity flags of the stored reviews of every venue (utils/reviewIntegrity.ts), recomputed only
+ * when the stored reviews or competitor flags changed. Venues that were never synced have no reviews here.
  */
-function extractComments(body) {
-  if (Array.isArray(body)) return body;
-  if (body?.data && Array.isArray(body.data)) return body.data;
-  if (body?.results && Array.isArray(body.results)) return body.results;
-  if (body?.comments && Array.isArray(body.comments)) return body.comments;
-  if (body?.items && Array.isArray(body.items)) return body.items;
-  if (body?.list && Array.isArray(body.list)) return body.list;
-  return [];
+function getReviewFlags() {
+  const venues = listVenues({ includeArchived: true }).map((venue) => ({
+    id: venue.id,
+    competitor: venue.competitor === true,
+    csvContent: readStoredCsv(reviewsDir, venue.id) ?? '',
+  }));
+  const hash = crypto.createHash('sha1');
+  venues.forEach((venue) => hash.update(`${venue.id}|${venue.competitor}|${venue.csvContent}\0`));
+  const key = hash.digest('hex');
+  if (reviewFlagsCache.key !== key) reviewFlagsCache = { key, flags: detectSuspiciousReviews(venues) };
+  return reviewFlagsCache.flags;
+}
+
+/** Check the alert rules in the background (see server/alerts.js); the caller does not wait for delivery. */
+function checkAlerts(trigger) {
+  evaluateAlerts(trigger).catch((err) => console.error(`[Alerts] Evaluation after ${trigger} failed:`, err));
+}
+
+/** Sync one venue; alert rules are checked when new reviews arrived. */
+async function syncVenueAndCheckAlerts(venue) {
+  const result = await syncVenue(reviewsDir, venue, fetchVenueCsv);
+  if (result.added > 0) checkAlerts('sync');
+  return result;
 }
 
-function readJson(filePath, fallback = []) {
+/** Sync every active venue; failures are per venue and never reject. Alert rules are checked once, when new reviews arrived. */
+async function syncAllVenues() {
+  const results = await Promise.all(listVenues().map((venue) => syncVenue(reviewsDir, venue, fetchVenueCsv)));
+  if (results.some((r) => r.added > 0)) checkAlerts('sync');
+  return results;
+}
+
+const app = express();
+app.use(cors());
+app.use(express.json({ limit: '10mb' }));
+
+/** GET /api/concepts - All concept definitions (slug, label, title, description, icon, categories) */
+app.get('/api/concepts', (req, res) => {
   try {
-    const raw = fs.readFileSync(filePath, 'utf-8');
-    return JSON.parse(raw);
+    res.json(listConcepts());
   } catch (err) {
-    console.warn(`Could not read ${filePath}:`, err.message);
-    return fallback;
+    console.error('[API] Error in GET /api/concepts:', err);
+    res.status(500).json({ error: err.message || 'Failed to load concepts' });
   }
-}
+});
 
-function writeJson(filePath, data) {
+/** POST /api/concepts - Create a concept (body: { slug, label, title?, description?, icon?, categories? }) */
+app.post('/api/concepts', validateRequest({ body: createConceptRequestSchema }), (req, res) => {
   try {
-    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
-    return true;
+    if (getConceptBySlug(req.body.slug)) {
+      return res.status(409).json({ error: `Concept already exists: ${req.body.slug}` });
+    }
+    const concept = createConcept(req.body);
+    if (!concept) {
+      return res.status(500).json({ error: 'Failed to save concept' });
+    }
+    res.status(201).json(concept);
   } catch (err) {
-    console.error(`Could not write ${filePath}:`, err.message);
-    return false;
+    console.error('[API] Error in POST /api/concepts:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
   }
-}
+});
 
-/** Merge one ComparisonRow into comparison-data.json (cache after analyze). */
-function mergeComparisonCache(row) {
-  if (!row || typeof row.id !== 'string') return false;
-  const current = readJson(comparisonDataPath, []);
-  const idx = current.findIndex((r) => r && r.id === row.id);
-  if (idx >= 0) {
-    current[idx] = row;
-  } else {
-    current.push(row);
+/** PATCH /api/concepts/:slug - Update label, title, description, icon or categories (slug is immutable) */
+app.patch('/api/concepts/:slug', validateRequest({ body: updateConceptRequestSchema }), (req, res) => {
+  try {
+    if (!getConceptBySlug(req.params.slug)) {
+      return res.status(404).json({ error: `Concept not found: ${req.params.slug}` });
+    }
+    const concept = updateConcept(req.params.slug, req.body);
+    if (!concept) {
+      return res.status(500).json({ error: 'Failed to save concept' });
+    }
+    res.json(concept);
+  } catch (err) {
+    console.error('[API] Error in PATCH /api/concepts/:slug:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
   }
-  return writeJson(comparisonDataPath, current);
-}
+});
 
-/**
- * Fetch venue data from external API and convert to RawReviewData format
- * @param {Object} venue - Venue object with id, name, concept
- * @returns {Promise<Object>} RawReviewData with id, name, csvContent, concept
- */
-async function fetchVenueData(venue) {
+/** GET /api/venues - Active venues; ?includeArchived=1 for all */
+app.get('/api/venues', validateRequest({ query: listVenuesQuerySchema }), (req, res) => {
+  try {
+    res.json(listVenues({ includeArchived: req.query.includeArchived === '1' }));
+  } catch (err) {
+    console.error('[API] Error in GET /api/venues:', err);
+    res.status(500).json({ error: err.message || 'Failed to load venues' });
+  }
+});
+
+/** GET /api/venues/:id - One venue (archived included) */
+app.get('/api/venues/:id', (req, res) => {
+  const venue = getVenueById(req.params.id);
+  if (!venue) {
+    return res.status(404).json({ error: `Venue not found: ${req.params.id}` });
+  }
+  res.json(venue);
+});
+
+/** POST /api/venues - Create a venue (body: { id?, name, concept, competitor?, source? }); id defaults to the next numeric id */
+app.post('/api/venues', validateRequest({ body: createVenueRequestSchema }), (req, res) => {
   try {
-    const url = `${EXTERNAL_API_BASE}/${venue.id}`;
-    console.log(`[API] Fetching: ${url}`);
-    const resp = await fetch(url);
-    if (!resp.ok) {
-      console.warn(`[API] HTTP ${resp.status} for venue ${venue.id} (${venue.name})`);
-      return { id: venue.id, name: venue.name, csvContent: 'author,date,content,rating,source\n', concept: venue.concept };
+    const sourceError = req.body.source ? validateSource(req.body.source) : null;
+    if (sourceError) {
+      return res.status(400).json({ error: `Invalid source: ${sourceError}` });
+    }
+    if (!getConceptBySlug(req.body.concept)) {
+      return res.status(400).json({ error: `Unknown concept: ${req.body.concept}` });
+    }
+    if (req.body.id && getVenueById(req.body.id)) {
+      return res.status(409).json({ error: `Venue already exists: ${req.body.id}` });
+    }
+    const venue = createVenue(req.body);
+    if (!venue) {
+      return res.status(500).json({ error: 'Failed to save venue' });
     }
-    const body = await resp.json().catch(() => ({}));
-    const comments = extractComments(body);
-    const csvContent = commentsToCsv(comments);
-    return { id: venue.id, name: venue.name, csvContent, concept: venue.concept };
+    res.status(201).json(venue);
   } catch (err) {
-    console.warn(`[API] Failed to fetch comments for venue ${venue.id} (${venue.name}):`, err.message);
-    console.warn(`[API] URL was: ${EXTERNAL_API_BASE}/${venue.id}`);
-    return { id: venue.id, name: venue.name, csvContent: 'author,date,content,rating,source\n', concept: venue.concept };
+    console.error('[API] Error in POST /api/venues:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
   }
-}
+});
 
-const app = express();
-app.use(cors());
-app.use(express.json({ limit: '10mb' }));
+/** PATCH /api/venues/:id - Rename, re-concept, archive/unarchive, mark as competitor or change source (body: partial venue; source: null resets to default) */
+app.patch('/api/venues/:id', validateRequest({ body: updateVenueRequestSchema }), (req, res) => {
+  try {
+    const patch = req.body;
+    const sourceError = patch.source ? validateSource(patch.source) : null;
+    if (sourceError) {
+      return res.status(400).json({ error: `Invalid source: ${sourceError}` });
+    }
+    if (patch.concept !== undefined && !getConceptBySlug(patch.concept)) {
+      return res.status(400).json({ error: `Unknown concept: ${patch.concept}` });
+    }
+    if (!getVenueById(req.params.id)) {
+      return res.status(404).json({ error: `Venue not found: ${req.params.id}` });
+    }
+    const venue = updateVenue(req.params.id, patch);
+    if (!venue) {
+      return res.status(500).json({ error: 'Failed to save venue' });
+    }
+    syncComparisonRowWithVenue(venue);
+    res.json(venue);
+  } catch (err) {
+    console.error('[API] Error in PATCH /api/venues/:id:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
+  }
+});
 
-/** GET /api/datasets - Fetch from external API per venue in parallel, return RawReviewData[] (id, name, csvContent, concept) */
+/** GET /api/datasets - Read every active venue from the local review store, return RawReviewData[] (id, name, csvContent, concept) */
 app.get('/api/datasets', async (req, res) => {
   try {
-    const results = await Promise.all(VENUES.map(fetchVenueData));
+    const results = await Promise.all(listVenues().map((venue) => getStoredDataset(reviewsDir, venue, fetchVenueCsv)));
     res.json(results);
   } catch (err) {
     console.error('[API] Error in GET /api/datasets:', err);
@@ -138,7 +292,7 @@ app.get('/api/datasets', async (req, res) => {
   }
 });
 
-/** GET /api/datasets/:resortId - Fetch one venue's comments from external API, return RawReviewData */
+/** GET /api/datasets/:resortId - Read one venue's reviews (archived included) from the local review store, return RawReviewData */
 app.get('/api/datasets/:resortId', async (req, res) => {
   try {
     const { resortId } = req.params;
@@ -149,7 +303,7 @@ app.get('/api/datasets/:resortId', async (req, res) => {
     if (!venue) {
       return res.status(404).json({ error: `Venue not found: ${resortId}` });
     }
-    const result = await fetchVenueData(venue);
+    const result = await getStoredDataset(reviewsDir, venue, fetchVenueCsv);
     res.json(result);
   } catch (err) {
     console.error('[API] Error in GET /api/datasets/:resortId:', err);
@@ -157,35 +311,86 @@ app.get('/api/datasets/:resortId', async (req, res) => {
   }
 });
 
+/** GET /api/sync/status - Last sync time, last added count, total and last error per venue */
+app.get('/api/sync/status', (req, res) => {
+  res.json(getSyncState(reviewsDir));
+});
+
+/** POST /api/sync - Incremental sync of every venue from its source connector; returns per-venue { added, total, error? } */
+app.post('/api/sync', async (req, res) => {
+  try {
+    res.json(await syncAllVenues());
+  } catch (err) {
+    console.error('[API] Error in POST /api/sync:', err);
+    res.status(500).json({ error: err.message || 'Sync failed' });
+  }
+});
+
+/** POST /api/sync/:resortId - Incremental sync of one venue */
+app.post('/api/sync/:resortId', async (req, res) => {
+  try {
+    const venue = getVenueById(req.params.resortId);
+    if (!venue) {
+      return res.status(404).json({ error: `Venue not found: ${req.params.resortId}` });
+    }
+    res.json(await syncVenueAndCheckAlerts(venue));
+  } catch (err) {
+    console.error('[API] Error in POST /api/sync/:resortId:', err);
+    res.status(500).json({ error: err.message || 'Sync failed' });
+  }
+});
+
 /** GET /api/comparison - Initial comparison / analysis rows */
 app.get('/api/comparison', (req, res) => {
   try {
+    // Rows saved before categories were configurable are served in the current shape
     const data = readJson(comparisonDataPath, []);
-    res.json(data);
+    res.json(data.filter(Boolean).map(normalizeComparisonRow));
   } catch (err) {
     console.error('[API] Error in GET /api/comparison:', err);
     res.status(500).json({ error: err.message || 'Failed to load comparison data' });
   }
 });
 
-/** PATCH /api/comparison - Merge updates (ComparisonRow[]) by id into comparison-data.json */
-app.patch('/api/comparison', (req, res) => {
+/** GET /api/comparison/:id/history - Snapshot summaries for one venue, newest first */
+app.get('/api/comparison/:id/history', (req, res) => {
+  try {
+    res.json(listAnalysisHistory(historyDir, req.params.id));
+  } catch (err) {
+    console.error('[API] Error in GET /api/comparison/:id/history:', err);
+    res.status(500).json({ error: err.message || 'Failed to load analysis history' });
+  }
+});
+
+/** GET /api/comparison/:id/history/:snapshotId - One full snapshot (meta + ComparisonRow) */
+app.get('/api/comparison/:id/history/:snapshotId', (req, res) => {
   try {
-    const { updates } = req.body;
-    if (!Array.isArray(updates)) {
-      return res.status(400).json({ error: 'Missing or invalid updates array' });
+    const snapshot = getAnalysisSnapshot(historyDir, req.params.id, req.params.snapshotId);
+    if (!snapshot) {
+      return res.status(404).json({ error: `Snapshot not found: ${req.params.snapshotId}` });
     }
+    res.json({ ...snapshot, row: normalizeComparisonRow(snapshot.row) });
+  } catch (err) {
+    console.error('[API] Error in GET /api/comparison/:id/history/:snapshotId:', err);
+    res.status(500).json({ error: err.message || 'Failed to load snapshot' });
+  }
+});
+
+/**
+ * PATCH /api/comparison - Merge updates (ComparisonRow[]) by id into comparison-data.json.
+ * Only the latest view is replaced; analysis snapshots in data/history/ are untouched.
+ */
+app.patch('/api/comparison', validateRequest({ body: updateComparisonRequestSchema }), (req, res) => {
+  try {
     const current = readJson(comparisonDataPath, []);
-    for (const row of updates) {
-      if (!row || typeof row.id !== 'string') {
-        console.warn('[API] Skipping invalid row in comparison update:', row);
-        continue;
-      }
+    for (const row of req.body.updates) {
       const idx = current.findIndex((r) => r && r.id === row.id);
+      // fromCache only describes one /api/analyze response; it is not stored
+      const { fromCache, ...stored } = row;
       if (idx >= 0) {
-        current[idx] = row;
+        current[idx] = stored;
       } else {
-        current.push(row);
+        current.push(stored);
       }
     }
     if (!writeJson(comparisonDataPath, current)) {
@@ -203,36 +408,656 @@ app.patch('/api/datasets', (req, res) => {
   res.status(501).json({ error: 'Import is disabled when using API source.' });
 });
 
-/** POST /api/analyze - Run Gemini analysis on CSV (body: { id, name, csvContent, context?: 'table'|'item' }). Saves result to comparison-data.json for cache. */
-app.post('/api/analyze', async (req, res) => {
+/**
+ * Analyze one review set with the prompt template of its concept and context, or serve it from the
+ * analysis cache (`force: true` bypasses it). Nothing is saved to comparison-data.json or the
+ * history; cached rows come back with `fromCache: true`. A fresh analysis is metered: its tokens,
+ * latency and estimated cost are stamped on the row as `usage` and recorded in data/usage/.
+ */
+async function analyzeWithCache({ id, name, csvContent, context, categories, language, concept, force }) {
+  const promptTemplate = resolvePromptTemplate(concept, context);
+  const cacheKey = computeAnalysisKey({
+    csvContent,
+    context,
+    categories,
+    language,
+    ...getAnalysisVersion(),
+    promptTemplate: toTemplateRef(promptTemplate),
+  });
+
+  const cached = force === true ? null : getCachedAnalysis(analysisCacheDir, cacheKey);
+  if (cached) {
+    const row = { ...cached.row, id, location: name };
+    if (concept) row.concept = concept;
+    return { ...row, fromCache: true };
+  }
+
+  const meter = createUsageMeter();
+  const attribution = { kind: 'analysis', venueId: id, venueName: name, concept };
+  let result;
+  try {
+    result = await analyzeReviews(id, name, csvContent, context, categories, language, promptTemplate, meter);
+  } catch (err) {
+    // Failed runs that reached the model are recorded too: their calls were billed all the same
+    if (meter.calls > 0) recordUsage(meter, attribution);
+    throw err;
+  }
+  result.usage = summarizeUsage(meter);
+  recordUsage(meter, attribution, result.usage);
+  // Add concept from the venue store
+  if (concept) {
+    result.concept = concept;
+  }
+  putCachedAnalysis(analysisCacheDir, cacheKey, result);
+  return result;
+}
+
+/**
+ * Analyze one venue's CSV and store the result (comparison-data.json, analysis history, analysis cache).
+ * A request whose review set, context, categories, output language, provider, model and prompt version match
+ * an earlier analysis is answered from the analysis cache with `fromCache: true`; `force` bypasses the cache.
+ * `excludeFlagged` drops the venue's reviews flagged by getReviewFlags() before anything else.
+ * @param {{ id: string, name: string, csvContent: string, context: 'table'|'item', timeFilter?: string, force?: boolean, language?: 'vi'|'en'|'both', excludeFlagged?: boolean }} input
+ */
+async function analyzeVenue({ id, name, csvContent: rawCsvContent, context, timeFilter, force, language = 'vi', excludeFlagged }) {
+  const flaggedIds = excludeFlagged
+    ? new Set(getReviewFlags().filter((flag) => flag.venueId === id).map((flag) => flag.reviewId))
+    : new Set();
+  const csvContent = withoutReviews(rawCsvContent, flaggedIds);
+  const venue = getVenueById(id);
+  const categories = getConceptCategories(venue?.concept);
+  const { fromCache, ...result } = await analyzeWithCache({
+    id,
+    name,
+    csvContent,
+    context,
+    categories,
+    language,
+    concept: venue?.concept,
+    force,
+  });
+  mergeComparisonCache(result);
+  checkAlerts('analyze');
+  if (fromCache) return { ...result, fromCache };
+
+  recordAnalysisSnapshot(historyDir, result, {
+    timeFilter,
+    reviewCount: result.coverage?.reviewsAnalyzed ?? parseReviews(csvContent).length,
+    model: getModelName(),
+    context,
+  });
+  return result;
+}
+
+/**
+ * Run work that may call the model with a fresh usage meter, and record the usage when it did
+ * (stored narratives and pairings cost nothing and are not recorded).
+ * @param {{ kind: string, venueId?: string, venueName?: string, concept?: string }} attribution - See recordUsage
+ * @param {(meter: Object) => Promise<any>} run
+ */
+async function withModelUsage(attribution, run) {
+  const meter = createUsageMeter();
+  try {
+    return await run(meter);
+  } finally {
+    if (meter.calls > 0) recordUsage(meter, attribution);
+  }
+}
+
+/**
+ * POST /api/analyze - Run the analysis provider on CSV (body: { id, name, csvContent, context?: 'table'|'item', timeFilter?, force?, language?, excludeFlagged? }).
+ * `language` is the output language: 'vi' (default), 'en', or 'both' for summaries in both languages.
+ * `excludeFlagged: true` leaves out the reviews GET /api/review-flags lists for the venue.
+ * Served from the analysis cache when nothing changed (see analyzeVenue); `force: true` bypasses it.
+ * Saves result to comparison-data.json for cache and appends a snapshot to the venue's analysis history.
+ */
+app.post('/api/analyze', validateRequest({ body: analyzeRequestSchema }), async (req, res) => {
+  try {
+    res.json(await analyzeVenue(req.body));
+  } catch (err) {
+    console.error('[API] Analyze error:', err);
+    // Typed failure (quota, auth, timeout, invalid-output, upstream-source) so the UI can show the reason
+    res.status(classifyError(err).status).json(toErrorResponse(err));
+  }
+});
+
+/** Stored reviews of a venue for a server-side analysis. */
+async function loadVenueDataset(venue) {
+  // A venue that was never synced must not look like "no reviews" when its source is down
+  if (readStoredCsv(reviewsDir, venue.id) === null) {
+    const sync = await syncVenueAndCheckAlerts(venue);
+    if (sync.error) throw new AnalysisError('upstream-source', `Could not load reviews from the source: ${sync.error}`);
+  }
+  return getStoredDataset(reviewsDir, venue, fetchVenueCsv);
+}
+
+/**
+ * One venue of a group analysis job: the stored reviews are cut to the job's time filter on the
+ * server (same rules as the browser's filterCsvByTime), so the job needs nothing from the client.
+ */
+async function runGroupAnalysisItem(job, item) {
+  const venue = getVenueById(item.venueId);
+  if (!venue) throw new AnalysisError('upstream-source', `Venue not found: ${item.venueId}`);
+  const dataset = await loadVenueDataset(venue);
+  const months = job.timeFilter === 'all' ? 'all' : parseFloat(job.timeFilter);
+  const csvContent = filterCsvByTime(dataset.csvContent, months);
+  if (parseReviews(csvContent).length === 0) {
+    const emptyRow = createEmptyComparisonRow(venue.id, venue.name, venue.concept);
+    mergeComparisonCache(emptyRow);
+    return emptyRow;
+  }
+  return analyzeVenue({
+    id: venue.id,
+    name: venue.name,
+    csvContent,
+    context: 'table',
+    timeFilter: job.timeFilter,
+    force: job.force,
+    language: job.language,
+    excludeFlagged: job.excludeFlagged,
+  });
+}
+
+initJobQueue({
+  concurrency: Number(process.env.ANALYSIS_JOB_CONCURRENCY) || 2,
+  runItem: runGroupAnalysisItem,
+});
+
+/** GET /api/jobs - Analysis jobs, newest first. Query: groupId?, active=true for running jobs only. */
+app.get('/api/jobs', validateRequest({ query: listJobsQuerySchema }), (req, res) => {
+  try {
+    res.json(listJobs({ groupId: req.query.groupId, activeOnly: req.query.active === 'true' }));
+  } catch (err) {
+    console.error('[API] Error in GET /api/jobs:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/jobs - Start a group analysis (body: { groupId, venueIds, timeFilter?, force?, language?, excludeFlagged? }).
+ * Returns 202 with the job; 409 with `jobId` when the group already has a running job.
+ */
+app.post('/api/jobs', validateRequest({ body: createJobRequestSchema }), (req, res) => {
   try {
-    const { id, name, csvContent, context } = req.body;
-    if (!id || typeof id !== 'string') {
-      return res.status(400).json({ error: 'Missing or invalid id' });
+    const { groupId, venueIds, timeFilter, force, language, excludeFlagged } = req.body;
+    const venues = venueIds.map((id) => getVenueById(id));
+    const unknown = venueIds.filter((id, i) => !venues[i]);
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown venue(s): ${unknown.join(', ')}` });
     }
-    if (!name || typeof name !== 'string') {
-      return res.status(400).json({ error: 'Missing or invalid name' });
+    const running = getActiveJobForGroup(groupId);
+    if (running) {
+      return res.status(409).json({ error: `Group ${groupId} is already being analyzed`, jobId: running.id });
     }
-    if (!csvContent || typeof csvContent !== 'string') {
-      return res.status(400).json({ error: 'Missing or invalid csvContent' });
+    const job = createJob({ type: 'analyze-group', groupId, timeFilter, force, language, excludeFlagged, venues });
+    console.log(`[Jobs] Started ${job.id} for ${groupId} (${venues.length} venue(s))`);
+    res.status(202).json(job);
+  } catch (err) {
+    console.error('[API] Error in POST /api/jobs:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
+  }
+});
+
+/** GET /api/jobs/:id - One job with per-venue status. */
+app.get('/api/jobs/:id', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Job not found' });
+  res.json(job);
+});
+
+/**
+ * GET /api/jobs/:id/events - Server-Sent Events: a `progress` event with the full job on connect
+ * and after every item change, then `end` once the job is finished.
+ */
+app.get('/api/jobs/:id/events', (req, res) => {
+  const job = getJob(req.params.id);
+  if (!job) return res.status(404).json({ error: 'Job not found' });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  let unsubscribe = () => {};
+  // Comment lines keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  };
+  const send = (current) => {
+    res.write(`event: progress\ndata: ${JSON.stringify(current)}\n\n`);
+    if (current.status !== 'running') {
+      res.write('event: end\ndata: {}\n\n');
+      close();
+      res.end();
     }
-    const analysisContext = context === 'table' ? 'table' : 'item';
-    const result = await analyzeReviews(id, name, csvContent, analysisContext);
-    // Add concept from VENUES config
-    const venue = getVenueById(id);
-    if (venue?.concept) {
-      result.concept = venue.concept;
+  };
+  req.on('close', close);
+  send(job);
+  if (job.status === 'running') unsubscribe = subscribeToJob(job.id, send);
+});
+
+/**
+ * Latest analyzed row of every active venue of a concept. Venues never analyzed (no rating and
+ * no points) are left out so they do not drag the narrative down.
+ */
+function getAnalyzedConceptEntries(slug) {
+  const rows = readJson(comparisonDataPath, []).filter(Boolean).map(normalizeComparisonRow);
+  return getVenuesByConcept(slug)
+    .map((venue) => ({ venue, row: rows.find((r) => r.id === venue.id) }))
+    .filter(({ row }) => row && (row.overallRating > 0 || Object.values(row.categories).some((c) => c?.points?.length > 0)));
+}
+
+/** GET /api/narratives/:concept - Stored group narrative (?language=vi|en, default vi); 404 until one is generated. */
+app.get('/api/narratives/:concept', validateRequest({ query: narrativeQuerySchema }), (req, res) => {
+  try {
+    const narrative = getStoredNarrative(narrativesDir, req.params.concept, req.query.language);
+    if (!narrative) {
+      return res.status(404).json({ error: `No narrative yet for ${req.params.concept}` });
     }
-    mergeComparisonCache(result);
-    res.json(result);
+    res.json(narrative);
   } catch (err) {
-    console.error('[API] Analyze error:', err);
-    const errorMessage = err.message || 'Analysis failed';
-    res.status(500).json({ error: errorMessage });
+    console.error('[API] Error in GET /api/narratives/:concept:', err);
+    res.status(500).json({ error: err.message || 'Failed to load narrative' });
+  }
+});
+
+/**
+ * POST /api/narratives/:concept - Write the competitive narrative of a concept group from its latest
+ * analyzed rows (body: { language?: 'vi'|'en', force? }). The stored narrative is returned with
+ * `fromCache: true` when the rows have not changed since it was written; `force: true` regenerates it.
+ */
+app.post('/api/narratives/:concept', validateRequest({ body: generateNarrativeRequestSchema }), async (req, res) => {
+  try {
+    const concept = getConceptBySlug(req.params.concept);
+    if (!concept) {
+      return res.status(404).json({ error: `Concept not found: ${req.params.concept}` });
+    }
+    const { language, force } = req.body;
+    const entries = getAnalyzedConceptEntries(concept.slug);
+    if (entries.length < 2) {
+      return res.status(400).json({ error: 'Analyze at least two venues of this concept first' });
+    }
+    const narrative = await withModelUsage({ kind: 'narrative', concept: concept.slug }, (meter) =>
+      generateGroupNarrative({ narrativesDir, concept, entries, language, force: force === true, meter })
+    );
+    res.json(narrative);
+  } catch (err) {
+    console.error('[API] Narrative error:', err);
+    res.status(classifyError(err).status).json(toErrorResponse(err));
+  }
+});
+
+/**
+ * POST /api/period-diff - What changed between two periods of one venue
+ * (body: { venueId, mode: 'month'|'week', timeFilter?, language?: 'vi'|'en', force? }).
+ * Both periods' reviews are analyzed (through the analysis cache; `force: true` bypasses it and
+ * re-pairs the complaints), and each category lists new, resolved and persisting complaints.
+ * 'month' compares the last `timeFilter` months with the months before; 'week' the last 7 days with the 7 before.
+ */
+app.post('/api/period-diff', validateRequest({ body: periodDiffRequestSchema }), async (req, res) => {
+  try {
+    const { venueId, mode, timeFilter, language, force } = req.body;
+    const venue = getVenueById(venueId);
+    if (!venue) {
+      return res.status(404).json({ error: `Venue not found: ${venueId}` });
+    }
+
+    const dataset = await loadVenueDataset(venue);
+    const { previousCsv, currentCsv } = splitPeriods(dataset.csvContent, mode, timeFilter);
+    const previousCount = parseReviews(previousCsv).length;
+    const currentCount = parseReviews(currentCsv).length;
+    if (previousCount === 0 && currentCount === 0) {
+      return res.status(400).json({ error: 'No reviews in either period' });
+    }
+
+    const categories = getConceptCategories(venue.concept);
+    const analyzePeriod = (csvContent, reviewCount) =>
+      reviewCount === 0
+        ? null
+        : analyzeWithCache({
+            id: venue.id,
+            name: venue.name,
+            csvContent,
+            context: 'item',
+            categories,
+            language,
+            concept: venue.concept,
+            force,
+          });
+    const previousRow = await analyzePeriod(previousCsv, previousCount);
+    const currentRow = await analyzePeriod(currentCsv, currentCount);
+
+    const attribution = { kind: 'period-diff', venueId: venue.id, venueName: venue.name, concept: venue.concept };
+    const diff = await withModelUsage(attribution, (meter) =>
+      comparePeriods({
+        diffsDir: periodDiffsDir,
+        venue,
+        categories,
+        mode,
+        timeFilter,
+        language,
+        previous: { row: previousRow, reviewCount: previousCount },
+        current: { row: currentRow, reviewCount: currentCount },
+        force: force === true,
+        meter,
+      })
+    );
+    res.json(diff);
+  } catch (err) {
+    console.error('[API] Period diff error:', err);
+    res.status(classifyError(err).status).json(toErrorResponse(err));
+  }
+});
+
+/** The review of a venue with this id (see utils/reviewId.ts), from its stored reviews; null when gone. */
+async function findVenueReview(venue, reviewId) {
+  const dataset = await loadVenueDataset(venue);
+  return parseReviews(dataset.csvContent).find((review) => getReviewId(review) === reviewId) ?? null;
+}
+
+/** GET /api/reply-drafts/:venueId - Saved reply drafts of a venue. */
+app.get('/api/reply-drafts/:venueId', (req, res) => {
+  try {
+    if (!getVenueById(req.params.venueId)) {
+      return res.status(404).json({ error: `Venue not found: ${req.params.venueId}` });
+    }
+    res.json(Object.values(getReplyDrafts(replyDraftsDir, req.params.venueId)));
+  } catch (err) {
+    console.error('[API] Error in GET /api/reply-drafts/:venueId:', err);
+    res.status(500).json({ error: err.message || 'Failed to load reply drafts' });
+  }
+});
+
+/**
+ * POST /api/reply-draft - Draft an owner reply to one review (body: { venueId, reviewId, force? }),
+ * in the review's language and the brand tone of config/replyTone.js. The saved draft is returned
+ * when the review has one; `force: true` drafts a new one and replaces it.
+ */
+app.post('/api/reply-draft', validateRequest({ body: replyDraftRequestSchema }), async (req, res) => {
+  try {
+    const { venueId, reviewId, force } = req.body;
+    const venue = getVenueById(venueId);
+    if (!venue) {
+      return res.status(404).json({ error: `Venue not found: ${venueId}` });
+    }
+    const saved = getReplyDrafts(replyDraftsDir, venue.id)[reviewId];
+    if (saved && force !== true) return res.json(saved);
+
+    const review = await findVenueReview(venue, reviewId);
+    if (!review) {
+      return res.status(404).json({ error: `Review not found: ${reviewId}` });
+    }
+    const attribution = { kind: 'reply-draft', venueId: venue.id, venueName: venue.name, concept: venue.concept };
+    const draft = await withModelUsage(attribution, (meter) =>
+      generateReplyDraft({ venue, concept: getConceptBySlug(venue.concept), review, reviewId, meter })
+    );
+    res.json(saveReplyDraft(replyDraftsDir, draft));
+  } catch (err) {
+    console.error('[API] Reply draft error:', err);
+    res.status(classifyError(err).status).json(toErrorResponse(err));
+  }
+});
+
+/** PUT /api/reply-drafts/:venueId/:reviewId - Save the edited text of a reply (body: { text }). */
+app.put('/api/reply-drafts/:venueId/:reviewId', validateRequest({ body: saveReplyDraftRequestSchema }), (req, res) => {
+  try {
+    const { venueId, reviewId } = req.params;
+    const saved = getReplyDrafts(replyDraftsDir, venueId)[reviewId];
+    if (!saved) {
+      return res.status(404).json({ error: `No reply draft for review ${reviewId}` });
+    }
+    const draft = { ...saved, text: req.body.text, updatedAt: new Date().toISOString(), edited: true };
+    res.json(saveReplyDraft(replyDraftsDir, draft));
+  } catch (err) {
+    console.error('[API] Error in PUT /api/reply-drafts/:venueId/:reviewId:', err);
+    res.status(500).json({ error: err.message || 'Failed to save reply draft' });
+  }
+});
+
+/**
+ * GET /api/anomalies?concept=&venueId=&days=30 - Unusual days in the stored reviews of active venues
+ * (rating drops, volume spikes, bursts of 1★ reviews) within the last `days` days; see server/anomalies.js.
+ * Venues that were never synced are listed without anomalies rather than synced here.
+ */
+app.get('/api/anomalies', validateRequest({ query: anomaliesQuerySchema }), (req, res) => {
+  try {
+    const { concept, venueId, days } = req.query;
+    const venues = listVenues().filter(
+      (venue) => (!concept || venue.concept === concept) && (!venueId || venue.id === venueId)
+    );
+    res.json(
+      venues.map((venue) => {
+        const csvContent = readStoredCsv(reviewsDir, venue.id);
+        return {
+          venueId: venue.id,
+          name: venue.name,
+          concept: venue.concept,
+          anomalies: csvContent ? detectAnomalies(csvContent, { days }) : [],
+        };
+      })
+    );
+  } catch (err) {
+    console.error('[API] Error in GET /api/anomalies:', err);
+    res.status(500).json({ error: err.message || 'Failed to detect anomalies' });
+  }
+});
+
+/**
+ * GET /api/review-flags?venueId=&concept= - Stored reviews that look like spam or fakes (near-duplicate
+ * text across venues, bursts of first-time authors, rating vs. text mismatch, 1★ for every competitor
+ * and 5★ for us); see utils/reviewIntegrity.ts. Flags are computed over all venues, then filtered.
+ */
+app.get('/api/review-flags', validateRequest({ query: reviewFlagsQuerySchema }), (req, res) => {
+  try {
+    const { venueId, concept } = req.query;
+    res.json(
+      getReviewFlags().filter(
+        (flag) => (!venueId || flag.venueId === venueId) && (!concept || getVenueById(flag.venueId)?.concept === concept)
+      )
+    );
+  } catch (err) {
+    console.error('[API] Error in GET /api/review-flags:', err);
+    res.status(500).json({ error: err.message || 'Failed to check reviews' });
+  }
+});
+
+/** GET /api/alerts?ruleId=&venueId=&limit=100 - Fired alerts, newest first, with their delivery results */
+app.get('/api/alerts', validateRequest({ query: alertsQuerySchema }), (req, res) => {
+  try {
+    res.json(listAlerts(req.query));
+  } catch (err) {
+    console.error('[API] Error in GET /api/alerts:', err);
+    res.status(500).json({ error: err.message || 'Failed to load alerts' });
+  }
+});
+
+/** GET /api/alerts/rules - All alert rules (see config/alerts.js), enabled or not */
+app.get('/api/alerts/rules', (req, res) => {
+  try {
+    res.json(listAlertRules());
+  } catch (err) {
+    console.error('[API] Error in GET /api/alerts/rules:', err);
+    res.status(500).json({ error: err.message || 'Failed to load alert rules' });
+  }
+});
+
+/** Why a rule's venue or concept scope is invalid, or null. */
+function getAlertScopeError({ venueId, concept }) {
+  if (venueId && !getVenueById(venueId)) return `Venue not found: ${venueId}`;
+  if (concept && !getConceptBySlug(concept)) return `Unknown concept: ${concept}`;
+  return null;
+}
+
+/** POST /api/alerts/rules - Create a rule (body: a rule of type 'low-ratings', 'concept-rating' or 'keyword'; id defaults to a slug of the name) */
+app.post('/api/alerts/rules', validateRequest({ body: createAlertRuleRequestSchema }), (req, res) => {
+  try {
+    const scopeError = getAlertScopeError(req.body);
+    if (scopeError) {
+      return res.status(400).json({ error: scopeError });
+    }
+    if (req.body.id && getAlertRule(req.body.id)) {
+      return res.status(409).json({ error: `Alert rule already exists: ${req.body.id}` });
+    }
+    const rule = createAlertRule(req.body);
+    if (!rule) {
+      return res.status(500).json({ error: 'Failed to save alert rule' });
+    }
+    res.status(201).json(rule);
+  } catch (err) {
+    console.error('[API] Error in POST /api/alerts/rules:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
+  }
+});
+
+/** PATCH /api/alerts/rules/:id - Enable/disable or change a rule (body: partial rule; null clears an optional field) */
+app.patch('/api/alerts/rules/:id', validateRequest({ body: updateAlertRuleRequestSchema }), (req, res) => {
+  try {
+    const scopeError = getAlertScopeError(req.body);
+    if (scopeError) {
+      return res.status(400).json({ error: scopeError });
+    }
+    const result = updateAlertRule(req.params.id, req.body);
+    if (!result) {
+      return res.status(404).json({ error: `Alert rule not found: ${req.params.id}` });
+    }
+    if (result.error) {
+      return res.status(400).json(toValidationErrorResponse('body', result.error));
+    }
+    if (!result.rule) {
+      return res.status(500).json({ error: 'Failed to save alert rule' });
+    }
+    res.json(result.rule);
+  } catch (err) {
+    console.error('[API] Error in PATCH /api/alerts/rules/:id:', err);
+    res.status(500).json({ error: err.message || 'Internal server error' });
+  }
+});
+
+/** POST /api/alerts/evaluate - Check every enabled rule now; returns the alerts that fired (already delivered) */
+app.post('/api/alerts/evaluate', async (req, res) => {
+  try {
+    res.json(await evaluateAlerts('manual'));
+  } catch (err) {
+    console.error('[API] Error in POST /api/alerts/evaluate:', err);
+    res.status(500).json({ error: err.message || 'Failed to evaluate alert rules' });
+  }
+});
+
+/**
+ * GET /api/usage?month=YYYY-MM - Model usage of a month (default the current one): tokens, latency and
+ * estimated cost in total and by day, venue, concept and kind of run, plus the monthly budget status.
+ */
+app.get('/api/usage', validateRequest({ query: usageQuerySchema }), (req, res) => {
+  try {
+    res.json(getUsageReport(req.query.month));
+  } catch (err) {
+    console.error('[API] Error in GET /api/usage:', err);
+    res.status(500).json({ error: err.message || 'Failed to load usage' });
+  }
+});
+
+/** GET /api/admin/prompt-templates - Loaded prompt templates (id, version, concepts, contexts, candidate), without their text. */
+app.get('/api/admin/prompt-templates', (req, res) => {
+  res.json(listPromptTemplates());
+});
+
+/**
+ * POST /api/admin/prompt-compare - Re-run a venue with a candidate prompt template and return it next
+ * to the result of the template the venue uses now (body: { venueId, candidate, context?, timeFilter?, language? }).
+ * `candidate` is `{ id, version }` of a file in prompts/ or a whole template object to try without a file.
+ * The current result goes through the analysis cache; the candidate's is neither cached nor saved.
+ */
+app.post('/api/admin/prompt-compare', validateRequest({ body: promptCompareRequestSchema }), async (req, res) => {
+  try {
+    const { venueId, candidate, context, timeFilter, language } = req.body;
+    const venue = getVenueById(venueId);
+    if (!venue) {
+      return res.status(404).json({ error: `Venue not found: ${venueId}` });
+    }
+    if (!getProvider().generateJson) {
+      return res.status(400).json({ error: 'The configured analysis provider does not use prompt templates' });
+    }
+    let candidateTemplate;
+    if (Array.isArray(candidate.analysis)) {
+      const errors = validatePromptTemplate(candidate);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: `Invalid candidate template: ${errors.join('; ')}` });
+      }
+      candidateTemplate = candidate;
+    } else {
+      candidateTemplate = getPromptTemplate(candidate.id, candidate.version);
+      if (!candidateTemplate) {
+        return res.status(404).json({ error: `Prompt template not found: ${candidate.id} v${candidate.version}` });
+      }
+    }
+
+    const dataset = await loadVenueDataset(venue);
+    const csvContent = filterCsvByTime(dataset.csvContent, timeFilter === 'all' ? 'all' : parseFloat(timeFilter));
+    const reviewCount = parseReviews(csvContent).length;
+    if (reviewCount === 0) {
+      return res.status(400).json({ error: 'No reviews in this period' });
+    }
+    const categories = getConceptCategories(venue.concept);
+    const activeRow = await analyzeWithCache({
+      id: venue.id,
+      name: venue.name,
+      csvContent,
+      context,
+      categories,
+      language,
+      concept: venue.concept,
+    });
+    const attribution = { kind: 'prompt-compare', venueId: venue.id, venueName: venue.name, concept: venue.concept };
+    const candidateRow = await withModelUsage(attribution, (meter) =>
+      analyzeReviews(venue.id, venue.name, csvContent, context, categories, language, candidateTemplate, meter)
+    );
+
+    res.json({
+      venueId: venue.id,
+      name: venue.name,
+      context,
+      timeFilter,
+      language,
+      reviewCount,
+      active: activeRow,
+      candidate: candidateRow,
+      categories: categories.map(({ key, label }) => ({
+        key,
+        label,
+        active: activeRow.categories[key] ?? { points: [] },
+        candidate: candidateRow.categories[key] ?? { points: [] },
+      })),
+    });
+  } catch (err) {
+    console.error('[API] Prompt compare error:', err);
+    res.status(classifyError(err).status).json(toErrorResponse(err));
   }
 });
 
 const PORT = process.env.PORT || 3001;
 app.listen(PORT, () => {
   console.log(`Sentix API running at http://localhost:${PORT}`);
+  try {
+    const provider = getProvider();
+    console.log(`[API] Analysis provider: ${provider.name} (${provider.getModelName()})`);
+  } catch (err) {
+    console.warn(`[API] ${err.message}`);
+  }
+  for (const venue of listVenues()) {
+    const sourceError = validateSource(getVenueSource(venue));
+    if (sourceError) console.warn(`[Store] Venue ${venue.id} (${venue.name}) has an invalid source: ${sourceError}`);
+  }
 });
+
+// Background incremental sync; REVIEW_SYNC_INTERVAL_MINUTES=0 disables it
+const syncIntervalMinutes = Number(process.env.REVIEW_SYNC_INTERVAL_MINUTES ?? 60);
+if (syncIntervalMinutes > 0) {
+  setInterval(() => {
+    syncAllVenues().then((results) => {
+      const added = results.reduce((sum, r) => sum + r.added, 0);
+      console.log(`[Store] Background sync done: ${added} new review(s)`);
+    });
+  }, syncIntervalMinutes * 60 * 1000).unref();
+}
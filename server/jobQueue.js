@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { classifyError } from './analysisErrors.js';
+
+/**
+ * In-memory analysis job queue. A job is a batch of items (one per venue); items from all jobs
+ * share one worker pool of bounded size, so several submitted groups never exceed the provider's
+ * rate budget together. Jobs live in memory: a server restart drops running jobs, while the rows
+ * already analyzed stay in comparison-data.json.
+ *
+ * Job:  { id, type, groupId, timeFilter, force, status: 'running'|'done', createdAt, finishedAt?, items }
+ * Item: { venueId, name, status: 'queued'|'running'|'done'|'failed', error?, errorKind?, fromCache?, row?, startedAt?, finishedAt? }
+ */
+
+/** Finished jobs kept for GET /api/jobs; older ones are dropped. */
+const MAX_FINISHED_JOBS = 20;
+
+const jobs = new Map();
+const pending = [];
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+let concurrency = 2;
+let runItem = async () => {
+  throw new Error('Job queue not initialized');
+};
+let active = 0;
+
+/**
+ * @param {{ concurrency?: number, runItem: (job: Object, item: Object) => Promise<Object> }} options
+ *   runItem analyzes one item and resolves with its ComparisonRow (`fromCache` is copied onto the item).
+ */
+export function initJobQueue(options) {
+  concurrency = Math.max(1, Number(options.concurrency) || 2);
+  runItem = options.runItem;
+}
+
+function emit(job) {
+  events.emit(job.id, job);
+}
+
+function pruneFinishedJobs() {
+  const finished = [...jobs.values()].filter((j) => j.status !== 'running');
+  for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+    jobs.delete(job.id);
+  }
+}
+
+function completeIfFinished(job) {
+  if (job.items.every((i) => i.status === 'done' || i.status === 'failed')) {
+    job.status = 'done';
+    job.finishedAt = new Date().toISOString();
+    pruneFinishedJobs();
+  }
+}
+
+function pump() {
+  while (active < concurrency && pending.length > 0) {
+    const { job, item } = pending.shift();
+    active++;
+    item.status = 'running';
+    item.startedAt = new Date().toISOString();
+    emit(job);
+    Promise.resolve()
+      .then(() => runItem(job, item))
+      .then(
+        (row) => {
+          item.status = 'done';
+          item.fromCache = row?.fromCache === true;
+          item.row = row;
+        },
+        (err) => {
+          const classified = classifyError(err);
+          console.error(`[Jobs] ${job.id} ${item.venueId} failed (${classified.kind}):`, classified.message);
+          item.status = 'failed';
+          item.error = classified.message;
+          item.errorKind = classified.kind;
+        }
+      )
+      .finally(() => {
+        active--;
+        item.finishedAt = new Date().toISOString();
+        completeIfFinished(job);
+        emit(job);
+        pump();
+      });
+  }
+}
+
+/**
+ * Queue a new job. Items start as 'queued' and run as workers free up.
+ * @param {{ type: string, groupId: string, timeFilter: string, force?: boolean, language?: string, excludeFlagged?: boolean, venues: Array<{ id: string, name: string }> }} input
+ */
+export function createJob({ type, groupId, timeFilter, force, language, excludeFlagged, venues }) {
+  const job = {
+    id: crypto.randomUUID(),
+    type,
+    groupId,
+    timeFilter,
+    force: force === true,
+    language,
+    excludeFlagged: excludeFlagged === true,
+    status: 'running',
+    createdAt: new Date().toISOString(),
+    items: venues.map((v) => ({ venueId: v.id, name: v.name, status: 'queued' })),
+  };
+  jobs.set(job.id, job);
+  if (job.items.length === 0) completeIfFinished(job);
+  for (const item of job.items) pending.push({ job, item });
+  pump();
+  return job;
+}
+
+export function getJob(jobId) {
+  return jobs.get(jobId) ?? null;
+}
+
+/**
+ * Jobs, newest first.
+ * @param {{ groupId?: string, activeOnly?: boolean }} [filter]
+ */
+export function listJobs({ groupId, activeOnly } = {}) {
+  return [...jobs.values()]
+    .filter((j) => (!groupId || j.groupId === groupId) && (!activeOnly || j.status === 'running'))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Running job of a group, if any (one job per group at a time). */
+export function getActiveJobForGroup(groupId) {
+  return listJobs({ groupId, activeOnly: true })[0] ?? null;
+}
+
+/**
+ * Call `listener(job)` on every change of the job. Returns the unsubscribe function.
+ */
+export function subscribeToJob(jobId, listener) {
+  events.on(jobId, listener);
+  return () => events.off(jobId, listener);
+}
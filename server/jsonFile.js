@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+
+export function readJson(filePath, fallback = []) {
+  try {
+    const raw = fs.readFileSync(filePath, 'utf-8');
+    return JSON.parse(raw);
+  } catch (err) {
+    console.warn(`Could not read ${filePath}:`, err.message);
+    return fallback;
+  }
+}
+
+export function writeJson(filePath, data) {
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    return true;
+  } catch (err) {
+    console.error(`Could not write ${filePath}:`, err.message);
+    return false;
+  }
+}
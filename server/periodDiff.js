@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Type } from '@google/genai';
+import { readJson, writeJson } from './jsonFile.js';
+import { getProvider } from './providers/index.js';
+import { generateAnalysisJson } from './analyzer.js';
+import { textSimilarity } from './analysisMerge.js';
+import { filterCsvByTime, filterCsvByTimeRange, filterCsvByDaysRange } from '../utils/csvFilter.ts';
+
+/**
+ * "What changed" between two periods of one venue. Both periods are analyzed like any other review
+ * set (so they share the analysis cache); then the complaints (negative points) of each category are
+ * paired up. A pair is a persisting issue, an unpaired current complaint is new and an unpaired
+ * previous one is resolved. LLM providers pair complaints by meaning, the offline provider by wording.
+ * Model pairings are kept under data/period-diffs/, keyed by the two complaint lists.
+ */
+
+/** Bump whenever the pairing prompt or schema changes, so stored pairings are recomputed. */
+export const DIFF_PROMPT_VERSION = 'period-diff-v1';
+
+/** Word overlap from which two complaints count as the same issue when pairing by wording. */
+const WORDING_THRESHOLD = 0.5;
+
+/**
+ * Cut a dataset into the previous and current period, with the same bounds as the dashboard:
+ * 'week' = the 7 days before the last 7 days vs. the last 7 days; 'month' = the `timeFilter`
+ * months before the last `timeFilter` months vs. the last `timeFilter` months.
+ * @param {string} csvContent
+ * @param {'month'|'week'} mode
+ * @param {string} timeFilter - Months ('0.25', '1', '3', '6'); ignored for 'week'
+ */
+export function splitPeriods(csvContent, mode, timeFilter) {
+  if (mode === 'week') {
+    return { previousCsv: filterCsvByDaysRange(csvContent, 14, 7), currentCsv: filterCsvByDaysRange(csvContent, 7, 0) };
+  }
+  const months = parseFloat(timeFilter);
+  return {
+    previousCsv: filterCsvByTimeRange(csvContent, months * 2, months),
+    currentCsv: filterCsvByTime(csvContent, months),
+  };
+}
+
+function complaints(row, key) {
+  return (row?.categories?.[key]?.points ?? []).filter((p) => p.type === 'negative');
+}
+
+/** Greedy pairing by word overlap: each current complaint takes the closest unused previous one. */
+function pairByWording(previous, current) {
+  const used = new Set();
+  const pairs = [];
+  current.forEach((point, j) => {
+    let best = -1;
+    let bestScore = WORDING_THRESHOLD;
+    previous.forEach((candidate, i) => {
+      if (used.has(i)) return;
+      const score = textSimilarity(candidate.text, point.text);
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best >= 0) {
+      used.add(best);
+      pairs.push([best, j]);
+    }
+  });
+  return pairs;
+}
+
+function buildPairingSchema() {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      matches: {
+        type: Type.ARRAY,
+        description: 'Pairs of complaints (one previous, one current) that describe the same underlying issue.',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            category: { type: Type.STRING, description: 'Category key.' },
+            previous: { type: Type.INTEGER, description: 'Number of the previous-period complaint.' },
+            current: { type: Type.INTEGER, description: 'Number of the current-period complaint.' },
+          },
+          required: ['category', 'previous', 'current'],
+        },
+      },
+    },
+    required: ['matches'],
+  };
+}
+
+function buildPairingPrompt(name, lists) {
+  return `Below are the complaints found in customer reviews of "${name}" in two consecutive periods, per category, numbered from 0.
+Pair each current-period complaint with the previous-period complaint that describes the same underlying issue, even when worded differently (e.g. "long checkout queues" and "waited too long to pay").
+Use each complaint in at most one pair and leave complaints without a counterpart unpaired. Do not pair complaints from different categories.
+Output JSON per schema.
+
+Complaints:
+${JSON.stringify(lists)}`;
+}
+
+/** Model pairs that reference existing complaints, at most one pair per complaint. */
+function validatePairs(output, lists) {
+  const pairsByCategory = {};
+  const usedPrevious = new Set();
+  const usedCurrent = new Set();
+  for (const match of Array.isArray(output?.matches) ? output.matches : []) {
+    const list = lists[match?.category];
+    const i = Number(match?.previous);
+    const j = Number(match?.current);
+    if (!list || !Number.isInteger(i) || !Number.isInteger(j) || !list.previous[i] || !list.current[j]) continue;
+    if (usedPrevious.has(`${match.category}:${i}`) || usedCurrent.has(`${match.category}:${j}`)) continue;
+    usedPrevious.add(`${match.category}:${i}`);
+    usedCurrent.add(`${match.category}:${j}`);
+    (pairsByCategory[match.category] ??= []).push([i, j]);
+  }
+  return pairsByCategory;
+}
+
+/**
+ * Pairs per category from the model, stored under a key of the two complaint lists, provider,
+ * model and prompt version; `force` asks the model again.
+ */
+async function pairByModel(provider, { diffsDir, name, lists, force, meter }) {
+  const key = crypto
+    .createHash('sha256')
+    .update(JSON.stringify({ lists, provider: provider.name, model: provider.getModelName(), promptVersion: DIFF_PROMPT_VERSION }))
+    .digest('hex');
+  const file = path.join(diffsDir, `${key}.json`);
+  if (!force && fs.existsSync(file)) {
+    const stored = readJson(file, null);
+    if (stored?.pairs) return stored.pairs;
+  }
+  const output = await generateAnalysisJson(provider, { prompt: buildPairingPrompt(name, lists), schema: buildPairingSchema() }, meter);
+  const pairs = validatePairs(output, lists);
+  writeJson(file, { key, createdAt: new Date().toISOString(), pairs });
+  return pairs;
+}
+
+function toDiffPoint(point) {
+  return {
+    text: point.text,
+    ...(point.mentions ? { mentions: point.mentions } : {}),
+    ...(point.evidence?.length ? { evidence: point.evidence } : {}),
+  };
+}
+
+const byMentions = (a, b) => (b.mentions || 0) - (a.mentions || 0);
+
+function periodSummary(period) {
+  return { reviewCount: period.reviewCount, overallRating: period.row?.overallRating ?? 0 };
+}
+
+/**
+ * Diff of the complaints of two analyzed periods.
+ * @param {{ diffsDir: string, venue: { id: string, name: string }, categories: Array<{ key: string, label: string }>, mode: 'month'|'week', timeFilter?: string, language: 'vi'|'en', previous: { row: Object|null, reviewCount: number }, current: { row: Object|null, reviewCount: number }, force?: boolean, meter?: Object }} input
+ *   `row` is the period's analyzed ComparisonRow, or null when the period has no reviews. `meter` (see usage.js) counts the pairing call.
+ * @returns {Promise<Object>} PeriodDiff
+ */
+export async function comparePeriods({ diffsDir, venue, categories, mode, timeFilter, language, previous, current, force, meter }) {
+  const provider = getProvider();
+  const lists = {};
+  for (const { key } of categories) {
+    const before = complaints(previous.row, key);
+    const after = complaints(current.row, key);
+    // Only categories with complaints on both sides have anything to pair
+    if (before.length > 0 && after.length > 0) {
+      lists[key] = { previous: before.map((p) => p.text), current: after.map((p) => p.text) };
+    }
+  }
+
+  let pairs = {};
+  if (Object.keys(lists).length > 0) {
+    if (provider.generateJson) {
+      pairs = await pairByModel(provider, { diffsDir, name: venue.name, lists, force, meter });
+    } else {
+      for (const key of Object.keys(lists)) {
+        pairs[key] = pairByWording(complaints(previous.row, key), complaints(current.row, key));
+      }
+    }
+  }
+
+  return {
+    venueId: venue.id,
+    name: venue.name,
+    mode,
+    ...(mode === 'month' ? { timeFilter } : {}),
+    language,
+    generatedAt: new Date().toISOString(),
+    model: provider.getModelName(),
+    previous: periodSummary(previous),
+    current: periodSummary(current),
+    categories: categories.map(({ key, label }) => {
+      const before = complaints(previous.row, key);
+      const after = complaints(current.row, key);
+      const categoryPairs = pairs[key] ?? [];
+      const pairedPrevious = new Set(categoryPairs.map(([i]) => i));
+      const pairedCurrent = new Set(categoryPairs.map(([, j]) => j));
+      return {
+        key,
+        label,
+        new: after.filter((_, j) => !pairedCurrent.has(j)).map(toDiffPoint).sort(byMentions),
+        resolved: before.filter((_, i) => !pairedPrevious.has(i)).map(toDiffPoint).sort(byMentions),
+        persisting: categoryPairs
+          .map(([i, j]) => ({
+            ...toDiffPoint(after[j]),
+            ...(before[i].mentions ? { previousMentions: before[i].mentions } : {}),
+          }))
+          .sort(byMentions),
+      };
+    }),
+  };
+}
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import path from 'path';
+import { readJson } from './jsonFile.js';
+
+/**
+ * Versioned analysis prompt templates, one JSON file per template version under prompts/
+ * (`<id>.v<version>.json`). A template holds the analysis prompt and the merge prompt as arrays of
+ * lines with {{placeholders}}, and may be limited to some concepts and contexts ('table'/'item').
+ * Templates marked `candidate: true` are never picked for analyses; they can only be tried through
+ * POST /api/admin/prompt-compare. Files are read once at startup (initPromptTemplates).
+ */
+
+/** Placeholders a template may use, and the prompt each one is filled in for. */
+const PLACEHOLDERS = {
+  name: ['analysis', 'merge'],
+  languageName: ['analysis', 'merge'],
+  categories: ['analysis', 'merge'],
+  categoryList: ['analysis', 'merge'],
+  bilingual: ['analysis', 'merge'],
+  csv: ['analysis'],
+  partCount: ['merge'],
+  parts: ['merge'],
+};
+
+/** Placeholders without which a prompt would not carry its input. */
+const REQUIRED_PLACEHOLDERS = { analysis: 'csv', merge: 'parts' };
+
+const CONTEXTS = ['table', 'item'];
+
+let templates = [];
+
+/**
+ * Problems of a template (file content or a candidate posted to the compare endpoint); empty when valid.
+ * @returns {string[]}
+ */
+export function validatePromptTemplate(template) {
+  if (!template || typeof template !== 'object' || Array.isArray(template)) return ['template must be an object'];
+  const errors = [];
+  if (typeof template.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(template.id)) {
+    errors.push('id must be lowercase letters, digits and "-"');
+  }
+  if (!Number.isInteger(template.version) || template.version < 1) errors.push('version must be a positive integer');
+  for (const field of ['concepts', 'contexts']) {
+    const value = template[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== 'string'))) {
+      errors.push(`${field} must be an array of strings`);
+    }
+  }
+  if (Array.isArray(template.contexts) && template.contexts.some((c) => !CONTEXTS.includes(c))) {
+    errors.push(`contexts may only contain: ${CONTEXTS.join(', ')}`);
+  }
+  for (const prompt of ['analysis', 'merge']) {
+    const lines = template[prompt];
+    if (!Array.isArray(lines) || lines.length === 0 || lines.some((l) => typeof l !== 'string')) {
+      errors.push(`${prompt} must be a non-empty array of lines`);
+      continue;
+    }
+    const text = lines.join('\n');
+    for (const [, name] of text.matchAll(/\{\{(\w+)\}\}/g)) {
+      if (!PLACEHOLDERS[name]?.includes(prompt)) errors.push(`${prompt}: unknown placeholder {{${name}}}`);
+    }
+    if (!text.includes(`{{${REQUIRED_PLACEHOLDERS[prompt]}}}`)) {
+      errors.push(`${prompt} must contain {{${REQUIRED_PLACEHOLDERS[prompt]}}}`);
+    }
+  }
+  return errors;
+}
+
+/** Read every template file of a directory; invalid files are skipped with a warning. */
+export function initPromptTemplates(promptsDir) {
+  const files = fs.existsSync(promptsDir) ? fs.readdirSync(promptsDir).filter((f) => f.endsWith('.json')).sort() : [];
+  templates = [];
+  for (const file of files) {
+    const template = readJson(path.join(promptsDir, file), null);
+    const errors = validatePromptTemplate(template);
+    if (errors.length > 0) {
+      console.warn(`[Prompts] Skipping ${file}: ${errors.join('; ')}`);
+      continue;
+    }
+    if (templates.some((t) => t.id === template.id && t.version === template.version)) {
+      console.warn(`[Prompts] Skipping ${file}: ${template.id} v${template.version} is defined twice`);
+      continue;
+    }
+    templates.push({ ...template, file });
+  }
+  console.log(`[Prompts] Loaded ${templates.length} prompt templates from ${promptsDir}`);
+}
+
+/** Every loaded template without its prompt text, ordered by id and version. */
+export function listPromptTemplates() {
+  return templates
+    .map(({ analysis, merge, ...meta }) => meta)
+    .sort((a, b) => a.id.localeCompare(b.id) || a.version - b.version);
+}
+
+/** One loaded template by id and version (including candidates), or undefined. */
+export function getPromptTemplate(id, version) {
+  return templates.find((t) => t.id === id && t.version === version);
+}
+
+/**
+ * Template an analysis of this concept and context uses: among the non-candidate templates that
+ * apply, one limited to the concept beats one limited to the context, which beats a general one;
+ * the highest version wins within the same rank.
+ * @param {string|undefined} concept - Concept slug
+ * @param {'table'|'item'} context
+ */
+export function resolvePromptTemplate(concept, context) {
+  const applies = (t) =>
+    !t.candidate && (!t.concepts || t.concepts.includes(concept)) && (!t.contexts || t.contexts.includes(context));
+  const rank = (t) => (t.concepts ? 2 : 0) + (t.contexts ? 1 : 0);
+  const [best] = templates.filter(applies).sort((a, b) => rank(b) - rank(a) || b.version - a.version);
+  if (!best) throw new Error(`No prompt template applies to concept "${concept}" and context "${context}"`);
+  return best;
+}
+
+/** Prompt text of one of a template's prompts with its placeholders filled in. */
+export function renderPrompt(template, prompt, values) {
+  return template[prompt].join('\n').replace(/\{\{(\w+)\}\}/g, (match, name) => (name in values ? String(values[name]) : match));
+}
+
+/** What is stamped on rows and part of the cache key. */
+export function toTemplateRef(template) {
+  return { id: template.id, version: template.version };
+}
@@ -0,0 +1,32 @@
+import { vertexProvider } from './vertex.js';
+import { openaiCompatibleProvider } from './openaiCompatible.js';
+import { offlineProvider } from './offline.js';
+
+/**
+ * Analysis providers. A provider has { name, getModelName() } plus either:
+ * - generateJson({ prompt, schema, signal }) → { text, usage: { inputTokens, outputTokens } }, for LLMs driven by the shared prompt (see analysisPrompt.js), or
+ * - analyze(input) → ComparisonRow, for providers that build the row themselves (offline).
+ */
+export const PROVIDERS = {
+  vertex: vertexProvider,
+  openai: openaiCompatibleProvider,
+  offline: offlineProvider,
+};
+
+/**
+ * Provider selected by ANALYSIS_PROVIDER. When unset: vertex if GOOGLE_CLOUD_PROJECT is set,
+ * otherwise openai if OPENAI_BASE_URL is set, otherwise offline.
+ */
+export function getProvider() {
+  const configured = (process.env.ANALYSIS_PROVIDER || '').trim().toLowerCase();
+  if (configured) {
+    const provider = PROVIDERS[configured];
+    if (!provider) {
+      throw new Error(`Unknown ANALYSIS_PROVIDER "${configured}" (expected one of: ${Object.keys(PROVIDERS).join(', ')})`);
+    }
+    return provider;
+  }
+  if (process.env.GOOGLE_CLOUD_PROJECT) return vertexProvider;
+  if (process.env.OPENAI_BASE_URL) return openaiCompatibleProvider;
+  return offlineProvider;
+}
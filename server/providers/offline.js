@@ -0,0 +1,184 @@
+import { parseReviews } from '../../utils/csvParser.ts';
+import { foldDiacritics, normalizeForMatch } from '../../utils/textNormalize.ts';
+import { getReviewId } from '../../utils/reviewId.ts';
+import { primaryLanguage, toComparisonRow } from '../analysisPrompt.js';
+
+/**
+ * Deterministic provider that needs no model: overallRating is the mean rating and points
+ * come from keyword rules over the review text. Useful for development, demos and CI, and
+ * as a fallback when no LLM is configured. Same input always gives the same row.
+ */
+
+const MODEL_NAME = 'offline-rules-v1';
+
+/**
+ * Topics per category key, named in Vietnamese (`topic`) and English (`topicEn`). Terms are written
+ * without diacritics (see foldDiacritics). Categories without rules fall back to words from their
+ * label and guidance.
+ */
+const TOPIC_RULES = {
+  service: [
+    { topic: 'thái độ nhân viên', topicEn: 'staff attitude', terms: ['nhan vien', 'phuc vu', 'than thien', 'nhiet tinh', 'staff', 'friendly', 'service', 'rude', 'thai do'] },
+    { topic: 'tốc độ phục vụ', topicEn: 'service speed', terms: ['cho lau', 'cham', 'nhanh', 'slow', 'wait', 'waiting', 'quick'] },
+  ],
+  food: [
+    { topic: 'chất lượng món ăn', topicEn: 'food quality', terms: ['mon an', 'ngon', 'do an', 'food', 'tasty', 'delicious', 'dish', 'huong vi', 'nhat', 'man'] },
+    { topic: 'chất lượng sản phẩm', topicEn: 'product quality', terms: ['san pham', 'hang hoa', 'product', 'quality', 'chat luong'] },
+    { topic: 'đồ uống', topicEn: 'drinks', terms: ['do uong', 'nuoc', 'cafe', 'ca phe', 'tra', 'drink', 'coffee', 'cocktail'] },
+  ],
+  value: [
+    { topic: 'giá cả', topicEn: 'prices', terms: ['gia', 'dat', 're', 'price', 'expensive', 'cheap', 'worth', 'xung dang', 'hop ly'] },
+    { topic: 'khuyến mãi', topicEn: 'promotions', terms: ['khuyen mai', 'giam gia', 'uu dai', 'discount', 'promotion', 'voucher'] },
+  ],
+  atmosphere: [
+    { topic: 'không gian', topicEn: 'ambience', terms: ['khong gian', 'view', 'dep', 'atmosphere', 'ambience', 'decor', 'am cung', 'thoang'] },
+    { topic: 'vệ sinh', topicEn: 'cleanliness', terms: ['sach', 'ban', 've sinh', 'clean', 'dirty', 'toilet'] },
+    { topic: 'tiếng ồn', topicEn: 'noise', terms: ['on ao', 'yen tinh', 'noisy', 'quiet', 'loud'] },
+  ],
+  checkout: [
+    { topic: 'xếp hàng thanh toán', topicEn: 'checkout queues', terms: ['xep hang', 'thanh toan', 'quay', 'thu ngan', 'queue', 'checkout', 'cashier', 'line'] },
+  ],
+  freshness: [
+    { topic: 'độ tươi', topicEn: 'freshness', terms: ['tuoi', 'hu', 'het han', 'fresh', 'expired', 'rotten', 'stale'] },
+  ],
+};
+
+/** Generated texts per output language. */
+const TEXT = {
+  vi: {
+    praise: (topic) => `Khách khen ${topic}`,
+    complain: (topic) => `Khách phàn nàn về ${topic}`,
+    noData: (label) => `Chưa đủ nhận xét về ${label.toLowerCase()} để kết luận.`,
+    positive: (label) => `${label} được đánh giá tích cực là chủ yếu.`,
+    negative: (label) => `${label} là điểm yếu, nhiều phản hồi tiêu cực.`,
+    mixed: (label) => `${label} có phản hồi trái chiều, cần theo dõi thêm.`,
+    improve: (rating, label) => `Điểm trung bình ${rating}/5; cần cải thiện ${label.toLowerCase()}.`,
+    overall: (rating, count) => `Điểm trung bình ${rating}/5 trên ${count} đánh giá, phản hồi nhìn chung tích cực.`,
+  },
+  en: {
+    praise: (topic) => `Guests praise ${topic}`,
+    complain: (topic) => `Guests complain about ${topic}`,
+    noData: (label) => `Not enough feedback on ${label.toLowerCase()} to draw a conclusion.`,
+    positive: (label) => `${label} is rated mostly positively.`,
+    negative: (label) => `${label} is a weak spot with many negative reviews.`,
+    mixed: (label) => `${label} gets mixed feedback and needs monitoring.`,
+    improve: (rating, label) => `Average rating ${rating}/5; ${label.toLowerCase()} needs improvement.`,
+    overall: (rating, count) => `Average rating ${rating}/5 across ${count} reviews, feedback is mostly positive.`,
+  },
+};
+
+const STOP_WORDS = new Set(['and', 'the', 'of', 'for', 'with', 'va', 'cua', 'cho', 'cac', 'voi']);
+
+function rulesForCategory(category) {
+  if (TOPIC_RULES[category.key]) return TOPIC_RULES[category.key];
+  const terms = foldDiacritics(`${category.label} ${category.guidance || ''}`)
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+  const topic = category.label.toLowerCase();
+  return terms.length ? [{ topic, topicEn: topic, terms }] : [];
+}
+
+/** Whole-word match, so "re" (cheap) does not match inside "really". */
+function containsTerm(text, term) {
+  return ` ${text} `.includes(` ${term} `);
+}
+
+/** The sentence of a review that mentions one of the terms, used as the evidence quote. */
+function quoteFor(content, terms) {
+  const sentences = String(content || '').split(/(?<=[.!?\n])/).map((x) => x.trim()).filter(Boolean);
+  const sentence = sentences.find((x) => terms.some((t) => containsTerm(normalizeForMatch(x), t))) ?? sentences[0] ?? '';
+  return sentence.slice(0, 120);
+}
+
+function toPoint(text, type, rule, matched) {
+  return {
+    text,
+    type,
+    mentions: matched.length,
+    evidence: matched.slice(0, 3).map((r) => ({ reviewId: r.id, quote: quoteFor(r.content, rule.terms) })),
+  };
+}
+
+/**
+ * Points in the primary language, plus the summary in each requested language
+ * (`summaryEn` with 'both', as a model would answer; see toComparisonRow).
+ */
+function analyzeCategory(category, reviews, maxPoints, language) {
+  const primary = primaryLanguage(language);
+  const text = TEXT[primary];
+  const positive = [];
+  const negative = [];
+  for (const rule of rulesForCategory(category)) {
+    const matched = reviews.filter((r) => rule.terms.some((t) => containsTerm(r.text, t)));
+    const pos = matched.filter((r) => r.rating >= 4);
+    const neg = matched.filter((r) => r.rating > 0 && r.rating <= 2);
+    const topic = primary === 'en' ? rule.topicEn : rule.topic;
+    if (pos.length > 0) positive.push(toPoint(text.praise(topic), 'positive', rule, pos));
+    if (neg.length > 0) negative.push(toPoint(text.complain(topic), 'negative', rule, neg));
+  }
+
+  const points = [...positive, ...negative]
+    .sort((a, b) => b.mentions - a.mentions || a.text.localeCompare(b.text))
+    .slice(0, maxPoints);
+
+  const posTotal = positive.reduce((s, p) => s + p.mentions, 0);
+  const negTotal = negative.reduce((s, p) => s + p.mentions, 0);
+  let tone;
+  if (posTotal === 0 && negTotal === 0) tone = 'noData';
+  else if (posTotal >= negTotal * 2) tone = 'positive';
+  else if (negTotal >= posTotal * 2) tone = 'negative';
+  else tone = 'mixed';
+
+  return {
+    points,
+    summary: text[tone](category.label),
+    ...(language === 'both' ? { summaryEn: TEXT.en[tone](category.label) } : {}),
+  };
+}
+
+export const offlineProvider = {
+  name: 'offline',
+
+  getModelName() {
+    return MODEL_NAME;
+  },
+
+  /**
+   * Build a ComparisonRow directly from the CSV, without a prompt.
+   * @param {{ id: string, name: string, csvContent: string, context: 'table'|'item', categories: Array<{ key: string, label: string, guidance?: string }>, language?: 'vi'|'en'|'both' }} input
+   */
+  async analyze({ id, name, csvContent, context, categories, language = 'vi' }) {
+    const reviews = parseReviews(csvContent).map((r) => ({
+      id: getReviewId(r),
+      rating: r.rating,
+      content: r.content,
+      text: normalizeForMatch(r.content),
+    }));
+    const rated = reviews.filter((r) => r.rating > 0);
+    const overallRating = rated.length
+      ? Math.round((rated.reduce((s, r) => s + r.rating, 0) / rated.length) * 10) / 10
+      : 0;
+    const maxPoints = context === 'table' ? 3 : 4;
+
+    const analyses = categories.map((c) => ({ category: c, analysis: analyzeCategory(c, reviews, maxPoints, language) }));
+    const mostNegative = analyses
+      .map(({ category, analysis }) => ({ category, negatives: analysis.points.filter((p) => p.type === 'negative').length }))
+      .sort((a, b) => b.negatives - a.negatives)[0];
+
+    const takeaway = (text) => {
+      if (rated.length === 0) return '';
+      if (mostNegative && mostNegative.negatives > 0 && overallRating < 4) {
+        return text.improve(overallRating, mostNegative.category.label);
+      }
+      return text.overall(overallRating, rated.length);
+    };
+
+    const analysis = {
+      ...Object.fromEntries(analyses.map(({ category, analysis }) => [category.key, analysis])),
+      overallRating,
+      keyTakeaway: takeaway(TEXT[primaryLanguage(language)]),
+      ...(language === 'both' ? { keyTakeawayEn: takeaway(TEXT.en) } : {}),
+    };
+    return toComparisonRow(id, name, analysis, categories, language);
+  },
+};
@@ -0,0 +1,54 @@
+import { toJsonSchema } from '../analysisPrompt.js';
+import { AnalysisError } from '../analysisErrors.js';
+
+/**
+ * Any OpenAI-compatible chat completions endpoint (Ollama, LM Studio, vLLM, llama.cpp server, OpenAI).
+ * Env: OPENAI_BASE_URL (e.g. http://localhost:11434/v1), OPENAI_MODEL, OPENAI_API_KEY (optional for local servers).
+ * Uses JSON mode and puts the schema in the system message, which local servers support more widely
+ * than strict json_schema output.
+ */
+export const openaiCompatibleProvider = {
+  name: 'openai',
+
+  getModelName() {
+    return process.env.OPENAI_MODEL || 'llama3.1';
+  },
+
+  async generateJson({ prompt, schema, signal }) {
+    const baseUrl = process.env.OPENAI_BASE_URL;
+    if (!baseUrl) {
+      throw new AnalysisError('auth', 'OpenAI-compatible provider requires: OPENAI_BASE_URL');
+    }
+    const headers = { 'Content-Type': 'application/json' };
+    if (process.env.OPENAI_API_KEY) headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+
+    const resp = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: this.getModelName(),
+        temperature: 0.1,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: `Reply with one JSON object only, matching this JSON Schema:\n${JSON.stringify(toJsonSchema(schema))}`,
+          },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    });
+    if (!resp.ok) {
+      const detail = await resp.text().catch(() => '');
+      const err = new Error(`OpenAI-compatible endpoint returned HTTP ${resp.status}: ${detail.slice(0, 200)}`);
+      err.status = resp.status;
+      throw err;
+    }
+    const body = await resp.json();
+    const resultText = body?.choices?.[0]?.message?.content;
+    if (!resultText) throw new AnalysisError('invalid-output', 'No response from AI');
+    // Local servers may omit usage; the call then counts as 0 tokens
+    return { text: resultText, usage: { inputTokens: body.usage?.prompt_tokens ?? 0, outputTokens: body.usage?.completion_tokens ?? 0 } };
+  },
+};
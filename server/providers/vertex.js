@@ -0,0 +1,50 @@
+import { GoogleGenAI } from '@google/genai';
+import { AnalysisError } from '../analysisErrors.js';
+
+/**
+ * Gemini on Vertex AI. Env: GOOGLE_CLOUD_PROJECT, GOOGLE_CLOUD_LOCATION,
+ * VERTEX_AI_SERVICE_ACCOUNT_PATH (optional), VERTEX_AI_MODEL (defaults to gemini-1.5-flash).
+ */
+export const vertexProvider = {
+  name: 'vertex',
+
+  getModelName() {
+    return process.env.VERTEX_AI_MODEL || 'gemini-1.5-flash';
+  },
+
+  /**
+   * @param {{ prompt: string, schema: Object, signal?: AbortSignal }} request - schema in Gemini Type spelling
+   * @returns {Promise<{ text: string, usage: { inputTokens: number, outputTokens: number } }>} JSON text and token counts (output includes thinking tokens)
+   */
+  async generateJson({ prompt, schema, signal }) {
+    const project = process.env.GOOGLE_CLOUD_PROJECT;
+    const location = process.env.GOOGLE_CLOUD_LOCATION;
+    const serviceAccountPath = process.env.VERTEX_AI_SERVICE_ACCOUNT_PATH;
+
+    if (!project || !location) {
+      throw new AnalysisError('auth', 'Vertex AI requires: GOOGLE_CLOUD_PROJECT, GOOGLE_CLOUD_LOCATION');
+    }
+    if (serviceAccountPath && !process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+      process.env.GOOGLE_APPLICATION_CREDENTIALS = serviceAccountPath;
+    }
+
+    const ai = new GoogleGenAI({ vertexai: true, project, location });
+    const response = await ai.models.generateContent({
+      model: this.getModelName(),
+      contents: prompt,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: schema,
+        temperature: 0.1,
+        abortSignal: signal,
+      },
+    });
+
+    const resultText = response.text;
+    if (!resultText) throw new AnalysisError('invalid-output', 'No response from AI');
+    const usage = response.usageMetadata;
+    // Thinking models (gemini-2.5-*) bill their thoughts at the output rate
+    const outputTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+    return { text: resultText, usage: { inputTokens: usage?.promptTokenCount ?? 0, outputTokens } };
+  },
+};
@@ -0,0 +1,41 @@
+/**
+ * Token bucket: up to `capacity` calls at once, refilled at `refillPerMinute`. acquire() resolves
+ * when a token is available; waiters are served in order.
+ * @param {{ capacity: number, refillPerMinute: number }} options
+ */
+export function createTokenBucket({ capacity, refillPerMinute }) {
+  let tokens = capacity;
+  let last = Date.now();
+  const waiters = [];
+  let timer = null;
+
+  function refill() {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - last) / 60000) * refillPerMinute);
+    last = now;
+  }
+
+  function drain() {
+    refill();
+    while (waiters.length > 0 && tokens >= 1) {
+      tokens -= 1;
+      waiters.shift()();
+    }
+    if (waiters.length > 0 && !timer) {
+      const waitMs = Math.ceil(((1 - tokens) / refillPerMinute) * 60000);
+      timer = setTimeout(() => {
+        timer = null;
+        drain();
+      }, waitMs);
+    }
+  }
+
+  return {
+    acquire() {
+      return new Promise((resolve) => {
+        waiters.push(resolve);
+        drain();
+      });
+    },
+  };
+}
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import { Type } from '@google/genai';
+import { readJson, writeJson } from './jsonFile.js';
+import { getProvider } from './providers/index.js';
+import { generateAnalysisJson } from './analyzer.js';
+import { AnalysisError } from './analysisErrors.js';
+import { getReplyGuidelines, getReplySignature } from '../config/replyTone.js';
+import { normalizeForMatch } from '../utils/textNormalize.ts';
+
+/**
+ * Owner replies to single reviews. LLM providers draft a reply in the review's language from the
+ * venue name, its concept and the brand tone guide (config/replyTone.js); the offline provider
+ * fills a template by rating. Drafts are edited in the review list and kept per venue under
+ * data/reply-drafts/<venueId>.json, keyed by review id (see utils/reviewId.ts).
+ */
+
+/** Bump whenever the reply prompt or schema changes; recorded on every draft. */
+export const REPLY_PROMPT_VERSION = 'reply-v1';
+
+const LANGUAGE_NAMES = { vi: 'Vietnamese', en: 'English' };
+const MAX_REPLY_LENGTH = 2000;
+
+const VIETNAMESE_LETTERS = /[ăâđêôơưàáạảãầấậẩẫằắặẳẵèéẹẻẽềếệểễìíịỉĩòóọỏõồốộổỗờớợởỡùúụủũừứựửữỳýỵỷỹ]/i;
+/** Frequent Vietnamese words, for reviews typed without diacritics. */
+const VIETNAMESE_WORDS = new Set(['khong', 'rat', 'qua', 'nhan', 'vien', 'ngon', 'duoc', 'nhung', 'cua', 'hang', 'lam', 'nay']);
+
+/** 'vi' for Vietnamese text (with or without diacritics), otherwise 'en'. */
+export function detectReviewLanguage(text) {
+  if (VIETNAMESE_LETTERS.test(text || '')) return 'vi';
+  const words = normalizeForMatch(text).split(' ');
+  return words.filter((w) => VIETNAMESE_WORDS.has(w)).length >= 2 ? 'vi' : 'en';
+}
+
+function draftsPath(draftsDir, venueId) {
+  const safeId = String(venueId).replace(/[^a-zA-Z0-9-_]/g, '_');
+  return path.join(draftsDir, `${safeId}.json`);
+}
+
+/** Saved drafts of a venue, keyed by review id. */
+export function getReplyDrafts(draftsDir, venueId) {
+  const file = draftsPath(draftsDir, venueId);
+  if (!fs.existsSync(file)) return {};
+  return readJson(file, {});
+}
+
+/** Store (or replace) the draft of one review. */
+export function saveReplyDraft(draftsDir, draft) {
+  const drafts = getReplyDrafts(draftsDir, draft.venueId);
+  drafts[draft.reviewId] = draft;
+  writeJson(draftsPath(draftsDir, draft.venueId), drafts);
+  return draft;
+}
+
+function buildReplySchema() {
+  return {
+    type: Type.OBJECT,
+    properties: {
+      reply: { type: Type.STRING, description: 'The reply text, signature included.' },
+    },
+    required: ['reply'],
+  };
+}
+
+function buildReplyPrompt({ venue, concept, review, language }) {
+  return `You are the owner of "${venue.name}" (${concept?.label ?? venue.concept}) and reply publicly to a customer review.
+Write the reply in ${LANGUAGE_NAMES[language]}, the language of the review.
+Follow the tone guide:
+${getReplyGuidelines(venue.concept).map((line) => `- ${line}`).join('\n')}
+End with this signature on its own lines:
+${getReplySignature(language, venue.name)}
+Output JSON per schema.
+
+Review (${review.rating}/5 by ${review.author || 'an anonymous customer'}, ${review.date || 'undated'}):
+${review.content}`;
+}
+
+const OFFLINE_TEXT = {
+  vi: {
+    greeting: (author) => (author ? `Chào ${author},` : 'Chào quý khách,'),
+    negative: (venue) =>
+      `Cảm ơn quý khách đã chia sẻ. ${venue} thành thật xin lỗi vì trải nghiệm chưa tốt. Chúng tôi đã ghi nhận góp ý và sẽ cải thiện ngay; mong quý khách liên hệ trực tiếp để chúng tôi được hỗ trợ.`,
+    neutral: (venue) =>
+      `Cảm ơn quý khách đã ghé ${venue} và để lại nhận xét. Chúng tôi ghi nhận những điểm chưa hài lòng và sẽ cố gắng phục vụ tốt hơn trong lần tới.`,
+    positive: (venue) =>
+      `Cảm ơn quý khách đã dành lời khen cho ${venue}! Chúng tôi rất vui vì quý khách hài lòng và mong sớm được đón tiếp quý khách lần nữa.`,
+  },
+  en: {
+    greeting: (author) => (author ? `Hi ${author},` : 'Hi there,'),
+    negative: (venue) =>
+      `Thank you for your feedback. We are sorry your visit to ${venue} fell short. We have passed your comments on to the team and would like to make it right, so please get in touch with us directly.`,
+    neutral: (venue) =>
+      `Thank you for visiting ${venue} and sharing your thoughts. We have noted what could have been better and will work on it before your next visit.`,
+    positive: (venue) =>
+      `Thank you for the kind words about ${venue}! We are glad you enjoyed your visit and look forward to welcoming you back.`,
+  },
+};
+
+/** Template reply by rating, for the offline provider. */
+function offlineReply({ venue, review, language }) {
+  const text = OFFLINE_TEXT[language];
+  const tone = review.rating > 0 && review.rating <= 2 ? 'negative' : review.rating === 3 ? 'neutral' : 'positive';
+  return `${text.greeting(review.author)}\n\n${text[tone](venue.name)}\n\n${getReplySignature(language, venue.name)}`;
+}
+
+/**
+ * Draft an owner reply to one review.
+ * @param {{ venue: { id: string, name: string, concept: string }, concept?: { label: string }, review: { author: string, date: string, content: string, rating: number }, reviewId: string, meter?: Object }} input
+ *   `meter` (see usage.js) counts the model call.
+ * @returns {Promise<Object>} ReplyDraft (not stored; see saveReplyDraft)
+ */
+export async function generateReplyDraft({ venue, concept, review, reviewId, meter }) {
+  const provider = getProvider();
+  const language = detectReviewLanguage(review.content);
+  let text;
+  if (provider.generateJson) {
+    const output = await generateAnalysisJson(
+      provider,
+      { prompt: buildReplyPrompt({ venue, concept, review, language }), schema: buildReplySchema() },
+      meter
+    );
+    text = typeof output?.reply === 'string' ? output.reply.trim().slice(0, MAX_REPLY_LENGTH) : '';
+    if (!text) throw new AnalysisError('invalid-output', 'Model returned an empty reply');
+  } else {
+    text = offlineReply({ venue, review, language });
+  }
+  const now = new Date().toISOString();
+  return {
+    venueId: venue.id,
+    reviewId,
+    text,
+    language,
+    model: provider.getModelName(),
+    promptVersion: REPLY_PROMPT_VERSION,
+    generatedAt: now,
+    updatedAt: now,
+    edited: false,
+  };
+}
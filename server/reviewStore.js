@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import { readJson, writeJson } from './jsonFile.js';
+import { mergeReviewsInCsv } from '../utils/csvMerge.ts';
+import { parseReviews } from '../utils/csvParser.ts';
+
+/**
+ * Local review store: one CSV per venue under data/reviews/, grown by incremental syncs
+ * from each venue's source connector (server/connectors/). Sync merges with mergeReviewsInCsv, so stored reviews
+ * are never dropped even when they fall out of the upstream window.
+ */
+
+const EMPTY_CSV = 'author,date,content,rating,source\n';
+
+/** In-flight syncs by venue id, so concurrent requests share one upstream call. */
+const inFlight = new Map();
+
+function venueCsvPath(reviewsDir, venueId) {
+  const safeId = String(venueId).replace(/[^a-zA-Z0-9_-]/g, '_');
+  return path.join(reviewsDir, `${safeId}.csv`);
+}
+
+function syncStatePath(reviewsDir) {
+  return path.join(reviewsDir, 'sync-state.json');
+}
+
+/** Stored CSV for a venue, or null when the venue has never been synced. */
+export function readStoredCsv(reviewsDir, venueId) {
+  const filePath = venueCsvPath(reviewsDir, venueId);
+  if (!fs.existsSync(filePath)) return null;
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch (err) {
+    console.warn(`Could not read ${filePath}:`, err.message);
+    return null;
+  }
+}
+
+/** Sync state per venue: { [venueId]: { lastSyncedAt, lastAdded, total, lastError? } } */
+export function getSyncState(reviewsDir) {
+  const filePath = syncStatePath(reviewsDir);
+  return fs.existsSync(filePath) ? readJson(filePath, {}) : {};
+}
+
+function updateSyncState(reviewsDir, venueId, patch) {
+  const state = getSyncState(reviewsDir);
+  state[venueId] = { ...state[venueId], ...patch };
+  writeJson(syncStatePath(reviewsDir), state);
+}
+
+async function runSync(reviewsDir, venue, fetchUpstreamCsv) {
+  const existing = readStoredCsv(reviewsDir, venue.id) ?? '';
+  const before = parseReviews(existing).length;
+  try {
+    const fetched = await fetchUpstreamCsv(venue);
+    const merged = mergeReviewsInCsv(existing, fetched);
+    const total = parseReviews(merged).length;
+    fs.mkdirSync(reviewsDir, { recursive: true });
+    fs.writeFileSync(venueCsvPath(reviewsDir, venue.id), merged, 'utf-8');
+    const result = { venueId: venue.id, added: total - before, total, syncedAt: new Date().toISOString() };
+    updateSyncState(reviewsDir, venue.id, {
+      lastSyncedAt: result.syncedAt,
+      lastAdded: result.added,
+      total,
+      lastError: null,
+    });
+    return result;
+  } catch (err) {
+    console.warn(`[Store] Sync failed for venue ${venue.id} (${venue.name}):`, err.message);
+    updateSyncState(reviewsDir, venue.id, { lastError: err.message, lastErrorAt: new Date().toISOString() });
+    return { venueId: venue.id, added: 0, total: before, error: err.message };
+  }
+}
+
+/**
+ * Fetch a venue's comments from its source and merge only new ones into the store.
+ * Upstream failures are recorded in sync state and never touch stored reviews.
+ * @param {string} reviewsDir - data/reviews directory
+ * @param {Object} venue - Venue object with id, name, concept
+ * @param {(venue: Object) => Promise<string>} fetchUpstreamCsv - Returns canonical CSV; throws on failure
+ * @returns {Promise<{ venueId: string, added: number, total: number, syncedAt?: string, error?: string }>}
+ */
+export function syncVenue(reviewsDir, venue, fetchUpstreamCsv) {
+  const pending = inFlight.get(venue.id);
+  if (pending) return pending;
+  const promise = runSync(reviewsDir, venue, fetchUpstreamCsv).finally(() => inFlight.delete(venue.id));
+  inFlight.set(venue.id, promise);
+  return promise;
+}
+
+/**
+ * RawReviewData for a venue from the store. A venue that was never synced is synced first,
+ * so the first page load after deploy still has data.
+ */
+export async function getStoredDataset(reviewsDir, venue, fetchUpstreamCsv) {
+  let csvContent = readStoredCsv(reviewsDir, venue.id);
+  if (csvContent === null) {
+    await syncVenue(reviewsDir, venue, fetchUpstreamCsv);
+    csvContent = readStoredCsv(reviewsDir, venue.id) ?? EMPTY_CSV;
+  }
+  return { id: venue.id, name: venue.name, csvContent, concept: venue.concept };
+}
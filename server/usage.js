@@ -0,0 +1,189 @@
+import fs from 'fs';
+import path from 'path';
+import { readJson, writeJson } from './jsonFile.js';
+import { getProvider } from './providers/index.js';
+import { AnalysisError } from './analysisErrors.js';
+import { getModelPrice } from '../config/pricing.js';
+
+/**
+ * Token, latency and cost accounting. Model calls add their token counts to a usage meter; one
+ * record per analysis (or narrative, period diff, reply draft, prompt comparison) is appended to
+ * data/usage/<YYYY-MM>.json. ANALYSIS_MONTHLY_BUDGET_USD caps the estimated spend of the calendar
+ * month (UTC): once reached, model calls fail with a 'budget' AnalysisError until the month ends
+ * or the budget is raised. Cached analyses cost nothing and are still served. Runs of a model
+ * without a price have a null cost: totals that include one are unknown rather than understated,
+ * and with a budget set such a model is not called at all.
+ */
+
+let usageDir = null;
+/** Spend of the current month, kept in memory so the budget check does not read the file on every call. */
+let monthSpend = null;
+
+/** Point the store at its directory (data/usage). */
+export function initUsageStore(dir) {
+  usageDir = dir;
+  monthSpend = null;
+}
+
+function monthOf(date) {
+  return date.toISOString().slice(0, 7);
+}
+
+function readMonth(month) {
+  if (!usageDir) return [];
+  const file = path.join(usageDir, `${month}.json`);
+  return fs.existsSync(file) ? readJson(file, []) : [];
+}
+
+const roundUsd = (value) => Math.round(value * 1e6) / 1e6;
+
+/** Estimated USD cost of a number of tokens (see config/pricing.js); null when the model has no price. */
+export function estimateCost(model, inputTokens, outputTokens) {
+  if (!inputTokens && !outputTokens) return 0;
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return roundUsd((inputTokens * price.input + outputTokens * price.output) / 1e6);
+}
+
+/** Meter for one analysis; pass it to every model call the analysis makes. */
+export function createUsageMeter() {
+  const provider = getProvider();
+  return { provider: provider.name, model: provider.getModelName(), startedAt: Date.now(), calls: 0, inputTokens: 0, outputTokens: 0 };
+}
+
+/**
+ * Add one model call to a meter.
+ * @param {{ inputTokens?: number, outputTokens?: number }|undefined} usage - As reported by the provider; missing counts add 0
+ */
+export function addUsage(meter, usage) {
+  if (!meter) return;
+  meter.calls++;
+  meter.inputTokens += Number(usage?.inputTokens) || 0;
+  meter.outputTokens += Number(usage?.outputTokens) || 0;
+}
+
+/** Calls, tokens, wall-clock latency since the meter was created, and estimated cost. */
+export function summarizeUsage(meter) {
+  return {
+    calls: meter.calls,
+    inputTokens: meter.inputTokens,
+    outputTokens: meter.outputTokens,
+    latencyMs: Date.now() - meter.startedAt,
+    costUsd: estimateCost(meter.model, meter.inputTokens, meter.outputTokens),
+  };
+}
+
+/**
+ * Append the usage of one finished (or failed) run.
+ * @param {Object} meter - From createUsageMeter
+ * @param {{ kind: 'analysis'|'narrative'|'period-diff'|'reply-draft'|'prompt-compare', venueId?: string, venueName?: string, concept?: string }} attribution
+ * @param {Object} [usage] - summarizeUsage(meter) when the caller already took it, so both report the same latency
+ */
+export function recordUsage(meter, { kind, venueId, venueName, concept }, usage = summarizeUsage(meter)) {
+  if (!usageDir) return null;
+  const now = new Date();
+  const month = monthOf(now);
+  const record = {
+    at: now.toISOString(),
+    kind,
+    ...(venueId ? { venueId, venueName } : {}),
+    ...(concept ? { concept } : {}),
+    provider: meter.provider,
+    model: meter.model,
+    ...usage,
+  };
+  const records = readMonth(month);
+  records.push(record);
+  writeJson(path.join(usageDir, `${month}.json`), records);
+  if (monthSpend?.month === month) monthSpend.costUsd = roundUsd(monthSpend.costUsd + (record.costUsd || 0));
+  return record;
+}
+
+function getMonthSpend() {
+  const month = monthOf(new Date());
+  if (monthSpend?.month !== month) {
+    monthSpend = { month, costUsd: roundUsd(readMonth(month).reduce((sum, r) => sum + (r.costUsd || 0), 0)) };
+  }
+  return monthSpend.costUsd;
+}
+
+/** Monthly budget (null when unlimited) and the estimated spend of the current month. */
+export function getBudgetStatus() {
+  const budget = Number(process.env.ANALYSIS_MONTHLY_BUDGET_USD) || 0;
+  const spentUsd = getMonthSpend();
+  if (budget <= 0) return { monthlyUsd: null, spentUsd, remainingUsd: null, exceeded: false };
+  return { monthlyUsd: budget, spentUsd, remainingUsd: roundUsd(Math.max(0, budget - spentUsd)), exceeded: spentUsd >= budget };
+}
+
+/**
+ * Throw a 'budget' AnalysisError when this month's budget is used up, or when a budget is set and
+ * the configured model has no price, since its spend could not be counted against the budget.
+ */
+export function assertWithinBudget() {
+  const status = getBudgetStatus();
+  const provider = getProvider();
+  if (status.monthlyUsd !== null && provider.generateJson && !getModelPrice(provider.getModelName())) {
+    throw new AnalysisError(
+      'budget',
+      `Model "${provider.getModelName()}" has no price, so its spend cannot be checked against the monthly budget; set ANALYSIS_PRICE_INPUT_PER_1M and ANALYSIS_PRICE_OUTPUT_PER_1M (0 for a free model)`
+    );
+  }
+  if (status.exceeded) {
+    throw new AnalysisError(
+      'budget',
+      `Monthly analysis budget of $${status.monthlyUsd} reached ($${status.spentUsd.toFixed(2)} spent); new analyses are blocked until next month`
+    );
+  }
+}
+
+function emptyTotals() {
+  return { runs: 0, calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, costUsd: 0, unpricedRuns: 0 };
+}
+
+function addToTotals(totals, record) {
+  totals.runs++;
+  totals.calls += record.calls || 0;
+  totals.inputTokens += record.inputTokens || 0;
+  totals.outputTokens += record.outputTokens || 0;
+  totals.latencyMs += record.latencyMs || 0;
+  if (record.costUsd === null) totals.unpricedRuns++;
+  else totals.costUsd = roundUsd(totals.costUsd + (record.costUsd || 0));
+}
+
+/** The cost of totals with an unpriced run is unknown (null) rather than the sum of the priced ones. */
+function withUnknownCost(totals) {
+  return totals.unpricedRuns > 0 ? { ...totals, costUsd: null } : totals;
+}
+
+/** Totals per key, most expensive first; `describe` adds fields (e.g. a name) from the group's first record. */
+function groupBy(records, keyOf, describe = () => ({})) {
+  const groups = new Map();
+  for (const record of records) {
+    const key = keyOf(record);
+    if (!key) continue;
+    if (!groups.has(key)) groups.set(key, { key, ...describe(record), ...emptyTotals() });
+    addToTotals(groups.get(key), record);
+  }
+  return [...groups.values()].map(withUnknownCost);
+}
+
+/**
+ * Usage of one month: totals, and the same totals by day, venue, concept and kind of run.
+ * `latencyMs` is summed; divide by `runs` for the average. `costUsd` is null when `unpricedRuns` > 0.
+ * @param {string} [month] - YYYY-MM, default the current month
+ */
+export function getUsageReport(month = monthOf(new Date())) {
+  const records = readMonth(month);
+  const totals = emptyTotals();
+  records.forEach((r) => addToTotals(totals, r));
+  const byCost = (a, b) => (b.costUsd ?? Infinity) - (a.costUsd ?? Infinity) || b.runs - a.runs;
+  return {
+    month,
+    totals: withUnknownCost(totals),
+    byDay: groupBy(records, (r) => r.at.slice(0, 10)).sort((a, b) => a.key.localeCompare(b.key)),
+    byVenue: groupBy(records, (r) => r.venueId, (r) => ({ name: r.venueName || r.venueId })).sort(byCost),
+    byConcept: groupBy(records, (r) => r.concept).sort(byCost),
+    byKind: groupBy(records, (r) => r.kind).sort(byCost),
+    budget: month === monthOf(new Date()) ? getBudgetStatus() : null,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Request validation against the API contract (schemas.ts). An invalid request is answered with
+ * 400 `{ error, issues: [{ path, message }] }` before the route runs; a valid one continues with
+ * the parsed value (unknown fields dropped, defaults filled in) in place of req.body / req.query.
+ */
+
+/** `{ path, message }` per zod issue; `path` is dotted, e.g. "updates.0.overallRating". */
+function toValidationIssues(error) {
+  return error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+/** 400 body for an invalid request part ('body' or 'query'); `error` names the first problem. */
+export function toValidationErrorResponse(part, error) {
+  const issues = toValidationIssues(error);
+  const [first] = issues;
+  return { error: `Invalid request ${part}: ${first.path ? `${first.path}: ` : ''}${first.message}`, issues };
+}
+
+/**
+ * Express middleware validating the request body and/or query string.
+ * @param {{ body?: import('zod').ZodType, query?: import('zod').ZodType }} schemas
+ */
+export function validateRequest(schemas) {
+  return (req, res, next) => {
+    for (const part of ['body', 'query']) {
+      if (!schemas[part]) continue;
+      // A missing JSON body arrives as undefined or {}; the schema decides what is required
+      const result = schemas[part].safeParse(req[part] ?? {});
+      if (!result.success) {
+        return res.status(400).json(toValidationErrorResponse(part, result.error));
+      }
+      req[part] = result.data;
+    }
+    next();
+  };
+}
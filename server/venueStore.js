@@ -0,0 +1,91 @@
+import fs from 'fs';
+import { readJson, writeJson } from './jsonFile.js';
+import { VENUES } from '../config/venues.js';
+
+/**
+ * Persisted venue registry (data/venues.json). Seeded once from config/venues.js,
+ * then managed through /api/venues. Archived venues stay resolvable by id (history,
+ * reviews) but are left out of active listings and background sync.
+ */
+
+let venuesPath = null;
+
+/**
+ * Point the store at its file; seeds it from config/venues.js when it does not exist yet.
+ * Stores seeded before venues had a `competitor` flag get it from config/venues.js once.
+ */
+export function initVenueStore(filePath) {
+  venuesPath = filePath;
+  if (!fs.existsSync(filePath)) {
+    const now = new Date().toISOString();
+    writeJson(filePath, VENUES.map((v) => ({ competitor: false, ...v, archived: false, createdAt: now, updatedAt: now })));
+    console.log(`[Venues] Seeded ${VENUES.length} venues into ${filePath}`);
+    return;
+  }
+  const venues = readVenues();
+  if (venues.every((v) => typeof v.competitor === 'boolean')) return;
+  const seeded = new Map(VENUES.map((v) => [v.id, v]));
+  writeJson(filePath, venues.map((v) => (typeof v.competitor === 'boolean' ? v : { ...v, competitor: seeded.get(v.id)?.competitor === true })));
+  console.log('[Venues] Added competitor flags from config/venues.js');
+}
+
+function readVenues() {
+  return readJson(venuesPath, []);
+}
+
+/** All venues; archived ones only when includeArchived is set. */
+export function listVenues({ includeArchived = false } = {}) {
+  const venues = readVenues();
+  return includeArchived ? venues : venues.filter((v) => !v.archived);
+}
+
+/** Venue by id, archived or not. */
+export function getVenueById(id) {
+  return readVenues().find((v) => v.id === id);
+}
+
+/** Active venues of one concept. */
+export function getVenuesByConcept(concept) {
+  return listVenues().filter((v) => v.concept === concept);
+}
+
+function nextNumericId(venues) {
+  const max = venues.reduce((m, v) => (/^\d+$/.test(v.id) ? Math.max(m, parseInt(v.id, 10)) : m), 0);
+  return String(max + 1);
+}
+
+/** Create a venue (body validated by createVenueRequestSchema in schemas.ts). Returns null when the id is taken. */
+export function createVenue(input) {
+  const venues = readVenues();
+  const id = input.id ?? nextNumericId(venues);
+  if (venues.some((v) => v.id === id)) return null;
+  const now = new Date().toISOString();
+  const venue = {
+    id,
+    name: input.name.trim(),
+    concept: input.concept,
+    competitor: input.competitor === true,
+    archived: false,
+    ...(input.source ? { source: input.source } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+  venues.push(venue);
+  return writeJson(venuesPath, venues) ? venue : null;
+}
+
+/** Apply a partial update (name, concept, archived, competitor, source). Returns the updated venue or undefined. */
+export function updateVenue(id, patch) {
+  const venues = readVenues();
+  const idx = venues.findIndex((v) => v.id === id);
+  if (idx < 0) return undefined;
+  const next = { ...venues[idx], updatedAt: new Date().toISOString() };
+  if (patch.name !== undefined) next.name = patch.name.trim();
+  if (patch.concept !== undefined) next.concept = patch.concept;
+  if (patch.archived !== undefined) next.archived = patch.archived;
+  if (patch.competitor !== undefined) next.competitor = patch.competitor;
+  if (patch.source === null) delete next.source;
+  else if (patch.source !== undefined) next.source = patch.source;
+  venues[idx] = next;
+  return writeJson(venuesPath, venues) ? next : undefined;
+}
@@ -1,20 +1,71 @@
-import type { ComparisonRow, RawReviewData } from '../types';
+import { z } from 'zod';
+import type { Alert, AlertRule, AnalysisErrorKind, AnalysisJob, ComparisonMode, AnalysisLanguage, AnalysisSnapshot, AnalysisSnapshotSummary, ApiError, ComparisonRow, Concept, GroupNarrative, OutputLanguage, PeriodDiff, RawReviewData, ReplyDraft, ReviewFlag, TimeFilter, UsageReport, Venue, VenueAnomalies, VenueInput } from '../types';
+import {
+  alertRuleSchema,
+  alertSchema,
+  analysisJobSchema,
+  analysisSnapshotSchema,
+  analysisSnapshotSummarySchema,
+  apiErrorSchema,
+  comparisonRowSchema,
+  conceptSchema,
+  groupNarrativeSchema,
+  periodDiffSchema,
+  rawReviewDataSchema,
+  replyDraftSchema,
+  reviewFlagSchema,
+  usageReportSchema,
+  venueAnomaliesSchema,
+  venueSchema,
+} from '../schemas';
 
 const API_BASE = '/api';
 
+/** Failed /api/analyze call with the server's error classification. */
+export class AnalysisRequestError extends Error {
+  constructor(message: string, readonly kind: AnalysisErrorKind, readonly retryable: boolean) {
+    super(message);
+    this.name = 'AnalysisRequestError';
+  }
+}
+
+function formatIssue(error: z.ZodError): string {
+  const [issue] = error.issues;
+  return `${issue.path.join('.') || 'body'}: ${issue.message}`;
+}
+
+/**
+ * Body of a successful call, checked against its schema (see schemas.ts). A mismatch means the
+ * server and this client disagree on the contract, so it fails loudly instead of rendering bad data.
+ */
+async function parseResponse<T extends z.ZodType>(res: Response, schema: T): Promise<z.infer<T>> {
+  const result = schema.safeParse(await res.json());
+  if (!result.success) {
+    const path = res.url ? new URL(res.url).pathname : API_BASE;
+    throw new Error(`Unexpected response from ${path}: ${formatIssue(result.error)}`);
+  }
+  return result.data;
+}
+
+/** Error body of a failed call (`{ error, issues?, kind?, retryable?, jobId? }`); empty when the body is not one. */
+async function readApiError(res: Response): Promise<Partial<ApiError>> {
+  const result = apiErrorSchema.safeParse(await res.json().catch(() => null));
+  return result.success ? result.data : {};
+}
+
 export async function fetchDatasets(): Promise<RawReviewData[]> {
   const res = await fetch(`${API_BASE}/datasets`);
   if (!res.ok) throw new Error('Failed to load datasets');
-  return res.json();
+  return parseResponse(res, z.array(rawReviewDataSchema));
 }
 
 export async function fetchDataset(resortId: string): Promise<RawReviewData> {
   const res = await fetch(`${API_BASE}/datasets/${encodeURIComponent(resortId)}`);
   if (!res.ok) {
-    const err = await res.json().catch(() => ({}));
-    throw new Error((err as { error?: string }).error || 'Failed to load dataset');
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load dataset');
   }
-  return res.json();
+  return parseResponse(res, rawReviewDataSchema);
 }
 
 export async function updateDatasetCsv(
@@ -28,15 +79,15 @@ export async function updateDatasetCsv(
     body: JSON.stringify({ id, name, csvContent }),
   });
   if (!res.ok) {
-    const err = await res.json().catch(() => ({}));
-    throw new Error((err as { error?: string }).error || 'Failed to save');
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to save');
   }
 }
 
 export async function fetchComparison(): Promise<ComparisonRow[]> {
   const res = await fetch(`${API_BASE}/comparison`);
   if (!res.ok) throw new Error('Failed to load comparison data');
-  return res.json();
+  return parseResponse(res, z.array(comparisonRowSchema));
 }
 
 export async function saveComparisonUpdates(updates: ComparisonRow[]): Promise<void> {
@@ -46,8 +97,8 @@ export async function saveComparisonUpdates(updates: ComparisonRow[]): Promise<v
     body: JSON.stringify({ updates }),
   });
   if (!res.ok) {
-    const err = await res.json().catch(() => ({}));
-    throw new Error((err as { error?: string }).error || 'Failed to save comparison data');
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to save comparison data');
   }
 }
 
@@ -55,16 +106,340 @@ export async function analyzeWithApi(
   id: string,
   name: string,
   csvContent: string,
-  context?: 'table' | 'item'
+  context?: 'table' | 'item',
+  timeFilter?: TimeFilter,
+  force?: boolean,
+  language?: AnalysisLanguage,
+  excludeFlagged?: boolean
 ): Promise<ComparisonRow> {
   const res = await fetch(`${API_BASE}/analyze`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ id, name, csvContent, context: context ?? 'item' }),
+    body: JSON.stringify({ id, name, csvContent, context: context ?? 'item', timeFilter, force: force === true, language: language ?? 'vi', excludeFlagged: excludeFlagged === true }),
+  });
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new AnalysisRequestError(err.error || 'Analysis failed', err.kind ?? 'unknown', err.retryable === true);
+  }
+  return parseResponse(res, comparisonRowSchema);
+}
+
+export async function fetchAnalysisHistory(venueId: string): Promise<AnalysisSnapshotSummary[]> {
+  const res = await fetch(`${API_BASE}/comparison/${encodeURIComponent(venueId)}/history`);
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load analysis history');
+  }
+  return parseResponse(res, z.array(analysisSnapshotSummarySchema));
+}
+
+export async function fetchAnalysisSnapshot(venueId: string, snapshotId: string): Promise<AnalysisSnapshot> {
+  const res = await fetch(
+    `${API_BASE}/comparison/${encodeURIComponent(venueId)}/history/${encodeURIComponent(snapshotId)}`
+  );
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load snapshot');
+  }
+  return parseResponse(res, analysisSnapshotSchema);
+}
+
+export async function fetchConcepts(): Promise<Concept[]> {
+  const res = await fetch(`${API_BASE}/concepts`);
+  if (!res.ok) throw new Error('Failed to load concepts');
+  return parseResponse(res, z.array(conceptSchema));
+}
+
+export async function fetchVenues(includeArchived = false): Promise<Venue[]> {
+  const res = await fetch(`${API_BASE}/venues${includeArchived ? '?includeArchived=1' : ''}`);
+  if (!res.ok) throw new Error('Failed to load venues');
+  return parseResponse(res, z.array(venueSchema));
+}
+
+export async function createVenue(input: VenueInput): Promise<Venue> {
+  const res = await fetch(`${API_BASE}/venues`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to create venue');
+  }
+  return parseResponse(res, venueSchema);
+}
+
+export async function updateVenue(id: string, patch: VenueInput): Promise<Venue> {
+  const res = await fetch(`${API_BASE}/venues/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(patch),
+  });
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to update venue');
+  }
+  return parseResponse(res, venueSchema);
+}
+
+/**
+ * Start a server-side analysis of a venue group. When the group already has a running job,
+ * that job is returned instead, so callers simply attach to it.
+ */
+export async function createAnalysisJob(
+  groupId: string,
+  venueIds: string[],
+  timeFilter: TimeFilter,
+  force?: boolean,
+  language?: AnalysisLanguage,
+  excludeFlagged?: boolean
+): Promise<AnalysisJob> {
+  const res = await fetch(`${API_BASE}/jobs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ groupId, venueIds, timeFilter, force: force === true, language: language ?? 'vi', excludeFlagged: excludeFlagged === true }),
+  });
+  if (res.status === 409) {
+    const { jobId, error } = await readApiError(res);
+    if (!jobId) throw new Error(error || 'Failed to start analysis');
+    return fetchAnalysisJob(jobId);
+  }
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to start analysis');
+  }
+  return parseResponse(res, analysisJobSchema);
+}
+
+export async function fetchAnalysisJob(jobId: string): Promise<AnalysisJob> {
+  const res = await fetch(`${API_BASE}/jobs/${encodeURIComponent(jobId)}`);
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load analysis job');
+  }
+  return parseResponse(res, analysisJobSchema);
+}
+
+/** Analysis jobs, newest first; `activeOnly` limits to running jobs (used to reattach after a reload). */
+export async function fetchAnalysisJobs(activeOnly = false): Promise<AnalysisJob[]> {
+  const res = await fetch(`${API_BASE}/jobs${activeOnly ? '?active=true' : ''}`);
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load analysis jobs');
+  }
+  return parseResponse(res, z.array(analysisJobSchema));
+}
+
+/**
+ * Follow a job's progress over Server-Sent Events. `onProgress` receives the full job on connect
+ * and after every change; `onClosed` runs once the job has finished or the server no longer knows
+ * it. Returns a function that closes the stream.
+ */
+export function subscribeToAnalysisJob(
+  jobId: string,
+  onProgress: (job: AnalysisJob) => void,
+  onClosed?: () => void
+): () => void {
+  let source: EventSource;
+  let stopped = false;
+  const finish = () => {
+    stopped = true;
+    source.close();
+    onClosed?.();
+  };
+  // The browser gave up on the stream (e.g. the server restarted and answers 404): ask for the job
+  // once, then follow it again while it still runs
+  const recover = () => {
+    fetchAnalysisJob(jobId).then(
+      (job) => {
+        if (stopped) return;
+        onProgress(job);
+        if (job.status === 'running') connect();
+        else finish();
+      },
+      () => { if (!stopped) finish(); }
+    );
+  };
+  const connect = () => {
+    source = new EventSource(`${API_BASE}/jobs/${encodeURIComponent(jobId)}/events`);
+    source.addEventListener('progress', (e) => {
+      const job = analysisJobSchema.safeParse(JSON.parse((e as MessageEvent).data));
+      if (job.success) onProgress(job.data);
+      else console.error(`[API] Unexpected job progress event: ${formatIssue(job.error)}`);
+    });
+    source.addEventListener('end', finish);
+    // While CONNECTING the browser reconnects by itself and the server resends the full job on connect
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED && !stopped) recover();
+    };
+  };
+  connect();
+  return () => {
+    stopped = true;
+    source.close();
+  };
+}
+
+/** Stored narrative of a concept group, or null when none has been generated yet. */
+export async function fetchGroupNarrative(concept: string, language: OutputLanguage): Promise<GroupNarrative | null> {
+  const res = await fetch(`${API_BASE}/narratives/${encodeURIComponent(concept)}?language=${language}`);
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load narrative');
+  }
+  return parseResponse(res, groupNarrativeSchema);
+}
+
+/** Write (or reuse, unless `force`) the competitive narrative of a concept group from its latest analyses. */
+export async function generateGroupNarrative(concept: string, language: OutputLanguage, force = false): Promise<GroupNarrative> {
+  const res = await fetch(`${API_BASE}/narratives/${encodeURIComponent(concept)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ language, force }),
+  });
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new AnalysisRequestError(err.error || 'Narrative generation failed', err.kind ?? 'unknown', err.retryable === true);
+  }
+  return parseResponse(res, groupNarrativeSchema);
+}
+
+/** New, resolved and persisting complaints per category between two periods of a venue (analyzes both periods). */
+export async function fetchPeriodDiff(
+  venueId: string,
+  mode: ComparisonMode,
+  timeFilter: TimeFilter,
+  language: OutputLanguage,
+  force = false
+): Promise<PeriodDiff> {
+  const res = await fetch(`${API_BASE}/period-diff`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ venueId, mode, timeFilter, language, force }),
+  });
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new AnalysisRequestError(err.error || 'Period comparison failed', err.kind ?? 'unknown', err.retryable === true);
+  }
+  return parseResponse(res, periodDiffSchema);
+}
+
+/** Saved owner reply drafts of a venue. */
+export async function fetchReplyDrafts(venueId: string): Promise<ReplyDraft[]> {
+  const res = await fetch(`${API_BASE}/reply-drafts/${encodeURIComponent(venueId)}`);
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load reply drafts');
+  }
+  return parseResponse(res, z.array(replyDraftSchema));
+}
+
+/** Draft an owner reply to one review; returns the saved draft unless `force` asks for a new one. */
+export async function generateReplyDraft(venueId: string, reviewId: string, force = false): Promise<ReplyDraft> {
+  const res = await fetch(`${API_BASE}/reply-draft`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ venueId, reviewId, force }),
+  });
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new AnalysisRequestError(err.error || 'Reply drafting failed', err.kind ?? 'unknown', err.retryable === true);
+  }
+  return parseResponse(res, replyDraftSchema);
+}
+
+export async function saveReplyDraft(venueId: string, reviewId: string, text: string): Promise<ReplyDraft> {
+  const res = await fetch(`${API_BASE}/reply-drafts/${encodeURIComponent(venueId)}/${encodeURIComponent(reviewId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text }),
+  });
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to save reply draft');
+  }
+  return parseResponse(res, replyDraftSchema);
+}
+
+/** Anomalies of the active venues (optionally of one concept) in the last `days` days (default 30). */
+export async function fetchAnomalies(concept?: string, days?: number): Promise<VenueAnomalies[]> {
+  const params = new URLSearchParams();
+  if (concept) params.set('concept', concept);
+  if (days) params.set('days', String(days));
+  const query = params.toString() ? `?${params}` : '';
+  const res = await fetch(`${API_BASE}/anomalies${query}`);
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load anomalies');
+  }
+  return parseResponse(res, z.array(venueAnomaliesSchema));
+}
+
+/** Integrity flags of stored reviews (GET /api/review-flags), of one venue or concept or of all venues. */
+export async function fetchReviewFlags(venueId?: string, concept?: string): Promise<ReviewFlag[]> {
+  const params = new URLSearchParams();
+  if (venueId) params.set('venueId', venueId);
+  if (concept) params.set('concept', concept);
+  const query = params.toString() ? `?${params}` : '';
+  const res = await fetch(`${API_BASE}/review-flags${query}`);
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load review flags');
+  }
+  return parseResponse(res, z.array(reviewFlagSchema));
+}
+
+/** Fired alerts, newest first (GET /api/alerts). */
+export async function fetchAlerts(limit?: number): Promise<Alert[]> {
+  const query = limit ? `?limit=${limit}` : '';
+  const res = await fetch(`${API_BASE}/alerts${query}`);
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load alerts');
+  }
+  return parseResponse(res, z.array(alertSchema));
+}
+
+export async function fetchAlertRules(): Promise<AlertRule[]> {
+  const res = await fetch(`${API_BASE}/alerts/rules`);
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load alert rules');
+  }
+  return parseResponse(res, z.array(alertRuleSchema));
+}
+
+export async function setAlertRuleEnabled(id: string, enabled: boolean): Promise<AlertRule> {
+  const res = await fetch(`${API_BASE}/alerts/rules/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ enabled }),
   });
   if (!res.ok) {
-    const err = await res.json().catch(() => ({}));
-    throw new Error((err as { error?: string }).error || 'Analysis failed');
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to update alert rule');
+  }
+  return parseResponse(res, alertRuleSchema);
+}
+
+/** Check every enabled rule now; returns the alerts that fired. */
+export async function evaluateAlertRules(): Promise<Alert[]> {
+  const res = await fetch(`${API_BASE}/alerts/evaluate`, { method: 'POST' });
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to evaluate alert rules');
+  }
+  return parseResponse(res, z.array(alertSchema));
+}
+
+/** Model usage and estimated cost of a month (YYYY-MM; default the current one), with the budget status. */
+export async function fetchUsage(month?: string): Promise<UsageReport> {
+  const query = month ? `?month=${encodeURIComponent(month)}` : '';
+  const res = await fetch(`${API_BASE}/usage${query}`);
+  if (!res.ok) {
+    const err = await readApiError(res);
+    throw new Error(err.error || 'Failed to load usage');
   }
-  return res.json();
+  return parseResponse(res, usageReportSchema);
 }
@@ -0,0 +1,35 @@
+import type { Concept } from '../types';
+import { fetchConcepts } from './api';
+
+/**
+ * Client-side view of the concept store (/api/concepts).
+ * Call loadConcepts() before resolving; the lookups are synchronous afterwards.
+ */
+
+let concepts: Concept[] = [];
+let loading: Promise<Concept[]> | null = null;
+
+/** Load concepts once; pass force to refresh. */
+export function loadConcepts(force = false): Promise<Concept[]> {
+  if (!loading || force) {
+    loading = fetchConcepts().then(
+      (list) => {
+        concepts = list;
+        return list;
+      },
+      (err) => {
+        loading = null;
+        throw err;
+      }
+    );
+  }
+  return loading;
+}
+
+export function listConcepts(): Concept[] {
+  return concepts;
+}
+
+export function getConceptBySlug(slug: string): Concept | undefined {
+  return concepts.find((c) => c.slug === slug);
+}
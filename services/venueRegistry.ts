@@ -0,0 +1,40 @@
+import type { Venue } from '../types';
+import { fetchVenues } from './api';
+
+/**
+ * Client-side view of the venue store (/api/venues), shared by hooks and pages.
+ * Call loadVenues() before resolving; the lookups are synchronous afterwards.
+ */
+
+let venues: Venue[] = [];
+let loading: Promise<Venue[]> | null = null;
+
+/** Load all venues (archived included) once; pass force after edits to refresh. */
+export function loadVenues(force = false): Promise<Venue[]> {
+  if (!loading || force) {
+    loading = fetchVenues(true).then(
+      (list) => {
+        venues = list;
+        return list;
+      },
+      (err) => {
+        loading = null;
+        throw err;
+      }
+    );
+  }
+  return loading;
+}
+
+export function getVenueById(id: string): Venue | undefined {
+  return venues.find((v) => v.id === id);
+}
+
+/** Active (non-archived) venues of one concept. */
+export function getVenuesByConcept(concept: string): Venue[] {
+  return venues.filter((v) => v.concept === concept && !v.archived);
+}
+
+export function isArchivedVenue(id: string): boolean {
+  return getVenueById(id)?.archived === true;
+}
@@ -1,36 +1,84 @@
+import type { z } from 'zod';
+import type {
+  alertDeliverySchema,
+  alertReviewSchema,
+  alertRuleSchema,
+  alertRuleTypeSchema,
+  alertSchema,
+  alertTriggerSchema,
+  analysisContextSchema,
+  anomalyKindSchema,
+  anomalySchema,
+  analysisCoverageSchema,
+  analysisErrorKindSchema,
+  analysisJobItemSchema,
+  analysisJobSchema,
+  analysisLanguageSchema,
+  analysisSnapshotSchema,
+  analysisSnapshotSummarySchema,
+  analysisUsageSchema,
+  apiErrorSchema,
+  categoryAnalysisSchema,
+  categoryDefinitionSchema,
+  comparisonModeSchema,
+  comparisonRowSchema,
+  conceptSchema,
+  groupNarrativeSchema,
+  integritySignalSchema,
+  jobItemStatusSchema,
+  narrativeGapSchema,
+  narrativeLeaderSchema,
+  narrativeRankingEntrySchema,
+  outputLanguageSchema,
+  periodDiffCategorySchema,
+  periodDiffPointSchema,
+  periodDiffSchema,
+  pointEvidenceSchema,
+  promptTemplateRefSchema,
+  rawReviewDataSchema,
+  replyDraftSchema,
+  reviewFlagSchema,
+  sentimentPointSchema,
+  timeFilterSchema,
+  usageBudgetSchema,
+  usageGroupSchema,
+  usageReportSchema,
+  usageTotalsSchema,
+  validationIssueSchema,
+  venueAnomaliesSchema,
+  venueInputSchema,
+  venueSchema,
+  venueSourceSchema,
+} from './schemas';
 
-export interface SentimentPoint {
-  text: string;
-  type: 'positive' | 'negative';
-}
+// Everything that crosses /api/* is defined once, as a schema in schemas.ts; see the schemas for field docs.
 
-export interface CategoryAnalysis {
-  points: SentimentPoint[];
-  /** Short AI-generated summary in Vietnamese (one sentence). */
-  summary?: string;
-}
+export type SentimentPoint = z.infer<typeof sentimentPointSchema>;
+export type PointEvidence = z.infer<typeof pointEvidenceSchema>;
+export type OutputLanguage = z.infer<typeof outputLanguageSchema>;
+export type AnalysisLanguage = z.infer<typeof analysisLanguageSchema>;
+export type CategoryAnalysis = z.infer<typeof categoryAnalysisSchema>;
+export type ComparisonRow = z.infer<typeof comparisonRowSchema>;
+export type AnalysisUsage = z.infer<typeof analysisUsageSchema>;
+export type PromptTemplateRef = z.infer<typeof promptTemplateRefSchema>;
+export type AnalysisCoverage = z.infer<typeof analysisCoverageSchema>;
+export type AnalysisContext = z.infer<typeof analysisContextSchema>;
 
-export interface ComparisonRow {
-  id: string;
-  location: string;
-  /** Optional one-sentence overall strength or weakness for this location (max ~20 words). */
-  keyTakeaway?: string;
-  /** Concept type: 'supermarket', 'retail', or 'dining' */
-  concept?: string;
-  service: CategoryAnalysis;
-  food: CategoryAnalysis;
-  value: CategoryAnalysis;
-  atmosphere: CategoryAnalysis;
-  overallRating: number;
-}
+/** Rows saved before categories were configurable carry the four fixed fields instead of `categories`. */
+export type LegacyComparisonRow = Omit<ComparisonRow, 'categories'> & {
+  categories?: Record<string, CategoryAnalysis>;
+  service?: CategoryAnalysis;
+  food?: CategoryAnalysis;
+  value?: CategoryAnalysis;
+  atmosphere?: CategoryAnalysis;
+};
 
-export interface RawReviewData {
-  id: string;
-  name: string;
-  csvContent: string;
-  /** Concept type: 'supermarket', 'retail', or 'dining' */
-  concept?: string;
-}
+export type CategoryDefinition = z.infer<typeof categoryDefinitionSchema>;
+export type Concept = z.infer<typeof conceptSchema>;
+export type RawReviewData = z.infer<typeof rawReviewDataSchema>;
+export type VenueSource = z.infer<typeof venueSourceSchema>;
+export type Venue = z.infer<typeof venueSchema>;
+export type VenueInput = z.input<typeof venueInputSchema>;
 
 export interface Review {
   author: string;
@@ -40,4 +88,71 @@ export interface Review {
   source: string;
 }
 
-export type TimeFilter = 'all' | '0.25' | '1' | '3' | '6';
+/** A keyword or two-word phrase of reviews (see utils/textAnalytics.ts). */
+export interface TopicTerm {
+  /** Folded form ("nhan vien"), the key reviews are matched by. */
+  term: string;
+  /** Most common spelling ("nhân viên"). */
+  label: string;
+  reviewCount: number;
+  score: number;
+}
+
+/** Terms typical of positive (4-5★) and of negative (1-2★) reviews. */
+export interface ReviewTopics {
+  positive: TopicTerm[];
+  negative: TopicTerm[];
+  positiveReviews: number;
+  negativeReviews: number;
+}
+
+export type TimeFilter = z.infer<typeof timeFilterSchema>;
+export type ComparisonMode = z.infer<typeof comparisonModeSchema>;
+
+export type AnalysisSnapshotSummary = z.infer<typeof analysisSnapshotSummarySchema>;
+export type AnalysisSnapshot = z.infer<typeof analysisSnapshotSchema>;
+
+export type JobItemStatus = z.infer<typeof jobItemStatusSchema>;
+export type AnalysisErrorKind = z.infer<typeof analysisErrorKindSchema>;
+
+/** Last analysis failure of a venue, shown on its row instead of a blank result. */
+export interface AnalysisFailure {
+  kind: AnalysisErrorKind;
+  message: string;
+}
+
+export type AnalysisJobItem = z.infer<typeof analysisJobItemSchema>;
+export type AnalysisJob = z.infer<typeof analysisJobSchema>;
+
+export type NarrativeRankingEntry = z.infer<typeof narrativeRankingEntrySchema>;
+export type NarrativeLeader = z.infer<typeof narrativeLeaderSchema>;
+export type NarrativeGap = z.infer<typeof narrativeGapSchema>;
+export type GroupNarrative = z.infer<typeof groupNarrativeSchema>;
+
+export type PeriodDiffPoint = z.infer<typeof periodDiffPointSchema>;
+export type PeriodDiffCategory = z.infer<typeof periodDiffCategorySchema>;
+export type PeriodDiff = z.infer<typeof periodDiffSchema>;
+
+export type ReplyDraft = z.infer<typeof replyDraftSchema>;
+
+export type AnomalyKind = z.infer<typeof anomalyKindSchema>;
+export type Anomaly = z.infer<typeof anomalySchema>;
+export type VenueAnomalies = z.infer<typeof venueAnomaliesSchema>;
+
+export type IntegritySignal = z.infer<typeof integritySignalSchema>;
+export type ReviewFlag = z.infer<typeof reviewFlagSchema>;
+
+export type AlertRuleType = z.infer<typeof alertRuleTypeSchema>;
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+export type AlertTrigger = z.infer<typeof alertTriggerSchema>;
+export type AlertDelivery = z.infer<typeof alertDeliverySchema>;
+export type AlertReview = z.infer<typeof alertReviewSchema>;
+export type Alert = z.infer<typeof alertSchema>;
+
+export type UsageTotals = z.infer<typeof usageTotalsSchema>;
+export type UsageGroup = z.infer<typeof usageGroupSchema>;
+export type UsageBudget = z.infer<typeof usageBudgetSchema>;
+export type UsageReport = z.infer<typeof usageReportSchema>;
+
+export type ValidationIssue = z.infer<typeof validationIssueSchema>;
+export type ApiError = z.infer<typeof apiErrorSchema>;
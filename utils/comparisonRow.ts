@@ -1,4 +1,9 @@
-import { ComparisonRow } from '../types';
+import { CategoryAnalysis, ComparisonRow, LegacyComparisonRow, OutputLanguage, PointEvidence } from '../types';
+
+/** Category keys of rows saved before categories were configurable. */
+const LEGACY_CATEGORY_KEYS = ['service', 'food', 'value', 'atmosphere'] as const;
+
+const EMPTY_CATEGORY: CategoryAnalysis = { points: [] };
 
 /**
  * Creates an empty ComparisonRow for a given id and location.
@@ -9,10 +14,48 @@ export function createEmptyComparisonRow(id: string, location: string, concept?:
     id,
     location,
     concept,
-    service: { points: [] },
-    food: { points: [] },
-    value: { points: [] },
-    atmosphere: { points: [] },
+    categories: {},
     overallRating: 0,
   };
 }
+
+/**
+ * Brings a stored row to the current shape: legacy top-level service/food/value/atmosphere
+ * fields move into `categories`. Rows already in the current shape are returned as-is.
+ */
+export function normalizeComparisonRow(row: LegacyComparisonRow): ComparisonRow {
+  if (row.categories) return row as ComparisonRow;
+  const { service, food, value, atmosphere, ...rest } = row;
+  const legacy = { service, food, value, atmosphere };
+  const categories: Record<string, CategoryAnalysis> = {};
+  for (const key of LEGACY_CATEGORY_KEYS) {
+    if (legacy[key]) categories[key] = legacy[key]!;
+  }
+  return { ...rest, categories };
+}
+
+/** Analysis for one category; an empty analysis when the row has none for that key. */
+export function getCategory(row: ComparisonRow, key: string): CategoryAnalysis {
+  return row.categories?.[key] ?? EMPTY_CATEGORY;
+}
+
+/**
+ * Category summary in the requested language. Rows analyzed in one language fall back to their
+ * only summary, so older rows (no `summaries`) keep showing their Vietnamese summary.
+ */
+export function getSummary(category: CategoryAnalysis, language: OutputLanguage): string | undefined {
+  return category?.summaries?.[language]?.trim() || category?.summary?.trim() || undefined;
+}
+
+/** keyTakeaway in the requested language, with the same fallback as getSummary. */
+export function getKeyTakeaway(row: ComparisonRow, language: OutputLanguage): string | undefined {
+  return row.keyTakeaways?.[language]?.trim() || row.keyTakeaway?.trim() || undefined;
+}
+
+/** ReviewList link showing only the reviews cited as evidence for a point, with the quotes highlighted. */
+export function getEvidenceLink(rowId: string, point: { text: string; evidence?: PointEvidence[] }): string | null {
+  if (!point.evidence?.length) return null;
+  const params = new URLSearchParams({ point: point.text, ids: point.evidence.map((e) => e.reviewId).join(',') });
+  point.evidence.forEach((e) => e.quote && params.append('q', e.quote));
+  return `/reviews/${rowId}?${params.toString()}`;
+}
@@ -2,12 +2,12 @@ import { SAMPLE_DATA_ANCHOR_DATE } from '../constants';
 import { parseCSV } from './csvParser';
 
 /**
- * Parses relative and absolute date strings into Date objects.
- * Handles: "3 weeks ago", ISO strings, Unix timestamp, dd/mm/yyyy, dd-mm-yyyy.
+ * Parses relative and absolute date strings into Date objects, or null when the string is not a date
+ * (empty, "n/a", …). Handles: "3 weeks ago", ISO strings, Unix timestamp, dd/mm/yyyy, dd-mm-yyyy.
  * @param dateStr - Raw date string from CSV
  * @param referenceDate - "Now" for relative dates; defaults to SAMPLE_DATA_ANCHOR_DATE for demo consistency
  */
-export const parseDate = (dateStr: string, referenceDate?: Date): Date => {
+export const tryParseDate = (dateStr: string, referenceDate?: Date): Date | null => {
   const now = referenceDate ?? new Date(SAMPLE_DATA_ANCHOR_DATE);
   const s = dateStr.trim();
   const lower = s.toLowerCase();
@@ -42,9 +42,13 @@ export const parseDate = (dateStr: string, referenceDate?: Date): Date => {
   const absoluteDate = new Date(s);
   if (!isNaN(absoluteDate.getTime())) return absoluteDate;
 
-  return now;
+  return null;
 };
 
+/** Like tryParseDate, but a string that is not a date counts as "now" (the reference date). */
+export const parseDate = (dateStr: string, referenceDate?: Date): Date =>
+  tryParseDate(dateStr, referenceDate) ?? referenceDate ?? new Date(SAMPLE_DATA_ANCHOR_DATE);
+
 const findHeaderRowIndex = (rows: string[][]): number => {
   for (let i = 0; i < Math.min(rows.length, 10); i++) {
     const lower = rows[i].map(c => c.toLowerCase()).join(' ');
@@ -1,5 +1,6 @@
 import { Review } from '../types';
 import { parseReviews } from './csvParser';
+import { getReviewId } from './reviewId';
 
 const escapeCsvCell = (value: string): string => {
   if (value == null) return '';
@@ -19,6 +20,18 @@ export const serializeReviews = (reviews: Review[]): string => {
   return [header, ...rows].join('\n');
 };
 
+/**
+ * Serialize Review[] with a leading stable `id` column, for prompts that must cite reviews.
+ * A precomputed `id` is kept as-is, so shortened copies of a review keep the original's id.
+ */
+export const serializeReviewsWithIds = (reviews: Array<Review & { id?: string }>): string => {
+  const header = 'id,author,date,content,rating,source';
+  const rows = reviews.map(r =>
+    [r.id ?? getReviewId(r), r.author, r.date, r.content, r.rating, r.source].map(escapeCsvCell).join(',')
+  );
+  return [header, ...rows].join('\n');
+};
+
 /** Normalize string for fingerprint: trim, lowercase, collapse whitespace */
 const normalize = (s: string): string =>
   (s || '').toLowerCase().trim().replace(/\s+/g, ' ');
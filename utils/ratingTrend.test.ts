@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { buildRatingTrend } from './ratingTrend';
+
+/** Wednesday 19 June 2024, noon local time. */
+const NOW = new Date(2024, 5, 19, 12);
+
+/** Reviews as CSV; dates are local days, written with a time so they do not parse as UTC midnight. */
+const csvOf = (reviews: Array<[date: string, rating: number]>) =>
+  ['author,date,content,rating,source', ...reviews.map(([date, rating], i) => `Author ${i},${date}T12:00:00,Review ${i},${rating},google`)].join(
+    '\n'
+  );
+
+describe('buildRatingTrend', () => {
+  it('buckets reviews by month, from the oldest review to the current month without gaps', () => {
+    const points = buildRatingTrend(
+      [{ id: 'a', csvContent: csvOf([['2024-03-05', 4], ['2024-03-20', 2], ['2024-05-02', 5]]) }],
+      'month',
+      NOW
+    );
+    expect(points.map((p) => p.period)).toEqual(['2024-03-01', '2024-04-01', '2024-05-01', '2024-06-01']);
+    expect(points.map((p) => p.reviews.a)).toEqual([2, 0, 1, 0]);
+    expect(points[0].ratings).toEqual({ a: 3 });
+    expect(points[1].ratings).toEqual({});
+    expect(points[1].conceptRating).toBeNull();
+  });
+
+  it('starts weeks on Monday', () => {
+    const points = buildRatingTrend([{ id: 'a', csvContent: csvOf([['2024-06-09', 5], ['2024-06-10', 3], ['2024-06-16', 4]]) }], 'week', NOW);
+    expect(points.map((p) => [p.period, p.reviews.a])).toEqual([
+      ['2024-06-03', 1],
+      ['2024-06-10', 2],
+      ['2024-06-17', 0],
+    ]);
+    expect(points[1].ratings.a).toBe(3.5);
+  });
+
+  it('weights the concept rating by reviews and averages the volume over all venues', () => {
+    const points = buildRatingTrend(
+      [
+        { id: 'a', csvContent: csvOf([['2024-06-03', 5], ['2024-06-04', 5], ['2024-06-05', 5]]) },
+        { id: 'b', csvContent: csvOf([['2024-06-06', 1]]) },
+        { id: 'c', csvContent: '' },
+      ],
+      'month',
+      NOW
+    );
+    expect(points).toHaveLength(1);
+    expect(points[0].ratings).toEqual({ a: 5, b: 1 });
+    expect(points[0].reviews).toEqual({ a: 3, b: 1, c: 0 });
+    expect(points[0].conceptRating).toBe(4);
+    expect(points[0].conceptReviews).toBeCloseTo(4 / 3);
+  });
+
+  it('counts unrated reviews towards volume only', () => {
+    const [point] = buildRatingTrend([{ id: 'a', csvContent: csvOf([['2024-06-03', 0], ['2024-06-04', 4]]) }], 'month', NOW);
+    expect(point.reviews.a).toBe(2);
+    expect(point.ratings.a).toBe(4);
+  });
+
+  it('leaves out reviews dated in the future or whose date does not parse', () => {
+    const csv = [
+      'author,date,content,rating,source',
+      'A,2024-06-03T12:00:00,Fine,4,google',
+      'B,2024-07-03T12:00:00,From the future,1,google',
+      'C,not a date,Unknown date,1,google',
+    ].join('\n');
+    const points = buildRatingTrend([{ id: 'a', csvContent: csv }], 'month', NOW);
+    expect(points).toHaveLength(1);
+    expect(points[0]).toMatchObject({ period: '2024-06-01', reviews: { a: 1 }, ratings: { a: 4 } });
+  });
+
+  it('resolves relative dates against now', () => {
+    const csv = 'author,date,content,rating,source\nA,2 weeks ago,Fine,4,google';
+    expect(buildRatingTrend([{ id: 'a', csvContent: csv }], 'week', NOW).map((p) => p.period)).toEqual([
+      '2024-06-03',
+      '2024-06-10',
+      '2024-06-17',
+    ]);
+  });
+
+  it('returns no points without reviews or venues', () => {
+    expect(buildRatingTrend([{ id: 'a', csvContent: '' }], 'month', NOW)).toEqual([]);
+    expect(buildRatingTrend([], 'week', NOW)).toEqual([]);
+  });
+});
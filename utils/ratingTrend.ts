@@ -0,0 +1,91 @@
+import { ComparisonMode } from '../types';
+import { parseReviews } from './csvParser';
+import { tryParseDate } from './csvFilter';
+
+/**
+ * Weekly or monthly average rating and review volume of venues over their whole review history,
+ * for the dashboard's trend charts. Periods run from the one of the oldest review to the current
+ * one without gaps, so a quiet week shows as 0 reviews instead of being skipped.
+ */
+
+export interface TrendPoint {
+  /** First day of the period (Monday of the week, or the 1st of the month), YYYY-MM-DD in local time. */
+  period: string;
+  /** Average rating per venue id; missing when the venue has no rated review in the period. */
+  ratings: Record<string, number>;
+  /** Reviews per venue id (0 when none). */
+  reviews: Record<string, number>;
+  /** Average rating of all the venues' rated reviews in the period together; null when there are none. */
+  conceptRating: number | null;
+  /** Reviews per venue, averaged over all the venues. */
+  conceptReviews: number;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** Start of the week (Monday) or month a date falls in, at local midnight. */
+const periodStart = (date: Date, granularity: ComparisonMode): Date =>
+  granularity === 'month'
+    ? new Date(date.getFullYear(), date.getMonth(), 1)
+    : new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+
+const nextPeriod = (start: Date, granularity: ComparisonMode): Date =>
+  granularity === 'month'
+    ? new Date(start.getFullYear(), start.getMonth() + 1, 1)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+
+/**
+ * Trend of the given venues; relative dates ("2 weeks ago") are resolved against `now`. Reviews dated
+ * after `now` or whose date does not parse are left out (the latter would inflate the current period).
+ * Reviews without a rating (0) count towards volume only.
+ */
+export function buildRatingTrend(
+  venues: Array<{ id: string; csvContent: string }>,
+  granularity: ComparisonMode,
+  now: Date = new Date()
+): TrendPoint[] {
+  const buckets = new Map<string, Map<string, { count: number; rated: number; sum: number }>>();
+  let oldest: Date | null = null;
+  for (const venue of venues) {
+    for (const review of parseReviews(venue.csvContent)) {
+      const date = tryParseDate(review.date, now);
+      if (!date || date > now) continue;
+      const key = toKey(periodStart(date, granularity));
+      const byVenue = buckets.get(key) ?? new Map();
+      const stats = byVenue.get(venue.id) ?? { count: 0, rated: 0, sum: 0 };
+      stats.count++;
+      if (review.rating > 0) {
+        stats.rated++;
+        stats.sum += review.rating;
+      }
+      byVenue.set(venue.id, stats);
+      buckets.set(key, byVenue);
+      if (!oldest || date < oldest) oldest = date;
+    }
+  }
+  if (!oldest || venues.length === 0) return [];
+
+  const points: TrendPoint[] = [];
+  const last = periodStart(now, granularity);
+  for (let start = periodStart(oldest, granularity); start <= last; start = nextPeriod(start, granularity)) {
+    const period = toKey(start);
+    const byVenue = buckets.get(period);
+    const point: TrendPoint = { period, ratings: {}, reviews: {}, conceptRating: null, conceptReviews: 0 };
+    let total = 0;
+    let rated = 0;
+    let sum = 0;
+    for (const venue of venues) {
+      const stats = byVenue?.get(venue.id);
+      point.reviews[venue.id] = stats?.count ?? 0;
+      if (stats && stats.rated > 0) point.ratings[venue.id] = stats.sum / stats.rated;
+      total += stats?.count ?? 0;
+      rated += stats?.rated ?? 0;
+      sum += stats?.sum ?? 0;
+    }
+    point.conceptRating = rated > 0 ? sum / rated : null;
+    point.conceptReviews = total / venues.length;
+    points.push(point);
+  }
+  return points;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { chunkReviews } from './reviewChunks';
+import { parseReviews } from './csvParser';
+import { serializeReviews } from './csvMerge';
+import { Review } from '../types';
+
+const review = (i: number, content = `Review number ${i} about the food`): Review => ({
+  author: `Author ${i}`,
+  date: '2024-03-01',
+  content,
+  rating: 4,
+  source: 'google',
+});
+
+describe('chunkReviews', () => {
+  it('keeps a small dataset in one chunk', () => {
+    const reviews = [review(1), review(2)];
+    expect(chunkReviews(reviews, 10000)).toEqual([{ csv: serializeReviews(reviews), reviewCount: 2 }]);
+  });
+
+  it('splits on review boundaries and keeps every review once, in order', () => {
+    const reviews = Array.from({ length: 40 }, (_, i) => review(i));
+    const chunks = chunkReviews(reviews, 300);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(chunk.csv.length).toBeLessThanOrEqual(300);
+    expect(chunks.reduce((sum, c) => sum + c.reviewCount, 0)).toBe(40);
+    const authors = chunks.flatMap((c) => parseReviews(c.csv).map((r) => r.author));
+    expect(authors).toEqual(reviews.map((r) => r.author));
+  });
+
+  it('shortens a review that does not fit on its own', () => {
+    const chunks = chunkReviews([review(1, 'word '.repeat(200))], 200);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].csv.length).toBeLessThanOrEqual(200);
+    expect(parseReviews(chunks[0].csv)[0].content.endsWith('...')).toBe(true);
+  });
+
+  it('returns no chunks for no reviews', () => {
+    expect(chunkReviews([], 1000)).toEqual([]);
+  });
+});
@@ -0,0 +1,46 @@
+import { Review } from '../types';
+import { serializeReviews } from './csvMerge';
+
+/** One prompt-sized slice of a dataset: a complete CSV (with header) and the number of reviews in it. */
+export interface ReviewChunk {
+  csv: string;
+  reviewCount: number;
+}
+
+/**
+ * Split reviews into CSV chunks of at most `maxChars`, never cutting a review in half.
+ * A single review longer than the budget gets its content shortened so it still fits on its own.
+ * @param serialize - CSV writer; defaults to the canonical format (author,date,content,rating,source)
+ */
+export const chunkReviews = (
+  reviews: Review[],
+  maxChars: number,
+  serialize: (reviews: Review[]) => string = serializeReviews
+): ReviewChunk[] => {
+  const headerLength = serialize([]).length + 1;
+  const chunks: ReviewChunk[] = [];
+  let current: Review[] = [];
+  let currentLength = headerLength;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({ csv: serialize(current), reviewCount: current.length });
+    current = [];
+    currentLength = headerLength;
+  };
+
+  for (const review of reviews) {
+    let row = review;
+    let rowLength = serialize([row]).length - headerLength + 2;
+    if (headerLength + rowLength > maxChars) {
+      const overflow = headerLength + rowLength - maxChars;
+      row = { ...review, content: review.content.slice(0, Math.max(0, review.content.length - overflow - 3)) + '...' };
+      rowLength = serialize([row]).length - headerLength + 2;
+    }
+    if (currentLength + rowLength > maxChars) flush();
+    current.push(row);
+    currentLength += rowLength;
+  }
+  flush();
+  return chunks;
+};
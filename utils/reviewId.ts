@@ -0,0 +1,21 @@
+import { Review } from '../types';
+
+/** 32-bit FNV-1a hash as 8 hex chars. */
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Stable identifier of a review: hash of author + content + rating, normalized the same way as
+ * the store's dedupe key (see utils/csvMerge.ts). It survives re-syncs, reordering and date
+ * updates, so SentimentPoint evidence keeps pointing at the right review.
+ */
+export const getReviewId = (review: Pick<Review, 'author' | 'content' | 'rating'>): string => {
+  const normalize = (s: string) => (s || '').toLowerCase().trim().replace(/\s+/g, ' ');
+  return `r${fnv1a(`${normalize(review.author)}|${normalize(review.content)}|${review.rating ?? ''}`)}`;
+};
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { detectSuspiciousReviews, IntegrityVenue, withoutReviews } from './reviewIntegrity';
+import { parseReviews } from './csvParser';
+import { getReviewId } from './reviewId';
+
+type Row = [author: string, date: string, content: string, rating: number];
+
+const csvOf = (rows: Row[]) =>
+  ['"author","commented_at","content","rating"', ...rows.map((row) => row.map((cell) => `"${cell}"`).join(','))].join('\n');
+
+/** Flags as "venue/author: signals", sorted, so expectations read like the data. */
+const describeFlags = (venues: IntegrityVenue[]) => {
+  const authorOf = new Map(
+    venues.flatMap((venue) => parseReviews(venue.csvContent).map((review) => [`${venue.id}|${getReviewId(review)}`, review.author]))
+  );
+  return detectSuspiciousReviews(venues)
+    .map((flag) => `${flag.venueId}/${authorOf.get(`${flag.venueId}|${flag.reviewId}`)}: ${flag.signals.join(',')}`)
+    .sort();
+};
+
+describe('detectSuspiciousReviews', () => {
+  it('flags the same or nearly the same text posted at another venue', () => {
+    const text = 'Siêu thị rất sạch sẽ, nhân viên nhiệt tình và thân thiện';
+    const venues = [
+      { id: 'a', csvContent: csvOf([['Lan', '2026-10-01', text, 5]]) },
+      { id: 'b', csvContent: csvOf([['Khoa', '2026-10-02', `${text}!`, 4]]) },
+    ];
+    expect(describeFlags(venues)).toEqual(['a/Lan: duplicate-text', 'b/Khoa: duplicate-text']);
+    expect(detectSuspiciousReviews(venues).find((flag) => flag.venueId === 'a')?.relatedVenueIds).toEqual(['b']);
+  });
+
+  it('flags a near-duplicate by another author at the same venue, but not short texts', () => {
+    const venues = [
+      {
+        id: 'a',
+        csvContent: csvOf([
+          ['Lan', '2026-10-01', 'Đồ ăn ngon giá cả hợp lý sẽ quay lại lần sau nữa', 5],
+          ['Minh', '2026-10-02', 'Đồ ăn ngon, giá cả hợp lý, sẽ quay lại lần sau nữa!!', 5],
+          ['Hoa', '2026-10-03', 'Rất tốt', 5],
+          ['Binh', '2026-10-04', 'Rất tốt', 5],
+        ]),
+      },
+    ];
+    expect(describeFlags(venues)).toEqual(['a/Lan: duplicate-text', 'a/Minh: duplicate-text']);
+  });
+
+  it('flags a burst of first-time authors within minutes, only when the dates carry a time', () => {
+    const burst: Row[] = [
+      ['Spam1', '2026-10-02 09:01:00', 'Good', 5],
+      ['Spam2', '2026-10-02 09:04:00', 'Nice', 5],
+      ['Spam3', '2026-10-02 09:09:00', 'Ok', 5],
+      ['Spam4', '2026-10-02 09:12:00', 'Great', 5],
+      ['Later', '2026-10-02 11:00:00', 'Fine', 4],
+    ];
+    expect(describeFlags([{ id: 'a', csvContent: csvOf(burst) }])).toEqual([
+      'a/Spam1: new-author-burst',
+      'a/Spam2: new-author-burst',
+      'a/Spam3: new-author-burst',
+      'a/Spam4: new-author-burst',
+    ]);
+    const dayOnly = burst.map(([author, , content, rating]): Row => [author, '2026-10-02', content, rating]);
+    expect(describeFlags([{ id: 'a', csvContent: csvOf(dayOnly) }])).toEqual([]);
+  });
+
+  it('flags ratings that contradict a clearly one-sided text', () => {
+    const venues = [
+      {
+        id: 'a',
+        csvContent: csvOf([
+          ['Mai', '2026-10-03', 'Tệ hại, thất vọng, nhân viên thô lỗ', 5],
+          ['Hung', '2026-10-03', 'Không ngon, không tốt chút nào', 2],
+          ['Tam', '2026-10-03', 'Tuyệt vời, rất ngon, phục vụ chu đáo', 1],
+          ['Vy', '2026-10-03', 'Ngon nhưng phục vụ kém', 4],
+        ]),
+      },
+    ];
+    expect(describeFlags(venues)).toEqual(['a/Mai: sentiment-mismatch', 'a/Tam: sentiment-mismatch']);
+  });
+
+  it('flags an author who gives competitors 1★ and our venues 5★', () => {
+    const venues = [
+      { id: 'a', csvContent: csvOf([['Troll', '2026-10-04', 'Best place', 5]]) },
+      { id: 'b', competitor: true, csvContent: csvOf([['Troll', '2026-10-04', 'Bad', 1]]) },
+      { id: 'c', competitor: true, csvContent: csvOf([['Troll', '2026-10-04', 'Bad too', 1]]) },
+    ];
+    expect(describeFlags(venues)).toEqual(['a/Troll: competitor-pattern', 'b/Troll: competitor-pattern', 'c/Troll: competitor-pattern']);
+    // One competitor is not a pattern
+    expect(describeFlags(venues.slice(0, 2))).toEqual([]);
+  });
+
+  it('never groups anonymous reviews by author', () => {
+    const venues = [
+      { id: 'a', csvContent: csvOf([['Anonymous', '2026-10-04', 'Best place', 5]]) },
+      { id: 'b', competitor: true, csvContent: csvOf([['Anonymous', '2026-10-04', 'Bad', 1]]) },
+      { id: 'c', competitor: true, csvContent: csvOf([['Anonymous', '2026-10-04', 'Bad too', 1]]) },
+    ];
+    expect(describeFlags(venues)).toEqual([]);
+  });
+});
+
+describe('withoutReviews', () => {
+  const csv = csvOf([
+    ['Lan', '2026-10-01', 'Rất tốt', 5],
+    ['Spam', '2026-10-02', 'Good', 5],
+  ]);
+
+  it('drops the given reviews and writes the canonical columns', () => {
+    const spamId = getReviewId(parseReviews(csv)[1]);
+    expect(withoutReviews(csv, new Set([spamId]))).toBe('author,date,content,rating,source\nLan,2026-10-01,Rất tốt,5,google');
+  });
+
+  it('returns the CSV unchanged when there is nothing to drop', () => {
+    expect(withoutReviews(csv, new Set())).toBe(csv);
+  });
+});
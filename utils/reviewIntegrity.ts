@@ -0,0 +1,217 @@
+import { IntegritySignal, Review, ReviewFlag } from '../types';
+import { parseReviews } from './csvParser';
+import { parseDate } from './csvFilter';
+import { serializeReviews } from './csvMerge';
+import { getReviewId } from './reviewId';
+import { normalizeForMatch } from './textNormalize';
+
+/**
+ * Likely spam or fake reviews, without a model. mergeReviewsInCsv only drops exact repeats (same
+ * author, text and rating at one venue); this looks at the reviews of every venue together:
+ * - 'duplicate-text': (nearly) the same text posted at another venue or by another author
+ * - 'new-author-burst': several reviews from first-time authors within minutes at one venue
+ * - 'sentiment-mismatch': a high rating on a clearly negative text, or a low one on a clearly positive text
+ * - 'competitor-pattern': an author who gives every competitor 1★ and our venues 5★
+ * A flag is a reason to take a second look, not proof.
+ */
+
+/** Texts shorter than this (in words) are too generic ("Rất tốt") to count as duplicates. */
+const MIN_DUPLICATE_WORDS = 6;
+const SHINGLE_WORDS = 3;
+/** Jaccard similarity of the word shingles from which two texts are near-duplicates. */
+const DUPLICATE_SIMILARITY = 0.8;
+/** Shingles used by more reviews than this are stock phrases and are not compared. */
+const MAX_SHINGLE_REVIEWS = 50;
+const BURST_MINUTES = 15;
+/** Reviews from first-time authors within BURST_MINUTES that make a burst. */
+const BURST_SIZE = 4;
+/** Competitors an author must have rated (all 1★) for 'competitor-pattern'. */
+const MIN_COMPETITORS = 2;
+
+/** Folded phrases that mark a text as clearly positive or negative. */
+const POSITIVE_PHRASES = [
+  'tuyet voi', 'xuat sac', 'rat ngon', 'ngon', 'tot', 'hai long', 'nhiet tinh', 'than thien', 'sach se', 'chu dao',
+  'se quay lai', 'great', 'excellent', 'amazing', 'delicious', 'friendly', 'wonderful', 'perfect', 'good',
+  'highly recommend', 'love it', 'loved',
+].map((phrase) => phrase.split(' '));
+const NEGATIVE_PHRASES = [
+  'toi te', 'te hai', 'qua te', 'that vong', 'lua dao', 'ngo doc', 'het han', 'mat ve sinh', 'kem chat luong',
+  'thai do kem', 'phuc vu kem', 'khong bao gio quay lai', 'terrible', 'awful', 'horrible', 'worst', 'rude', 'dirty',
+  'disappointed', 'disappointing', 'never again', 'scam', 'expired', 'food poisoning',
+].map((phrase) => phrase.split(' '));
+/** A positive phrase right after one of these (within two words) counts as negative: "không ngon", "not good". */
+const NEGATIONS = new Set(['khong', 'ko', 'chua', 'chang', 'not', 'never', 'no']);
+/** Phrase hits of one kind a text needs, with none of the other kind, to count as clearly one-sided. */
+const MIN_SENTIMENT_HITS = 2;
+
+/** Review input of one venue; `competitor` as on the venue. */
+export interface IntegrityVenue {
+  id: string;
+  competitor?: boolean;
+  csvContent: string;
+}
+
+interface Entry {
+  venueId: string;
+  competitor: boolean;
+  review: Review;
+  reviewId: string;
+  /** Folded author; empty for anonymous reviews, which are never grouped by author. */
+  author: string;
+  words: string[];
+}
+
+type Flag = (entry: Entry, signal: IntegritySignal, relatedVenueId?: string) => void;
+
+const isDuplicatePair = (a: Entry, b: Entry) => a.venueId !== b.venueId || a.author !== b.author || !a.author;
+
+const shinglesOf = (words: string[]): Set<string> => {
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) shingles.add(words.slice(i, i + SHINGLE_WORDS).join(' '));
+  return shingles;
+};
+
+/** Identical texts, then near-identical ones (shared word shingles, via an inverted index). */
+const findDuplicates = (entries: Entry[], flag: Flag) => {
+  const candidates = entries.filter((entry) => entry.words.length >= MIN_DUPLICATE_WORDS);
+  const flagPair = (a: Entry, b: Entry) => {
+    if (!isDuplicatePair(a, b)) return;
+    flag(a, 'duplicate-text', b.venueId !== a.venueId ? b.venueId : undefined);
+    flag(b, 'duplicate-text', a.venueId !== b.venueId ? a.venueId : undefined);
+  };
+
+  const byText = new Map<string, Entry[]>();
+  for (const entry of candidates) {
+    const text = entry.words.join(' ');
+    byText.set(text, [...(byText.get(text) ?? []), entry]);
+  }
+  const unique: Entry[] = [];
+  byText.forEach((group) => {
+    unique.push(group[0]);
+    for (let i = 0; i < group.length; i++) for (let j = i + 1; j < group.length; j++) flagPair(group[i], group[j]);
+  });
+
+  const shingles = unique.map((entry) => shinglesOf(entry.words));
+  const index = new Map<string, number[]>();
+  shingles.forEach((set, i) => set.forEach((shingle) => index.set(shingle, [...(index.get(shingle) ?? []), i])));
+  shingles.forEach((set, i) => {
+    const shared = new Map<number, number>();
+    set.forEach((shingle) => {
+      const postings = index.get(shingle)!;
+      if (postings.length > MAX_SHINGLE_REVIEWS) return;
+      for (const j of postings) if (j > i) shared.set(j, (shared.get(j) ?? 0) + 1);
+    });
+    shared.forEach((count, j) => {
+      if (count / (set.size + shingles[j].size - count) < DUPLICATE_SIMILARITY) return;
+      // Every copy of both texts is part of the pair
+      for (const a of byText.get(unique[i].words.join(' '))!) for (const b of byText.get(unique[j].words.join(' '))!) flagPair(a, b);
+    });
+  });
+};
+
+/** Whether a review's date has a time of day ("2026-03-01 14:05"), not just a day (midnight) or "2 weeks ago". */
+const hasClockTime = (date: string) => {
+  if (/^\d{10}$/.test(date.trim())) return true;
+  const time = date.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  return !!time && time.slice(1).some((part) => Number(part ?? 0) > 0);
+};
+
+/** BURST_SIZE or more reviews from first-time authors within BURST_MINUTES at one venue. */
+const findBursts = (entries: Entry[], flag: Flag) => {
+  const reviewsPerAuthor = new Map<string, number>();
+  entries.forEach((entry) => entry.author && reviewsPerAuthor.set(entry.author, (reviewsPerAuthor.get(entry.author) ?? 0) + 1));
+  const byVenue = new Map<string, Array<{ entry: Entry; time: number }>>();
+  for (const entry of entries) {
+    if (!entry.author || reviewsPerAuthor.get(entry.author) !== 1 || !hasClockTime(entry.review.date)) continue;
+    const list = byVenue.get(entry.venueId) ?? [];
+    list.push({ entry, time: parseDate(entry.review.date).getTime() });
+    byVenue.set(entry.venueId, list);
+  }
+  byVenue.forEach((list) => {
+    list.sort((a, b) => a.time - b.time);
+    let end = 0;
+    for (let start = 0; start < list.length; start++) {
+      end = Math.max(end, start);
+      while (end + 1 < list.length && list[end + 1].time - list[start].time <= BURST_MINUTES * 60 * 1000) end++;
+      if (end - start + 1 >= BURST_SIZE) list.slice(start, end + 1).forEach(({ entry }) => flag(entry, 'new-author-burst'));
+    }
+  });
+};
+
+/** Positive and negative phrase hits of a text; a negated positive phrase counts as negative. */
+const countSentiment = (words: string[]) => {
+  let positive = 0;
+  let negative = 0;
+  const matchAt = (phrases: string[][], i: number) =>
+    phrases.filter((p) => p.every((word, k) => words[i + k] === word)).sort((a, b) => b.length - a.length)[0];
+  for (let i = 0; i < words.length; ) {
+    const bad = matchAt(NEGATIVE_PHRASES, i);
+    const good = bad ? undefined : matchAt(POSITIVE_PHRASES, i);
+    if (bad) negative++;
+    else if (good && (NEGATIONS.has(words[i - 1]) || NEGATIONS.has(words[i - 2]))) negative++;
+    else if (good) positive++;
+    i += (bad ?? good)?.length ?? 1;
+  }
+  return { positive, negative };
+};
+
+const findMismatches = (entries: Entry[], flag: Flag) => {
+  for (const entry of entries) {
+    const { rating } = entry.review;
+    if (rating === 0 || rating === 3) continue;
+    const { positive, negative } = countSentiment(entry.words);
+    if (rating >= 4 && negative >= MIN_SENTIMENT_HITS && positive === 0) flag(entry, 'sentiment-mismatch');
+    if (rating <= 2 && positive >= MIN_SENTIMENT_HITS && negative === 0) flag(entry, 'sentiment-mismatch');
+  }
+};
+
+/** Authors who rated at least MIN_COMPETITORS competitors, all 1★, and our venues, all 5★. */
+const findCompetitorPatterns = (entries: Entry[], flag: Flag) => {
+  const byAuthor = new Map<string, Entry[]>();
+  entries.forEach((entry) => entry.author && byAuthor.set(entry.author, [...(byAuthor.get(entry.author) ?? []), entry]));
+  byAuthor.forEach((reviews) => {
+    const competitors = reviews.filter((entry) => entry.competitor);
+    const own = reviews.filter((entry) => !entry.competitor);
+    if (new Set(competitors.map((entry) => entry.venueId)).size < MIN_COMPETITORS || own.length === 0) return;
+    if (competitors.every((entry) => entry.review.rating === 1) && own.every((entry) => entry.review.rating === 5)) {
+      reviews.forEach((entry) => flag(entry, 'competitor-pattern'));
+    }
+  });
+};
+
+/** Flagged reviews of all the given venues (reviews of unlisted venues are not compared against). */
+export const detectSuspiciousReviews = (venues: IntegrityVenue[]): ReviewFlag[] => {
+  const entries: Entry[] = venues.flatMap((venue) =>
+    parseReviews(venue.csvContent).map((review) => {
+      const author = normalizeForMatch(review.author);
+      return {
+        venueId: venue.id,
+        competitor: venue.competitor === true,
+        review,
+        reviewId: getReviewId(review),
+        author: author === 'anonymous' ? '' : author,
+        words: normalizeForMatch(review.content).split(' ').filter(Boolean),
+      };
+    })
+  );
+
+  const flags = new Map<string, ReviewFlag>();
+  const flag: Flag = (entry, signal, relatedVenueId) => {
+    const key = `${entry.venueId}|${entry.reviewId}`;
+    const current = flags.get(key) ?? { venueId: entry.venueId, reviewId: entry.reviewId, signals: [] };
+    if (!current.signals.includes(signal)) current.signals.push(signal);
+    if (relatedVenueId && !current.relatedVenueIds?.includes(relatedVenueId)) {
+      current.relatedVenueIds = [...(current.relatedVenueIds ?? []), relatedVenueId];
+    }
+    flags.set(key, current);
+  };
+  findDuplicates(entries, flag);
+  findBursts(entries, flag);
+  findMismatches(entries, flag);
+  findCompetitorPatterns(entries, flag);
+  return [...flags.values()];
+};
+
+/** A venue's CSV without the given reviews (by review id), in the canonical column layout. */
+export const withoutReviews = (csvContent: string, reviewIds: ReadonlySet<string>): string =>
+  reviewIds.size === 0 ? csvContent : serializeReviews(parseReviews(csvContent).filter((review) => !reviewIds.has(getReviewId(review))));
@@ -1,31 +1,39 @@
 import type { RawReviewData, TimeFilter } from '../types';
 import { filterCsvByTime } from './csvFilter';
 import { parseReviews } from './csvParser';
+import { getReviewId } from './reviewId';
 
-export function getReviewCount(
+/** Reviews of a dataset in the period, without those whose review id is in `excludedReviewIds`. */
+function getReviewsInPeriod(
   datasetId: string,
   rawDatasets: RawReviewData[],
-  timeFilter: TimeFilter
-): number {
+  timeFilter: TimeFilter,
+  excludedReviewIds?: ReadonlySet<string>
+) {
   const ds = rawDatasets.find((d) => d.id === datasetId);
-  if (!ds?.csvContent) return 0;
+  if (!ds?.csvContent) return [];
   const months = timeFilter === 'all' ? 'all' : parseFloat(timeFilter);
-  const filtered = filterCsvByTime(ds.csvContent, months);
-  const reviews = parseReviews(filtered);
-  return reviews.length;
+  const reviews = parseReviews(filterCsvByTime(ds.csvContent, months));
+  return excludedReviewIds?.size ? reviews.filter((r) => !excludedReviewIds.has(getReviewId(r))) : reviews;
+}
+
+export function getReviewCount(
+  datasetId: string,
+  rawDatasets: RawReviewData[],
+  timeFilter: TimeFilter,
+  excludedReviewIds?: ReadonlySet<string>
+): number {
+  return getReviewsInPeriod(datasetId, rawDatasets, timeFilter, excludedReviewIds).length;
 }
 
-/** Average rating from raw reviews in the period. Returns 0 if no reviews. */
+/** Average rating from raw reviews in the period (optionally leaving out flagged reviews). Returns 0 if no reviews. */
 export function getAverageRatingFromRaw(
   datasetId: string,
   rawDatasets: RawReviewData[],
-  timeFilter: TimeFilter
+  timeFilter: TimeFilter,
+  excludedReviewIds?: ReadonlySet<string>
 ): number {
-  const ds = rawDatasets.find((d) => d.id === datasetId);
-  if (!ds?.csvContent) return 0;
-  const months = timeFilter === 'all' ? 'all' : parseFloat(timeFilter);
-  const filtered = filterCsvByTime(ds.csvContent, months);
-  const reviews = parseReviews(filtered);
+  const reviews = getReviewsInPeriod(datasetId, rawDatasets, timeFilter, excludedReviewIds);
   if (reviews.length === 0) return 0;
   const sum = reviews.reduce((s, r) => s + (typeof r.rating === 'number' ? r.rating : 0), 0);
   return sum / reviews.length;
@@ -0,0 +1,194 @@
+import { Review, ReviewTopics, TopicTerm } from '../types';
+import { foldDiacritics } from './textNormalize';
+
+/**
+ * Keyword and topic extraction for Vietnamese and English reviews, without a model. Text is
+ * tokenized into syllables/words and folded (see foldDiacritics), so "nhân viên" and "nhan vien"
+ * are the same term; chat spellings ("ko", "dc", "nv") are expanded, stopwords are dropped and
+ * adjacent words form bigrams (most Vietnamese words are two syllables). Terms are then scored
+ * for how typical they are of positive (4-5★) vs. negative (1-2★) reviews.
+ */
+
+/** Folded function words of both languages. Words whose folded form is also a content word (đồ/do, ăn/an, chờ/cho, nhạt/nhất, vị/vì) are left out. */
+const STOPWORDS = new Set([
+  // Vietnamese
+  'va', 'la', 'cua', 'co', 'cac', 'nhung', 'voi', 'thi', 'ma', 'nay', 'den', 'tu', 'trong', 'vao',
+  'duoc', 'bi', 'rat', 'qua', 'lam', 'nhieu', 'con', 'mot', 'se', 'nen', 'neu', 'khi', 'nhu', 'tai',
+  'theo', 'hay', 'hoac', 'toi', 'minh', 'em', 'anh', 'chi', 'ho', 'chung', 'ta', 'ay', 'kia', 'day',
+  'nua', 'lan', 'nao', 'gi', 'sao', 'the', 'vay', 'roi', 'nhe', 'oi', 'ne', 'thay', 'moi', 'van',
+  'hon', 'luon', 'deu', 'tat', 'cai', 'chiec', 'su', 'kha', 'hoi', 'cuc', 'ky', 'nhi', 'ok', 'oke',
+  // English
+  'the', 'and', 'of', 'for', 'with', 'is', 'are', 'was', 'were', 'be', 'been', 'it', 'its', 'this',
+  'that', 'they', 'there', 'we', 'our', 'my', 'me', 'you', 'your', 'he', 'she', 'but', 'or', 'so',
+  'very', 'really', 'too', 'just', 'also', 'had', 'has', 'have', 'did', 'as', 'by', 'from', 'all',
+  'some', 'any', 'more', 'most', 'quite', 'here', 'would', 'will', 'could', 'if', 'then', 'than',
+  'which', 'what', 'when', 'one', 'at', 'in',
+]);
+
+/** Negations never stand alone as a term but start bigrams ("không ngon", "not fresh"). */
+const NEGATIONS = new Set(['khong', 'chua', 'chang', 'not', 'no', 'never']);
+
+/** Chat spellings, folded, expanded to the words they stand for. */
+const SHORTHANDS: Record<string, string[]> = {
+  ko: ['khong'],
+  k: ['khong'],
+  kg: ['khong'],
+  kh: ['khong'],
+  hok: ['khong'],
+  hong: ['khong'],
+  dc: ['duoc'],
+  nv: ['nhan', 'vien'],
+  sp: ['san', 'pham'],
+};
+
+/** Terms kept per sentiment. */
+const MAX_TERMS = 10;
+/** Reviews that must mention a term before it is listed. */
+const MIN_REVIEWS = 2;
+/** A unigram is skipped when a listed bigram containing it covers this share of its reviews ("nhân" under "nhân viên"). */
+const BIGRAM_COVERAGE = 0.6;
+
+interface Token {
+  key: string;
+  surface: string;
+}
+
+/** Words of a text in order, folded (`key`) and as written in lower case (`surface`), with shorthands expanded. */
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const word of String(text || '').toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (!word || /^\d+$/.test(word)) continue;
+    const key = foldDiacritics(word);
+    const expanded = SHORTHANDS[key];
+    if (expanded) expanded.forEach((part) => tokens.push({ key: part, surface: part }));
+    else tokens.push({ key, surface: word });
+  }
+  return tokens;
+};
+
+/** Unigram and bigram terms of a text with their written forms; stopwords end a bigram run. */
+const extractTerms = (text: string): Map<string, string> => {
+  const terms = new Map<string, string>();
+  let previous: Token | null = null;
+  for (const token of tokenize(text)) {
+    if (STOPWORDS.has(token.key) || token.key.length < 2) {
+      previous = null;
+      continue;
+    }
+    if (!NEGATIONS.has(token.key)) {
+      if (!terms.has(token.key)) terms.set(token.key, token.surface);
+      if (previous) terms.set(`${previous.key} ${token.key}`, `${previous.surface} ${token.surface}`);
+    }
+    previous = token;
+  }
+  return terms;
+};
+
+/** Folded terms (unigrams and bigrams) of a review's text; `term` of a TopicTerm is one of them. */
+export const getReviewTerms = (content: string): Set<string> => new Set(extractTerms(content).keys());
+
+/** Whether a review mentions a term (as written, with or without diacritics). */
+export const reviewHasTerm = (review: Pick<Review, 'content'>, term: string): boolean =>
+  getReviewTerms(review.content).has(term);
+
+const isPositive = (review: Review) => review.rating >= 4;
+const isNegative = (review: Review) => review.rating > 0 && review.rating <= 2;
+
+/**
+ * Terms typical of one group: review count in the group times how much larger the share of the
+ * group's reviews using it is than that of the other group's, so words both groups use score ~0.
+ */
+const scoreTerms = (
+  counts: Map<string, number>,
+  otherCounts: Map<string, number>,
+  groupSize: number,
+  otherSize: number,
+  labels: Map<string, Map<string, number>>
+): TopicTerm[] => {
+  const candidates: TopicTerm[] = [];
+  counts.forEach((count, term) => {
+    if (count < MIN_REVIEWS) return;
+    const otherShare = otherSize > 0 ? (otherCounts.get(term) ?? 0) / otherSize : 0;
+    const score = count * (count / groupSize - otherShare);
+    if (score <= 0) return;
+    candidates.push({ term, label: mostFrequent(labels.get(term)) ?? term, reviewCount: count, score: Math.round(score * 100) / 100 });
+  });
+  const words = (term: string) => term.split(' ');
+  // Ties go to the bigram, so "nhân viên" is listed and "nhân" skipped as covered
+  candidates.sort(
+    (a, b) =>
+      b.score - a.score ||
+      b.reviewCount - a.reviewCount ||
+      words(b.term).length - words(a.term).length ||
+      a.term.localeCompare(b.term)
+  );
+
+  /** "viên thái" in "nhân viên thái độ": a bigram across two words that are at least as frequent. */
+  const isBridge = (bigram: string, count: number) => {
+    const [first, second] = words(bigram);
+    let before = false;
+    let after = false;
+    counts.forEach((other, term) => {
+      const [a, b] = words(term);
+      if (b === undefined || term === bigram || other < count) return;
+      if (b === first) before = true;
+      if (a === second) after = true;
+    });
+    return before && after;
+  };
+
+  const picked: TopicTerm[] = [];
+  for (const candidate of candidates) {
+    if (picked.length >= MAX_TERMS) break;
+    const skip =
+      words(candidate.term).length === 2
+        ? isBridge(candidate.term, candidate.reviewCount)
+        : picked.some((p) => words(p.term).includes(candidate.term) && p.reviewCount >= candidate.reviewCount * BIGRAM_COVERAGE);
+    if (!skip) picked.push(candidate);
+  }
+  return picked;
+};
+
+const mostFrequent = (forms: Map<string, number> | undefined): string | undefined => {
+  let best: string | undefined;
+  let bestCount = 0;
+  forms?.forEach((count, form) => {
+    if (count > bestCount) {
+      best = form;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Top terms of positive and of negative reviews. Each term counts once per review; its `label`
+ * is the spelling most reviews use (usually the one with diacritics).
+ */
+export const extractTopics = (reviews: Review[]): ReviewTopics => {
+  const positive = new Map<string, number>();
+  const negative = new Map<string, number>();
+  const labels = new Map<string, Map<string, number>>();
+  let positiveCount = 0;
+  let negativeCount = 0;
+
+  for (const review of reviews) {
+    const group = isPositive(review) ? positive : isNegative(review) ? negative : null;
+    if (!group) continue;
+    if (group === positive) positiveCount++;
+    else negativeCount++;
+    extractTerms(review.content).forEach((surface, term) => {
+      group.set(term, (group.get(term) ?? 0) + 1);
+      const forms = labels.get(term) ?? new Map<string, number>();
+      forms.set(surface, (forms.get(surface) ?? 0) + 1);
+      labels.set(term, forms);
+    });
+  }
+
+  return {
+    positive: scoreTerms(positive, negative, positiveCount, negativeCount, labels),
+    negative: scoreTerms(negative, positive, negativeCount, positiveCount, labels),
+    positiveReviews: positiveCount,
+    negativeReviews: negativeCount,
+  };
+};
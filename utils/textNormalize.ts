@@ -0,0 +1,35 @@
+/**
+ * Lowercase and strip Vietnamese diacritics ("Phục vụ" → "phuc vu"), so accented and
+ * unaccented spellings of the same word compare equal.
+ */
+export const foldDiacritics = (text: string): string =>
+  String(text || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd');
+
+/** foldDiacritics plus punctuation removed and whitespace collapsed; words separated by single spaces. */
+export const normalizeForMatch = (text: string): string =>
+  foldDiacritics(text).replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Position of `needle` in `text`, ignoring case and diacritics; indices refer to the original
+ * `text`, so the match can be highlighted. Returns null when there is no match.
+ */
+export const findFolded = (text: string, needle: string): { start: number; end: number } | null => {
+  const target = foldDiacritics(needle).trim();
+  if (!target) return null;
+  let folded = '';
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const f = foldDiacritics(text[i]);
+    for (const ch of f) {
+      folded += ch;
+      origin.push(i);
+    }
+  }
+  const at = folded.indexOf(target);
+  if (at < 0) return null;
+  return { start: origin[at], end: origin[at + target.length - 1] + 1 };
+};